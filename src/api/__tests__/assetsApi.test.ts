@@ -0,0 +1,67 @@
+import { createAssetsApi } from '../assetsApi';
+
+class TestResponse {
+  status: number;
+  statusText = '';
+  ok: boolean;
+  headers: { get: (name: string) => string | null };
+
+  constructor(private readonly body: string | Blob, init: { status: number; contentType?: string }) {
+    this.status = init.status;
+    this.ok = init.status >= 200 && init.status < 300;
+    this.headers = { get: (name) => (name.toLowerCase() === 'content-type' ? init.contentType ?? null : null) };
+  }
+
+  async json(): Promise<any> {
+    return JSON.parse(this.body as string);
+  }
+
+  async text(): Promise<string> {
+    return typeof this.body === 'string' ? this.body : '';
+  }
+
+  async blob(): Promise<Blob> {
+    return this.body as Blob;
+  }
+}
+
+describe('assets API', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('uploads raw image bytes and downloads them as a blob', async () => {
+    const image = new Blob(['png-bytes'], { type: 'image/png' });
+    const calls: Array<{ url: string; init?: RequestInit }> = [];
+    const responses = [
+      new TestResponse(
+        JSON.stringify({ id: 'asset-1', boardId: 'b 1', contentType: 'image/png', byteSize: 9, createdAt: '2026-03-01T10:00:00Z' }),
+        { status: 201, contentType: 'application/json' }
+      ),
+      new TestResponse(image, { status: 200, contentType: 'image/png' }),
+    ];
+    globalThis.fetch = jest.fn(async (url: RequestInfo | URL, init?: RequestInit) => {
+      calls.push({ url: String(url), init });
+      return responses.shift() as any;
+    }) as any;
+
+    const api = createAssetsApi({ baseUrl: 'http://localhost:8080/api', accessToken: 'token-123' });
+    await expect(api.upload('b 1', image)).resolves.toEqual({
+      id: 'asset-1',
+      boardId: 'b 1',
+      contentType: 'image/png',
+      byteSize: 9,
+      createdAt: '2026-03-01T10:00:00Z',
+    });
+    await expect(api.download('b 1', 'asset-1')).resolves.toBe(image);
+
+    expect(calls[0].url).toBe('http://localhost:8080/api/boards/b%201/assets');
+    expect(calls[0].init?.method).toBe('POST');
+    expect(calls[0].init?.body).toBe(image);
+    expect(calls[0].init?.headers).toMatchObject({ 'Content-Type': 'image/png', Authorization: 'Bearer token-123' });
+    expect(calls[1].url).toBe('http://localhost:8080/api/boards/b%201/assets/asset-1');
+    expect(calls[1].init?.method).toBe('GET');
+  });
+});
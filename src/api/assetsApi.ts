@@ -0,0 +1,49 @@
+import { getAccessToken } from '../auth/oidc';
+import { getApiBaseUrl } from '../config/server';
+import { createHttpClient } from './httpClient';
+import type { ServerBoardAssetResponse } from './javaWhiteboardServerContract';
+
+export type BoardAsset = {
+  id: string;
+  boardId: string;
+  contentType: string;
+  byteSize: number;
+  createdAt: string;
+};
+
+function mapAsset(value: ServerBoardAssetResponse): BoardAsset {
+  return {
+    id: String(value.id),
+    boardId: String(value.boardId),
+    contentType: String(value.contentType ?? ''),
+    byteSize: Number(value.byteSize ?? 0),
+    createdAt: String(value.createdAt),
+  };
+}
+
+/**
+ * Board assets (image bytes), available when the server advertises `board-assets`.
+ */
+export function createAssetsApi(args: { baseUrl: string; accessToken?: string | null } | undefined = undefined) {
+  const client = createHttpClient({
+    baseUrl: args?.baseUrl ?? getApiBaseUrl()!,
+    getAccessToken: () => args?.accessToken ?? getAccessToken(),
+  });
+
+  return {
+    async upload(boardId: string, blob: Blob): Promise<BoardAsset> {
+      const res = await client.post<ServerBoardAssetResponse>(`/boards/${encodeURIComponent(boardId)}/assets`, {
+        headers: { 'Content-Type': blob.type || 'application/octet-stream' },
+        body: blob,
+      });
+      return mapAsset(res);
+    },
+
+    async download(boardId: string, assetId: string): Promise<Blob> {
+      return client.get<Blob>(`/boards/${encodeURIComponent(boardId)}/assets/${encodeURIComponent(assetId)}`, {
+        headers: { Accept: '*/*' },
+        responseType: 'blob',
+      });
+    },
+  };
+}
@@ -35,6 +35,8 @@ export type RequestArgs = {
   json?: JsonValue;
   /** Raw body – used as-is (no Content-Type changes) */
   body?: BodyInit | null;
+  /** Read a successful response as a Blob (e.g. image bytes) instead of JSON/text. */
+  responseType?: 'blob';
   signal?: AbortSignal;
 };
 
@@ -117,6 +119,7 @@ export function createHttpClient(args: CreateHttpClientArgs): HttpClient {
 
     // Allow callers to use request<void>() for endpoints with no body.
     if (res.status === 204) return undefined as T;
+    if (req.responseType === 'blob') return (await res.blob()) as T;
     const data = await readBody(res);
     return data as T;
   }
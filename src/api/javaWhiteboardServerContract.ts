@@ -247,6 +247,15 @@ export type ResolvePublicationRequest = {
   token: string;
 };
 
+/** Upload: raw image bytes as the POST body, with the image's Content-Type. */
+export type ServerBoardAssetResponse = {
+  id: string;
+  boardId: string;
+  contentType: string;
+  byteSize: number;
+  createdAt: string;
+};
+
 export type ServerCapabilitiesResponse = {
   apiVersion: string;
   wsProtocolVersion: string;
@@ -333,7 +342,7 @@ export type WsEphemeralMessage = {
   boardId: string;
   connectionId?: string | null;
   from: string;
-  eventType: 'cursor' | 'viewport' | 'follow' | 'presence-meta' | 'reaction' | 'timer-control' | 'timer-state';
+  eventType: 'cursor' | 'viewport' | 'follow' | 'presence-meta' | 'reaction' | 'laser' | 'timer-control' | 'timer-state';
   payload: JsonValue;
   cleared?: boolean;
 };
@@ -181,3 +181,22 @@ test('normalizes lowercase joined roles without changing present-user fallback f
     }
   }
 });
+
+test('accepts object rotation in range and rejects out-of-range values', () => {
+  const opWith = (object: Record<string, unknown>) => ({
+    type: 'op',
+    clientOpId: 'client-op-rot',
+    baseSeq: 0,
+    op: {
+      id: 'event-rot',
+      boardId: 'board-1',
+      type: 'objectCreated',
+      timestamp: new Date().toISOString(),
+      payload: { object: { id: 'obj-rot', type: 'rectangle', x: 0, y: 0, width: 10, height: 10, ...object } },
+    },
+  });
+
+  expect(validateClientToServerMessage(opWith({ rotation: 45 }) as any).ok).toBe(true);
+  expect(validateClientToServerMessage(opWith({ rotation: 720 }) as any).ok).toBe(false);
+  expect(validateClientToServerMessage(opWith({ rotation: '45' }) as any).ok).toBe(false);
+});
@@ -26,6 +26,11 @@ export const MAX_SELECTION_IDS = 200;
 
 // Content-ish limits (these are *protocol* limits; domain may be stricter later).
 export const MAX_TEXT_CHARS = 10_000;
+// Rich text: formatting runs across all lines of one object, and the length of a link URL.
+export const MAX_TEXT_RUNS = 2_000;
+export const MAX_LINK_CHARS = 2_048;
+// Labels on one line or connector, besides its `text`.
+export const MAX_PATH_LABELS = 20;
 
 // Freehand strokes can get large quickly; keep it high enough for real use but bounded.
 // Note: MAX_MESSAGE_BYTES will usually be the limiting factor.
@@ -1,4 +1,6 @@
 import type { BoardEvent } from '../../../domain';
+import { isBoardBackground, isValidGridSize } from '../../../domain/boardSettings';
+import { isZOrderDirection } from '../../../domain/zOrder';
 import {
   MAX_BOARD_ID_CHARS,
   MAX_CLIENT_OP_ID_CHARS,
@@ -8,9 +10,112 @@ import {
   MAX_TEXT_CHARS,
 } from '../limits';
 import { isNumber, isRecord, isString, optionalWithinChars, withinChars } from './helpers';
-import { validateConnectorEnd, validatePointsArray, validateWhiteboardObject } from './objectValidation';
+import {
+  isConnectorRouting,
+  isOpacity,
+  isPathT,
+  isStrokeDash,
+  isTextAlign,
+  isTextFit,
+  isTextVerticalAlign,
+  validateConnectorEnd,
+  validatePathLabels,
+  validatePointsArray,
+  validatePressuresArray,
+  validateRichText,
+  validateWhiteboardObject,
+} from './objectValidation';
 import type { ValidationResult } from './types';
 
+/** objectId + patch of an object update (`label` is the path used in error messages). */
+function validateObjectUpdate(payload: Record<string, unknown>, label: string): ValidationResult<null> {
+  if (!isString(payload.objectId) || !withinChars(payload.objectId, MAX_OBJECT_ID_CHARS)) {
+    return { ok: false, error: `${label}.objectId must be a short string` };
+  }
+  if (!isRecord(payload.patch)) return { ok: false, error: `${label}.patch must be an object` };
+
+  const p = payload.patch as Record<string, unknown>;
+  if (p.text !== undefined) {
+    if (!isString(p.text)) return { ok: false, error: `${label}.patch.text must be a string` };
+    if (p.text.length > MAX_TEXT_CHARS) return { ok: false, error: `${label}.patch.text too long (max ${MAX_TEXT_CHARS})` };
+  }
+  if (p.richText !== undefined) {
+    const rr = validateRichText(p.richText, `${label}.patch.richText`);
+    if (!rr.ok) return rr;
+  }
+  if (p.labelT !== undefined && !isPathT(p.labelT)) return { ok: false, error: `${label}.patch.labelT must be 0..1` };
+  if (p.labels !== undefined) {
+    const lr = validatePathLabels(p.labels, `${label}.patch.labels`);
+    if (!lr.ok) return lr;
+  }
+  if (p.textFit !== undefined && !isTextFit(p.textFit)) return { ok: false, error: `${label}.patch.textFit invalid` };
+  if (p.textAlign !== undefined && !isTextAlign(p.textAlign)) return { ok: false, error: `${label}.patch.textAlign invalid` };
+  if (p.textVerticalAlign !== undefined && !isTextVerticalAlign(p.textVerticalAlign)) {
+    return { ok: false, error: `${label}.patch.textVerticalAlign invalid` };
+  }
+  if (p.routing !== undefined && !isConnectorRouting(p.routing)) {
+    return { ok: false, error: `${label}.patch.routing invalid` };
+  }
+  if (p.points !== undefined) {
+    const pr = validatePointsArray(p.points, `${label}.patch.points`);
+    if (!pr.ok) return pr;
+  }
+  if (p.pressures !== undefined) {
+    const pr = validatePressuresArray(p.pressures, `${label}.patch.pressures`);
+    if (!pr.ok) return pr;
+    if (!Array.isArray(p.points) || pr.value.length !== p.points.length) {
+      return { ok: false, error: `${label}.patch.pressures must have one entry per point` };
+    }
+  }
+  if (p.waypoints !== undefined) {
+    const pr = validatePointsArray(p.waypoints, `${label}.patch.waypoints`);
+    if (!pr.ok) return pr;
+  }
+  if (p.strokeColor !== undefined && !optionalWithinChars(p.strokeColor, MAX_COLOR_CHARS)) {
+    return { ok: false, error: `${label}.patch.strokeColor must be <=${MAX_COLOR_CHARS}` };
+  }
+  if (p.fillColor !== undefined && !optionalWithinChars(p.fillColor, MAX_COLOR_CHARS)) {
+    return { ok: false, error: `${label}.patch.fillColor must be <=${MAX_COLOR_CHARS}` };
+  }
+  if (p.textColor !== undefined && !optionalWithinChars(p.textColor, MAX_COLOR_CHARS)) {
+    return { ok: false, error: `${label}.patch.textColor must be <=${MAX_COLOR_CHARS}` };
+  }
+  if (p.strokeWidth !== undefined && (!isNumber(p.strokeWidth) || p.strokeWidth < 0 || p.strokeWidth > 200)) {
+    return { ok: false, error: `${label}.patch.strokeWidth must be 0..200` };
+  }
+  if (p.strokeDash !== undefined && !isStrokeDash(p.strokeDash)) {
+    return { ok: false, error: `${label}.patch.strokeDash invalid` };
+  }
+  if (p.strokeOpacity !== undefined && !isOpacity(p.strokeOpacity)) {
+    return { ok: false, error: `${label}.patch.strokeOpacity must be 0..1` };
+  }
+  if (p.fillOpacity !== undefined && !isOpacity(p.fillOpacity)) {
+    return { ok: false, error: `${label}.patch.fillOpacity must be 0..1` };
+  }
+  if (p.fontSize !== undefined && (!isNumber(p.fontSize) || p.fontSize < 1 || p.fontSize > 512)) {
+    return { ok: false, error: `${label}.patch.fontSize must be 1..512` };
+  }
+  if (p.rotation !== undefined && (!isNumber(p.rotation) || p.rotation < -360 || p.rotation > 360)) {
+    return { ok: false, error: `${label}.patch.rotation must be -360..360` };
+  }
+  if (p.locked !== undefined && typeof p.locked !== 'boolean') {
+    return { ok: false, error: `${label}.patch.locked must be a boolean` };
+  }
+  if (p.assetId !== undefined && (!isString(p.assetId) || p.assetId.length === 0 || !withinChars(p.assetId, MAX_OBJECT_ID_CHARS))) {
+    return { ok: false, error: `${label}.patch.assetId must be a short non-empty string` };
+  }
+  if (p.from !== undefined) {
+    const fr = validateConnectorEnd(p.from, `${label}.patch.from`);
+    if (!fr.ok) return fr;
+  }
+  if (p.to !== undefined) {
+    const tr = validateConnectorEnd(p.to, `${label}.patch.to`);
+    if (!tr.ok) return tr;
+  }
+
+  return { ok: true, value: null };
+}
+
 export function validateBoardEvent(v: unknown, expectedBoardId?: string): ValidationResult<BoardEvent> {
   if (!isRecord(v)) return { ok: false, error: 'op.op must be an object' };
   if (!isString(v.id) || !withinChars(v.id, MAX_CLIENT_OP_ID_CHARS)) {
@@ -37,54 +142,90 @@ export function validateBoardEvent(v: unknown, expectedBoardId?: string): Valida
   }
 
   if (v.type === 'objectUpdated') {
+    const res = validateObjectUpdate(v.payload, 'op.op.payload');
+    if (!res.ok) return res;
+    return { ok: true, value: v as unknown as BoardEvent };
+  }
+
+  if (v.type === 'objectsUpdated') {
+    if (!Array.isArray(v.payload.updates)) return { ok: false, error: 'op.op.payload.updates must be an array' };
+    if (v.payload.updates.length === 0 || v.payload.updates.length > MAX_SELECTION_IDS) {
+      return { ok: false, error: `op.op.payload.updates length must be 1..${MAX_SELECTION_IDS}` };
+    }
+    for (let i = 0; i < v.payload.updates.length; i++) {
+      const update = v.payload.updates[i];
+      if (!isRecord(update)) return { ok: false, error: `op.op.payload.updates[${i}] must be an object` };
+      const res = validateObjectUpdate(update, `op.op.payload.updates[${i}]`);
+      if (!res.ok) return res;
+    }
+    return { ok: true, value: v as unknown as BoardEvent };
+  }
+
+  if (v.type === 'objectDeleted') {
     if (!isString(v.payload.objectId) || !withinChars(v.payload.objectId, MAX_OBJECT_ID_CHARS)) {
       return { ok: false, error: 'op.op.payload.objectId must be a short string' };
     }
-    if (!isRecord(v.payload.patch)) return { ok: false, error: 'op.op.payload.patch must be an object' };
+    return { ok: true, value: v as unknown as BoardEvent };
+  }
 
-    const p = v.payload.patch as Record<string, unknown>;
-    if (p.text !== undefined) {
-      if (!isString(p.text)) return { ok: false, error: 'op.op.payload.patch.text must be a string' };
-      if (p.text.length > MAX_TEXT_CHARS) return { ok: false, error: `op.op.payload.patch.text too long (max ${MAX_TEXT_CHARS})` };
-    }
-    if (p.points !== undefined) {
-      const pr = validatePointsArray(p.points, 'op.op.payload.patch.points');
-      if (!pr.ok) return pr;
+  if (v.type === 'objectsErased') {
+    if (!Array.isArray(v.payload.erased)) return { ok: false, error: 'op.op.payload.erased must be an array' };
+    if (v.payload.erased.length === 0 || v.payload.erased.length > MAX_SELECTION_IDS) {
+      return { ok: false, error: `op.op.payload.erased length must be 1..${MAX_SELECTION_IDS}` };
     }
-    if (p.waypoints !== undefined) {
-      const pr = validatePointsArray(p.waypoints, 'op.op.payload.patch.waypoints');
-      if (!pr.ok) return pr;
-    }
-    if (p.strokeColor !== undefined && !optionalWithinChars(p.strokeColor, MAX_COLOR_CHARS)) {
-      return { ok: false, error: `op.op.payload.patch.strokeColor must be <=${MAX_COLOR_CHARS}` };
+    for (let i = 0; i < v.payload.erased.length; i++) {
+      const entry = v.payload.erased[i];
+      const label = `op.op.payload.erased[${i}]`;
+      if (!isRecord(entry)) return { ok: false, error: `${label} must be an object` };
+      if (!isString(entry.objectId) || !withinChars(entry.objectId, MAX_OBJECT_ID_CHARS)) {
+        return { ok: false, error: `${label}.objectId must be a short string` };
+      }
+      if (!Array.isArray(entry.fragments) || entry.fragments.length > MAX_SELECTION_IDS) {
+        return { ok: false, error: `${label}.fragments must be an array of at most ${MAX_SELECTION_IDS} objects` };
+      }
+      for (let j = 0; j < entry.fragments.length; j++) {
+        const objRes = validateWhiteboardObject(entry.fragments[j], `${label}.fragments[${j}]`);
+        if (!objRes.ok) return objRes;
+      }
     }
-    if (p.fillColor !== undefined && !optionalWithinChars(p.fillColor, MAX_COLOR_CHARS)) {
-      return { ok: false, error: `op.op.payload.patch.fillColor must be <=${MAX_COLOR_CHARS}` };
+    return { ok: true, value: v as unknown as BoardEvent };
+  }
+
+  if (v.type === 'objectsReordered') {
+    if (!Array.isArray(v.payload.objectIds)) return { ok: false, error: 'op.op.payload.objectIds must be string[]' };
+    if (v.payload.objectIds.length === 0 || v.payload.objectIds.length > MAX_SELECTION_IDS) {
+      return { ok: false, error: `op.op.payload.objectIds length must be 1..${MAX_SELECTION_IDS}` };
     }
-    if (p.textColor !== undefined && !optionalWithinChars(p.textColor, MAX_COLOR_CHARS)) {
-      return { ok: false, error: `op.op.payload.patch.textColor must be <=${MAX_COLOR_CHARS}` };
+    for (const id of v.payload.objectIds) {
+      if (!isString(id) || id.length === 0 || id.length > MAX_OBJECT_ID_CHARS) {
+        return { ok: false, error: 'op.op.payload.objectIds must contain short non-empty strings' };
+      }
     }
-    if (p.strokeWidth !== undefined && (!isNumber(p.strokeWidth) || p.strokeWidth < 0 || p.strokeWidth > 200)) {
-      return { ok: false, error: 'op.op.payload.patch.strokeWidth must be 0..200' };
+    if (!isZOrderDirection(v.payload.direction)) {
+      return { ok: false, error: 'op.op.payload.direction must be forward|backward|front|back' };
     }
-    if (p.fontSize !== undefined && (!isNumber(p.fontSize) || p.fontSize < 1 || p.fontSize > 512)) {
-      return { ok: false, error: 'op.op.payload.patch.fontSize must be 1..512' };
+    return { ok: true, value: v as unknown as BoardEvent };
+  }
+
+  if (v.type === 'objectsGrouped') {
+    if (!isString(v.payload.groupId) || v.payload.groupId.length === 0 || !withinChars(v.payload.groupId, MAX_OBJECT_ID_CHARS)) {
+      return { ok: false, error: 'op.op.payload.groupId must be a short non-empty string' };
     }
-    if (p.from !== undefined) {
-      const fr = validateConnectorEnd(p.from, 'op.op.payload.patch.from');
-      if (!fr.ok) return fr;
+    if (!Array.isArray(v.payload.objectIds)) return { ok: false, error: 'op.op.payload.objectIds must be string[]' };
+    if (v.payload.objectIds.length < 2 || v.payload.objectIds.length > MAX_SELECTION_IDS) {
+      return { ok: false, error: `op.op.payload.objectIds length must be 2..${MAX_SELECTION_IDS}` };
     }
-    if (p.to !== undefined) {
-      const tr = validateConnectorEnd(p.to, 'op.op.payload.patch.to');
-      if (!tr.ok) return tr;
+    for (const id of v.payload.objectIds) {
+      if (!isString(id) || id.length === 0 || id.length > MAX_OBJECT_ID_CHARS) {
+        return { ok: false, error: 'op.op.payload.objectIds must contain short non-empty strings' };
+      }
     }
-
     return { ok: true, value: v as unknown as BoardEvent };
   }
 
-  if (v.type === 'objectDeleted') {
-    if (!isString(v.payload.objectId) || !withinChars(v.payload.objectId, MAX_OBJECT_ID_CHARS)) {
-      return { ok: false, error: 'op.op.payload.objectId must be a short string' };
+  if (v.type === 'objectsUngrouped') {
+    if (!isString(v.payload.groupId) || v.payload.groupId.length === 0 || !withinChars(v.payload.groupId, MAX_OBJECT_ID_CHARS)) {
+      return { ok: false, error: 'op.op.payload.groupId must be a short non-empty string' };
     }
     return { ok: true, value: v as unknown as BoardEvent };
   }
@@ -114,5 +255,20 @@ export function validateBoardEvent(v: unknown, expectedBoardId?: string): Valida
     return { ok: true, value: v as unknown as BoardEvent };
   }
 
+  if (v.type === 'boardSettingsChanged') {
+    if (!isRecord(v.payload.settings)) return { ok: false, error: 'op.op.payload.settings must be an object' };
+    const st = v.payload.settings as Record<string, unknown>;
+    if (st.background !== undefined && !isBoardBackground(st.background)) {
+      return { ok: false, error: 'settings.background must be none|dots|lines|isometric' };
+    }
+    if (st.gridSize !== undefined && !isValidGridSize(st.gridSize)) {
+      return { ok: false, error: 'settings.gridSize out of range' };
+    }
+    if (st.snapToGrid !== undefined && typeof st.snapToGrid !== 'boolean') {
+      return { ok: false, error: 'settings.snapToGrid must be a boolean' };
+    }
+    return { ok: true, value: v as unknown as BoardEvent };
+  }
+
   return { ok: false, error: 'op.op.type must be a supported event type' };
 }
@@ -1,8 +1,12 @@
+import { isSafeLinkUrl } from '../../../domain/richText';
 import {
   MAX_COLOR_CHARS,
+  MAX_LINK_CHARS,
   MAX_OBJECT_ID_CHARS,
+  MAX_PATH_LABELS,
   MAX_STROKE_POINTS,
   MAX_TEXT_CHARS,
+  MAX_TEXT_RUNS,
 } from '../limits';
 import { isNumber, isRecord, isString, optionalWithinChars, withinChars } from './helpers';
 import type { ValidationResult } from './types';
@@ -15,9 +19,17 @@ function isWhiteboardObjectType(v: unknown): boolean {
     v === 'ellipse' ||
     v === 'diamond' ||
     v === 'roundedRect' ||
+    v === 'triangle' ||
+    v === 'hexagon' ||
+    v === 'parallelogram' ||
+    v === 'cylinder' ||
+    v === 'cloud' ||
+    v === 'star' ||
+    v === 'blockArrow' ||
     v === 'text' ||
     v === 'stickyNote' ||
-    v === 'connector'
+    v === 'connector' ||
+    v === 'image'
   );
 }
 
@@ -25,6 +37,31 @@ function isArrowType(v: unknown): boolean {
   return v === 'none' || v === 'open' || v === 'closed' || v === 'filled';
 }
 
+export function isTextFit(v: unknown): boolean {
+  return v === 'shrink' || v === 'grow' || v === 'overflow';
+}
+
+export function isStrokeDash(v: unknown): boolean {
+  return v === 'solid' || v === 'dashed' || v === 'dotted';
+}
+
+/** Stroke and fill opacity: a number in 0..1. */
+export function isOpacity(v: unknown): boolean {
+  return isNumber(v) && v >= 0 && v <= 1;
+}
+
+export function isTextAlign(v: unknown): boolean {
+  return v === 'left' || v === 'center' || v === 'right';
+}
+
+export function isTextVerticalAlign(v: unknown): boolean {
+  return v === 'top' || v === 'middle' || v === 'bottom';
+}
+
+export function isConnectorRouting(v: unknown): boolean {
+  return v === 'straight' || v === 'manual' || v === 'curved' || v === 'orthogonal';
+}
+
 export function validatePoint(v: unknown, label: string): ValidationResult<{ x: number; y: number }> {
   if (!isRecord(v) || !isNumber(v.x) || !isNumber(v.y)) {
     return { ok: false, error: `${label} must be {x:number,y:number}` };
@@ -46,6 +83,18 @@ export function validatePointsArray(v: unknown, label: string): ValidationResult
   return { ok: true, value: out };
 }
 
+/** Freehand pen pressures: one number in 0..1 per stroke point. */
+export function validatePressuresArray(v: unknown, label: string): ValidationResult<number[]> {
+  if (!Array.isArray(v)) return { ok: false, error: `${label} must be number[]` };
+  if (v.length > MAX_STROKE_POINTS) {
+    return { ok: false, error: `${label} max length ${MAX_STROKE_POINTS}` };
+  }
+  for (let i = 0; i < v.length; i++) {
+    if (!isNumber(v[i]) || v[i] < 0 || v[i] > 1) return { ok: false, error: `${label}[${i}] must be in [0..1]` };
+  }
+  return { ok: true, value: v as number[] };
+}
+
 export function validateAttachment(v: unknown, label: string): ValidationResult<unknown> {
   if (!isRecord(v) || !isString(v.type)) return { ok: false, error: `${label} must be an attachment object` };
   if (v.type === 'port') {
@@ -84,6 +133,64 @@ export function validateConnectorEnd(v: unknown, label: string): ValidationResul
   return { ok: true, value: v };
 }
 
+function isOptionalBoolean(v: unknown): boolean {
+  return v === undefined || typeof v === 'boolean';
+}
+
+/**
+ * Rich text lines: the same MAX_TEXT_CHARS budget as plain text (line breaks
+ * included), at most MAX_TEXT_RUNS runs, and only http(s)/mailto links.
+ */
+export function validateRichText(v: unknown, label: string): ValidationResult<unknown> {
+  if (!Array.isArray(v)) return { ok: false, error: `${label} must be an array` };
+  if (v.length === 0) return { ok: false, error: `${label} must have at least one line` };
+
+  let chars = v.length - 1;
+  let runs = 0;
+  for (let i = 0; i < v.length; i++) {
+    const p = v[i];
+    if (!isRecord(p) || !Array.isArray(p.runs)) return { ok: false, error: `${label}[${i}].runs must be an array` };
+    if (p.list !== undefined && p.list !== 'bullet') return { ok: false, error: `${label}[${i}].list invalid` };
+
+    runs += p.runs.length;
+    if (runs > MAX_TEXT_RUNS) return { ok: false, error: `${label} has too many runs (max ${MAX_TEXT_RUNS})` };
+
+    for (const r of p.runs) {
+      if (!isRecord(r) || !isString(r.text) || r.text.includes('\n')) {
+        return { ok: false, error: `${label}[${i}] runs must have single-line text` };
+      }
+      if (!isOptionalBoolean(r.bold) || !isOptionalBoolean(r.italic) || !isOptionalBoolean(r.strike)) {
+        return { ok: false, error: `${label}[${i}] run marks must be booleans` };
+      }
+      if (r.link !== undefined && (!isString(r.link) || !withinChars(r.link, MAX_LINK_CHARS) || !isSafeLinkUrl(r.link))) {
+        return { ok: false, error: `${label}[${i}] run link must be an http(s) or mailto URL (max ${MAX_LINK_CHARS})` };
+      }
+      chars += r.text.length;
+    }
+    if (chars > MAX_TEXT_CHARS) return { ok: false, error: `${label} too long (max ${MAX_TEXT_CHARS})` };
+  }
+  return { ok: true, value: v };
+}
+
+/** A position along a line's or connector's path. */
+export function isPathT(v: unknown): boolean {
+  return isNumber(v) && v >= 0 && v <= 1;
+}
+
+/** Labels after a line's or connector's `text`: at most MAX_PATH_LABELS, each within MAX_TEXT_CHARS. */
+export function validatePathLabels(v: unknown, label: string): ValidationResult<unknown> {
+  if (!Array.isArray(v)) return { ok: false, error: `${label} must be an array` };
+  if (v.length > MAX_PATH_LABELS) return { ok: false, error: `${label} has too many labels (max ${MAX_PATH_LABELS})` };
+  for (let i = 0; i < v.length; i++) {
+    const l = v[i];
+    if (!isRecord(l) || !isString(l.text) || l.text.length > MAX_TEXT_CHARS) {
+      return { ok: false, error: `${label}[${i}].text must be a string (max ${MAX_TEXT_CHARS})` };
+    }
+    if (!isPathT(l.t)) return { ok: false, error: `${label}[${i}].t must be 0..1` };
+  }
+  return { ok: true, value: v };
+}
+
 export function validateWhiteboardObject(v: unknown, label: string): ValidationResult<any> {
   if (!isRecord(v)) return { ok: false, error: `${label} must be an object` };
   if (!isString(v.id) || !withinChars(v.id, MAX_OBJECT_ID_CHARS)) {
@@ -99,6 +206,15 @@ export function validateWhiteboardObject(v: unknown, label: string): ValidationR
   if (v.y2 !== undefined && !isNumber(v.y2)) return { ok: false, error: `${label}.y2 must be a number` };
   if (v.width !== undefined && (!isNumber(v.width) || v.width < 0)) return { ok: false, error: `${label}.width must be a non-negative number` };
   if (v.height !== undefined && (!isNumber(v.height) || v.height < 0)) return { ok: false, error: `${label}.height must be a non-negative number` };
+  if (v.rotation !== undefined && (!isNumber(v.rotation) || v.rotation < -360 || v.rotation > 360)) {
+    return { ok: false, error: `${label}.rotation must be -360..360` };
+  }
+  if (v.groupId !== undefined && (!isString(v.groupId) || v.groupId.length === 0 || !withinChars(v.groupId, MAX_OBJECT_ID_CHARS))) {
+    return { ok: false, error: `${label}.groupId must be a short non-empty string` };
+  }
+  if (v.locked !== undefined && typeof v.locked !== 'boolean') {
+    return { ok: false, error: `${label}.locked must be a boolean` };
+  }
 
   if (!optionalWithinChars(v.strokeColor, MAX_COLOR_CHARS)) return { ok: false, error: `${label}.strokeColor must be <=${MAX_COLOR_CHARS}` };
   if (!optionalWithinChars(v.fillColor, MAX_COLOR_CHARS)) return { ok: false, error: `${label}.fillColor must be <=${MAX_COLOR_CHARS}` };
@@ -107,6 +223,13 @@ export function validateWhiteboardObject(v: unknown, label: string): ValidationR
   if (v.strokeWidth !== undefined && (!isNumber(v.strokeWidth) || v.strokeWidth < 0 || v.strokeWidth > 200)) {
     return { ok: false, error: `${label}.strokeWidth must be 0..200` };
   }
+  if (v.strokeDash !== undefined && !isStrokeDash(v.strokeDash)) return { ok: false, error: `${label}.strokeDash invalid` };
+  if (v.strokeOpacity !== undefined && !isOpacity(v.strokeOpacity)) {
+    return { ok: false, error: `${label}.strokeOpacity must be 0..1` };
+  }
+  if (v.fillOpacity !== undefined && !isOpacity(v.fillOpacity)) {
+    return { ok: false, error: `${label}.fillOpacity must be 0..1` };
+  }
   if (v.cornerRadius !== undefined && (!isNumber(v.cornerRadius) || v.cornerRadius < 0 || v.cornerRadius > 10_000)) {
     return { ok: false, error: `${label}.cornerRadius must be >=0` };
   }
@@ -117,15 +240,44 @@ export function validateWhiteboardObject(v: unknown, label: string): ValidationR
   if (v.fontSize !== undefined && (!isNumber(v.fontSize) || v.fontSize < 1 || v.fontSize > 512)) {
     return { ok: false, error: `${label}.fontSize must be 1..512` };
   }
+  if (v.textFit !== undefined && !isTextFit(v.textFit)) return { ok: false, error: `${label}.textFit invalid` };
+  if (v.textAlign !== undefined && !isTextAlign(v.textAlign)) return { ok: false, error: `${label}.textAlign invalid` };
+  if (v.textVerticalAlign !== undefined && !isTextVerticalAlign(v.textVerticalAlign)) {
+    return { ok: false, error: `${label}.textVerticalAlign invalid` };
+  }
+  if (v.routing !== undefined && !isConnectorRouting(v.routing)) return { ok: false, error: `${label}.routing invalid` };
   if (v.text !== undefined) {
     if (!isString(v.text)) return { ok: false, error: `${label}.text must be a string` };
     if (v.text.length > MAX_TEXT_CHARS) return { ok: false, error: `${label}.text too long (max ${MAX_TEXT_CHARS})` };
   }
+  if (v.richText !== undefined) {
+    const rr = validateRichText(v.richText, `${label}.richText`);
+    if (!rr.ok) return rr;
+  }
+  if (v.labelT !== undefined && !isPathT(v.labelT)) return { ok: false, error: `${label}.labelT must be 0..1` };
+  if (v.labels !== undefined) {
+    const lr = validatePathLabels(v.labels, `${label}.labels`);
+    if (!lr.ok) return lr;
+  }
+
+  if (v.assetId !== undefined && (!isString(v.assetId) || v.assetId.length === 0 || !withinChars(v.assetId, MAX_OBJECT_ID_CHARS))) {
+    return { ok: false, error: `${label}.assetId must be a short non-empty string` };
+  }
+  if (v.type === 'image' && v.assetId === undefined) {
+    return { ok: false, error: `${label}.assetId is required for images` };
+  }
 
   if (v.points !== undefined) {
     const pr = validatePointsArray(v.points, `${label}.points`);
     if (!pr.ok) return pr;
   }
+  if (v.pressures !== undefined) {
+    const pr = validatePressuresArray(v.pressures, `${label}.pressures`);
+    if (!pr.ok) return pr;
+    if (!Array.isArray(v.points) || pr.value.length !== v.points.length) {
+      return { ok: false, error: `${label}.pressures must have one entry per point` };
+    }
+  }
   if (v.waypoints !== undefined) {
     const pr = validatePointsArray(v.waypoints, `${label}.waypoints`);
     if (!pr.ok) return pr;
@@ -0,0 +1,50 @@
+import { applyEvent, createEmptyWhiteboardState } from '../index';
+import type { BoardEvent } from '../types';
+import { coerceBoardSettings, getBoardSettings } from '../boardSettings';
+import { decodeSnapshotJson, encodeSnapshotJson } from '../snapshotCodec';
+
+const meta = {
+  id: 'b-1',
+  name: 'Board',
+  boardType: 'advanced',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z'
+} as const;
+
+function settingsEvent(settings: any): BoardEvent {
+  return {
+    id: `e-${Math.random()}`,
+    boardId: 'b-1',
+    type: 'boardSettingsChanged',
+    timestamp: '2025-01-01T00:00:01.000Z',
+    payload: { settings }
+  } as BoardEvent;
+}
+
+describe('domain board settings', () => {
+  it('defaults to no background and snapping off', () => {
+    const state = createEmptyWhiteboardState(meta);
+    expect(getBoardSettings(state.meta)).toEqual({ background: 'none', gridSize: 20, snapToGrid: false });
+  });
+
+  it('merges partial settings changes into meta', () => {
+    let state = createEmptyWhiteboardState(meta);
+    state = applyEvent(state, settingsEvent({ background: 'dots' }));
+    state = applyEvent(state, settingsEvent({ snapToGrid: true, gridSize: 32 }));
+    expect(state.meta.settings).toEqual({ background: 'dots', gridSize: 32, snapToGrid: true });
+  });
+
+  it('survives a snapshot round-trip and drops invalid values', () => {
+    let state = createEmptyWhiteboardState(meta);
+    state = applyEvent(state, settingsEvent({ background: 'isometric', snapToGrid: true }));
+    const decoded = decodeSnapshotJson('b-1', encodeSnapshotJson('b-1', state));
+    expect(decoded?.meta.settings).toEqual({ background: 'isometric', gridSize: 20, snapToGrid: true });
+
+    expect(coerceBoardSettings({ background: 'stripes', gridSize: 1, snapToGrid: 'yes' })).toEqual({
+      background: 'none',
+      gridSize: 20,
+      snapToGrid: false
+    });
+    expect(coerceBoardSettings(null)).toBeUndefined();
+  });
+});
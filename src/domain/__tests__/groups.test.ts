@@ -0,0 +1,142 @@
+import { createEmptyWhiteboardState } from '../index';
+import type { BoardEvent, WhiteboardObject, WhiteboardState } from '../types';
+import { expandSelectionToGroups, getSelectedGroupId, groupObjects, ungroupObjects } from '../groups';
+import { decodeSnapshotJson, encodeSnapshotJson } from '../snapshotCodec';
+import { whiteboardReducer } from '../../whiteboard/store/reducer';
+import { validateBoardEvent } from '../../collab/protocol/validation/eventValidation';
+import { createClipboardFromSelection, pasteClipboard } from '../../whiteboard/clipboard';
+import { getCommitsFromDrag, handleDragMove } from '../../whiteboard/interactions/drag/dispatch';
+
+const meta = {
+  id: 'b-1',
+  name: 'Board',
+  boardType: 'advanced',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z'
+} as const;
+
+function rect(id: string, x = 0, groupId?: string): WhiteboardObject {
+  return { id, type: 'rectangle', x, y: 0, width: 100, height: 100, ...(groupId ? { groupId } : {}) };
+}
+
+const groupIds = (objects: WhiteboardObject[]) => objects.map((o) => o.groupId ?? null);
+
+function groupedEvent(groupId: string, objectIds: string[]): BoardEvent {
+  return {
+    id: `e-group-${groupId}`,
+    boardId: 'b-1',
+    type: 'objectsGrouped',
+    timestamp: '2025-01-01T00:00:02.000Z',
+    payload: { groupId, objectIds }
+  };
+}
+
+function ungroupedEvent(groupId: string): BoardEvent {
+  return {
+    id: `e-ungroup-${groupId}`,
+    boardId: 'b-1',
+    type: 'objectsUngrouped',
+    timestamp: '2025-01-01T00:00:03.000Z',
+    payload: { groupId }
+  };
+}
+
+describe('domain groups', () => {
+  it('expands a selection to whole groups', () => {
+    const objects = [rect('a', 0, 'g1'), rect('b'), rect('c', 0, 'g1')];
+    expect(expandSelectionToGroups(objects, ['c'])).toEqual(['c', 'a']);
+    expect(expandSelectionToGroups(objects, ['b'])).toEqual(['b']);
+    expect(getSelectedGroupId(objects, ['a', 'c'])).toBe('g1');
+    expect(getSelectedGroupId(objects, ['a', 'b', 'c'])).toBeNull();
+  });
+
+  it('regrouping dissolves groups left with a single member', () => {
+    const objects = [rect('a', 0, 'g1'), rect('b', 0, 'g1'), rect('c')];
+    const next = groupObjects(objects, ['b', 'c'], 'g2');
+    expect(groupIds(next)).toEqual([null, 'g2', 'g2']);
+    expect(groupObjects(next, ['b', 'c'], 'g2')).toBe(next);
+    expect(ungroupObjects(next, 'missing')).toBe(next);
+  });
+
+  it('groups and ungroups through events, with undo', () => {
+    let state: WhiteboardState | null = createEmptyWhiteboardState(meta);
+    for (const obj of [rect('a'), rect('b', 200), rect('c', 400)]) {
+      state = whiteboardReducer(state, {
+        type: 'APPLY_EVENT',
+        event: {
+          id: `create-${obj.id}`,
+          boardId: 'b-1',
+          type: 'objectCreated',
+          timestamp: '2025-01-01T00:00:01.000Z',
+          payload: { object: obj }
+        }
+      });
+    }
+
+    state = whiteboardReducer(state, { type: 'APPLY_EVENT', event: groupedEvent('g1', ['a', 'b']) });
+    expect(groupIds(state!.objects)).toEqual(['g1', 'g1', null]);
+
+    state = whiteboardReducer(state, { type: 'APPLY_EVENT', event: ungroupedEvent('g1') });
+    expect(groupIds(state!.objects)).toEqual([null, null, null]);
+
+    state = whiteboardReducer(state, { type: 'UNDO' });
+    expect(groupIds(state!.objects)).toEqual(['g1', 'g1', null]);
+  });
+
+  it('keeps groups through snapshot encode/decode', () => {
+    const state: WhiteboardState = {
+      ...createEmptyWhiteboardState(meta),
+      objects: [rect('a', 0, 'g1'), rect('b', 200, 'g1')]
+    };
+    const decoded = decodeSnapshotJson('b-1', encodeSnapshotJson('b-1', state));
+    expect(groupIds(decoded!.objects)).toEqual(['g1', 'g1']);
+  });
+
+  it('validates group events for collab', () => {
+    expect(validateBoardEvent(groupedEvent('g1', ['a', 'b'])).ok).toBe(true);
+    expect(validateBoardEvent(groupedEvent('g1', ['a'])).ok).toBe(false);
+    expect(validateBoardEvent(groupedEvent('', ['a', 'b'])).ok).toBe(false);
+    expect(validateBoardEvent(ungroupedEvent('g1')).ok).toBe(true);
+  });
+
+  it('copies whole groups and pastes them as a new group', () => {
+    const objects = [rect('a', 0, 'g1'), rect('b', 200, 'g1'), rect('c', 400)];
+    const clip = createClipboardFromSelection({ boardId: 'b-1', objects, selectedIds: ['a'] });
+    expect(clip!.objects.map((o) => o.id)).toEqual(['a', 'b']);
+
+    let n = 0;
+    const res = pasteClipboard({
+      clipboard: clip!,
+      targetBoardId: 'b-1',
+      viewport: { offsetX: 0, offsetY: 0, zoom: 1 },
+      existingIds: objects.map((o) => o.id),
+      generateObjectId: () => `n${++n}`,
+      generateGroupId: () => 'g2'
+    });
+    expect(groupIds(res.objects)).toEqual(['g2', 'g2']);
+  });
+
+  it('moves group members together and commits a patch for each', () => {
+    const a = rect('a', 0, 'g1');
+    const b = rect('b', 200, 'g1');
+    const drag = handleDragMove(
+      { kind: 'move', objectId: 'a', startX: 50, startY: 50, originalObject: a, members: [b] },
+      {
+        objects: [a, b],
+        viewport: { offsetX: 0, offsetY: 0, zoom: 1 },
+        pos: { x: 80, y: 90 },
+        canvasX: 80,
+        canvasY: 90,
+        onTransientObjectPatch: () => {},
+        onViewportChange: () => {},
+        disableSnapping: true
+      }
+    );
+
+    const commits = getCommitsFromDrag(drag, (_obj, patch) => patch);
+    expect(commits).toEqual([
+      { objectId: 'a', patch: { x: 30, y: 40 } },
+      { objectId: 'b', patch: { x: 230, y: 40 } }
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import type { TextParagraph, WhiteboardObject } from '../types';
+import {
+  applyPlainTextEdit,
+  getLinkAt,
+  getObjectPlainText,
+  getTextEditPatch,
+  getTextParagraphs,
+  isMarkActive,
+  removeLinkAt,
+  setLink,
+  toggleBulletList,
+  toggleMark,
+} from '../richText';
+import { validateWhiteboardObject } from '../../collab/protocol/validation/objectValidation';
+import { validateBoardEvent } from '../../collab/protocol/validation/eventValidation';
+import { MAX_LINK_CHARS, MAX_TEXT_CHARS } from '../../collab/protocol/limits';
+
+const plain = (text: string): TextParagraph[] => [{ runs: [{ text }] }];
+
+const note: WhiteboardObject = {
+  id: 'n',
+  type: 'stickyNote',
+  x: 0,
+  y: 0,
+  width: 160,
+  height: 100,
+  text: 'hello world',
+  richText: [{ runs: [{ text: 'hello', bold: true }, { text: ' world' }] }],
+};
+
+describe('formatting ranges', () => {
+  it('toggles a mark on and off for a range', () => {
+    const bold = toggleMark(plain('hello world'), 0, 5, 'bold');
+    expect(bold).toEqual([{ runs: [{ text: 'hello', bold: true }, { text: ' world' }] }]);
+    expect(isMarkActive(bold, 0, 5, 'bold')).toBe(true);
+    expect(isMarkActive(bold, 0, 6, 'bold')).toBe(false);
+    expect(toggleMark(bold, 0, 5, 'bold')).toEqual(plain('hello world'));
+  });
+
+  it('applies marks across line breaks without touching them', () => {
+    const italic = toggleMark([...plain('ab'), ...plain('cd')], 1, 5, 'italic');
+    expect(italic).toEqual([
+      { runs: [{ text: 'a' }, { text: 'b', italic: true }] },
+      { runs: [{ text: 'cd', italic: true }] },
+    ]);
+  });
+
+  it('links a range and unlinks the whole link from a caret', () => {
+    const linked = setLink(plain('see docs now'), 4, 8, 'https://example.com');
+    expect(getLinkAt(linked, 6, 6)).toBe('https://example.com');
+    expect(getLinkAt(linked, 0, 6)).toBeNull();
+    expect(removeLinkAt(linked, 6, 6)).toEqual(plain('see docs now'));
+  });
+
+  it('turns the touched lines into a bullet list and back', () => {
+    const lines = [...plain('one'), ...plain('two'), ...plain('three')];
+    const listed = toggleBulletList(lines, 1, 5);
+    expect(listed.map((p) => p.list)).toEqual(['bullet', 'bullet', undefined]);
+    expect(toggleBulletList(listed, 0, 0).map((p) => p.list)).toEqual([undefined, 'bullet', undefined]);
+  });
+});
+
+describe('plain-text edits', () => {
+  it('continue the formatting before the caret', () => {
+    const edited = applyPlainTextEdit(note.richText!, 'hello! world');
+    expect(edited).toEqual([{ runs: [{ text: 'hello!', bold: true }, { text: ' world' }] }]);
+  });
+
+  it('do not extend a link when typing after it', () => {
+    const linked = setLink(plain('docs'), 0, 4, 'https://example.com');
+    expect(applyPlainTextEdit(linked, 'docs!')).toEqual([
+      { runs: [{ text: 'docs', link: 'https://example.com' }, { text: '!' }] },
+    ]);
+  });
+
+  it('continue a bullet list on new lines', () => {
+    const listed = toggleBulletList(plain('one'), 0, 0);
+    expect(applyPlainTextEdit(listed, 'one\ntwo').map((p) => p.list)).toEqual(['bullet', 'bullet']);
+  });
+
+  it('keep formatting in patches and drop rich text with none left', () => {
+    expect(getTextEditPatch(note, 'hello there')).toEqual({
+      text: 'hello there',
+      richText: [{ runs: [{ text: 'hello', bold: true }, { text: ' there' }] }],
+    });
+    expect(getTextEditPatch(note, 'world')).toEqual({ text: 'world', richText: undefined });
+  });
+});
+
+describe('plain-text fallbacks', () => {
+  it('ignore rich text that no longer matches the plain text', () => {
+    const stale = { ...note, text: 'edited elsewhere' };
+    expect(getTextParagraphs(stale)).toEqual(plain('edited elsewhere'));
+    expect(getObjectPlainText(stale)).toBe('edited elsewhere');
+  });
+
+  it('keep bullets and link targets', () => {
+    const rich = toggleBulletList(setLink(plain('docs'), 0, 4, 'https://example.com'), 0, 0);
+    expect(getObjectPlainText({ text: 'docs', richText: rich })).toBe('• docs (https://example.com)');
+  });
+});
+
+describe('rich text validation', () => {
+  it('accepts formatted objects', () => {
+    expect(validateWhiteboardObject(note, 'object').ok).toBe(true);
+  });
+
+  it('rejects unsafe links, oversized links and line breaks inside runs', () => {
+    const withRuns = (runs: any[]) => ({ ...note, richText: [{ runs }] });
+    expect(validateWhiteboardObject(withRuns([{ text: 'x', link: 'javascript:alert(1)' }]), 'object').ok).toBe(false);
+    expect(
+      validateWhiteboardObject(withRuns([{ text: 'x', link: `https://${'a'.repeat(MAX_LINK_CHARS)}` }]), 'object').ok
+    ).toBe(false);
+    expect(validateWhiteboardObject(withRuns([{ text: 'a\nb' }]), 'object').ok).toBe(false);
+  });
+
+  it('counts rich text against the text limit', () => {
+    const long = 'a'.repeat(MAX_TEXT_CHARS + 1);
+    expect(validateWhiteboardObject({ ...note, richText: plain(long) }, 'object').ok).toBe(false);
+  });
+
+  it('validates rich text in update patches', () => {
+    const event = (patch: Partial<WhiteboardObject>) => ({
+      id: 'e1',
+      boardId: 'b1',
+      type: 'objectUpdated',
+      timestamp: new Date().toISOString(),
+      payload: { objectId: 'n', patch },
+    });
+    expect(validateBoardEvent(event({ text: 'x', richText: plain('x') })).ok).toBe(true);
+    expect(validateBoardEvent(event({ richText: [{ runs: [{ text: 'x', bold: 'yes' }] }] as any })).ok).toBe(false);
+  });
+});
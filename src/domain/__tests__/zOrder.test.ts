@@ -0,0 +1,85 @@
+import { createEmptyWhiteboardState } from '../index';
+import type { BoardEvent, WhiteboardObject, WhiteboardState, ZOrderDirection } from '../types';
+import { reorderObjects } from '../zOrder';
+import { whiteboardReducer } from '../../whiteboard/store/reducer';
+import { hitTest } from '../../whiteboard/geometry';
+import { validateBoardEvent } from '../../collab/protocol/validation/eventValidation';
+
+const meta = {
+  id: 'b-1',
+  name: 'Board',
+  boardType: 'advanced',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z'
+} as const;
+
+function rect(id: string): WhiteboardObject {
+  return { id, type: 'rectangle', x: 0, y: 0, width: 100, height: 100 };
+}
+
+const ids = (objects: WhiteboardObject[]) => objects.map((o) => o.id);
+
+function reorderEvent(objectIds: string[], direction: ZOrderDirection): BoardEvent {
+  return {
+    id: `e-${direction}`,
+    boardId: 'b-1',
+    type: 'objectsReordered',
+    timestamp: '2025-01-01T00:00:02.000Z',
+    payload: { objectIds, direction }
+  };
+}
+
+describe('domain z-order', () => {
+  const objects = ['a', 'b', 'c', 'd'].map(rect);
+
+  it('moves objects to the front/back as a block, keeping relative order', () => {
+    expect(ids(reorderObjects(objects, ['c', 'a'], 'front'))).toEqual(['b', 'd', 'a', 'c']);
+    expect(ids(reorderObjects(objects, ['d', 'b'], 'back'))).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  it('steps objects one position forward/backward', () => {
+    expect(ids(reorderObjects(objects, ['a'], 'forward'))).toEqual(['b', 'a', 'c', 'd']);
+    expect(ids(reorderObjects(objects, ['a', 'b'], 'forward'))).toEqual(['c', 'a', 'b', 'd']);
+    expect(ids(reorderObjects(objects, ['d'], 'backward'))).toEqual(['a', 'b', 'd', 'c']);
+  });
+
+  it('returns the same array when nothing moves', () => {
+    expect(reorderObjects(objects, ['d'], 'front')).toBe(objects);
+    expect(reorderObjects(objects, ['a'], 'backward')).toBe(objects);
+    expect(reorderObjects(objects, ['missing'], 'front')).toBe(objects);
+  });
+
+  it('is undoable and keeps hit-testing in visual order', () => {
+    let state: WhiteboardState | null = createEmptyWhiteboardState(meta);
+    for (const obj of [rect('a'), rect('b')]) {
+      state = whiteboardReducer(state, {
+        type: 'APPLY_EVENT',
+        event: {
+          id: `create-${obj.id}`,
+          boardId: 'b-1',
+          type: 'objectCreated',
+          timestamp: '2025-01-01T00:00:01.000Z',
+          payload: { object: obj }
+        }
+      });
+    }
+    expect(hitTest(state!.objects, 50, 50)?.id).toBe('b');
+
+    state = whiteboardReducer(state, { type: 'APPLY_EVENT', event: reorderEvent(['a'], 'front') });
+    expect(ids(state!.objects)).toEqual(['b', 'a']);
+    expect(hitTest(state!.objects, 50, 50)?.id).toBe('a');
+
+    state = whiteboardReducer(state, { type: 'UNDO' });
+    expect(ids(state!.objects)).toEqual(['a', 'b']);
+    expect(hitTest(state!.objects, 50, 50)?.id).toBe('b');
+
+    state = whiteboardReducer(state, { type: 'REDO' });
+    expect(ids(state!.objects)).toEqual(['b', 'a']);
+  });
+
+  it('validates reorder events for collab', () => {
+    expect(validateBoardEvent(reorderEvent(['a'], 'back')).ok).toBe(true);
+    expect(validateBoardEvent(reorderEvent([], 'back')).ok).toBe(false);
+    expect(validateBoardEvent(reorderEvent(['a'], 'sideways' as ZOrderDirection)).ok).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import type { BoardBackground, BoardSettings, WhiteboardMeta } from './types';
+
+export const BOARD_BACKGROUNDS: readonly BoardBackground[] = ['none', 'dots', 'lines', 'isometric'] as const;
+
+export const MIN_GRID_SIZE = 4;
+export const MAX_GRID_SIZE = 256;
+
+export const DEFAULT_BOARD_SETTINGS: BoardSettings = {
+  background: 'none',
+  gridSize: 20,
+  snapToGrid: false,
+};
+
+export function isBoardBackground(value: unknown): value is BoardBackground {
+  return typeof value === 'string' && (BOARD_BACKGROUNDS as readonly string[]).includes(value);
+}
+
+export function isValidGridSize(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= MIN_GRID_SIZE && value <= MAX_GRID_SIZE;
+}
+
+/**
+ * Coerce untrusted settings (persisted snapshots, imports) into a full settings object.
+ * Returns undefined when nothing usable is present so old boards stay unchanged.
+ */
+export function coerceBoardSettings(value: unknown): BoardSettings | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  return {
+    background: isBoardBackground(raw.background) ? raw.background : DEFAULT_BOARD_SETTINGS.background,
+    gridSize: isValidGridSize(raw.gridSize) ? raw.gridSize : DEFAULT_BOARD_SETTINGS.gridSize,
+    snapToGrid: typeof raw.snapToGrid === 'boolean' ? raw.snapToGrid : DEFAULT_BOARD_SETTINGS.snapToGrid,
+  };
+}
+
+export function getBoardSettings(meta: Pick<WhiteboardMeta, 'settings'> | null | undefined): BoardSettings {
+  return { ...DEFAULT_BOARD_SETTINGS, ...(meta?.settings ?? {}) };
+}
+
+/** Grid size to snap to, or undefined when snapping is off. */
+export function getSnapGridSize(settings: BoardSettings): number | undefined {
+  return settings.snapToGrid ? settings.gridSize : undefined;
+}
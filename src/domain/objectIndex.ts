@@ -0,0 +1,44 @@
+// src/domain/objectIndex.ts
+import type { WhiteboardObject } from './types';
+
+/**
+ * A single object-level change produced by applyEvent().
+ */
+export type ObjectChange =
+  | { kind: 'created'; object: WhiteboardObject }
+  | { kind: 'updated'; before: WhiteboardObject; after: WhiteboardObject }
+  | { kind: 'deleted'; object: WhiteboardObject }
+  | { kind: 'reordered' }
+  /** Group membership changed; bounds and order are untouched. */
+  | { kind: 'regrouped' };
+
+/**
+ * Derived indexes (e.g. the canvas spatial index) register here so applyEvent()
+ * can hand them each change as it happens, instead of forcing a full rebuild
+ * whenever a new objects array is produced.
+ *
+ * The domain layer stays geometry-agnostic: listeners own whatever they cache
+ * and must tolerate `prev` arrays they have never seen (they simply skip).
+ */
+export type ObjectIndexListener = (
+  prev: WhiteboardObject[],
+  next: WhiteboardObject[],
+  change: ObjectChange
+) => void;
+
+const listeners = new Set<ObjectIndexListener>();
+
+export function registerObjectIndex(listener: ObjectIndexListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function notifyObjectIndexes(
+  prev: WhiteboardObject[],
+  next: WhiteboardObject[],
+  change: ObjectChange
+): void {
+  listeners.forEach((listener) => listener(prev, next, change));
+}
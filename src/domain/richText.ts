@@ -0,0 +1,324 @@
+import type { TextMarks, TextParagraph, TextRun, WhiteboardObject, WhiteboardObjectType } from './types';
+
+/**
+ * Rich text for text objects, sticky notes and the text inside box shapes
+ * (rectangles, ellipses, diamonds and the other diagram shapes).
+ *
+ * `WhiteboardObject.richText` holds the formatted lines; `text` always holds the
+ * same content as plain text (lines joined with '\n'). Editors work on the plain
+ * text and its character offsets, so formatting is applied to offset ranges and
+ * plain-text edits are mapped back onto the runs.
+ */
+
+export type ToggleableMark = 'bold' | 'italic' | 'strike';
+
+/** Object types whose text is drawn with formatting. */
+export function supportsRichText(type: WhiteboardObjectType): boolean {
+  return (
+    type === 'text' ||
+    type === 'stickyNote' ||
+    type === 'rectangle' ||
+    type === 'roundedRect' ||
+    type === 'ellipse' ||
+    type === 'diamond' ||
+    type === 'triangle' ||
+    type === 'hexagon' ||
+    type === 'parallelogram' ||
+    type === 'cylinder' ||
+    type === 'cloud' ||
+    type === 'star' ||
+    type === 'blockArrow'
+  );
+}
+
+/** Link targets that are safe to open from a board. */
+export function isSafeLinkUrl(url: string): boolean {
+  return /^(https?:\/\/|mailto:)/i.test(url.trim());
+}
+
+function cleanMarks(marks: TextMarks): TextMarks {
+  const out: TextMarks = {};
+  if (marks.bold) out.bold = true;
+  if (marks.italic) out.italic = true;
+  if (marks.strike) out.strike = true;
+  if (marks.link) out.link = marks.link;
+  return out;
+}
+
+export function sameMarks(a: TextMarks, b: TextMarks): boolean {
+  return (
+    !!a.bold === !!b.bold &&
+    !!a.italic === !!b.italic &&
+    !!a.strike === !!b.strike &&
+    (a.link ?? '') === (b.link ?? '')
+  );
+}
+
+function hasMarks(marks: TextMarks): boolean {
+  return !!(marks.bold || marks.italic || marks.strike || marks.link);
+}
+
+export function richTextToPlainText(paragraphs: readonly TextParagraph[]): string {
+  return paragraphs.map((p) => p.runs.map((r) => r.text).join('')).join('\n');
+}
+
+export function plainTextToRichText(text: string): TextParagraph[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => ({ runs: line ? [{ text: line }] : [] }));
+}
+
+export function hasRichFormatting(paragraphs: readonly TextParagraph[]): boolean {
+  return paragraphs.some((p) => p.list !== undefined || p.runs.some(hasMarks));
+}
+
+/** The object's rich text, or null when it has none or it no longer matches `text`. */
+export function getRichText(obj: Pick<WhiteboardObject, 'text' | 'richText'>): TextParagraph[] | null {
+  if (!obj.richText) return null;
+  return richTextToPlainText(obj.richText) === (obj.text ?? '') ? obj.richText : null;
+}
+
+/** Lines to render: the rich text when valid, the plain text otherwise. */
+export function getTextParagraphs(obj: Pick<WhiteboardObject, 'text' | 'richText'>): TextParagraph[] {
+  return getRichText(obj) ?? plainTextToRichText(obj.text ?? '');
+}
+
+/**
+ * Plain-text rendering for places without formatting (labels, comments, search):
+ * list items keep a bullet, links keep their URL when it differs from the label.
+ */
+export function getObjectPlainText(obj: Pick<WhiteboardObject, 'text' | 'richText'>): string {
+  const rich = getRichText(obj);
+  if (!rich) return obj.text ?? '';
+  return rich
+    .map((p) => {
+      const line = p.runs
+        .map((r) => (r.link && r.link !== r.text ? `${r.text} (${r.link})` : r.text))
+        .join('');
+      return p.list === 'bullet' ? `• ${line}` : line;
+    })
+    .join('\n');
+}
+
+/** One-line excerpt of the object's plain text for labels; empty when it has no text. */
+export function getObjectTextExcerpt(obj: Pick<WhiteboardObject, 'text' | 'richText'>, maxChars: number): string {
+  const text = getObjectPlainText(obj).replace(/\s+/g, ' ').trim();
+  return text.length > maxChars ? `${text.slice(0, maxChars - 3)}…` : text;
+}
+
+// ─────────────────────────────────────────────
+// Flat form: plain text + per-character marks + per-line list style
+// ─────────────────────────────────────────────
+
+type FlatText = {
+  text: string;
+  /** Marks of each UTF-16 unit of `text` (line breaks carry none). */
+  marks: TextMarks[];
+  lists: Array<TextParagraph['list']>;
+};
+
+function flatten(paragraphs: readonly TextParagraph[]): FlatText {
+  const marks: TextMarks[] = [];
+  paragraphs.forEach((p, i) => {
+    if (i > 0) marks.push({});
+    for (const run of p.runs) {
+      const m = cleanMarks(run);
+      for (let k = 0; k < run.text.length; k++) marks.push(m);
+    }
+  });
+  return { text: richTextToPlainText(paragraphs), marks, lists: paragraphs.map((p) => p.list) };
+}
+
+function unflatten({ text, marks, lists }: FlatText): TextParagraph[] {
+  const paragraphs: TextParagraph[] = [];
+  let offset = 0;
+  text.split('\n').forEach((line, i) => {
+    const runs: TextRun[] = [];
+    for (let k = 0; k < line.length; k++) {
+      const m = marks[offset + k] ?? {};
+      const last = runs[runs.length - 1];
+      if (last && sameMarks(last, m)) last.text += line[k];
+      else runs.push({ ...m, text: line[k] });
+    }
+    const list = lists[i];
+    paragraphs.push(list ? { runs, list } : { runs });
+    offset += line.length + 1;
+  });
+  return paragraphs;
+}
+
+function clampRange(text: string, start: number, end: number): [number, number] {
+  const a = Math.max(0, Math.min(text.length, Math.min(start, end)));
+  const b = Math.max(0, Math.min(text.length, Math.max(start, end)));
+  return [a, b];
+}
+
+/** True when every character in [start, end) has `mark` (line breaks are ignored). */
+export function isMarkActive(
+  paragraphs: readonly TextParagraph[],
+  start: number,
+  end: number,
+  mark: ToggleableMark
+): boolean {
+  const flat = flatten(paragraphs);
+  const [a, b] = clampRange(flat.text, start, end);
+  let any = false;
+  for (let i = a; i < b; i++) {
+    if (flat.text[i] === '\n') continue;
+    if (!flat.marks[i][mark]) return false;
+    any = true;
+  }
+  return any;
+}
+
+/** Add `mark` to [start, end), or remove it when the whole range already has it. */
+export function toggleMark(
+  paragraphs: readonly TextParagraph[],
+  start: number,
+  end: number,
+  mark: ToggleableMark
+): TextParagraph[] {
+  const flat = flatten(paragraphs);
+  const [a, b] = clampRange(flat.text, start, end);
+  const on = !isMarkActive(paragraphs, a, b, mark);
+  const marks = flat.marks.map((m, i) =>
+    i >= a && i < b && flat.text[i] !== '\n' ? cleanMarks({ ...m, [mark]: on }) : m
+  );
+  return unflatten({ ...flat, marks });
+}
+
+/** Link [start, end) to `url`, or remove links from it when `url` is null. */
+export function setLink(
+  paragraphs: readonly TextParagraph[],
+  start: number,
+  end: number,
+  url: string | null
+): TextParagraph[] {
+  const flat = flatten(paragraphs);
+  const [a, b] = clampRange(flat.text, start, end);
+  const marks = flat.marks.map((m, i) =>
+    i >= a && i < b && flat.text[i] !== '\n' ? cleanMarks({ ...m, link: url ?? undefined }) : m
+  );
+  return unflatten({ ...flat, marks });
+}
+
+/** The link under [start, end), when the whole range has the same one. */
+export function getLinkAt(paragraphs: readonly TextParagraph[], start: number, end: number): string | null {
+  const flat = flatten(paragraphs);
+  const [a, b] = clampRange(flat.text, start, end);
+  // A caret picks up the link of the character before it.
+  const from = a === b ? Math.max(0, a - 1) : a;
+  const to = a === b ? Math.min(flat.text.length, a) : b;
+  let link: string | null = null;
+  for (let i = from; i < to; i++) {
+    const l = flat.marks[i]?.link ?? null;
+    if (!l || (link !== null && l !== link)) return null;
+    link = l;
+  }
+  return link;
+}
+
+/** Remove the link under [start, end), extended to the whole linked text (a caret unlinks the link it is in). */
+export function removeLinkAt(paragraphs: readonly TextParagraph[], start: number, end: number): TextParagraph[] {
+  const link = getLinkAt(paragraphs, start, end);
+  if (!link) return paragraphs.slice();
+  const flat = flatten(paragraphs);
+  let [a, b] = clampRange(flat.text, start, end);
+  if (a === b) a = Math.max(0, a - 1);
+  while (a > 0 && flat.marks[a - 1]?.link === link) a--;
+  while (b < flat.text.length && flat.marks[b]?.link === link) b++;
+  return setLink(paragraphs, a, b, null);
+}
+
+function getLineIndexAt(text: string, offset: number): number {
+  let line = 0;
+  for (let i = 0; i < offset && i < text.length; i++) if (text[i] === '\n') line++;
+  return line;
+}
+
+/** Turn the lines touched by [start, end) into a bullet list, or back when they all are. */
+export function toggleBulletList(paragraphs: readonly TextParagraph[], start: number, end: number): TextParagraph[] {
+  const flat = flatten(paragraphs);
+  const [a, b] = clampRange(flat.text, start, end);
+  const first = getLineIndexAt(flat.text, a);
+  const last = getLineIndexAt(flat.text, b);
+  const on = !flat.lists.slice(first, last + 1).every((l) => l === 'bullet');
+  const lists = flat.lists.map((l, i) => (i >= first && i <= last ? (on ? 'bullet' : undefined) : l));
+  return unflatten({ ...flat, lists });
+}
+
+/** True when every line touched by [start, end) is a bullet. */
+export function isBulletListActive(paragraphs: readonly TextParagraph[], start: number, end: number): boolean {
+  const flat = flatten(paragraphs);
+  const [a, b] = clampRange(flat.text, start, end);
+  return flat.lists.slice(getLineIndexAt(flat.text, a), getLineIndexAt(flat.text, b) + 1).every((l) => l === 'bullet');
+}
+
+function countLineBreaks(s: string): number {
+  let n = 0;
+  for (let i = 0; i < s.length; i++) if (s[i] === '\n') n++;
+  return n;
+}
+
+/**
+ * Map a plain-text edit (e.g. typing in a textarea) onto rich text. The changed
+ * span is found by common prefix/suffix; inserted characters take the formatting
+ * of the character before them, and new lines continue the list they split.
+ */
+export function applyPlainTextEdit(paragraphs: readonly TextParagraph[], nextText: string): TextParagraph[] {
+  const flat = flatten(paragraphs);
+  const prev = flat.text;
+  const next = nextText.replace(/\r\n?/g, '\n');
+  if (prev === next) return paragraphs.slice();
+
+  let s = 0;
+  while (s < prev.length && s < next.length && prev[s] === next[s]) s++;
+  let e = 0;
+  while (e < prev.length - s && e < next.length - s && prev[prev.length - 1 - e] === next[next.length - 1 - e]) e++;
+
+  const inserted = next.slice(s, next.length - e);
+  const markAt = (i: number) => (i >= 0 && i < prev.length && prev[i] !== '\n' ? flat.marks[i] : null);
+  const replaced = s < prev.length - e ? markAt(s) : null;
+  const following = markAt(prev.length - e);
+  // Replacing a selection keeps its formatting; plain typing continues the text before the caret.
+  const inherited = replaced ?? markAt(s - 1) ?? following ?? {};
+  // Typing at the end of a link should not extend it; typing inside one should.
+  const keepsLink = !!inherited.link && (replaced?.link === inherited.link || following?.link === inherited.link);
+  const typed = cleanMarks({ ...inherited, link: keepsLink ? inherited.link : undefined });
+
+  const marks = [
+    ...flat.marks.slice(0, s),
+    ...Array.from(inserted, (ch) => (ch === '\n' ? {} : typed)),
+    ...flat.marks.slice(prev.length - e),
+  ];
+
+  const line = getLineIndexAt(prev, s);
+  const removedBreaks = countLineBreaks(prev.slice(s, prev.length - e));
+  const addedBreaks = countLineBreaks(inserted);
+  const lists = [
+    ...flat.lists.slice(0, line + 1),
+    ...Array.from({ length: addedBreaks }, () => flat.lists[line]),
+    ...flat.lists.slice(line + removedBreaks + 1),
+  ];
+
+  return unflatten({ text: next, marks, lists });
+}
+
+/** Patch that stores `paragraphs` (dropping rich text that has no formatting left). */
+export function getRichTextPatch(paragraphs: readonly TextParagraph[]): Pick<WhiteboardObject, 'text' | 'richText'> {
+  return {
+    text: richTextToPlainText(paragraphs),
+    richText: hasRichFormatting(paragraphs) ? paragraphs.slice() : undefined,
+  };
+}
+
+/** Patch for replacing an object's text with `nextText`, keeping its formatting where possible. */
+export function getTextEditPatch(
+  obj: Pick<WhiteboardObject, 'text' | 'richText'>,
+  nextText: string
+): Pick<WhiteboardObject, 'text' | 'richText'> {
+  const rich = getRichText(obj);
+  if (!rich) return obj.richText ? { text: nextText, richText: undefined } : { text: nextText };
+  return getRichTextPatch(applyPlainTextEdit(rich, nextText));
+}
@@ -9,6 +9,7 @@ export type ServerFeatureFlags = {
   supportsPublications: boolean;
   supportsSharedTimer: boolean;
   supportsReactions: boolean;
+  supportsBoardAssets: boolean;
 };
 
 const EMPTY_CAPABILITIES: ServerCapability[] = [];
@@ -33,6 +34,7 @@ export function buildServerFeatureFlags(args?: {
     supportsPublications: has('publications'),
     supportsSharedTimer: has('shared-timer'),
     supportsReactions: has('ws-reactions'),
+    supportsBoardAssets: has('board-assets'),
   };
 }
 
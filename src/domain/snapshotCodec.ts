@@ -1,5 +1,6 @@
 import type { WhiteboardId, WhiteboardMeta, WhiteboardState } from './types';
 import { DEFAULT_BOARD_TYPE, isBoardType } from './boardType';
+import { coerceBoardSettings } from './boardSettings';
 import { createEmptyWhiteboardState } from './whiteboardState';
 const PERSIST_SCHEMA_VERSION = 2 as const;
 const FREEHAND_POINTS_SCALE = 10;
@@ -86,7 +87,10 @@ function asMeta(id: WhiteboardId, rawMeta: unknown): WhiteboardMeta {
   const createdAt = typeof m.createdAt === 'string' ? m.createdAt : now;
   const updatedAt = typeof m.updatedAt === 'string' ? m.updatedAt : createdAt;
   const boardType = isBoardType(m.boardType) ? m.boardType : DEFAULT_BOARD_TYPE;
-  return { id, name, boardType, createdAt, updatedAt };
+  const settings = coerceBoardSettings(m.settings);
+  return settings
+    ? { id, name, boardType, createdAt, updatedAt, settings }
+    : { id, name, boardType, createdAt, updatedAt };
 }
 
 function snapshotToPersistedV2(id: WhiteboardId, state: WhiteboardState): PersistedBoardStateV2 {
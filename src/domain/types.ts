@@ -2,14 +2,31 @@ export type WhiteboardId = string;
 export type ObjectId = string;
 export type BoardEventId = string;
 
+export type GroupId = string;
+
 export type BoardTypeId = 'advanced' | 'freehand' | 'mindmap';
 
+/** Canvas background pattern drawn behind all objects. */
+export type BoardBackground = 'none' | 'dots' | 'lines' | 'isometric';
+
+/**
+ * Per-board settings shared with every collaborator.
+ * - gridSize is in world units and drives both the background pattern and snapping.
+ */
+export interface BoardSettings {
+  background: BoardBackground;
+  gridSize: number;
+  snapToGrid: boolean;
+}
+
 export interface WhiteboardMeta {
   id: WhiteboardId;
   name: string;
   boardType: BoardTypeId;
   createdAt: string; // ISO timestamp
   updatedAt: string; // ISO timestamp
+  /** Optional: boards created before settings existed fall back to defaults. */
+  settings?: BoardSettings;
 }
 
 export type WhiteboardObjectType =
@@ -19,9 +36,17 @@ export type WhiteboardObjectType =
   | 'ellipse'
   | 'diamond'
   | 'roundedRect'
+  | 'triangle'
+  | 'hexagon'
+  | 'parallelogram'
+  | 'cylinder'
+  | 'cloud'
+  | 'star'
+  | 'blockArrow'
   | 'text'
   | 'stickyNote'
-  | 'connector';
+  | 'connector'
+  | 'image';
 
 /**
  * Arrow head type for line ends.
@@ -33,6 +58,54 @@ export type WhiteboardObjectType =
  */
 export type ArrowType = 'none' | 'open' | 'closed' | 'filled';
 
+/**
+ * How a connector's path is drawn: a straight segment, elbows that route around
+ * other objects ('orthogonal'), straight segments through user-placed
+ * `waypoints` ('manual'), or a smooth curve through them ('curved').
+ */
+export type ConnectorRouting = 'straight' | 'manual' | 'curved' | 'orthogonal';
+
+/**
+ * How text and sticky notes handle text that does not fit their box:
+ * - shrink:   keep the box, reduce the font size until the text fits
+ * - grow:     keep the font size, grow the box's height to fit every line
+ * - overflow: keep both, clip the text and show an overflow indicator
+ */
+export type TextFit = 'shrink' | 'grow' | 'overflow';
+
+/** Dash pattern of an object's stroke. */
+export type StrokeDash = 'solid' | 'dashed' | 'dotted';
+
+/** Horizontal alignment of the lines of text inside a shape. */
+export type TextAlign = 'left' | 'center' | 'right';
+
+/** Vertical position of text inside a shape. */
+export type TextVerticalAlign = 'top' | 'middle' | 'bottom';
+
+/** A label on a line or connector after the first one (which is the object's `text`). */
+export type PathLabel = {
+  text: string;
+  /** Position along the path by length: 0 at the start, 1 at the end. */
+  t: number;
+};
+
+/** Inline formatting of a rich text run. */
+export type TextMarks = {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  /** http(s) or mailto URL the run links to. */
+  link?: string;
+};
+
+export type TextRun = TextMarks & { text: string };
+
+/** One line of rich text (runs never contain line breaks). */
+export type TextParagraph = {
+  runs: TextRun[];
+  list?: 'bullet';
+};
+
 export interface Point {
   x: number;
   y: number;
@@ -92,31 +165,79 @@ export interface WhiteboardObject {
   width?: number;
   height?: number;
 
+  /**
+   * Rotation in degrees (clockwise), applied around the centre of x/y/width/height.
+   * Only box-like shapes use it; undefined means 0.
+   */
+  rotation?: number;
+
+  /**
+   * Objects sharing a groupId are selected, moved, resized and copied as one unit.
+   * Groups are flat: an object belongs to at most one group.
+   */
+  groupId?: GroupId;
+
+  /**
+   * Locked objects cannot be moved, edited or deleted until unlocked
+   * (enforced by the store policy, for local and remote events alike).
+   */
+  locked?: boolean;
+
   // Style
   strokeColor?: string;
   fillColor?: string;
   cornerRadius?: number;
   strokeWidth?: number;
+  /** Solid when omitted. */
+  strokeDash?: StrokeDash;
+  /** Opacity of the stroke and of the fill, 0..1; opaque when omitted. */
+  strokeOpacity?: number;
+  fillOpacity?: number;
 
   /** Line/connector arrowheads (used by type === 'line' | 'connector'). */
   arrowStart?: ArrowType;
   arrowEnd?: ArrowType;
 
-  // Text content (for text / sticky notes)
+  // Text content (for text / sticky notes / shapes)
   text?: string;
+  /**
+   * Formatted version of `text`, one entry per line. `text` stays the plain-text
+   * fallback (export, comments, older clients); rich text whose plain text no
+   * longer matches `text` is ignored. See domain/richText.ts.
+   */
+  richText?: TextParagraph[];
   fontSize?: number;
   textColor?: string;
+  /** Fitting of text into text boxes and sticky notes; see getTextFit() for per-type defaults. */
+  textFit?: TextFit;
+  /** Alignment of text inside rectangles, rounded rects, ellipses and diamonds; centred when omitted. */
+  textAlign?: TextAlign;
+  textVerticalAlign?: TextVerticalAlign;
+
+  /**
+   * Image content (type === 'image'). Local boards keep the bytes in IndexedDB,
+   * server boards in the board's asset store; either way only the id is synced.
+   */
+  assetId?: string;
 
   // Freehand path (board coordinates)
   points?: Point[];
+  /** Freehand pen pressure (0..1) per point, parallel to `points`; absent for mouse/touch. */
+  pressures?: number[];
 
   // Connector endpoints (only for type === 'connector')
   from?: ConnectorEnd;
   to?: ConnectorEnd;
 
-  // Reserved for later routing modes (not used in v1 implementation)
-  routing?: 'straight' | 'manual' | 'orthogonal';
+  /** Connector path between its endpoints; 'straight' when omitted. */
+  routing?: ConnectorRouting;
+  /** World points the path passes through ('manual' and 'curved' routing). */
   waypoints?: Point[];
+
+  /** Position of a line's or connector's `text` label along its path (see PathLabel.t); 0.5 when omitted. */
+  labelT?: number;
+  /** Further labels on a line or connector. */
+  labels?: PathLabel[];
 }
 
 export interface Viewport {
@@ -198,9 +319,21 @@ export interface WhiteboardState {
 export type BoardEventType =
   | 'objectCreated'
   | 'objectUpdated'
+  | 'objectsUpdated'
   | 'objectDeleted'
+  | 'objectsErased'
+  | 'objectsReordered'
+  | 'objectsGrouped'
+  | 'objectsUngrouped'
   | 'selectionChanged'
-  | 'viewportChanged';
+  | 'viewportChanged'
+  | 'boardSettingsChanged';
+
+/**
+ * Stacking-order change. Objects are drawn in array order, so "front" is the end
+ * of `WhiteboardState.objects`.
+ */
+export type ZOrderDirection = 'forward' | 'backward' | 'front' | 'back';
 
 export interface BaseBoardEvent {
   id: BoardEventId;
@@ -224,6 +357,22 @@ export interface ObjectUpdatedEvent extends BaseBoardEvent {
   };
 }
 
+export type ObjectUpdate = {
+  objectId: ObjectId;
+  patch: Partial<WhiteboardObject>;
+};
+
+/**
+ * Several object updates applied (and undone) as one step, e.g. moving or
+ * scaling a multi-selection.
+ */
+export interface ObjectsUpdatedEvent extends BaseBoardEvent {
+  type: 'objectsUpdated';
+  payload: {
+    updates: ObjectUpdate[];
+  };
+}
+
 export interface ObjectDeletedEvent extends BaseBoardEvent {
   type: 'objectDeleted';
   payload: {
@@ -231,6 +380,50 @@ export interface ObjectDeletedEvent extends BaseBoardEvent {
   };
 }
 
+/** One object removed by the eraser, with the pieces (if any) left in its place. */
+export type ErasedObject = {
+  objectId: ObjectId;
+  /** Remaining parts of a cut stroke, in the object's stacking position; empty to delete it. */
+  fragments: WhiteboardObject[];
+};
+
+/** Everything one eraser gesture removed or cut, applied (and undone) as one step. */
+export interface ObjectsErasedEvent extends BaseBoardEvent {
+  type: 'objectsErased';
+  payload: {
+    erased: ErasedObject[];
+  };
+}
+
+/**
+ * Moves a set of objects in the stacking order. Stored as a relative operation
+ * (not a full order) so replays and concurrent creations/deletions stay consistent.
+ */
+export interface ObjectsReorderedEvent extends BaseBoardEvent {
+  type: 'objectsReordered';
+  payload: {
+    objectIds: ObjectId[];
+    direction: ZOrderDirection;
+  };
+}
+
+/** Puts `objectIds` into a new group (leaving any group they were in). */
+export interface ObjectsGroupedEvent extends BaseBoardEvent {
+  type: 'objectsGrouped';
+  payload: {
+    groupId: GroupId;
+    objectIds: ObjectId[];
+  };
+}
+
+/** Dissolves a group; its members become individual objects again. */
+export interface ObjectsUngroupedEvent extends BaseBoardEvent {
+  type: 'objectsUngrouped';
+  payload: {
+    groupId: GroupId;
+  };
+}
+
 export interface SelectionChangedEvent extends BaseBoardEvent {
   type: 'selectionChanged';
   payload: {
@@ -245,9 +438,22 @@ export interface ViewportChangedEvent extends BaseBoardEvent {
   };
 }
 
+export interface BoardSettingsChangedEvent extends BaseBoardEvent {
+  type: 'boardSettingsChanged';
+  payload: {
+    settings: Partial<BoardSettings>;
+  };
+}
+
 export type BoardEvent =
   | ObjectCreatedEvent
   | ObjectUpdatedEvent
+  | ObjectsUpdatedEvent
   | ObjectDeletedEvent
+  | ObjectsErasedEvent
+  | ObjectsReorderedEvent
+  | ObjectsGroupedEvent
+  | ObjectsUngroupedEvent
   | SelectionChangedEvent
-  | ViewportChangedEvent;
\ No newline at end of file
+  | ViewportChangedEvent
+  | BoardSettingsChangedEvent;
\ No newline at end of file
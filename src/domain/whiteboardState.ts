@@ -1,11 +1,16 @@
 import {
   BoardEvent,
+  ErasedObject,
   ObjectId,
   WhiteboardMeta,
   WhiteboardObject,
   WhiteboardState,
   Viewport
 } from './types';
+import { notifyObjectIndexes } from './objectIndex';
+import { getBoardSettings } from './boardSettings';
+import { reorderObjects } from './zOrder';
+import { groupObjects, ungroupObjects } from './groups';
 
 /**
  * Helper to create an empty whiteboard state from metadata.
@@ -31,32 +36,123 @@ export function defaultViewport(): Viewport {
   };
 }
 
+/**
+ * Replace each erased object with its fragments at the same stacking position.
+ * Indexes are told about every removal and creation, then about the new order.
+ */
+function eraseObjects(objects: WhiteboardObject[], erased: ErasedObject[]): WhiteboardObject[] {
+  let current = objects;
+  for (const { objectId, fragments } of erased) {
+    const index = current.findIndex((obj) => obj.id === objectId);
+    if (index === -1) continue;
+
+    const removed = current[index];
+    const without = [...current.slice(0, index), ...current.slice(index + 1)];
+    notifyObjectIndexes(current, without, { kind: 'deleted', object: removed });
+    current = without;
+    if (fragments.length === 0) continue;
+
+    let appended = current;
+    for (const fragment of fragments) {
+      const next = [...appended, fragment];
+      notifyObjectIndexes(appended, next, { kind: 'created', object: fragment });
+      appended = next;
+    }
+    const placed = [...current.slice(0, index), ...fragments, ...current.slice(index)];
+    notifyObjectIndexes(appended, placed, { kind: 'reordered' });
+    current = placed;
+  }
+  return current;
+}
+
 /**
  * Pure function that applies a single event to the given state and returns a new state.
  * History stacks are *not* updated here; they will be handled by a higher-level store.
  */
 export function applyEvent(state: WhiteboardState, event: BoardEvent): WhiteboardState {
   switch (event.type) {
-    case 'objectCreated':
+    case 'objectCreated': {
+      const objects = [...state.objects, event.payload.object];
+      notifyObjectIndexes(state.objects, objects, { kind: 'created', object: event.payload.object });
       return {
         ...state,
-        objects: [...state.objects, event.payload.object]
+        objects
       };
+    }
 
-    case 'objectUpdated':
+    case 'objectUpdated': {
+      let before: WhiteboardObject | undefined;
+      let after: WhiteboardObject | undefined;
+      const objects = state.objects.map((obj) => {
+        if (obj.id !== event.payload.objectId) return obj;
+        before = obj;
+        after = { ...obj, ...event.payload.patch };
+        return after;
+      });
+      if (before && after) {
+        notifyObjectIndexes(state.objects, objects, { kind: 'updated', before, after });
+      }
       return {
         ...state,
-        objects: state.objects.map((obj) =>
-          obj.id === event.payload.objectId ? { ...obj, ...event.payload.patch } : obj
-        )
+        objects
       };
+    }
+
+    case 'objectsUpdated': {
+      let next = state;
+      for (const update of event.payload.updates) {
+        next = applyEvent(next, { ...event, type: 'objectUpdated', payload: update });
+      }
+      return next;
+    }
 
-    case 'objectDeleted':
+    case 'objectDeleted': {
+      const removed = state.objects.find((obj) => obj.id === event.payload.objectId);
+      const objects = state.objects.filter((obj) => obj.id !== event.payload.objectId);
+      if (removed) {
+        notifyObjectIndexes(state.objects, objects, { kind: 'deleted', object: removed });
+      }
       return {
         ...state,
-        objects: state.objects.filter((obj) => obj.id !== event.payload.objectId),
+        objects,
         selectedObjectIds: state.selectedObjectIds.filter((id) => id !== event.payload.objectId)
       };
+    }
+
+    case 'objectsErased': {
+      const objects = eraseObjects(state.objects, event.payload.erased);
+      if (objects === state.objects) return state;
+      const erasedIds = new Set(event.payload.erased.map((entry) => entry.objectId));
+      return {
+        ...state,
+        objects,
+        selectedObjectIds: state.selectedObjectIds.filter((id) => !erasedIds.has(id))
+      };
+    }
+
+    case 'objectsReordered': {
+      const objects = reorderObjects(state.objects, event.payload.objectIds, event.payload.direction);
+      if (objects === state.objects) return state;
+      notifyObjectIndexes(state.objects, objects, { kind: 'reordered' });
+      return {
+        ...state,
+        objects
+      };
+    }
+
+    case 'objectsGrouped':
+    case 'objectsUngrouped': {
+      const objects =
+        event.type === 'objectsGrouped'
+          ? groupObjects(state.objects, event.payload.objectIds, event.payload.groupId)
+          : ungroupObjects(state.objects, event.payload.groupId);
+      if (objects === state.objects) return state;
+      notifyObjectIndexes(state.objects, objects, { kind: 'regrouped' });
+      return {
+        ...state,
+        objects
+      };
+    }
 
     case 'selectionChanged':
       return {
@@ -73,6 +169,18 @@ export function applyEvent(state: WhiteboardState, event: BoardEvent): Whiteboar
         }
       };
 
+    case 'boardSettingsChanged':
+      return {
+        ...state,
+        meta: {
+          ...state.meta,
+          settings: {
+            ...getBoardSettings(state.meta),
+            ...event.payload.settings
+          }
+        }
+      };
+
     default:
       // Exhaustiveness check
       return state;
@@ -0,0 +1,51 @@
+import type { ObjectId, WhiteboardObject, ZOrderDirection } from './types';
+
+export const Z_ORDER_DIRECTIONS: readonly ZOrderDirection[] = ['forward', 'backward', 'front', 'back'] as const;
+
+export function isZOrderDirection(value: unknown): value is ZOrderDirection {
+  return typeof value === 'string' && (Z_ORDER_DIRECTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Move `ids` within the stacking order (array order, last = topmost).
+ *
+ * - front/back: the moved objects become a contiguous block at the top/bottom,
+ *   keeping their relative order.
+ * - forward/backward: each moved object swaps with the next unmoved neighbour
+ *   above/below it, so a multi-selection steps one position as a group.
+ *
+ * Unknown ids are ignored. Returns the input array when nothing changes.
+ */
+export function reorderObjects(
+  objects: WhiteboardObject[],
+  ids: readonly ObjectId[],
+  direction: ZOrderDirection
+): WhiteboardObject[] {
+  const moving = new Set(ids);
+  if (!objects.some((o) => moving.has(o.id))) return objects;
+
+  let next: WhiteboardObject[];
+
+  if (direction === 'front' || direction === 'back') {
+    const moved = objects.filter((o) => moving.has(o.id));
+    const rest = objects.filter((o) => !moving.has(o.id));
+    next = direction === 'front' ? [...rest, ...moved] : [...moved, ...rest];
+  } else {
+    next = [...objects];
+    if (direction === 'forward') {
+      for (let i = next.length - 2; i >= 0; i--) {
+        if (moving.has(next[i].id) && !moving.has(next[i + 1].id)) {
+          [next[i], next[i + 1]] = [next[i + 1], next[i]];
+        }
+      }
+    } else {
+      for (let i = 1; i < next.length; i++) {
+        if (moving.has(next[i].id) && !moving.has(next[i - 1].id)) {
+          [next[i], next[i - 1]] = [next[i - 1], next[i]];
+        }
+      }
+    }
+  }
+
+  return next.every((o, i) => o === objects[i]) ? objects : next;
+}
@@ -0,0 +1,114 @@
+// src/infrastructure/indexedDbAssetRepository.ts
+
+import { createAssetsApi } from '../api/assetsApi';
+
+/**
+ * Storage for image bytes referenced by `WhiteboardObject.assetId`.
+ *
+ * Local boards keep assets in IndexedDB (localStorage is far too small for images).
+ * Assets are keyed by id alone, so images copied between local boards keep working.
+ * Server boards upload to the board's asset store instead.
+ */
+export interface BoardAssetRepository {
+  /** Store the bytes and return the new asset id. */
+  saveAsset: (blob: Blob) => Promise<string>;
+  /** The stored bytes, or null when the asset does not exist. */
+  loadAsset: (assetId: string) => Promise<Blob | null>;
+}
+
+const DB_NAME = 'pwa-whiteboard.assets';
+const DB_VERSION = 1;
+const STORE_NAME = 'assets';
+
+function generateAssetId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return 'a_' + (crypto as any).randomUUID();
+  }
+  return 'a_' + Math.random().toString(16).slice(2) + '_' + Date.now().toString(16);
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed.'));
+  });
+}
+
+class IndexedDbAssetRepository implements BoardAssetRepository {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      this.dbPromise = requestToPromise(request).catch((err) => {
+        // Allow a later call to retry (e.g. after the user freed up storage).
+        this.dbPromise = null;
+        throw err;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async saveAsset(blob: Blob): Promise<string> {
+    const db = await this.openDb();
+    const assetId = generateAssetId();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    await requestToPromise(tx.objectStore(STORE_NAME).put(blob, assetId));
+    return assetId;
+  }
+
+  async loadAsset(assetId: string): Promise<Blob | null> {
+    const db = await this.openDb();
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const value = await requestToPromise(tx.objectStore(STORE_NAME).get(assetId));
+    return value instanceof Blob ? value : null;
+  }
+}
+
+/** Fallback for environments without IndexedDB (assets last for the session only). */
+class InMemoryAssetRepository implements BoardAssetRepository {
+  private assets = new Map<string, Blob>();
+
+  async saveAsset(blob: Blob): Promise<string> {
+    const assetId = generateAssetId();
+    this.assets.set(assetId, blob);
+    return assetId;
+  }
+
+  async loadAsset(assetId: string): Promise<Blob | null> {
+    return this.assets.get(assetId) ?? null;
+  }
+}
+
+class RestBoardAssetRepository implements BoardAssetRepository {
+  private readonly api = createAssetsApi();
+
+  constructor(private readonly boardId: string) {}
+
+  async saveAsset(blob: Blob): Promise<string> {
+    const asset = await this.api.upload(this.boardId, blob);
+    return asset.id;
+  }
+
+  async loadAsset(assetId: string): Promise<Blob | null> {
+    return this.api.download(this.boardId, assetId);
+  }
+}
+
+let localInstance: BoardAssetRepository | null = null;
+
+export function getLocalAssetRepository(): BoardAssetRepository {
+  if (!localInstance) {
+    localInstance = typeof indexedDB !== 'undefined' ? new IndexedDbAssetRepository() : new InMemoryAssetRepository();
+  }
+  return localInstance;
+}
+
+export function getRemoteAssetRepository(boardId: string): BoardAssetRepository {
+  return new RestBoardAssetRepository(boardId);
+}
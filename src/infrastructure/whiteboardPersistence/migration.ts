@@ -5,6 +5,7 @@ import type {
   WhiteboardState,
 } from '../../domain/types';
 import { DEFAULT_BOARD_TYPE, isBoardType } from '../../domain/boardType';
+import { coerceBoardSettings } from '../../domain/boardSettings';
 import { applyEvent, createEmptyWhiteboardState } from '../../domain/whiteboardState';
 
 export function isRecord(v: unknown): v is Record<string, unknown> {
@@ -19,6 +20,7 @@ export function asMeta(id: WhiteboardId, rawMeta: unknown): WhiteboardMeta {
   const createdAt = typeof m.createdAt === 'string' ? m.createdAt : now;
   const updatedAt = typeof m.updatedAt === 'string' ? m.updatedAt : createdAt;
   const boardType = isBoardType(m.boardType) ? m.boardType : DEFAULT_BOARD_TYPE;
+  const settings = coerceBoardSettings(m.settings);
 
   return {
     id,
@@ -26,6 +28,7 @@ export function asMeta(id: WhiteboardId, rawMeta: unknown): WhiteboardMeta {
     boardType,
     createdAt,
     updatedAt,
+    ...(settings ? { settings } : {}),
   };
 }
 
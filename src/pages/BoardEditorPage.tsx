@@ -17,6 +17,8 @@ import { useBoardVoting } from './hooks/useBoardVoting';
 import { useSharedTimer } from './hooks/useSharedTimer';
 import { useBoardReactions } from './hooks/useBoardReactions';
 import { usePresenterFollow } from './hooks/usePresenterFollow';
+import { useLaserPointer } from './hooks/useLaserPointer';
+import { useBoardImages } from './hooks/useBoardImages';
 import { createBoardAccessContext, type PublicationSession } from './hooks/publicationSession';
 import { createPublicationsApi, type BoardPublication } from '../api/publicationsApi';
 
@@ -354,8 +356,26 @@ const BoardEditorContent: React.FC<{
     handleCreateObject,
     handleSelectionChange,
     handleUpdateObject,
+    handleUpdateObjects,
+    handleEraseObjects,
+    handleUpdateBoardSettings,
     handleTransientObjectPatch,
     handleDeleteSelection,
+    handleReorderSelection,
+    canReorder,
+    canGroup,
+    canUngroup,
+    handleGroupSelection,
+    handleUngroupSelection,
+    handleSetSelectionLocked,
+    canLock,
+    arrangeUnitCount,
+    handleArrangeSelection,
+    canArrange,
+    marqueeSettings,
+    updateMarqueeSettings,
+    eraserSettings,
+    updateEraserSettings,
     handleViewportChange,
     zoomPercent,
     handleZoomChange,
@@ -392,6 +412,7 @@ const BoardEditorContent: React.FC<{
     enabled: Boolean(boardId) && serverConfigured && capabilities.features.supportsComments,
     authenticated: auth.authenticated,
     selectedObjectIds: state?.selectedObjectIds ?? [],
+    objects: state?.objects ?? [],
     access,
   });
   const sharedTimer = useSharedTimer({
@@ -411,6 +432,36 @@ const BoardEditorContent: React.FC<{
   });
 
 
+  const laser = useLaserPointer({
+    enabled: collab.enabled && collab.status === 'connected',
+    selfUserId: collab.selfUserId,
+    lastEphemeralMessage: collab.lastEphemeralMessage,
+    sendEphemeral: collab.sendEphemeral,
+  });
+
+  const imageViewSize = useMemo(() => {
+    if (!canvasEl) return undefined;
+    const dpr = window.devicePixelRatio || 1;
+    return { width: canvasEl.width / dpr, height: canvasEl.height / dpr };
+  }, [canvasEl]);
+
+  const images = useBoardImages({
+    boardId,
+    storage: !serverConfigured ? 'local' : capabilities.features.supportsBoardAssets ? 'server' : 'unavailable',
+    canInsert: !isReadOnly,
+    viewport: state?.viewport,
+    viewSize: imageViewSize,
+    onCreateObject: handleCreateObject,
+    onSelectionChange: handleSelectionChange,
+  });
+  const { insertImages } = images;
+  const handleInsertImages = React.useCallback(
+    (files: File[], at?: { x: number; y: number }) => {
+      void insertImages(files, at);
+    },
+    [insertImages]
+  );
+
   const presenterFollow = usePresenterFollow({
     enabled: collab.enabled && collab.status === 'connected',
     selfUserId: collab.selfUserId,
@@ -493,8 +544,13 @@ const BoardEditorContent: React.FC<{
     canCopy,
     canPaste,
     onDeleteSelection: handleDeleteSelection,
+    onReorderSelection: handleReorderSelection,
+    onGroupSelection: handleGroupSelection,
+    onUngroupSelection: handleUngroupSelection,
+    onArrangeSelection: handleArrangeSelection,
     onCopy: copySelectionToClipboard,
     onPaste: pasteFromClipboard,
+    onPasteFiles: images.canInsertImages ? handleInsertImages : undefined,
   });
 
   return (
@@ -540,8 +596,26 @@ const BoardEditorContent: React.FC<{
       handleCreateObject={handleCreateObject}
       handleSelectionChange={handleSelectionChange}
       handleUpdateObject={handleUpdateObject}
+      handleUpdateObjects={handleUpdateObjects}
+      handleEraseObjects={handleEraseObjects}
+      handleUpdateBoardSettings={handleUpdateBoardSettings}
       handleTransientObjectPatch={handleTransientObjectPatch}
       handleDeleteSelection={handleDeleteSelection}
+      handleReorderSelection={handleReorderSelection}
+      canReorder={canReorder}
+      canGroup={canGroup}
+      canUngroup={canUngroup}
+      handleGroupSelection={handleGroupSelection}
+      handleUngroupSelection={handleUngroupSelection}
+      handleSetSelectionLocked={handleSetSelectionLocked}
+      canLock={canLock}
+      arrangeUnitCount={arrangeUnitCount}
+      handleArrangeSelection={handleArrangeSelection}
+      canArrange={canArrange}
+      marqueeSettings={marqueeSettings}
+      updateMarqueeSettings={updateMarqueeSettings}
+      eraserSettings={eraserSettings}
+      updateEraserSettings={updateEraserSettings}
       handleViewportChange={handleViewportChangeWithFollow}
       zoomPercent={zoomPercent}
       handleZoomChange={handleZoomChangeWithFollow}
@@ -631,6 +705,14 @@ const BoardEditorContent: React.FC<{
       onSendReaction={reactions.sendReaction}
       reactionBursts={reactions.bursts}
       recentReactionByUserId={reactions.recentReactionByUserId}
+      laserTrails={laser.laserTrails}
+      handleLaserPoint={laser.addLaserPoint}
+      handleLaserEnd={laser.endLaserTrail}
+      imageCache={images.imageCache}
+      onInsertImages={images.canInsertImages ? handleInsertImages : undefined}
+      isInsertingImages={images.isInsertingImages}
+      imageError={images.imageError}
+      onClearImageError={images.clearImageError}
       sharedTimerConnected={sharedTimer.isConnected}
       sharedTimerCanControl={sharedTimer.canControl}
       sharedTimer={sharedTimer.timer}
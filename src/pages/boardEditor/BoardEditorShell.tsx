@@ -1,6 +1,9 @@
 import React from 'react';
 import { WhiteboardCanvas } from '../../whiteboard/WhiteboardCanvas';
-import type { WhiteboardState } from '../../domain/types';
+import type { EraserSettings, MarqueeSettings } from '../../whiteboard/whiteboardTypes';
+import type { ArrangeCommand } from '../../whiteboard/arrange';
+import type { BoardSettings, ErasedObject, ObjectUpdate, WhiteboardState, ZOrderDirection } from '../../domain/types';
+import { getBoardSettings } from '../../domain/boardSettings';
 import type { BoardRole, PresencePayload, PresenceUser } from '../../collab/protocol';
 import type { CollabStatus } from '../../collab/CollabClient';
 import { BoardEditorHeader } from './BoardEditorHeader';
@@ -12,6 +15,7 @@ import { HistoryAndViewPanel } from './HistoryAndViewPanel';
 import { RemoteCursorsOverlay } from './RemoteCursorsOverlay';
 import { ParticipantActivityStrip } from './ParticipantActivityStrip';
 import { ReactionOverlay } from './ReactionOverlay';
+import { LaserTrailsOverlay } from './LaserTrailsOverlay';
 import { ShareDialog } from './ShareDialog';
 import { FacilitationDialog, type FacilitationTab } from './FacilitationDialog';
 import { ObjectCommentAnchorsOverlay, type ObjectCommentAnchor } from './commentAnchors/ObjectCommentAnchorsOverlay';
@@ -66,8 +70,26 @@ export type BoardEditorShellProps = {
   handleCreateObject: (object: any) => void;
   handleSelectionChange: (selectedIds: string[]) => void;
   handleUpdateObject: (id: string, patch: any) => void;
+  handleUpdateObjects?: (updates: ObjectUpdate[]) => void;
+  handleEraseObjects?: (erased: ErasedObject[]) => void;
   handleTransientObjectPatch: (id: string, patch: any) => void;
+  handleUpdateBoardSettings?: (settings: Partial<BoardSettings>) => void;
   handleDeleteSelection: () => void;
+  handleReorderSelection?: (direction: ZOrderDirection) => void;
+  canReorder?: boolean;
+  canGroup?: boolean;
+  canUngroup?: boolean;
+  handleGroupSelection?: () => void;
+  handleUngroupSelection?: () => void;
+  handleSetSelectionLocked?: (locked: boolean) => void;
+  canLock?: boolean;
+  arrangeUnitCount?: number;
+  handleArrangeSelection?: (command: ArrangeCommand) => void;
+  canArrange?: boolean;
+  marqueeSettings?: MarqueeSettings;
+  updateMarqueeSettings?: (patch: Partial<MarqueeSettings>) => void;
+  eraserSettings?: EraserSettings;
+  updateEraserSettings?: (patch: Partial<EraserSettings>) => void;
   handleViewportChange: (patch: any) => void;
   zoomPercent: number;
   handleZoomChange: React.ChangeEventHandler<HTMLInputElement>;
@@ -168,6 +190,15 @@ export type BoardEditorShellProps = {
   onSendReaction: (reactionType: string) => void;
   reactionBursts: import('../hooks/useBoardReactions').ReactionBurst[];
   recentReactionByUserId: Record<string, import('../hooks/useBoardReactions').RecentReaction>;
+  laserTrails?: import('../hooks/laserTrails').LaserTrailStore;
+  handleLaserPoint?: (pos: { x: number; y: number }) => void;
+  handleLaserEnd?: () => void;
+  imageCache?: import('../../whiteboard/tools/image/imageCache').ImageCache;
+  /** Insert image files, centred on `at` (world coords) or the view. Absent when images cannot be added. */
+  onInsertImages?: (files: File[], at?: { x: number; y: number }) => void;
+  isInsertingImages?: boolean;
+  imageError?: string | null;
+  onClearImageError?: () => void;
   sharedTimerCanControl: boolean;
   sharedTimer: import('../../api/timerApi').SharedTimerState | null;
   sharedTimerLabel: string | null;
@@ -227,8 +258,26 @@ export const BoardEditorShell: React.FC<BoardEditorShellProps> = ({
   handleCreateObject,
   handleSelectionChange,
   handleUpdateObject,
+  handleUpdateObjects,
+  handleEraseObjects,
   handleTransientObjectPatch,
+  handleUpdateBoardSettings,
   handleDeleteSelection,
+  handleReorderSelection,
+  canReorder,
+  canGroup,
+  canUngroup,
+  handleGroupSelection,
+  handleUngroupSelection,
+  handleSetSelectionLocked,
+  canLock,
+  arrangeUnitCount,
+  handleArrangeSelection,
+  canArrange,
+  marqueeSettings,
+  updateMarqueeSettings,
+  eraserSettings,
+  updateEraserSettings,
   handleViewportChange,
   zoomPercent,
   handleZoomChange,
@@ -318,6 +367,14 @@ export const BoardEditorShell: React.FC<BoardEditorShellProps> = ({
   onSendReaction,
   reactionBursts,
   recentReactionByUserId,
+  laserTrails,
+  handleLaserPoint,
+  handleLaserEnd,
+  imageCache,
+  onInsertImages,
+  isInsertingImages,
+  imageError,
+  onClearImageError,
   sharedTimerCanControl,
   sharedTimer,
   sharedTimerLabel,
@@ -367,12 +424,24 @@ export const BoardEditorShell: React.FC<BoardEditorShellProps> = ({
                   features.supportsPublications ? 'publications' : null,
                   features.supportsSharedTimer ? 'shared timer' : null,
                   features.supportsReactions ? 'reactions' : null,
+                  features.supportsBoardAssets ? 'images' : null,
                 ]
                   .filter(Boolean)
                   .join(', ') || 'none advertised'}`}
         </div>
       )}
 
+      {(isInsertingImages || imageError) && (
+        <div className="collab-notice" role="status" aria-live="polite">
+          {isInsertingImages ? 'Adding image…' : `Image error: ${imageError}`}
+          {!isInsertingImages && onClearImageError && (
+            <button type="button" className="tool-button" style={{ marginLeft: 8 }} onClick={onClearImageError}>
+              Dismiss
+            </button>
+          )}
+        </div>
+      )}
+
       <BoardEditorHeader
         onOpenShare={accessMode === 'publication' ? undefined : onOpenShare}
         collab={{
@@ -406,6 +475,7 @@ export const BoardEditorShell: React.FC<BoardEditorShellProps> = ({
             isReadOnly={isReadOnly}
             activeToolInstanceId={activeToolInstanceId}
             onChangeToolInstance={setActiveToolInstanceId}
+            onInsertImages={isReadOnly ? undefined : onInsertImages}
           />
 
           <ToolAndSelectionPanel
@@ -420,6 +490,22 @@ export const BoardEditorShell: React.FC<BoardEditorShellProps> = ({
             onUpdateToolProp={updateActiveToolProp}
             selectedObjects={selectedObjects}
             updateSelectionProp={updateSelectionProp}
+            onUpdateObject={isReadOnly ? undefined : handleUpdateObject}
+            onReorderSelection={handleReorderSelection}
+            canReorder={canReorder}
+            canGroup={canGroup}
+            canUngroup={canUngroup}
+            onGroupSelection={handleGroupSelection}
+            onUngroupSelection={handleUngroupSelection}
+            onSetSelectionLocked={handleSetSelectionLocked}
+            canLock={canLock}
+            arrangeUnitCount={arrangeUnitCount}
+            onArrangeSelection={handleArrangeSelection}
+            canArrange={canArrange}
+            marqueeSettings={marqueeSettings}
+            onMarqueeSettingsChange={updateMarqueeSettings}
+            eraserSettings={eraserSettings}
+            onEraserSettingsChange={updateEraserSettings}
           />
 
           <ExportImportPanel
@@ -438,6 +524,8 @@ export const BoardEditorShell: React.FC<BoardEditorShellProps> = ({
               objectCount={state.objects.length}
               eventCount={state.history?.pastEvents.length ?? 0}
               onChangeBoardType={setBoardType}
+              settings={getBoardSettings(state.meta)}
+              onChangeSettings={isReadOnly ? undefined : handleUpdateBoardSettings}
             />
           )}
         </aside>
@@ -515,13 +603,23 @@ export const BoardEditorShell: React.FC<BoardEditorShellProps> = ({
                   strokeColor={strokeColor}
                   strokeWidth={strokeWidth}
                   toolProps={toolProps}
+                  boardSettings={getBoardSettings(state.meta)}
+                  marqueeSettings={marqueeSettings}
+                  eraserSettings={eraserSettings}
                   onCreateObject={handleCreateObject}
                   onSelectionChange={handleSelectionChange}
                   onUpdateObject={handleUpdateObject}
+                  onUpdateObjects={handleUpdateObjects}
+                  onEraseObjects={handleEraseObjects}
+                  onLaserPoint={handleLaserPoint}
+                  onLaserEnd={handleLaserEnd}
                   onTransientObjectPatch={handleTransientObjectPatch}
                   onViewportChange={handleViewportChange}
                   onCanvasReady={setCanvasEl}
                   onCursorWorldMove={handleCursorWorldMove}
+                  images={imageCache}
+                  onDropFiles={isReadOnly ? undefined : onInsertImages}
+                  canEditText={!isReadOnly}
                 />
                 <ObjectCommentAnchorsOverlay
                   width={CANVAS_WIDTH}
@@ -531,6 +629,15 @@ export const BoardEditorShell: React.FC<BoardEditorShellProps> = ({
                   anchors={commentObjectAnchors}
                   onOpenObjectComments={openObjectComments}
                 />
+                {laserTrails && (
+                  <LaserTrailsOverlay
+                    width={CANVAS_WIDTH}
+                    height={CANVAS_HEIGHT}
+                    viewport={state.viewport}
+                    trails={laserTrails}
+                    users={collab.users}
+                  />
+                )}
                 {collab.enabled && collab.status === 'connected' && (
                   <>
                     <RemoteCursorsOverlay
@@ -1,12 +1,23 @@
 import React from 'react';
-import type { BoardTypeId, WhiteboardMeta } from '../../domain/types';
+import type { BoardBackground, BoardSettings, BoardTypeId, WhiteboardMeta } from '../../domain/types';
 import { BOARD_TYPE_IDS, getBoardType } from '../../whiteboard/boardTypes';
+import { BOARD_BACKGROUNDS, DEFAULT_BOARD_SETTINGS, MAX_GRID_SIZE, MIN_GRID_SIZE, isValidGridSize } from '../../domain/boardSettings';
 
 type BoardInfoPanelProps = {
   meta: WhiteboardMeta;
   objectCount: number;
   eventCount: number;
   onChangeBoardType: (nextType: BoardTypeId) => void;
+  settings?: BoardSettings;
+  /** Omitted for read-only sessions; the grid controls are then disabled. */
+  onChangeSettings?: (patch: Partial<BoardSettings>) => void;
+};
+
+const BACKGROUND_LABELS: Record<BoardBackground, string> = {
+  none: 'None',
+  dots: 'Dots',
+  lines: 'Lines',
+  isometric: 'Isometric',
 };
 
 export const BoardInfoPanel: React.FC<BoardInfoPanelProps> = ({
@@ -14,6 +25,8 @@ export const BoardInfoPanel: React.FC<BoardInfoPanelProps> = ({
   objectCount,
   eventCount,
   onChangeBoardType,
+  settings = DEFAULT_BOARD_SETTINGS,
+  onChangeSettings,
 }) => (
   <div className="panel">
     <h2 className="panel-title">Board info</h2>
@@ -37,6 +50,52 @@ export const BoardInfoPanel: React.FC<BoardInfoPanelProps> = ({
         </select>
       </span>
     </div>
+    <div className="panel-row">
+      <span className="field-label-inline">Background</span>
+      <span className="field-value">
+        <select
+          value={settings.background}
+          onChange={(e) => onChangeSettings?.({ background: e.target.value as BoardBackground })}
+          disabled={!onChangeSettings}
+          aria-label="Board background"
+        >
+          {BOARD_BACKGROUNDS.map((id) => (
+            <option key={id} value={id}>
+              {BACKGROUND_LABELS[id]}
+            </option>
+          ))}
+        </select>
+      </span>
+    </div>
+    <div className="panel-row">
+      <span className="field-label-inline">Grid size</span>
+      <span className="field-value">
+        <input
+          type="number"
+          min={MIN_GRID_SIZE}
+          max={MAX_GRID_SIZE}
+          step={1}
+          value={settings.gridSize}
+          onChange={(e) => {
+            const next = Number(e.target.value);
+            if (isValidGridSize(next)) onChangeSettings?.({ gridSize: next });
+          }}
+          disabled={!onChangeSettings}
+          aria-label="Grid size"
+        />
+      </span>
+    </div>
+    <div className="panel-row">
+      <label className="checkbox-field">
+        <input
+          type="checkbox"
+          checked={settings.snapToGrid}
+          onChange={(e) => onChangeSettings?.({ snapToGrid: e.target.checked })}
+          disabled={!onChangeSettings}
+        />{' '}
+        Snap to grid
+      </label>
+    </div>
     <div className="panel-row">
       <span className="field-label-inline">Objects</span>
       <span className="field-value">{objectCount}</span>
@@ -46,4 +105,4 @@ export const BoardInfoPanel: React.FC<BoardInfoPanelProps> = ({
       <span className="field-value">{eventCount}</span>
     </div>
   </div>
-);
\ No newline at end of file
+);
@@ -8,12 +8,13 @@ type CapabilitySummaryProps = {
   hideTitle?: boolean;
 };
 
-const CAPABILITY_LABELS: Array<{ key: keyof Pick<ServerFeatureFlags, 'supportsComments' | 'supportsVoting' | 'supportsPublications' | 'supportsSharedTimer' | 'supportsReactions'>; label: string }> = [
+const CAPABILITY_LABELS: Array<{ key: keyof Pick<ServerFeatureFlags, 'supportsComments' | 'supportsVoting' | 'supportsPublications' | 'supportsSharedTimer' | 'supportsReactions' | 'supportsBoardAssets'>; label: string }> = [
   { key: 'supportsComments', label: 'Comments' },
   { key: 'supportsVoting', label: 'Voting' },
   { key: 'supportsPublications', label: 'Publication links' },
   { key: 'supportsSharedTimer', label: 'Shared timer' },
   { key: 'supportsReactions', label: 'Reactions' },
+  { key: 'supportsBoardAssets', label: 'Images' },
 ];
 
 export const CapabilitySummary: React.FC<CapabilitySummaryProps> = ({ features, isLoading, error, hideTitle }) => {
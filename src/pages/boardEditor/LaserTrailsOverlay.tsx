@@ -0,0 +1,110 @@
+import React, { useEffect, useRef } from 'react';
+import type { PresenceUser } from '../../collab/protocol';
+import type { Viewport } from '../../domain/types';
+import { worldToCanvas } from '../../whiteboard/geometry';
+import { LASER_TRAIL_MS, type LaserTrail, type LaserTrailStore } from '../hooks/laserTrails';
+
+type LaserTrailsOverlayProps = {
+  width: number;
+  height: number;
+  viewport: Viewport;
+  trails: LaserTrailStore;
+  /** Participants, for each trail's colour. */
+  users: PresenceUser[];
+};
+
+const DEFAULT_LASER_COLOR = '#ef4444';
+
+function drawTrail(
+  ctx: CanvasRenderingContext2D,
+  trail: LaserTrail,
+  color: string,
+  viewport: Viewport,
+  now: number
+): void {
+  const points = trail.points.map((p) => ({ ...worldToCanvas(p.x, p.y, viewport), t: p.t, start: p.start }));
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineCap = 'round';
+
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].start) continue;
+    const fade = Math.max(0, 1 - (now - points[i].t) / LASER_TRAIL_MS);
+    ctx.globalAlpha = fade;
+    ctx.lineWidth = 1 + 3 * fade;
+    ctx.beginPath();
+    ctx.moveTo(points[i - 1].x, points[i - 1].y);
+    ctx.lineTo(points[i].x, points[i].y);
+    ctx.stroke();
+  }
+
+  const head = points[points.length - 1];
+  if (head) {
+    ctx.globalAlpha = Math.max(0, 1 - (now - head.t) / LASER_TRAIL_MS);
+    ctx.beginPath();
+    ctx.arc(head.x, head.y, 5, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.globalAlpha = 1;
+}
+
+/**
+ * Fading laser pointer trails (own and remote), drawn on an animation frame loop
+ * that only runs while some trail is still visible.
+ */
+export const LaserTrailsOverlay: React.FC<LaserTrailsOverlayProps> = ({
+  width,
+  height,
+  viewport,
+  trails,
+  users,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const viewportRef = useRef(viewport);
+  const colorsRef = useRef(new Map<string, string>());
+  viewportRef.current = viewport;
+  colorsRef.current = new Map(users.filter((u) => u.color).map((u) => [u.userId, u.color as string]));
+
+  useEffect(() => {
+    let frame: number | null = null;
+
+    const render = () => {
+      frame = null;
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      const now = Date.now();
+      const visible = trails.prune(now);
+      if (!canvas || !ctx) return;
+
+      const dpr = window.devicePixelRatio || 1;
+      if (canvas.width !== width * dpr || canvas.height !== height * dpr) {
+        canvas.width = width * dpr;
+        canvas.height = height * dpr;
+      }
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+
+      for (const trail of trails.getTrails()) {
+        drawTrail(ctx, trail, colorsRef.current.get(trail.userId) ?? DEFAULT_LASER_COLOR, viewportRef.current, now);
+      }
+      if (visible) frame = window.requestAnimationFrame(render);
+    };
+
+    const unsubscribe = trails.subscribe(() => {
+      if (frame === null) frame = window.requestAnimationFrame(render);
+    });
+    return () => {
+      unsubscribe();
+      if (frame !== null) window.cancelAnimationFrame(frame);
+    };
+  }, [trails, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="laser-trails-overlay"
+      style={{ width, height }}
+      aria-hidden="true"
+    />
+  );
+};
@@ -144,6 +144,7 @@ export const SharePanel: React.FC<SharePanelProps> = ({
         supportsPublications: false,
         supportsSharedTimer: false,
         supportsReactions: false,
+        supportsBoardAssets: false,
       },
     [features]
   );
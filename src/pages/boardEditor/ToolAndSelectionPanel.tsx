@@ -1,11 +1,14 @@
 // src/pages/boardEditor/ToolAndSelectionPanel.tsx
 import React from 'react';
 import type { DrawingTool } from '../../whiteboard/WhiteboardCanvas';
-import type { WhiteboardObject } from '../../domain/types';
+import type { EraserSettings, MarqueeSettings } from '../../whiteboard/whiteboardTypes';
+import type { ArrangeCommand } from '../../whiteboard/arrange';
+import type { WhiteboardObject, ZOrderDirection } from '../../domain/types';
 import type { BoardTypeDefinition } from '../../whiteboard/boardTypes';
 import { useSelectionDetails } from './useSelectionDetails';
 import { ToolSettingsPanel } from './panels/ToolSettingsPanel';
 import { SelectionToolPanel } from './panels/SelectionToolPanel';
+import { EraserToolPanel } from './panels/EraserToolPanel';
 
 type ToolAndSelectionPanelProps = {
   isReadOnly?: boolean;
@@ -25,6 +28,22 @@ type ToolAndSelectionPanelProps = {
     key: K,
     value: WhiteboardObject[K]
   ) => void;
+  onUpdateObject?: (objectId: string, patch: Partial<WhiteboardObject>) => void;
+  onReorderSelection?: (direction: ZOrderDirection) => void;
+  canReorder?: boolean;
+  canGroup?: boolean;
+  canUngroup?: boolean;
+  onGroupSelection?: () => void;
+  onUngroupSelection?: () => void;
+  onSetSelectionLocked?: (locked: boolean) => void;
+  canLock?: boolean;
+  arrangeUnitCount?: number;
+  onArrangeSelection?: (command: ArrangeCommand) => void;
+  canArrange?: boolean;
+  marqueeSettings?: MarqueeSettings;
+  onMarqueeSettingsChange?: (patch: Partial<MarqueeSettings>) => void;
+  eraserSettings?: EraserSettings;
+  onEraserSettingsChange?: (patch: Partial<EraserSettings>) => void;
 };
 
 export const ToolAndSelectionPanel: React.FC<ToolAndSelectionPanelProps> = ({
@@ -38,7 +57,23 @@ export const ToolAndSelectionPanel: React.FC<ToolAndSelectionPanelProps> = ({
   onStrokeWidthChange,
   onUpdateToolProp,
   selectedObjects,
-  updateSelectionProp
+  updateSelectionProp,
+  onUpdateObject,
+  onReorderSelection,
+  canReorder,
+  canGroup,
+  canUngroup,
+  onGroupSelection,
+  onUngroupSelection,
+  onSetSelectionLocked,
+  canLock,
+  arrangeUnitCount,
+  onArrangeSelection,
+  canArrange,
+  marqueeSettings,
+  onMarqueeSettingsChange,
+  eraserSettings,
+  onEraserSettingsChange
 }) => {
   const selection = useSelectionDetails(selectedObjects, boardTypeDef);
 
@@ -46,7 +81,15 @@ export const ToolAndSelectionPanel: React.FC<ToolAndSelectionPanelProps> = ({
     <div className="panel">
       <h2 className="panel-title">Tool &amp; Selection</h2>
 
-      {activeTool !== 'select' && (
+      {activeTool === 'eraser' && eraserSettings && onEraserSettingsChange && (
+        <EraserToolPanel
+          isReadOnly={isReadOnly}
+          eraserSettings={eraserSettings}
+          onEraserSettingsChange={onEraserSettingsChange}
+        />
+      )}
+
+      {activeTool !== 'select' && activeTool !== 'eraser' && (
         <ToolSettingsPanel
           isReadOnly={isReadOnly}
           boardTypeDef={boardTypeDef}
@@ -65,6 +108,20 @@ export const ToolAndSelectionPanel: React.FC<ToolAndSelectionPanelProps> = ({
           isReadOnly={isReadOnly}
           selection={selection}
           updateSelectionProp={updateSelectionProp}
+          onUpdateObject={onUpdateObject}
+          onReorderSelection={onReorderSelection}
+          canReorder={canReorder}
+          canGroup={canGroup}
+          canUngroup={canUngroup}
+          onGroupSelection={onGroupSelection}
+          onUngroupSelection={onUngroupSelection}
+          onSetSelectionLocked={onSetSelectionLocked}
+          canLock={canLock}
+          arrangeUnitCount={arrangeUnitCount}
+          onArrangeSelection={onArrangeSelection}
+          canArrange={canArrange}
+          marqueeSettings={marqueeSettings}
+          onMarqueeSettingsChange={onMarqueeSettingsChange}
         />
       )}
     </div>
@@ -1,36 +1,143 @@
-import React from 'react';
-import type { ToolInstanceDefinition, ToolInstanceId } from '../../whiteboard/boardTypes';
+import React, { useRef, useState } from 'react';
+import {
+  TOOL_GROUPS,
+  type ToolGroupId,
+  type ToolInstanceDefinition,
+  type ToolInstanceId,
+} from '../../whiteboard/boardTypes';
 
 type ToolSelectorPanelProps = {
   isReadOnly?: boolean;
   toolbox: readonly ToolInstanceDefinition[];
   activeToolInstanceId: ToolInstanceId;
   onChangeToolInstance: (id: ToolInstanceId) => void;
+  /** Insert images picked from disk; the button is hidden when absent. */
+  onInsertImages?: (files: File[]) => void;
 };
 
+/** Toolbox entries in order: single tools, and each group once at its first tool's position. */
+type ToolboxItem =
+  | { kind: 'tool'; tool: ToolInstanceDefinition }
+  | { kind: 'group'; group: ToolGroupId; tools: ToolInstanceDefinition[] };
+
+function getToolboxItems(toolbox: readonly ToolInstanceDefinition[]): ToolboxItem[] {
+  const items: ToolboxItem[] = [];
+  for (const tool of toolbox) {
+    if (!tool.group) {
+      items.push({ kind: 'tool', tool });
+      continue;
+    }
+    const existing = items.find((i) => i.kind === 'group' && i.group === tool.group);
+    if (existing && existing.kind === 'group') existing.tools.push(tool);
+    else items.push({ kind: 'group', group: tool.group, tools: [tool] });
+  }
+  return items;
+}
+
 export const ToolSelectorPanel: React.FC<ToolSelectorPanelProps> = ({
   isReadOnly,
   toolbox,
   activeToolInstanceId,
   onChangeToolInstance,
-}) => (
-  <div className="panel">
-    <h2 className="panel-title panel-title-tools">Tools</h2>
-
-    <div className="tool-grid">
-      {toolbox.map((tool) => (
-        <button
-          key={tool.id}
-          type="button"
-          className={`tool-button ${activeToolInstanceId === tool.id ? 'active' : ''}`}
-          onClick={() => onChangeToolInstance(tool.id)}
-          disabled={!!isReadOnly && tool.baseToolId !== 'select'}
-          aria-pressed={activeToolInstanceId === tool.id}
-        >
-          {tool.icon ? `${tool.icon} ` : ''}
-          {tool.label}
-        </button>
-      ))}
+  onInsertImages,
+}) => {
+  const imageInputRef = useRef<HTMLInputElement | null>(null);
+  const [openGroup, setOpenGroup] = useState<ToolGroupId | null>(null);
+
+  const handleImageFilesChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Reset so picking the same file again still fires a change.
+    event.target.value = '';
+    if (files.length > 0) onInsertImages?.(files);
+  };
+
+  return (
+    <div className="panel">
+      <h2 className="panel-title panel-title-tools">Tools</h2>
+
+      <div className="tool-grid">
+        {getToolboxItems(toolbox).map((item) => {
+          if (item.kind === 'tool') {
+            const { tool } = item;
+            return (
+              <button
+                key={tool.id}
+                type="button"
+                className={`tool-button ${activeToolInstanceId === tool.id ? 'active' : ''}`}
+                onClick={() => onChangeToolInstance(tool.id)}
+                disabled={!!isReadOnly && tool.baseToolId !== 'select'}
+                aria-pressed={activeToolInstanceId === tool.id}
+              >
+                {tool.icon ? `${tool.icon} ` : ''}
+                {tool.label}
+              </button>
+            );
+          }
+
+          // The trigger shows the group's active tool, if any, so the selection stays visible.
+          const group = TOOL_GROUPS[item.group];
+          const active = item.tools.find((t) => t.id === activeToolInstanceId);
+          const shown = active ?? group;
+          const isOpen = openGroup === item.group;
+          return (
+            <div key={item.group} className="tool-flyout">
+              <button
+                type="button"
+                className={`tool-button ${active ? 'active' : ''}`}
+                onClick={() => setOpenGroup(isOpen ? null : item.group)}
+                disabled={!!isReadOnly}
+                aria-haspopup="true"
+                aria-expanded={isOpen}
+                title={group.label}
+              >
+                {shown.icon ? `${shown.icon} ` : ''}
+                {shown.label} ▾
+              </button>
+              {isOpen && (
+                <div className="tool-flyout-menu" role="menu" aria-label={group.label}>
+                  {item.tools.map((tool) => (
+                    <button
+                      key={tool.id}
+                      type="button"
+                      role="menuitemradio"
+                      className={`tool-button ${activeToolInstanceId === tool.id ? 'active' : ''}`}
+                      onClick={() => {
+                        onChangeToolInstance(tool.id);
+                        setOpenGroup(null);
+                      }}
+                      aria-checked={activeToolInstanceId === tool.id}
+                    >
+                      {tool.icon ? `${tool.icon} ` : ''}
+                      {tool.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {onInsertImages && (
+          <>
+            <button
+              type="button"
+              className="tool-button"
+              onClick={() => imageInputRef.current?.click()}
+              disabled={!!isReadOnly}
+              title="Insert images (you can also paste or drop them onto the board)"
+            >
+              🖼 Image
+            </button>
+            <input
+              ref={imageInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              style={{ display: 'none' }}
+              onChange={handleImageFilesChange}
+            />
+          </>
+        )}
+      </div>
     </div>
-  </div>
-);
+  );
+};
@@ -90,6 +90,7 @@ describe('SharePanel invites', () => {
           supportsPublications: false,
           supportsSharedTimer: false,
           supportsReactions: false,
+          supportsBoardAssets: false,
         }}
       />
     );
@@ -112,6 +112,7 @@ describe('SharePanel publications', () => {
           supportsPublications: true,
           supportsSharedTimer: false,
           supportsReactions: false,
+          supportsBoardAssets: false,
         }}
       />
     );
@@ -0,0 +1,34 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { ToolSelectorPanel } from '../ToolSelectorPanel';
+import { BOARD_TYPES } from '../../../whiteboard/boardTypes';
+
+describe('ToolSelectorPanel', () => {
+  test('lists grouped tools in a flyout that shows the active one', () => {
+    const onChange = jest.fn();
+    const { rerender } = render(
+      <ToolSelectorPanel
+        toolbox={BOARD_TYPES.advanced.toolbox}
+        activeToolInstanceId="select"
+        onChangeToolInstance={onChange}
+      />
+    );
+
+    expect(screen.queryByRole('button', { name: /Hexagon/ })).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /More shapes/ }));
+    fireEvent.click(screen.getByRole('menuitemradio', { name: /Hexagon/ }));
+    expect(onChange).toHaveBeenCalledWith('hexagon');
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+
+    rerender(
+      <ToolSelectorPanel
+        toolbox={BOARD_TYPES.advanced.toolbox}
+        activeToolInstanceId="hexagon"
+        onChangeToolInstance={onChange}
+      />
+    );
+    const trigger = screen.getByRole('button', { name: /Hexagon/ });
+    expect(trigger).toHaveClass('active');
+    expect(trigger).toHaveAttribute('aria-expanded', 'false');
+  });
+});
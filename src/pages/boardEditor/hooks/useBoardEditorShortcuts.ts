@@ -1,4 +1,7 @@
 import { useEffect } from 'react';
+import type { ZOrderDirection } from '../../../domain/types';
+import type { ArrangeCommand } from '../../../whiteboard/arrange';
+import { getImageFiles } from '../../../whiteboard/tools/image/imageFiles';
 
 export type UseBoardEditorShortcutsArgs = {
   isReadOnly: boolean;
@@ -7,6 +10,34 @@ export type UseBoardEditorShortcutsArgs = {
   onDeleteSelection: () => void;
   onCopy: () => void;
   onPaste: () => void;
+  onReorderSelection?: (direction: ZOrderDirection) => void;
+  /** Both are no-ops when the selection cannot be (un)grouped. */
+  onGroupSelection?: () => void;
+  onUngroupSelection?: () => void;
+  /** No-op when the selection has too few movable objects. */
+  onArrangeSelection?: (command: ArrangeCommand) => void;
+  /**
+   * Image files pasted from the system clipboard. When set, Ctrl/Cmd+V goes through
+   * the browser's `paste` event so the clipboard can be read; pastes without
+   * images fall back to `onPaste`.
+   */
+  onPasteFiles?: (files: File[]) => void;
+};
+
+/**
+ * Alt+Shift+<key> arrange shortcuts, matched on `code` because Alt changes the
+ * `key` value on macOS.
+ */
+export const ARRANGE_SHORTCUTS: Record<string, ArrangeCommand> = {
+  KeyL: { kind: 'align', mode: 'left' },
+  KeyC: { kind: 'align', mode: 'center' },
+  KeyR: { kind: 'align', mode: 'right' },
+  KeyT: { kind: 'align', mode: 'top' },
+  KeyM: { kind: 'align', mode: 'middle' },
+  KeyB: { kind: 'align', mode: 'bottom' },
+  KeyH: { kind: 'distribute', axis: 'x' },
+  KeyV: { kind: 'distribute', axis: 'y' },
+  KeyG: { kind: 'tidy' },
 };
 
 function shouldIgnoreShortcutTarget(target: EventTarget | null) {
@@ -24,6 +55,11 @@ export function useBoardEditorShortcuts({
   onDeleteSelection,
   onCopy,
   onPaste,
+  onReorderSelection,
+  onGroupSelection,
+  onUngroupSelection,
+  onArrangeSelection,
+  onPasteFiles,
 }: UseBoardEditorShortcutsArgs) {
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
@@ -39,9 +75,38 @@ export function useBoardEditorShortcuts({
       }
 
       const isMod = e.metaKey || e.ctrlKey;
+
+      const arrange = ARRANGE_SHORTCUTS[e.code];
+      if (arrange && e.altKey && e.shiftKey && !isMod) {
+        if (isReadOnly || !canCopy || !onArrangeSelection) return;
+        e.preventDefault();
+        onArrangeSelection(arrange);
+        return;
+      }
+
       if (!isMod) return;
 
+      // Ctrl/Cmd+] / [ step forward/backward; with Shift, to front/back.
+      // Matched on `code` because Shift changes the bracket key's `key` value.
+      if (e.code === 'BracketRight' || e.code === 'BracketLeft') {
+        if (isReadOnly || !canCopy || !onReorderSelection) return;
+        e.preventDefault();
+        const up = e.code === 'BracketRight';
+        onReorderSelection(e.shiftKey ? (up ? 'front' : 'back') : up ? 'forward' : 'backward');
+        return;
+      }
+
       const key = keyRaw.toLowerCase();
+
+      // Ctrl/Cmd+G groups the selection; with Shift, ungroups it.
+      if (key === 'g') {
+        const handler = e.shiftKey ? onUngroupSelection : onGroupSelection;
+        if (isReadOnly || !canCopy || !handler) return;
+        e.preventDefault();
+        handler();
+        return;
+      }
+
       if (key === 'c') {
         if (!canCopy) return;
         e.preventDefault();
@@ -49,6 +114,7 @@ export function useBoardEditorShortcuts({
         return;
       }
       if (key === 'v') {
+        if (onPasteFiles) return;
         if (isReadOnly || !canPaste) return;
         e.preventDefault();
         onPaste();
@@ -57,5 +123,26 @@ export function useBoardEditorShortcuts({
 
     window.addEventListener('keydown', onKeyDown);
     return () => window.removeEventListener('keydown', onKeyDown);
-  }, [isReadOnly, canCopy, canPaste, onDeleteSelection, onCopy, onPaste]);
+  }, [isReadOnly, canCopy, canPaste, onDeleteSelection, onCopy, onPaste, onReorderSelection, onGroupSelection, onUngroupSelection, onArrangeSelection, onPasteFiles]);
+
+  useEffect(() => {
+    if (!onPasteFiles) return;
+
+    const onPasteEvent = (e: ClipboardEvent) => {
+      if (shouldIgnoreShortcutTarget(e.target) || isReadOnly) return;
+
+      const files = getImageFiles(e.clipboardData);
+      if (files.length > 0) {
+        e.preventDefault();
+        onPasteFiles(files);
+        return;
+      }
+      if (!canPaste) return;
+      e.preventDefault();
+      onPaste();
+    };
+
+    window.addEventListener('paste', onPasteEvent);
+    return () => window.removeEventListener('paste', onPasteEvent);
+  }, [isReadOnly, canPaste, onPaste, onPasteFiles]);
 }
@@ -1,18 +1,28 @@
 // src/pages/boardEditor/panels/DrawingToolStrokeSettings.tsx
 import React from 'react';
+import type { StrokeDash } from '../../../domain/types';
 
 type DrawingToolStrokeSettingsProps = {
   strokeColor: string;
   strokeWidth: number;
   onStrokeColorChange: (color: string) => void;
   onStrokeWidthChange: React.ChangeEventHandler<HTMLInputElement>;
+  // Dash style and opacity rows are shown when their change handlers are given.
+  strokeDash?: StrokeDash;
+  strokeOpacity?: number;
+  onStrokeDashChange?: (dash: StrokeDash) => void;
+  onStrokeOpacityChange?: (opacity: number) => void;
 };
 
 export const DrawingToolStrokeSettings: React.FC<DrawingToolStrokeSettingsProps> = ({
   strokeColor,
   strokeWidth,
   onStrokeColorChange,
-  onStrokeWidthChange
+  onStrokeWidthChange,
+  strokeDash = 'solid',
+  strokeOpacity = 1,
+  onStrokeDashChange,
+  onStrokeOpacityChange
 }) => (
   <>
     <div className="panel-row">
@@ -39,5 +49,33 @@ export const DrawingToolStrokeSettings: React.FC<DrawingToolStrokeSettingsProps>
         <span className="field-suffix">{strokeWidth}px</span>
       </label>
     </div>
+    {onStrokeDashChange && (
+      <div className="panel-row">
+        <label className="field-label">
+          Stroke style
+          <select value={strokeDash} onChange={(e) => onStrokeDashChange(e.target.value as StrokeDash)}>
+            <option value="solid">Solid</option>
+            <option value="dashed">Dashed</option>
+            <option value="dotted">Dotted</option>
+          </select>
+        </label>
+      </div>
+    )}
+    {onStrokeOpacityChange && (
+      <div className="panel-row">
+        <label className="field-label">
+          Stroke opacity
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={strokeOpacity}
+            onChange={(e) => onStrokeOpacityChange(Number(e.target.value))}
+          />
+          <span className="field-suffix">{Math.round(strokeOpacity * 100)}%</span>
+        </label>
+      </div>
+    )}
   </>
-);
\ No newline at end of file
+);
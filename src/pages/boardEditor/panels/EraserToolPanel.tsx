@@ -0,0 +1,53 @@
+// src/pages/boardEditor/panels/EraserToolPanel.tsx
+import React from 'react';
+import type { EraserSettings } from '../../../whiteboard/whiteboardTypes';
+import { MAX_ERASER_SIZE, MIN_ERASER_SIZE } from '../../../whiteboard/tools/eraser/erase';
+
+type EraserToolPanelProps = {
+  isReadOnly?: boolean;
+  eraserSettings: EraserSettings;
+  onEraserSettingsChange: (patch: Partial<EraserSettings>) => void;
+};
+
+export const EraserToolPanel: React.FC<EraserToolPanelProps> = ({
+  isReadOnly,
+  eraserSettings,
+  onEraserSettingsChange
+}) => {
+  return (
+    <>
+      <div className="panel-row">
+        <label className="field-label">
+          <span className="field-label-inline">Eraser mode</span>
+          <select
+            className="text-input"
+            value={eraserSettings.mode}
+            disabled={isReadOnly}
+            onChange={(e) => onEraserSettingsChange({ mode: e.target.value as EraserSettings['mode'] })}
+            aria-label="Eraser mode"
+          >
+            <option value="object">Whole objects</option>
+            <option value="stroke">Parts of strokes</option>
+          </select>
+        </label>
+      </div>
+      <div className="panel-row">
+        <label className="field-label">
+          <span className="field-label-inline">Eraser size</span>
+          <span className="field-value">{eraserSettings.size}</span>
+        </label>
+        <input
+          type="range"
+          min={MIN_ERASER_SIZE}
+          max={MAX_ERASER_SIZE}
+          step={1}
+          value={eraserSettings.size}
+          disabled={isReadOnly}
+          onChange={(e) => onEraserSettingsChange({ size: Number(e.target.value) })}
+          style={{ width: '100%' }}
+          aria-label="Eraser size"
+        />
+      </div>
+    </>
+  );
+};
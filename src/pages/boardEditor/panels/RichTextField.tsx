@@ -0,0 +1,163 @@
+// src/pages/boardEditor/panels/RichTextField.tsx
+import React, { useRef, useState } from 'react';
+import type { TextParagraph, WhiteboardObject } from '../../../domain/types';
+import {
+  getLinkAt,
+  getRichTextPatch,
+  getTextEditPatch,
+  getTextParagraphs,
+  isBulletListActive,
+  isMarkActive,
+  isSafeLinkUrl,
+  removeLinkAt,
+  setLink,
+  toggleBulletList,
+  toggleMark,
+  type ToggleableMark,
+} from '../../../domain/richText';
+import { MAX_LINK_CHARS } from '../../../collab/protocol/limits';
+
+type RichTextPatch = Pick<WhiteboardObject, 'text' | 'richText'>;
+
+type RichTextFieldProps = {
+  label: string;
+  object: Pick<WhiteboardObject, 'text' | 'richText'>;
+  disabled?: boolean;
+  rows?: number;
+  onChange: (patch: RichTextPatch) => void;
+};
+
+const MARK_BUTTONS: Array<{ mark: ToggleableMark; label: string; title: string; style: React.CSSProperties }> = [
+  { mark: 'bold', label: 'B', title: 'Bold (Ctrl+B)', style: { fontWeight: 700 } },
+  { mark: 'italic', label: 'I', title: 'Italic (Ctrl+I)', style: { fontStyle: 'italic' } },
+  { mark: 'strike', label: 'S', title: 'Strikethrough', style: { textDecoration: 'line-through' } },
+];
+
+const MARK_SHORTCUTS: Record<string, ToggleableMark> = { b: 'bold', i: 'italic' };
+
+/**
+ * Textarea with a formatting toolbar. Formatting applies to the textarea's
+ * selection; typing keeps the formatting around the caret.
+ */
+export const RichTextField: React.FC<RichTextFieldProps> = ({ label, object, disabled, rows = 3, onChange }) => {
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const [range, setRange] = useState<[number, number]>([0, 0]);
+  const paragraphs = getTextParagraphs(object);
+  const [start, end] = range;
+
+  const readRange = (): [number, number] => {
+    const el = textareaRef.current;
+    return el ? [el.selectionStart, el.selectionEnd] : range;
+  };
+
+  const applyFormatting = (format: (p: TextParagraph[], a: number, b: number) => TextParagraph[]) => {
+    const [a, b] = readRange();
+    onChange(getRichTextPatch(format(paragraphs, a, b)));
+  };
+
+  const handleToggleMark = (mark: ToggleableMark) => applyFormatting((p, a, b) => toggleMark(p, a, b, mark));
+
+  const currentLink = getLinkAt(paragraphs, start, end);
+
+  const handleLink = () => {
+    if (currentLink) {
+      applyFormatting(removeLinkAt);
+      return;
+    }
+    const [a, b] = readRange();
+    if (a === b) {
+      window.alert('Select the text to link first.');
+      return;
+    }
+    const url = window.prompt('Link address (https://…):', 'https://');
+    if (url === null) return;
+    const trimmed = url.trim();
+    if (!isSafeLinkUrl(trimmed) || trimmed.length > MAX_LINK_CHARS) {
+      window.alert('Links must start with http://, https:// or mailto:.');
+      return;
+    }
+    applyFormatting((p) => setLink(p, a, b, trimmed));
+  };
+
+  const handleKeyDown = (evt: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(evt.ctrlKey || evt.metaKey) || evt.altKey || evt.shiftKey) return;
+    const mark = MARK_SHORTCUTS[evt.key.toLowerCase()];
+    if (!mark) return;
+    evt.preventDefault();
+    handleToggleMark(mark);
+  };
+
+  // Keep the textarea focused (and its selection) when a toolbar button is pressed.
+  const keepFocus = (evt: React.MouseEvent) => evt.preventDefault();
+
+  return (
+    <div className="panel-row">
+      <div style={{ width: '100%' }}>
+        <div className="field-label-inline" style={{ marginBottom: 6 }}>
+          {label}
+        </div>
+        <div className="tool-buttons" role="toolbar" aria-label="Text formatting" style={{ marginBottom: 6 }}>
+          {MARK_BUTTONS.map(({ mark, label: buttonLabel, title, style }) => {
+            const active = isMarkActive(paragraphs, start, end, mark);
+            return (
+              <button
+                key={mark}
+                type="button"
+                className={`tool-button ${active ? 'active' : ''}`}
+                style={style}
+                title={title}
+                aria-label={title}
+                aria-pressed={active}
+                disabled={disabled}
+                onMouseDown={keepFocus}
+                onClick={() => handleToggleMark(mark)}
+              >
+                {buttonLabel}
+              </button>
+            );
+          })}
+          <button
+            type="button"
+            className={`tool-button ${isBulletListActive(paragraphs, start, end) ? 'active' : ''}`}
+            title="Bullet list"
+            aria-pressed={isBulletListActive(paragraphs, start, end)}
+            disabled={disabled}
+            onMouseDown={keepFocus}
+            onClick={() => applyFormatting(toggleBulletList)}
+          >
+            • List
+          </button>
+          <button
+            type="button"
+            className={`tool-button ${currentLink ? 'active' : ''}`}
+            title={currentLink ? 'Remove link' : 'Link the selected text'}
+            aria-pressed={!!currentLink}
+            disabled={disabled}
+            onMouseDown={keepFocus}
+            onClick={handleLink}
+          >
+            {currentLink ? 'Unlink' : 'Link'}
+          </button>
+        </div>
+        {currentLink && (
+          <div className="field-value" style={{ marginBottom: 6, overflowWrap: 'anywhere' }}>
+            <a href={currentLink} target="_blank" rel="noopener noreferrer">
+              {currentLink}
+            </a>
+          </div>
+        )}
+        <textarea
+          ref={textareaRef}
+          className="text-input"
+          rows={rows}
+          aria-label={label}
+          value={object.text ?? ''}
+          disabled={disabled}
+          onChange={(e) => onChange(getTextEditPatch(object, e.target.value))}
+          onSelect={(e) => setRange([e.currentTarget.selectionStart, e.currentTarget.selectionEnd])}
+          onKeyDown={handleKeyDown}
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,12 @@
 // src/pages/boardEditor/panels/SelectionToolPanel.tsx
 import React from 'react';
-import type { WhiteboardObject } from '../../../domain/types';
+import type { WhiteboardObject, ZOrderDirection } from '../../../domain/types';
 import type { SelectionDetails } from '../useSelectionDetails';
+import type { MarqueeSettings } from '../../../whiteboard/whiteboardTypes';
+import { getArrangeMinUnits, type ArrangeCommand } from '../../../whiteboard/arrange';
 import { EDITABLE_PROP_DEFS, type EditablePropKey } from '../../../whiteboard/tools/selectionRegistry';
+import { supportsRichText } from '../../../domain/richText';
+import { RichTextField } from './RichTextField';
 
 type Props = {
   isReadOnly?: boolean;
@@ -11,8 +15,46 @@ type Props = {
     key: K,
     value: WhiteboardObject[K]
   ) => void;
+  /** Enables formatting controls for the text of a single selected text object or note. */
+  onUpdateObject?: (objectId: string, patch: Partial<WhiteboardObject>) => void;
+  onReorderSelection?: (direction: ZOrderDirection) => void;
+  /** False when the selection is too large to reorder in one event. */
+  canReorder?: boolean;
+  canGroup?: boolean;
+  canUngroup?: boolean;
+  onGroupSelection?: () => void;
+  onUngroupSelection?: () => void;
+  onSetSelectionLocked?: (locked: boolean) => void;
+  /** False when the selection is too large to lock or unlock in one event. */
+  canLock?: boolean;
+  /** Movable units in the selection (a group counts once). */
+  arrangeUnitCount?: number;
+  onArrangeSelection?: (command: ArrangeCommand) => void;
+  /** False when the arranged objects would not fit in one event. */
+  canArrange?: boolean;
+  marqueeSettings?: MarqueeSettings;
+  onMarqueeSettingsChange?: (patch: Partial<MarqueeSettings>) => void;
 };
 
+const Z_ORDER_ACTIONS: Array<{ direction: ZOrderDirection; label: string; shortcut: string }> = [
+  { direction: 'front', label: 'To front', shortcut: 'Ctrl+Shift+]' },
+  { direction: 'forward', label: 'Forward', shortcut: 'Ctrl+]' },
+  { direction: 'backward', label: 'Backward', shortcut: 'Ctrl+[' },
+  { direction: 'back', label: 'To back', shortcut: 'Ctrl+Shift+[' },
+];
+
+const ARRANGE_ACTIONS: Array<{ command: ArrangeCommand; label: string; shortcut: string }> = [
+  { command: { kind: 'align', mode: 'left' }, label: 'Left', shortcut: 'Alt+Shift+L' },
+  { command: { kind: 'align', mode: 'center' }, label: 'Centre', shortcut: 'Alt+Shift+C' },
+  { command: { kind: 'align', mode: 'right' }, label: 'Right', shortcut: 'Alt+Shift+R' },
+  { command: { kind: 'align', mode: 'top' }, label: 'Top', shortcut: 'Alt+Shift+T' },
+  { command: { kind: 'align', mode: 'middle' }, label: 'Middle', shortcut: 'Alt+Shift+M' },
+  { command: { kind: 'align', mode: 'bottom' }, label: 'Bottom', shortcut: 'Alt+Shift+B' },
+  { command: { kind: 'distribute', axis: 'x' }, label: 'Distribute ↔', shortcut: 'Alt+Shift+H' },
+  { command: { kind: 'distribute', axis: 'y' }, label: 'Distribute ↕', shortcut: 'Alt+Shift+V' },
+  { command: { kind: 'tidy' }, label: 'Tidy grid', shortcut: 'Alt+Shift+G' },
+];
+
 function hasValue<T>(v: T | undefined | null): v is T {
   return v !== undefined && v !== null;
 }
@@ -119,7 +161,21 @@ function renderEditablePropControl(
 export const SelectionToolPanel: React.FC<Props> = ({
   isReadOnly,
   selection,
-  updateSelectionProp
+  updateSelectionProp,
+  onUpdateObject,
+  onReorderSelection,
+  canReorder = true,
+  canGroup,
+  canUngroup,
+  onGroupSelection,
+  onUngroupSelection,
+  onSetSelectionLocked,
+  canLock = true,
+  arrangeUnitCount = 0,
+  onArrangeSelection,
+  canArrange = true,
+  marqueeSettings,
+  onMarqueeSettingsChange
 }) => {
   const hasSelection = selection.selectedCount > 0;
   const singleObj = selection.singleAnySelectedObject;
@@ -128,11 +184,18 @@ export const SelectionToolPanel: React.FC<Props> = ({
   // Hidden keys are already filtered out from selection.commonEditableProps.
   const lockedKeys = new Set(selection.lockedEditableProps);
 
+  // Any locked object in the selection offers "Unlock" (the whole selection is unlocked).
+  const hasLockedObjects = selection.lockedObjectCount > 0;
+
   const singleCanEditText =
     selection.selectedCount === 1 &&
     selection.commonEditableProps.includes('text') &&
     singleObj !== undefined;
 
+  // Text objects and notes get formatting controls when whole-object patches are available.
+  const richTextObj =
+    singleCanEditText && onUpdateObject && singleObj && supportsRichText(singleObj.type) ? singleObj : undefined;
+
   return (
     <div>
       <div className="panel-row">
@@ -142,6 +205,139 @@ export const SelectionToolPanel: React.FC<Props> = ({
         </span>
       </div>
 
+      {marqueeSettings && onMarqueeSettingsChange && (
+        <>
+          <div className="panel-row">
+            <label className="field-label">
+              <span className="field-label-inline">Drag on empty canvas</span>
+              <select
+                className="text-input"
+                value={marqueeSettings.emptyDrag}
+                title="Hold Alt to do the other one"
+                onChange={(e) => onMarqueeSettingsChange({ emptyDrag: e.target.value as MarqueeSettings['emptyDrag'] })}
+                aria-label="Drag on empty canvas"
+              >
+                <option value="pan">Pan</option>
+                <option value="select">Select</option>
+              </select>
+            </label>
+          </div>
+          <div className="panel-row">
+            <label className="field-label">
+              <span className="field-label-inline">Marquee selects</span>
+              <select
+                className="text-input"
+                value={marqueeSettings.mode}
+                onChange={(e) => onMarqueeSettingsChange({ mode: e.target.value as MarqueeSettings['mode'] })}
+                aria-label="Marquee selects"
+              >
+                <option value="contain">Fully inside</option>
+                <option value="touch">Touching</option>
+              </select>
+            </label>
+          </div>
+        </>
+      )}
+
+      {hasSelection && onReorderSelection && (
+        <div className="panel-row">
+          <div style={{ width: '100%' }}>
+            <div className="field-label-inline" style={{ marginBottom: 6 }}>
+              Arrange
+            </div>
+            <div className="tool-buttons">
+              {Z_ORDER_ACTIONS.map((action) => (
+                <button
+                  key={action.direction}
+                  type="button"
+                  className="tool-button"
+                  disabled={!!isReadOnly || !canReorder}
+                  title={`${action.label} (${action.shortcut})`}
+                  onClick={() => onReorderSelection(action.direction)}
+                >
+                  {action.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {selection.selectedCount > 1 && onArrangeSelection && (
+        <div className="panel-row">
+          <div style={{ width: '100%' }}>
+            <div className="field-label-inline" style={{ marginBottom: 6 }}>
+              Align &amp; distribute
+            </div>
+            <div className="tool-buttons">
+              {ARRANGE_ACTIONS.map((action) => (
+                <button
+                  key={action.label}
+                  type="button"
+                  className="tool-button"
+                  disabled={!!isReadOnly || !canArrange || arrangeUnitCount < getArrangeMinUnits(action.command)}
+                  title={`${action.label} (${action.shortcut})`}
+                  onClick={() => onArrangeSelection(action.command)}
+                >
+                  {action.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {hasSelection && (onGroupSelection || onUngroupSelection) && (
+        <div className="panel-row">
+          <div style={{ width: '100%' }}>
+            <div className="field-label-inline" style={{ marginBottom: 6 }}>
+              Group
+            </div>
+            <div className="tool-buttons">
+              {onGroupSelection && (
+                <button
+                  type="button"
+                  className="tool-button"
+                  disabled={!!isReadOnly || !canGroup}
+                  title="Group (Ctrl+G)"
+                  onClick={onGroupSelection}
+                >
+                  Group
+                </button>
+              )}
+              {onUngroupSelection && (
+                <button
+                  type="button"
+                  className="tool-button"
+                  disabled={!!isReadOnly || !canUngroup}
+                  title="Ungroup (Ctrl+Shift+G)"
+                  onClick={onUngroupSelection}
+                >
+                  Ungroup
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {hasSelection && onSetSelectionLocked && (
+        <div className="panel-row">
+          <span className="field-label-inline">
+            {hasLockedObjects ? `Locked (${selection.lockedObjectCount})` : 'Unlocked'}
+          </span>
+          <button
+            type="button"
+            className="tool-button"
+            disabled={!!isReadOnly || !canLock}
+            title={hasLockedObjects ? 'Allow moving, editing and deleting' : 'Prevent moving, editing and deleting'}
+            onClick={() => onSetSelectionLocked(!hasLockedObjects)}
+          >
+            {hasLockedObjects ? 'Unlock' : 'Lock'}
+          </button>
+        </div>
+      )}
+
       {/* Capability-driven shared props across the current selection */}
       {selection.commonEditableProps
         .filter((k) => k !== 'text')
@@ -152,7 +348,16 @@ export const SelectionToolPanel: React.FC<Props> = ({
         })}
 
       {/* Capability-driven text editing (only for single selection, to preserve v1 UX) */}
-      {singleCanEditText && (
+      {richTextObj && onUpdateObject && (
+        <RichTextField
+          label={EDITABLE_PROP_DEFS.text.label}
+          object={richTextObj}
+          disabled={lockedKeys.has('text') || !!isReadOnly}
+          onChange={(patch) => onUpdateObject(richTextObj.id, patch)}
+        />
+      )}
+
+      {singleCanEditText && !richTextObj && (
         <div className="panel-row">
           <div style={{ width: '100%' }}>
             <div className="field-label-inline" style={{ marginBottom: 6 }}>
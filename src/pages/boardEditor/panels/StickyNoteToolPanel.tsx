@@ -1,7 +1,13 @@
 // src/pages/boardEditor/panels/StickyNoteToolPanel.tsx
 import React from 'react';
-import type { WhiteboardObject } from '../../../domain/types';
+import type { TextFit, WhiteboardObject } from '../../../domain/types';
 import type { SelectionDetails } from '../useSelectionDetails';
+import { EDITABLE_PROP_DEFS } from '../../../whiteboard/tools/selectionRegistry';
+import { getTextFit } from '../../../whiteboard/tools/_shared/textFit';
+import { RichTextField } from './RichTextField';
+
+const TEXT_FIT_DEF = EDITABLE_PROP_DEFS.textFit;
+const TEXT_FIT_OPTIONS = TEXT_FIT_DEF.control.kind === 'select' ? TEXT_FIT_DEF.control.options : [];
 
 type StickyNoteToolPanelProps = {
   selection: SelectionDetails;
@@ -85,24 +91,35 @@ export const StickyNoteToolPanel: React.FC<StickyNoteToolPanelProps> = ({
           </div>
           <div className="panel-row">
             <label className="field-label">
-              Text
-              <textarea
+              {TEXT_FIT_DEF.label}
+              <select
                 className="text-input"
-                rows={3}
-                value={singleSelectedObject.text ?? ''}
+                value={getTextFit(singleSelectedObject)}
+                disabled={selection.lockedEditableProps.includes('textFit')}
                 onChange={(e) =>
                   onUpdateObject(singleSelectedObject.id, {
-                    text: e.target.value
+                    textFit: e.target.value as TextFit
                   })
                 }
-              />
+              >
+                {TEXT_FIT_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
             </label>
           </div>
+          <RichTextField
+            label="Text"
+            object={singleSelectedObject}
+            onChange={(patch) => onUpdateObject(singleSelectedObject.id, patch)}
+          />
         </>
       ) : (
         <div className="panel-row">
           <span className="field-value">
-            Select a sticky note to edit its fill color, text color, text and font size.
+            Select a sticky note to edit its fill color, text color, text and formatting, font size and text fit.
           </span>
         </div>
       )}
@@ -2,6 +2,7 @@
 import React from 'react';
 import type { WhiteboardObject } from '../../../domain/types';
 import type { SelectionDetails } from '../useSelectionDetails';
+import { RichTextField } from './RichTextField';
 
 type TextToolPanelProps = {
   selection: SelectionDetails;
@@ -20,7 +21,7 @@ export const TextToolPanel: React.FC<TextToolPanelProps> = ({
     return (
       <div className="panel-row">
         <span className="field-value">
-          Select a text object on the board to edit its text, text color and font size.
+          Select a text object on the board to edit its text and formatting, text color and font size.
         </span>
       </div>
     );
@@ -62,21 +63,11 @@ export const TextToolPanel: React.FC<TextToolPanelProps> = ({
           </span>
         </label>
       </div>
-      <div className="panel-row">
-        <label className="field-label">
-          Text
-          <textarea
-            className="text-input"
-            rows={3}
-            value={singleSelectedObject.text ?? ''}
-            onChange={(e) =>
-              onUpdateObject(singleSelectedObject.id, {
-                text: e.target.value
-              })
-            }
-          />
-        </label>
-      </div>
+      <RichTextField
+        label="Text"
+        object={singleSelectedObject}
+        onChange={(patch) => onUpdateObject(singleSelectedObject.id, patch)}
+      />
     </>
   );
 };
\ No newline at end of file
@@ -9,6 +9,11 @@ import {
   type EditablePropKey,
 } from '../../../whiteboard/tools/selectionRegistry';
 import type { BoardTypeDefinition } from '../../../whiteboard/boardTypes';
+import { getDefaultTextFit } from '../../../whiteboard/tools/_shared/textFit';
+import { getConnectorRouting } from '../../../whiteboard/tools/connector/geometry';
+import { getShapeTextAlign, getShapeTextVerticalAlign } from '../../../whiteboard/tools/_shared/shapeText';
+import { getFillOpacity, getStrokeDash, getStrokeOpacity } from '../../../whiteboard/tools/_shared/strokeStyle';
+import { hasPathLabels, hasShapeText } from '../../../whiteboard/tools/shapeRegistry';
 import {
   getHiddenToolPropKeys,
   getLockedEditableKeys,
@@ -32,15 +37,26 @@ type Props = {
 
 function getToolPropValue(
   key: EditablePropKey,
+  activeTool: DrawingTool,
   strokeColor: string,
   strokeWidth: number,
   toolProps: Partial<WhiteboardObject>
 ): unknown {
   if (key === 'strokeColor') return strokeColor;
   if (key === 'strokeWidth') return strokeWidth;
+  if (key === 'textFit') return toolProps.textFit ?? getDefaultTextFit(activeTool);
+  if (key === 'routing') return getConnectorRouting(toolProps);
+  if (key === 'textAlign') return getShapeTextAlign(toolProps);
+  if (key === 'textVerticalAlign') return getShapeTextVerticalAlign(toolProps);
+  if (key === 'strokeDash') return getStrokeDash(toolProps);
+  if (key === 'strokeOpacity') return getStrokeOpacity(toolProps);
+  if (key === 'fillOpacity') return getFillOpacity(toolProps);
   return (toolProps as any)[key];
 }
 
+/** Label settings of lines and connectors apply to labels added after drawing, not to the tool. */
+const PATH_LABEL_KEYS: ReadonlySet<EditablePropKey> = new Set(['text', 'fontSize', 'textColor']);
+
 export const ToolSettingsPanel: React.FC<Props> = ({
   isReadOnly,
   boardTypeDef,
@@ -59,7 +75,12 @@ export const ToolSettingsPanel: React.FC<Props> = ({
 
   // Tool ids match object types for all creation tools.
   const caps = getSelectionCapabilities(activeTool as any);
-  const editableProps = (caps.editableProps ?? []).filter((k) => !hiddenKeys.has(k));
+  const labelsOnly = hasPathLabels(activeTool as any);
+  // Box shapes start without text; only their text style is a tool setting.
+  const startsEmpty = hasShapeText(activeTool as any);
+  const editableProps = (caps.editableProps ?? []).filter(
+    (k) => !hiddenKeys.has(k) && !(labelsOnly && PATH_LABEL_KEYS.has(k)) && !(startsEmpty && k === 'text')
+  );
 
   if (editableProps.length === 0) {
     return (
@@ -73,7 +94,7 @@ export const ToolSettingsPanel: React.FC<Props> = ({
     <>
       {editableProps.map((key) => {
         const def = EDITABLE_PROP_DEFS[key];
-        const value = getToolPropValue(key, strokeColor, strokeWidth, toolProps);
+        const value = getToolPropValue(key, activeTool, strokeColor, strokeWidth, toolProps);
         const disabled = lockedKeys.has(key) || !!isReadOnly;
 
         if (def.control.kind === 'color') {
@@ -1,6 +1,16 @@
 // src/pages/boardEditor/useSelectionDetails.ts
 import type { WhiteboardObject } from '../../domain/types';
 import type { BoardTypeDefinition } from '../../whiteboard/boardTypes';
+import { getTextFit } from '../../whiteboard/tools/_shared/textFit';
+import { getConnectorRouting } from '../../whiteboard/tools/connector/geometry';
+import { getPathLabelColor, getPathLabelFontSize } from '../../whiteboard/tools/_shared/pathLabels';
+import {
+  DEFAULT_SHAPE_FONT_SIZE,
+  getShapeTextAlign,
+  getShapeTextVerticalAlign,
+} from '../../whiteboard/tools/_shared/shapeText';
+import { hasPathLabels, hasShapeText } from '../../whiteboard/tools/shapeRegistry';
+import { getFillOpacity, getStrokeDash, getStrokeOpacity } from '../../whiteboard/tools/_shared/strokeStyle';
 import {
   getCommonEditableProps,
   getSharedPropValue,
@@ -35,13 +45,38 @@ export type SelectionDetails = {
 
   /** Keys that are hidden by the board type policy (union across selected object types). */
   hiddenEditableProps: EditablePropKey[];
-  /** Keys that are locked by the board type policy (union across selected object types). */
+  /**
+   * Keys that are locked by the board type policy (union across selected object types).
+   * Every key is locked while a selected object has its own lock set.
+   */
   lockedEditableProps: EditablePropKey[];
 
+  /** Number of selected objects with the per-object lock set. */
+  lockedObjectCount: number;
+
   /** Convenience: single selected object (any type). */
   singleAnySelectedObject?: WhiteboardObject;
 };
 
+/** `obj` with the value `key` has in effect where the stored one is omitted (a default). */
+function withEffectiveValue(obj: WhiteboardObject, key: EditablePropKey): WhiteboardObject {
+  if (key === 'textFit') return { ...obj, textFit: getTextFit(obj) };
+  if (key === 'routing') return { ...obj, routing: getConnectorRouting(obj) };
+  if (key === 'textAlign') return { ...obj, textAlign: getShapeTextAlign(obj) };
+  if (key === 'textVerticalAlign') return { ...obj, textVerticalAlign: getShapeTextVerticalAlign(obj) };
+  if (key === 'strokeDash') return { ...obj, strokeDash: getStrokeDash(obj) };
+  if (key === 'strokeOpacity') return { ...obj, strokeOpacity: getStrokeOpacity(obj) };
+  if (key === 'fillOpacity') return { ...obj, fillOpacity: getFillOpacity(obj) };
+  if (key === 'fontSize' && obj.fontSize === undefined && hasShapeText(obj.type)) {
+    return { ...obj, fontSize: DEFAULT_SHAPE_FONT_SIZE };
+  }
+  if (hasPathLabels(obj.type)) {
+    if (key === 'fontSize') return { ...obj, fontSize: getPathLabelFontSize(obj) };
+    if (key === 'textColor') return { ...obj, textColor: getPathLabelColor(obj) };
+  }
+  return obj;
+}
+
 export function useSelectionDetails(
   selectedObjects: WhiteboardObject[],
   boardTypeDef?: BoardTypeDefinition
@@ -82,6 +117,11 @@ export function useSelectionDetails(
     }
   }
 
+  const lockedObjectCount = selectedObjects.filter((obj) => obj.locked).length;
+  if (lockedObjectCount > 0) {
+    rawCommonEditableProps.forEach((k) => lockedSet.add(k));
+  }
+
   const commonEditableProps = rawCommonEditableProps.filter(
     (k) => !hiddenSet.has(k) // hidden wins
   );
@@ -90,7 +130,7 @@ export function useSelectionDetails(
     // NOTE: our editable prop keys are a subset of WhiteboardObject keys.
     // We only surface a control if all selected objects share the same value.
     sharedEditableValues[key] = getSharedPropValue(
-      selectedObjects,
+      selectedObjects.map((o) => withEffectiveValue(o, key)),
       key as keyof WhiteboardObject
     );
   }
@@ -108,6 +148,7 @@ export function useSelectionDetails(
     commonEditableProps,
     sharedEditableValues,
     hiddenEditableProps: Array.from(hiddenSet),
-    lockedEditableProps: Array.from(lockedSet)
+    lockedEditableProps: Array.from(lockedSet),
+    lockedObjectCount
   };
 }
\ No newline at end of file
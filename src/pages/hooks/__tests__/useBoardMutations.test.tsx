@@ -0,0 +1,67 @@
+import { act, renderHook } from '@testing-library/react';
+import type { BoardEvent, ObjectUpdate, WhiteboardObject, WhiteboardState } from '../../../domain/types';
+import { createEmptyWhiteboardState } from '../../../domain/whiteboardState';
+import { MAX_SELECTION_IDS } from '../../../collab/protocol/limits';
+import { validateBoardEvent } from '../../../collab/protocol/validation/eventValidation';
+import { whiteboardReducer } from '../../../whiteboard/store/reducer';
+import { useBoardMutations } from '../useBoardMutations';
+
+function renderMutations() {
+  const dispatched: BoardEvent[] = [];
+  const { result } = renderHook(() =>
+    useBoardMutations({
+      state: { meta: { id: 'b1' } },
+      dispatchEvent: (event) => dispatched.push(event),
+      applyTransientObjectPatch: jest.fn(),
+    })
+  );
+  return { result, dispatched };
+}
+
+function moveUpdates(count: number): ObjectUpdate[] {
+  return Array.from({ length: count }, (_, i) => ({ objectId: `r${i}`, patch: { x: 1000 + i } }));
+}
+
+describe('useBoardMutations', () => {
+  test('commits a batch of object updates as a single undo step', () => {
+    const { result, dispatched } = renderMutations();
+    act(() => {
+      result.current.handleUpdateObjects(moveUpdates(MAX_SELECTION_IDS));
+    });
+    expect(dispatched).toHaveLength(1);
+    expect(validateBoardEvent(dispatched[0]).ok).toBe(true);
+
+    const objects: WhiteboardObject[] = Array.from({ length: MAX_SELECTION_IDS }, (_, i) => ({
+      id: `r${i}`,
+      type: 'rectangle',
+      x: i,
+      y: 0,
+      width: 10,
+      height: 10,
+    }));
+    const initial: WhiteboardState = {
+      ...createEmptyWhiteboardState({
+        id: 'b1',
+        name: 'Board',
+        boardType: 'advanced',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+      }),
+      objects,
+    };
+    const applied = whiteboardReducer(initial, { type: 'APPLY_EVENT', event: dispatched[0] })!;
+    expect(applied.history.pastEvents).toHaveLength(1);
+    expect(applied.objects.every((o, i) => o.x === 1000 + i)).toBe(true);
+
+    const undone = whiteboardReducer(applied, { type: 'UNDO' })!;
+    expect(undone.objects.map((o) => o.x)).toEqual(objects.map((o) => o.x));
+  });
+
+  test('sends nothing for batches past the protocol limit', () => {
+    const { result, dispatched } = renderMutations();
+    act(() => {
+      result.current.handleUpdateObjects(moveUpdates(MAX_SELECTION_IDS + 1));
+    });
+    expect(dispatched).toHaveLength(0);
+  });
+});
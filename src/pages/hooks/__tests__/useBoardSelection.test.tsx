@@ -0,0 +1,112 @@
+import { act, renderHook } from '@testing-library/react';
+import type { BoardEvent, WhiteboardMeta, WhiteboardObject } from '../../../domain/types';
+import { MAX_SELECTION_IDS } from '../../../collab/protocol/limits';
+import { validateBoardEvent } from '../../../collab/protocol/validation/eventValidation';
+import { useBoardSelection } from '../useBoardSelection';
+
+const meta: WhiteboardMeta = {
+  id: 'b1',
+  name: 'Board',
+  boardType: 'advanced',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+function rects(count: number): WhiteboardObject[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `r${i}`,
+    type: 'rectangle' as const,
+    x: i * 50,
+    y: i * 10,
+    width: 40,
+    height: 40,
+  }));
+}
+
+function renderSelection(objects: WhiteboardObject[], selectedObjectIds = objects.map((o) => o.id)) {
+  const dispatched: BoardEvent[] = [];
+  const { result } = renderHook(() =>
+    useBoardSelection({
+      state: { meta, objects, selectedObjectIds },
+      dispatchEvent: (event) => dispatched.push(event),
+    })
+  );
+  return { result, dispatched };
+}
+
+describe('useBoardSelection', () => {
+  test('arranges in one event, and only selections that fit in it', () => {
+    const { result, dispatched } = renderSelection(rects(MAX_SELECTION_IDS));
+    expect(result.current.canArrange).toBe(true);
+
+    act(() => {
+      result.current.handleArrangeSelection({ kind: 'align', mode: 'top' });
+    });
+
+    expect(dispatched).toHaveLength(1);
+    expect(validateBoardEvent(dispatched[0]).ok).toBe(true);
+    expect(dispatched[0].type === 'objectsUpdated' && dispatched[0].payload.updates).toHaveLength(
+      MAX_SELECTION_IDS - 1
+    );
+
+    const large = renderSelection(rects(MAX_SELECTION_IDS + 50));
+    expect(large.result.current.canArrange).toBe(false);
+    act(() => {
+      large.result.current.handleArrangeSelection({ kind: 'align', mode: 'top' });
+    });
+    expect(large.dispatched).toHaveLength(0);
+  });
+
+  test('only reorders selections that fit in one event', () => {
+    const small = renderSelection(rects(MAX_SELECTION_IDS));
+    expect(small.result.current.canReorder).toBe(true);
+    act(() => {
+      small.result.current.handleReorderSelection('front');
+    });
+    expect(small.dispatched).toHaveLength(1);
+    expect(validateBoardEvent(small.dispatched[0]).ok).toBe(true);
+
+    const large = renderSelection(rects(MAX_SELECTION_IDS + 1));
+    expect(large.result.current.canReorder).toBe(false);
+    act(() => {
+      large.result.current.handleReorderSelection('front');
+    });
+    expect(large.dispatched).toHaveLength(0);
+  });
+
+  test('only groups when the expanded selection fits in one event', () => {
+    const objects = rects(MAX_SELECTION_IDS + 1).map((o, i) => (i > 0 ? { ...o, groupId: 'g1' } : o));
+    expect(renderSelection(objects, ['r0', 'r1']).result.current.canGroup).toBe(false);
+
+    const { result, dispatched } = renderSelection(objects.slice(0, MAX_SELECTION_IDS), ['r0', 'r1']);
+    expect(result.current.canGroup).toBe(true);
+    act(() => {
+      result.current.handleGroupSelection();
+    });
+    expect(dispatched).toHaveLength(1);
+    expect(validateBoardEvent(dispatched[0]).ok).toBe(true);
+  });
+
+  test('locks the selection in one event, up to the batch limit', () => {
+    const objects = rects(MAX_SELECTION_IDS).map((o, i) => (i === 0 ? { ...o, locked: true } : o));
+    const { result, dispatched } = renderSelection(objects);
+    expect(result.current.canLock).toBe(true);
+
+    act(() => {
+      result.current.handleSetSelectionLocked(true);
+    });
+
+    expect(dispatched).toHaveLength(1);
+    expect(validateBoardEvent(dispatched[0]).ok).toBe(true);
+    const updates = dispatched[0].type === 'objectsUpdated' ? dispatched[0].payload.updates : [];
+    expect(updates).toHaveLength(MAX_SELECTION_IDS - 1);
+    expect(updates[0]).toEqual({ objectId: 'r1', patch: { locked: true } });
+
+    const large = renderSelection(rects(MAX_SELECTION_IDS + 1));
+    expect(large.result.current.canLock).toBe(false);
+    act(() => {
+      large.result.current.handleSetSelectionLocked(true);
+    });
+    expect(large.dispatched).toHaveLength(0);
+  });
+});
@@ -0,0 +1,86 @@
+import { renderHook, act } from '@testing-library/react';
+import { useLaserPointer } from '../useLaserPointer';
+import { LASER_SEND_INTERVAL_MS, LASER_TRAIL_MS, readLaserPayload } from '../laserTrails';
+
+function laserMessage(from: string, payload: unknown) {
+  return { type: 'ephemeral', boardId: 'b-1', from, eventType: 'laser', payload } as any;
+}
+
+describe('useLaserPointer', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('draws locally and sends points in batches, breaking between strokes', () => {
+    const sendEphemeral = jest.fn(() => true);
+    const { result } = renderHook(() =>
+      useLaserPointer({ enabled: true, selfUserId: 'me', lastEphemeralMessage: null, sendEphemeral })
+    );
+
+    act(() => {
+      result.current.addLaserPoint({ x: 1.23, y: 2 });
+      result.current.addLaserPoint({ x: 3, y: 4 });
+    });
+    expect(result.current.laserTrails.getTrails()).toEqual([
+      { userId: 'me', points: [expect.objectContaining({ x: 1.23, start: true }), expect.objectContaining({ x: 3 })] },
+    ]);
+    expect(sendEphemeral).not.toHaveBeenCalled();
+
+    act(() => {
+      jest.advanceTimersByTime(LASER_SEND_INTERVAL_MS);
+    });
+    expect(sendEphemeral).toHaveBeenCalledWith('laser', {
+      points: [
+        { x: 1.2, y: 2 },
+        { x: 3, y: 4 },
+      ],
+      start: true,
+    });
+
+    act(() => {
+      result.current.addLaserPoint({ x: 5, y: 6 });
+      result.current.endLaserTrail();
+      result.current.addLaserPoint({ x: 7, y: 8 });
+      result.current.endLaserTrail();
+    });
+    expect(sendEphemeral).toHaveBeenNthCalledWith(2, 'laser', { points: [{ x: 5, y: 6 }] });
+    expect(sendEphemeral).toHaveBeenNthCalledWith(3, 'laser', { points: [{ x: 7, y: 8 }], start: true });
+  });
+
+  test('collects remote trails per sender and lets them fade', () => {
+    const sendEphemeral = jest.fn(() => true);
+    const { result, rerender } = renderHook((props: any) => useLaserPointer(props), {
+      initialProps: { enabled: true, selfUserId: 'me', lastEphemeralMessage: null, sendEphemeral },
+    });
+
+    rerender({
+      enabled: true,
+      selfUserId: 'me',
+      lastEphemeralMessage: laserMessage('user-2', { points: [{ x: 10, y: 10 }, { x: 20, y: 20 }], start: true }),
+      sendEphemeral,
+    });
+    rerender({
+      enabled: true,
+      selfUserId: 'me',
+      lastEphemeralMessage: laserMessage('me', { points: [{ x: 0, y: 0 }] }),
+      sendEphemeral,
+    });
+
+    const store = result.current.laserTrails;
+    expect(store.getTrails().map((t) => [t.userId, t.points.length])).toEqual([['user-2', 2]]);
+    expect(store.prune(Date.now() + LASER_TRAIL_MS + 1)).toBe(false);
+    expect(store.getTrails()).toEqual([]);
+    expect(sendEphemeral).not.toHaveBeenCalled();
+  });
+
+  test('ignores malformed laser payloads', () => {
+    expect(readLaserPayload({ points: [{ x: 1, y: 'a' }] })).toBeNull();
+    expect(readLaserPayload({ points: 'nope' })).toBeNull();
+    expect(readLaserPayload([1, 2])).toBeNull();
+    expect(readLaserPayload({ points: [{ x: 1, y: 2 }] })).toEqual({ points: [{ x: 1, y: 2 }], start: false });
+  });
+});
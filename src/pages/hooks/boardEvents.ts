@@ -2,4 +2,4 @@
 
 export function generateEventId(): string {
   return 'evt_' + Math.random().toString(16).slice(2) + '_' + Date.now().toString(16);
-}
\ No newline at end of file
+}
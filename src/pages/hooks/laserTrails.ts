@@ -0,0 +1,85 @@
+import type { Point } from '../../domain/types';
+
+/**
+ * Laser pointer trails: short-lived world-space polylines, one per participant.
+ *
+ * Trails live outside React state (they change on every pointer move); the
+ * overlay subscribes and redraws on animation frames until every trail has faded.
+ */
+
+/** How long a laser point stays visible. */
+export const LASER_TRAIL_MS = 1000;
+
+/** Local points are batched into one ephemeral message this often. */
+export const LASER_SEND_INTERVAL_MS = 40;
+
+/** Upper bound on points accepted from (and sent in) one message. */
+export const MAX_LASER_POINTS_PER_MESSAGE = 64;
+
+export type LaserPoint = Point & {
+  /** Local time the point was drawn or received (ms). */
+  t: number;
+  /** First point of a new stroke: not joined to the previous point. */
+  start?: boolean;
+};
+
+export type LaserTrail = {
+  userId: string;
+  points: LaserPoint[];
+};
+
+export type LaserTrailStore = {
+  getTrails: () => LaserTrail[];
+  /** Append points to a participant's trail; `start` breaks it before the first one. */
+  append: (userId: string, points: Array<Point & { t: number }>, start: boolean) => void;
+  /** Drop faded points; returns true while anything is left to draw. */
+  prune: (now: number) => boolean;
+  subscribe: (listener: () => void) => () => void;
+};
+
+export function createLaserTrailStore(): LaserTrailStore {
+  const trails = new Map<string, LaserPoint[]>();
+  const listeners = new Set<() => void>();
+
+  return {
+    getTrails: () => Array.from(trails, ([userId, points]) => ({ userId, points })),
+    append: (userId, points, start) => {
+      if (points.length === 0) return;
+      const trail = trails.get(userId) ?? [];
+      points.forEach((p, i) => trail.push({ x: p.x, y: p.y, t: p.t, ...(start && i === 0 ? { start: true } : {}) }));
+      trails.set(userId, trail);
+      listeners.forEach((listener) => listener());
+    },
+    prune: (now) => {
+      const cutoff = now - LASER_TRAIL_MS;
+      trails.forEach((points, userId) => {
+        const index = points.findIndex((p) => p.t >= cutoff);
+        if (index === -1) trails.delete(userId);
+        else if (index > 0) trails.set(userId, [{ ...points[index], start: true }, ...points.slice(index + 1)]);
+      });
+      return trails.size > 0;
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/** Parse a remote 'laser' payload; null when it is malformed. */
+export function readLaserPayload(payload: unknown): { points: Point[]; start: boolean } | null {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return null;
+  const record = payload as Record<string, unknown>;
+  if (!Array.isArray(record.points)) return null;
+
+  const points: Point[] = [];
+  for (const p of record.points.slice(0, MAX_LASER_POINTS_PER_MESSAGE)) {
+    if (!p || typeof p !== 'object') return null;
+    const { x, y } = p as Record<string, unknown>;
+    if (typeof x !== 'number' || typeof y !== 'number' || !Number.isFinite(x) || !Number.isFinite(y)) return null;
+    points.push({ x, y });
+  }
+  return { points, start: record.start === true };
+}
@@ -4,6 +4,8 @@ import {
   type BoardComment,
   type BoardCommentTargetType,
 } from '../../api/commentsApi';
+import { getObjectTextExcerpt } from '../../domain/richText';
+import type { WhiteboardObject } from '../../domain/types';
 import type { ObjectCommentAnchor } from '../boardEditor/commentAnchors/ObjectCommentAnchorsOverlay';
 import type { BoardAccessContext } from './publicationSession';
 
@@ -18,6 +20,8 @@ type UseBoardCommentsArgs = {
   enabled: boolean;
   authenticated: boolean;
   selectedObjectIds: string[];
+  /** Board objects, used to quote the selected object's text in the target label. */
+  objects?: WhiteboardObject[];
   access: BoardAccessContext;
 };
 
@@ -57,12 +61,15 @@ function getRootComment(commentsById: Map<string, BoardComment>, comment: BoardC
   return current;
 }
 
-function buildTarget(selectedObjectIds: string[]): CommentTarget {
+function buildTarget(selectedObjectIds: string[], selectedObject: WhiteboardObject | undefined): CommentTarget {
   if (selectedObjectIds.length === 1) {
+    const excerpt = selectedObject ? getObjectTextExcerpt(selectedObject, 36) : '';
     return {
       targetType: 'object',
       targetRef: selectedObjectIds[0] ?? null,
-      label: `Selected object (${selectedObjectIds[0]})`,
+      label: excerpt
+        ? `Selected object “${excerpt}” (${selectedObjectIds[0]})`
+        : `Selected object (${selectedObjectIds[0]})`,
     };
   }
 
@@ -86,13 +93,15 @@ function normalizeError(error: unknown): string {
   return String(error || 'Comment request failed.');
 }
 
-export function useBoardComments({ boardId, enabled, authenticated, selectedObjectIds, access }: UseBoardCommentsArgs): BoardCommentsState {
+export function useBoardComments({ boardId, enabled, authenticated, selectedObjectIds, objects, access }: UseBoardCommentsArgs): BoardCommentsState {
   const [comments, setComments] = React.useState<BoardComment[]>([]);
   const [isLoading, setIsLoading] = React.useState(false);
   const [isMutating, setIsMutating] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
 
-  const target = React.useMemo(() => buildTarget(selectedObjectIds), [selectedObjectIds]);
+  const selectedObject =
+    selectedObjectIds.length === 1 ? objects?.find((object) => object.id === selectedObjectIds[0]) : undefined;
+  const target = React.useMemo(() => buildTarget(selectedObjectIds, selectedObject), [selectedObjectIds, selectedObject]);
   const allowComments = !access.isPublicationAccess || Boolean(access.publicationSession?.allowComments);
   const canMutate = enabled && authenticated && allowComments;
   const viewOnlyMessage = React.useMemo(() => {
@@ -11,6 +11,9 @@ import { useBoardMutations } from './useBoardMutations';
 import { useBoardCollaboration } from './useBoardCollaboration';
 import type { PresencePayload } from '../../collab/protocol';
 import type { BoardAccessMode } from './publicationSession';
+import type { EraserSettings, MarqueeSettings } from '../../whiteboard/whiteboardTypes';
+import { DEFAULT_MARQUEE_SETTINGS } from '../../whiteboard/geometry/marquee';
+import { DEFAULT_ERASER_SETTINGS } from '../../whiteboard/tools/eraser/erase';
 
 export function useBoardEditor(id: string | undefined, options: { accessMode?: BoardAccessMode } = {}) {
   const {
@@ -28,6 +31,13 @@ export function useBoardEditor(id: string | undefined, options: { accessMode?: B
     clearClipboard,
   } = useWhiteboard();
   const [canvasEl, setCanvasEl] = useState<HTMLCanvasElement | null>(null);
+  // Per-user preference, not stored with the board.
+  const [marqueeSettings, setMarqueeSettings] = useState<MarqueeSettings>(DEFAULT_MARQUEE_SETTINGS);
+  const updateMarqueeSettings = (patch: Partial<MarqueeSettings>) =>
+    setMarqueeSettings((prev) => ({ ...prev, ...patch }));
+  const [eraserSettings, setEraserSettings] = useState<EraserSettings>(DEFAULT_ERASER_SETTINGS);
+  const updateEraserSettings = (patch: Partial<EraserSettings>) =>
+    setEraserSettings((prev) => ({ ...prev, ...patch }));
 
 // ---- Collaboration (invite-based, realtime) ----
 const collab = useBoardCollaboration({
@@ -91,7 +101,10 @@ const sendPresence = (presence: PresencePayload) => {
   const {
     handleCreateObject,
     handleUpdateObject,
+    handleUpdateObjects,
+    handleEraseObjects,
     handleTransientObjectPatch,
+    handleUpdateBoardSettings,
   } = useBoardMutations({
     isReadOnly,
     state,
@@ -139,6 +152,17 @@ const sendPresence = (presence: PresencePayload) => {
     selectedObjects,
     handleSelectionChange: _handleSelectionChange,
     handleDeleteSelection,
+    handleReorderSelection,
+    canReorder,
+    canGroup,
+    canUngroup,
+    handleGroupSelection,
+    handleUngroupSelection,
+    handleSetSelectionLocked,
+    canLock,
+    arrangeUnitCount,
+    handleArrangeSelection,
+    canArrange,
     updateSelectionProp
   } = useBoardSelection({
     isReadOnly,
@@ -236,8 +260,26 @@ const redoSafe = () => {
     handleCreateObject,
     handleSelectionChange,
     handleUpdateObject,
+    handleUpdateObjects,
+    handleEraseObjects,
     handleTransientObjectPatch,
+    handleUpdateBoardSettings,
     handleDeleteSelection,
+    handleReorderSelection,
+    canReorder,
+    canGroup,
+    canUngroup,
+    handleGroupSelection,
+    handleUngroupSelection,
+    handleSetSelectionLocked,
+    canLock,
+    arrangeUnitCount,
+    handleArrangeSelection,
+    canArrange,
+    marqueeSettings,
+    updateMarqueeSettings,
+    eraserSettings,
+    updateEraserSettings,
     handleStrokeWidthChange,
     updateStrokeWidth,
     handleViewportChange,
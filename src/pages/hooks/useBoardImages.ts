@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ObjectId, Point, Viewport, WhiteboardObject } from '../../domain/types';
+import { canvasToWorld } from '../../whiteboard/geometry';
+import { createImageCache } from '../../whiteboard/tools/image/imageCache';
+import { MAX_IMAGES_PER_INSERT, prepareImageFile } from '../../whiteboard/tools/image/imageFiles';
+import { createImageObject } from '../../whiteboard/tools/image/interactions';
+import {
+  getLocalAssetRepository,
+  getRemoteAssetRepository,
+  type BoardAssetRepository,
+} from '../../infrastructure/indexedDbAssetRepository';
+
+/**
+ * Where a board's image assets live: IndexedDB for local boards, the server's
+ * asset store when it advertises `board-assets`. Server boards without that
+ * capability cannot take new images ('unavailable').
+ */
+export type BoardImageStorage = 'local' | 'server' | 'unavailable';
+
+function generateObjectId(): ObjectId {
+  return ('o_' + Math.random().toString(16).slice(2) + '_' + Date.now().toString(16)) as ObjectId;
+}
+
+function getRepository(boardId: string, storage: BoardImageStorage): BoardAssetRepository | null {
+  if (storage === 'server') return getRemoteAssetRepository(boardId);
+  if (storage === 'local') return getLocalAssetRepository();
+  return null;
+}
+
+export function useBoardImages(args: {
+  boardId: string;
+  storage: BoardImageStorage;
+  canInsert: boolean;
+  viewport?: Viewport;
+  /** Visible canvas size in CSS pixels. */
+  viewSize?: { width: number; height: number };
+  onCreateObject: (object: WhiteboardObject) => void;
+  onSelectionChange: (selectedIds: ObjectId[]) => void;
+}) {
+  const { boardId, storage, canInsert, viewport, viewSize } = args;
+  const [isInsertingImages, setIsInsertingImages] = useState(false);
+  const [imageError, setImageError] = useState<string | null>(null);
+
+  // Inserts finish asynchronously; always report to the latest callbacks.
+  const callbacksRef = useRef(args);
+  callbacksRef.current = args;
+
+  const repository = useMemo(() => getRepository(boardId, storage), [boardId, storage]);
+
+  const imageCache = useMemo(
+    () => createImageCache((assetId) => (repository ? repository.loadAsset(assetId) : Promise.resolve(null))),
+    [repository]
+  );
+
+  useEffect(() => () => imageCache.dispose(), [imageCache]);
+
+  const insertImages = useCallback(
+    async (files: File[], at?: Point) => {
+      if (!canInsert || files.length === 0) return;
+      if (!repository) {
+        setImageError('This server does not support images.');
+        return;
+      }
+
+      const vp = viewport ?? { offsetX: 0, offsetY: 0, zoom: 1 };
+      const center = at ?? (viewSize ? canvasToWorld(viewSize.width / 2, viewSize.height / 2, vp) : { x: 0, y: 0 });
+      const createdIds: ObjectId[] = [];
+      const errors: string[] = [];
+
+      setIsInsertingImages(true);
+      setImageError(null);
+      for (const file of files.slice(0, MAX_IMAGES_PER_INSERT)) {
+        try {
+          const prepared = await prepareImageFile(file);
+          const assetId = await repository.saveAsset(prepared.blob);
+          imageCache.prime(assetId, prepared.blob);
+          const object = createImageObject({
+            assetId,
+            size: prepared,
+            center,
+            viewport: vp,
+            viewSize,
+            index: createdIds.length,
+            generateObjectId,
+          });
+          callbacksRef.current.onCreateObject(object);
+          createdIds.push(object.id);
+        } catch (err) {
+          errors.push(err instanceof Error && err.message ? err.message : 'Could not insert image.');
+        }
+      }
+
+      if (createdIds.length > 0) callbacksRef.current.onSelectionChange(createdIds);
+      setImageError(errors.length > 0 ? errors.join(' ') : null);
+      setIsInsertingImages(false);
+    },
+    [canInsert, repository, imageCache, viewport, viewSize]
+  );
+
+  const clearImageError = useCallback(() => setImageError(null), []);
+
+  return {
+    imageCache,
+    canInsertImages: canInsert && repository !== null,
+    insertImages,
+    isInsertingImages,
+    imageError,
+    clearImageError,
+  };
+}
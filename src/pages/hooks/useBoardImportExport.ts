@@ -6,6 +6,7 @@ import type {
   BoardEvent,
   Viewport
 } from '../../domain/types';
+import { flushSceneCanvas } from '../../whiteboard/useCanvasDrawing';
 import { generateEventId } from './boardEvents';
 
 type WhiteboardStateForExport = {
@@ -55,6 +56,8 @@ export function useBoardImportExport({
   const handleExportPng = () => {
     if (!canvasEl || !state) return;
     try {
+      // A pan may have left a translated bitmap on the canvas; paint the real scene first.
+      flushSceneCanvas(canvasEl);
       const dataUrl = canvasEl.toDataURL('image/png');
       const a = document.createElement('a');
       a.href = dataUrl;
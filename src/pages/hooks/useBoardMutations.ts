@@ -1,6 +1,7 @@
 // src/pages/hooks/useBoardMutations.ts
+import { MAX_SELECTION_IDS } from '../../collab/protocol/limits';
 import { generateEventId } from './boardEvents';
-import type { BoardEvent, WhiteboardObject } from '../../domain/types';
+import type { BoardEvent, BoardSettings, ErasedObject, ObjectUpdate, WhiteboardObject } from '../../domain/types';
 
 export type UseBoardMutationsArgs = {
   isReadOnly?: boolean;
@@ -49,9 +50,56 @@ export function useBoardMutations({
     dispatchEvent(event);
   };
 
+  const handleUpdateObjects = (updates: ObjectUpdate[]) => {
+    if (!state || updates.length === 0) return;
+    if (isReadOnly) return;
+    // One event is one undo step; multi-object edits are not offered past the protocol limit.
+    if (updates.length > MAX_SELECTION_IDS) return;
+    const now = new Date().toISOString();
+    const event: BoardEvent = {
+      id: generateEventId(),
+      boardId: state.meta.id,
+      type: 'objectsUpdated',
+      timestamp: now,
+      payload: { updates },
+    } as BoardEvent;
+    dispatchEvent(event);
+  };
+
+  const handleEraseObjects = (erased: ErasedObject[]) => {
+    if (!state || erased.length === 0) return;
+    if (isReadOnly) return;
+    const now = new Date().toISOString();
+    const event: BoardEvent = {
+      id: generateEventId(),
+      boardId: state.meta.id,
+      type: 'objectsErased',
+      timestamp: now,
+      payload: { erased },
+    } as BoardEvent;
+    dispatchEvent(event);
+  };
+
+  const handleUpdateBoardSettings = (settings: Partial<BoardSettings>) => {
+    if (!state) return;
+    if (isReadOnly) return;
+    const now = new Date().toISOString();
+    const event: BoardEvent = {
+      id: generateEventId(),
+      boardId: state.meta.id,
+      type: 'boardSettingsChanged',
+      timestamp: now,
+      payload: { settings },
+    } as BoardEvent;
+    dispatchEvent(event);
+  };
+
   return {
     handleCreateObject,
     handleUpdateObject,
+    handleUpdateObjects,
+    handleEraseObjects,
     handleTransientObjectPatch,
+    handleUpdateBoardSettings,
   };
 }
@@ -1,5 +1,13 @@
 // src/pages/hooks/useBoardSelection.ts
-import type { WhiteboardMeta, WhiteboardObject, BoardEvent } from '../../domain/types';
+import type { WhiteboardMeta, WhiteboardObject, BoardEvent, ZOrderDirection } from '../../domain/types';
+import { MAX_SELECTION_IDS } from '../../collab/protocol/limits';
+import {
+  canGroupSelection,
+  expandSelectionToGroups,
+  generateGroupId,
+  getGroupIdsInSelection,
+} from '../../domain/groups';
+import { getArrangeUnits, getArrangeUpdates, type ArrangeCommand } from '../../whiteboard/arrange';
 import { generateEventId } from './boardEvents';
 
 type WhiteboardStateForSelection = {
@@ -36,7 +44,10 @@ export function useBoardSelection({ state, dispatchEvent, isReadOnly }: UseBoard
   const handleDeleteSelection = () => {
     if (!state || state.selectedObjectIds.length === 0) return;
     if (isReadOnly) return;
-    const count = state.selectedObjectIds.length;
+    // Locked objects are never deleted (the store policy drops those events too).
+    const deletableIds = selectedObjects.filter((obj) => !obj.locked).map((obj) => obj.id);
+    if (deletableIds.length === 0) return;
+    const count = deletableIds.length;
     const confirmed = window.confirm(
       `Delete ${count} selected object${count === 1 ? '' : 's'}? This cannot be undone.`
     );
@@ -44,7 +55,7 @@ export function useBoardSelection({ state, dispatchEvent, isReadOnly }: UseBoard
 
     const now = new Date().toISOString();
     // Delete each selected object
-    state.selectedObjectIds.forEach((objectId) => {
+    deletableIds.forEach((objectId) => {
       const event: BoardEvent = {
         id: generateEventId(),
         boardId: state.meta.id,
@@ -66,6 +77,111 @@ export function useBoardSelection({ state, dispatchEvent, isReadOnly }: UseBoard
     dispatchEvent(clearEvent);
   };
 
+  // One objectsReordered event carries the whole selection; splitting it would change the result.
+  const canReorder =
+    !!state &&
+    !isReadOnly &&
+    state.selectedObjectIds.length > 0 &&
+    state.selectedObjectIds.length <= MAX_SELECTION_IDS;
+
+  const handleReorderSelection = (direction: ZOrderDirection) => {
+    if (!state || !canReorder) return;
+    const event: BoardEvent = {
+      id: generateEventId(),
+      boardId: state.meta.id,
+      type: 'objectsReordered',
+      timestamp: new Date().toISOString(),
+      payload: { objectIds: [...state.selectedObjectIds], direction }
+    } as BoardEvent;
+    dispatchEvent(event);
+  };
+
+  // Grouping pulls in whole groups, so the expanded list must fit in one objectsGrouped event.
+  const canGroup =
+    !!state &&
+    !isReadOnly &&
+    canGroupSelection(state.objects, state.selectedObjectIds) &&
+    expandSelectionToGroups(state.objects, state.selectedObjectIds).length <= MAX_SELECTION_IDS;
+  const canUngroup =
+    !!state && !isReadOnly && getGroupIdsInSelection(state.objects, state.selectedObjectIds).length > 0;
+
+  const handleGroupSelection = () => {
+    if (!state || !canGroup) return;
+    const event: BoardEvent = {
+      id: generateEventId(),
+      boardId: state.meta.id,
+      type: 'objectsGrouped',
+      timestamp: new Date().toISOString(),
+      payload: {
+        groupId: generateGroupId(),
+        objectIds: expandSelectionToGroups(state.objects, state.selectedObjectIds)
+      }
+    } as BoardEvent;
+    dispatchEvent(event);
+  };
+
+  const handleUngroupSelection = () => {
+    if (!state || !canUngroup) return;
+    const now = new Date().toISOString();
+    getGroupIdsInSelection(state.objects, state.selectedObjectIds).forEach((groupId) => {
+      const event: BoardEvent = {
+        id: generateEventId(),
+        boardId: state.meta.id,
+        type: 'objectsUngrouped',
+        timestamp: now,
+        payload: { groupId }
+      } as BoardEvent;
+      dispatchEvent(event);
+    });
+  };
+
+  // Lock / unlock is one objectsUpdated event, so one undo step.
+  const canLock =
+    !!state && !isReadOnly && selectedObjects.length > 0 && selectedObjects.length <= MAX_SELECTION_IDS;
+
+  const handleSetSelectionLocked = (locked: boolean) => {
+    if (!state || !canLock) return;
+    const updates = selectedObjects
+      .filter((obj) => !!obj.locked !== locked)
+      .map((obj) => ({ objectId: obj.id, patch: { locked } }));
+    if (updates.length === 0) return;
+    const event: BoardEvent = {
+      id: generateEventId(),
+      boardId: state.meta.id,
+      type: 'objectsUpdated',
+      timestamp: new Date().toISOString(),
+      payload: { updates }
+    } as BoardEvent;
+    dispatchEvent(event);
+  };
+
+  // Movable units (groups count once) for align / distribute / tidy.
+  const arrangeUnitCount =
+    state && !isReadOnly && state.selectedObjectIds.length > 1
+      ? getArrangeUnits(state.objects, state.selectedObjectIds).length
+      : 0;
+
+  // Arranging moves whole groups in one objectsUpdated event, so the expanded list must fit in it.
+  const canArrange =
+    !!state &&
+    arrangeUnitCount > 0 &&
+    expandSelectionToGroups(state.objects, state.selectedObjectIds).length <= MAX_SELECTION_IDS;
+
+  const handleArrangeSelection = (command: ArrangeCommand) => {
+    if (!state || !canArrange) return;
+    const updates = getArrangeUpdates(state.objects, state.selectedObjectIds, command);
+    if (updates.length === 0) return;
+    // One event, so the whole command is a single undo step.
+    const event: BoardEvent = {
+      id: generateEventId(),
+      boardId: state.meta.id,
+      type: 'objectsUpdated',
+      timestamp: new Date().toISOString(),
+      payload: { updates }
+    } as BoardEvent;
+    dispatchEvent(event);
+  };
+
   const updateSelectionProp: <K extends keyof WhiteboardObject>(
     key: K,
     value: WhiteboardObject[K]
@@ -92,6 +208,17 @@ export function useBoardSelection({ state, dispatchEvent, isReadOnly }: UseBoard
     selectedObjects,
     handleSelectionChange,
     handleDeleteSelection,
+    handleReorderSelection,
+    canReorder,
+    canGroup,
+    canUngroup,
+    handleGroupSelection,
+    handleUngroupSelection,
+    handleSetSelectionLocked,
+    canLock,
+    arrangeUnitCount,
+    handleArrangeSelection,
+    canArrange,
     updateSelectionProp
   };
 }
\ No newline at end of file
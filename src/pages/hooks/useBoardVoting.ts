@@ -6,6 +6,7 @@ import {
   type VotingResults,
   type VotingSession,
 } from '../../api/votingApi';
+import { getObjectTextExcerpt } from '../../domain/richText';
 import type { WhiteboardObject } from '../../domain/types';
 import type { BoardAccessContext } from './publicationSession';
 import { getOrCreatePersistedPublicationParticipantToken, resetPublicationParticipantToken } from './publicationVotingParticipant';
@@ -63,10 +64,8 @@ function normalizeError(error: unknown): string {
 }
 
 function objectLabel(object: WhiteboardObject): string {
-  const text = typeof object.text === 'string' ? object.text.trim() : '';
-  if (text) {
-    return text.length > 36 ? `${text.slice(0, 33)}…` : text;
-  }
+  const text = getObjectTextExcerpt(object, 36);
+  if (text) return text;
   return `${object.type} (${object.id})`;
 }
 
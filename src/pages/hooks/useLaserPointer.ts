@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { WsEphemeralMessage } from '../../api/javaWhiteboardServerContract';
+import type { Point } from '../../domain/types';
+import {
+  LASER_SEND_INTERVAL_MS,
+  MAX_LASER_POINTS_PER_MESSAGE,
+  createLaserTrailStore,
+  readLaserPayload,
+  type LaserTrailStore,
+} from './laserTrails';
+
+type Args = {
+  /** Broadcast local trails (connected to a collab session). */
+  enabled: boolean;
+  selfUserId?: string | null;
+  lastEphemeralMessage: WsEphemeralMessage | null;
+  sendEphemeral: (eventType: WsEphemeralMessage['eventType'], payload: Record<string, unknown>) => boolean;
+};
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Laser pointer: the local trail is drawn straight away and its points are sent
+ * in small batches as 'laser' ephemeral messages; remote trails are collected
+ * per sender. Nothing here touches the board state or its history.
+ */
+export function useLaserPointer({ enabled, selfUserId, lastEphemeralMessage, sendEphemeral }: Args) {
+  const storeRef = useRef<LaserTrailStore | null>(null);
+  if (!storeRef.current) storeRef.current = createLaserTrailStore();
+  const store = storeRef.current;
+
+  const pendingRef = useRef<{ points: Point[]; start: boolean } | null>(null);
+  const timerRef = useRef<number | null>(null);
+  const startNextRef = useRef(true);
+
+  useEffect(() => {
+    if (!lastEphemeralMessage || lastEphemeralMessage.eventType !== 'laser') return;
+    if (selfUserId && lastEphemeralMessage.from === selfUserId) return;
+    const parsed = readLaserPayload(lastEphemeralMessage.payload);
+    if (!parsed || parsed.points.length === 0) return;
+
+    // Spread the batch over the interval it was collected in so it fades smoothly.
+    const now = Date.now();
+    const step = LASER_SEND_INTERVAL_MS / parsed.points.length;
+    const points = parsed.points.map((p, i) => ({ ...p, t: now - (parsed.points.length - 1 - i) * step }));
+    store.append(lastEphemeralMessage.from, points, parsed.start);
+  }, [lastEphemeralMessage, selfUserId, store]);
+
+  const flush = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (!pending || pending.points.length === 0 || !enabled) return;
+    sendEphemeral('laser', { points: pending.points, ...(pending.start ? { start: true } : {}) });
+  }, [enabled, sendEphemeral]);
+
+  useEffect(
+    () => () => {
+      if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    },
+    []
+  );
+
+  const addLaserPoint = useCallback(
+    (pos: Point) => {
+      const start = startNextRef.current;
+      startNextRef.current = false;
+      store.append(selfUserId || 'me', [{ ...pos, t: Date.now() }], start);
+      if (!enabled) return;
+
+      // A new stroke goes out in its own message so the break is kept.
+      if (start) flush();
+      const pending = pendingRef.current ?? { points: [], start };
+      pending.points.push({ x: round(pos.x), y: round(pos.y) });
+      pendingRef.current = pending;
+
+      if (pending.points.length >= MAX_LASER_POINTS_PER_MESSAGE) flush();
+      else if (timerRef.current === null) timerRef.current = window.setTimeout(flush, LASER_SEND_INTERVAL_MS);
+    },
+    [enabled, flush, selfUserId, store]
+  );
+
+  const endLaserTrail = useCallback(() => {
+    startNextRef.current = true;
+    flush();
+  }, [flush]);
+
+  return {
+    laserTrails: store,
+    addLaserPoint,
+    endLaserTrail,
+  };
+}
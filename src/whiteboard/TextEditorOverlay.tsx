@@ -0,0 +1,98 @@
+// src/whiteboard/TextEditorOverlay.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import type { Viewport, WhiteboardObject } from '../domain/types';
+import { worldToCanvas } from './geometry';
+import { getTextEditFrame, type PathLabelEditTarget } from './textEditing';
+import { TEXT_FONT_FAMILY, TEXT_LINE_HEIGHT } from './tools/_shared/textLayout';
+import { getPathLabelColor, getPathLabelText } from './tools/_shared/pathLabels';
+
+type TextEditorOverlayProps = {
+  object: WhiteboardObject;
+  viewport: Viewport;
+  /** For a line or connector: the label being edited, placed on the path through `objects`. */
+  label?: PathLabelEditTarget;
+  objects?: WhiteboardObject[];
+  /** Called once with the final text (blur or Ctrl/Cmd+Enter). */
+  onCommit: (text: string) => void;
+  /** Escape: leave the object unchanged. */
+  onCancel: () => void;
+};
+
+/**
+ * Textarea placed over an object's text on the canvas, with the same font,
+ * wrapping width, zoom and rotation, so typing looks like editing the object.
+ */
+export const TextEditorOverlay: React.FC<TextEditorOverlayProps> = ({
+  object,
+  viewport,
+  label,
+  objects,
+  onCommit,
+  onCancel,
+}) => {
+  const [draft, setDraft] = useState(() => (label ? getPathLabelText(object, label.index) : object.text ?? ''));
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  // Blur follows Escape/commit when the overlay unmounts; only the first ending counts.
+  const doneRef = useRef(false);
+
+  useEffect(() => {
+    const el = textareaRef.current;
+    if (!el) return;
+    el.focus();
+    el.select();
+  }, []);
+
+  const frame = getTextEditFrame(object, draft, { label, objects });
+  if (!frame) return null;
+
+  const finish = (commit: boolean) => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+    if (commit) onCommit(draft);
+    else onCancel();
+  };
+
+  const handleKeyDown = (evt: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (evt.key === 'Escape') {
+      evt.preventDefault();
+      finish(false);
+    } else if (evt.key === 'Enter' && (evt.ctrlKey || evt.metaKey)) {
+      evt.preventDefault();
+      finish(true);
+    }
+  };
+
+  const zoom = viewport.zoom ?? 1;
+  const { textBox, center } = frame;
+  const topLeft = worldToCanvas(textBox.x, textBox.y, viewport);
+  const fontPx = frame.fontSize * zoom;
+  // Unwrapped text grows to the right; leave room for the caret past the last glyph.
+  const width = textBox.width * zoom + (frame.wraps ? 0 : fontPx);
+
+  return (
+    <textarea
+      ref={textareaRef}
+      className="whiteboard-text-editor"
+      aria-label="Edit text"
+      value={draft}
+      spellCheck
+      onChange={(evt) => setDraft(evt.target.value)}
+      onKeyDown={handleKeyDown}
+      onBlur={() => finish(true)}
+      style={{
+        left: topLeft.x,
+        top: topLeft.y,
+        width,
+        height: textBox.height * zoom,
+        font: `${fontPx}px ${TEXT_FONT_FAMILY}`,
+        lineHeight: TEXT_LINE_HEIGHT,
+        color: label ? getPathLabelColor(object) : object.textColor ?? object.strokeColor ?? '#e5e7eb',
+        textAlign: frame.align,
+        whiteSpace: frame.wraps ? 'pre-wrap' : 'pre',
+        overflowY: frame.fixedHeight ? 'auto' : 'hidden',
+        transformOrigin: `${(center.x - textBox.x) * zoom}px ${(center.y - textBox.y) * zoom}px`,
+        transform: frame.rotation ? `rotate(${frame.rotation}deg)` : undefined,
+      }}
+    />
+  );
+};
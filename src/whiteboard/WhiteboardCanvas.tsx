@@ -1,28 +1,93 @@
 // src/whiteboard/WhiteboardCanvas.tsx
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { ObjectId } from '../domain/types';
 import type { WhiteboardCanvasProps } from './whiteboardTypes';
+import { DEFAULT_BOARD_SETTINGS, getSnapGridSize } from '../domain/boardSettings';
+import { getTextEditPatch } from '../domain/richText';
 import { useCanvasDrawing } from './useCanvasDrawing';
 import { useCanvasInteractions } from './useCanvasInteractions';
+import { canvasToWorld } from './geometry';
+import { getImageFiles } from './tools/image/imageFiles';
+import { canEditTextInPlace, type PathLabelEditTarget } from './textEditing';
+import { getPathLabelText, getPathLabelTextPatch } from './tools/_shared/pathLabels';
+import { TextEditorOverlay } from './TextEditorOverlay';
 
 // Re-export so other modules can keep importing from this file.
 export type { DrawingTool } from './whiteboardTypes';
 
 export const WhiteboardCanvas: React.FC<WhiteboardCanvasProps> = (props) => {
+  // Two stacked layers: the scene (committed objects, cached) and the interactive
+  // overlay on top (selection handles, drafts). Pointer input goes to the overlay.
+  const sceneCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
 
-  // Notify parent about the canvas element so it can be used for image export.
+  // Notify parent about the scene canvas so it can be used for image export.
   useEffect(() => {
     if (props.onCanvasReady) {
-      props.onCanvasReady(canvasRef.current);
+      props.onCanvasReady(sceneCanvasRef.current);
     }
   }, [props.onCanvasReady]);
 
+  const boardSettings = props.boardSettings ?? DEFAULT_BOARD_SETTINGS;
+
+  // ─────────────────────────────────────────────
+  // In-place text editing
+  // ─────────────────────────────────────────────
+
+  const [editingText, setEditingText] = useState<{ id: ObjectId; label?: PathLabelEditTarget } | null>(null);
+  const editingTextId = editingText?.id ?? null;
+  const editingLabel = editingText?.label;
+  const editingObject = useMemo(() => {
+    if (!editingTextId || !props.canEditText) return null;
+    const obj = props.objects.find((o) => o.id === editingTextId);
+    // Deleted or locked (possibly by someone else) while editing: close the editor.
+    return obj && canEditTextInPlace(obj) ? obj : null;
+  }, [editingTextId, props.canEditText, props.objects]);
+
+  useEffect(() => {
+    if (editingTextId && !editingObject) setEditingText(null);
+  }, [editingTextId, editingObject]);
+
+  // The editor shows the text while it is open; the scene draws the object without it.
+  const sceneObjects = useMemo(
+    () =>
+      editingObject
+        ? props.objects.map((o) =>
+            o !== editingObject
+              ? o
+              : editingLabel
+                ? { ...o, ...getPathLabelTextPatch(o, editingLabel.index, '') }
+                : { ...o, text: '' }
+          )
+        : props.objects,
+    [editingObject, editingLabel, props.objects]
+  );
+
+  const commitTextEdit = (text: string) => {
+    if (editingObject && editingLabel) {
+      if (text !== getPathLabelText(editingObject, editingLabel.index)) {
+        props.onUpdateObject(
+          editingObject.id,
+          getPathLabelTextPatch(editingObject, editingLabel.index, text, editingLabel.t)
+        );
+      }
+    } else if (editingObject && text !== (editingObject.text ?? '')) {
+      // Plain-text edits keep the formatting of the text around them.
+      props.onUpdateObject(editingObject.id, getTextEditPatch(editingObject, text));
+    }
+    setEditingText(null);
+  };
+
   const {
     draft,
+    guides,
+    marquee,
+    eraser,
     handlePointerDown,
     handlePointerMove,
     handlePointerUp,
     handlePointerLeave,
+    handleDoubleClick,
   } = useCanvasInteractions({
     objects: props.objects,
     selectedObjectIds: props.selectedObjectIds,
@@ -34,22 +99,37 @@ export const WhiteboardCanvas: React.FC<WhiteboardCanvasProps> = (props) => {
     onCreateObject: props.onCreateObject,
     onSelectionChange: props.onSelectionChange,
     onUpdateObject: props.onUpdateObject,
+    onUpdateObjects: props.onUpdateObjects,
+    onEraseObjects: props.onEraseObjects,
+    onLaserPoint: props.onLaserPoint,
+    onLaserEnd: props.onLaserEnd,
     onTransientObjectPatch: props.onTransientObjectPatch,
     onViewportChange: props.onViewportChange,
     onCursorWorldMove: props.onCursorWorldMove,
     canvasWidth: props.width,
     canvasHeight: props.height,
+    snapGridSize: getSnapGridSize(boardSettings),
+    marqueeSettings: props.marqueeSettings,
+    eraserSettings: props.eraserSettings,
+    onEditText: props.canEditText ? (id, label) => setEditingText({ id, label }) : undefined,
   });
 
   useCanvasDrawing({
-    canvasRef,
+    sceneCanvasRef,
+    overlayCanvasRef: canvasRef,
     width: props.width,
     height: props.height,
-    objects: props.objects,
+    objects: sceneObjects,
     selectedObjectIds: props.selectedObjectIds,
     viewport: props.viewport,
     draft,
+    guides,
+    marquee,
+    eraser,
     strokeColor: props.strokeColor,
+    background: boardSettings.background,
+    gridSize: boardSettings.gridSize,
+    images: props.images,
   });
 
   // ─────────────────────────────────────────────
@@ -141,20 +221,68 @@ export const WhiteboardCanvas: React.FC<WhiteboardCanvasProps> = (props) => {
     handlePointerLeave(evt);
   };
 
+  // ─────────────────────────────────────────────
+  // Dropping image files inserts them where they land
+  // ─────────────────────────────────────────────
+
+  const { onDropFiles } = props;
+
+  const handleDragOver = (evt: React.DragEvent<HTMLDivElement>) => {
+    if (!onDropFiles || !Array.from(evt.dataTransfer.types).includes('Files')) return;
+    evt.preventDefault();
+    evt.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDrop = (evt: React.DragEvent<HTMLDivElement>) => {
+    if (!onDropFiles) return;
+    const files = getImageFiles(evt.dataTransfer);
+    if (files.length === 0) return;
+    evt.preventDefault();
+    const rect = evt.currentTarget.getBoundingClientRect();
+    onDropFiles(files, canvasToWorld(evt.clientX - rect.left, evt.clientY - rect.top, props.viewport));
+  };
+
   return (
-    <canvas
-      ref={canvasRef}
-      className="whiteboard-canvas"
-      style={{
-        width: props.width,
-        height: props.height,
-        display: 'block',
-        touchAction: 'none',
-      }}
-      onPointerDown={handlePointerDownReact}
-      onPointerMove={handlePointerMoveReact}
-      onPointerUp={handlePointerUpReact}
-      onPointerLeave={handlePointerLeaveReact}
-    />
+    <div
+      className="whiteboard-canvas-layers"
+      style={{ width: props.width, height: props.height }}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
+      <canvas
+        ref={sceneCanvasRef}
+        className="whiteboard-canvas"
+        style={{
+          width: props.width,
+          height: props.height,
+          display: 'block',
+        }}
+      />
+      <canvas
+        ref={canvasRef}
+        className="whiteboard-canvas-overlay"
+        style={{
+          width: props.width,
+          height: props.height,
+          touchAction: 'none',
+        }}
+        onPointerDown={handlePointerDownReact}
+        onPointerMove={handlePointerMoveReact}
+        onPointerUp={handlePointerUpReact}
+        onPointerLeave={handlePointerLeaveReact}
+        onDoubleClick={handleDoubleClick}
+      />
+      {editingObject && (
+        <TextEditorOverlay
+          key={editingLabel ? `${editingObject.id}:${editingLabel.index}` : editingObject.id}
+          object={editingObject}
+          viewport={props.viewport}
+          label={editingLabel}
+          objects={props.objects}
+          onCommit={commitTextEdit}
+          onCancel={() => setEditingText(null)}
+        />
+      )}
+    </div>
   );
 };
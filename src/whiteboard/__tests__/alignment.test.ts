@@ -0,0 +1,93 @@
+import type { WhiteboardObject } from '../../domain/types';
+import {
+  MOVE_SNAP_FEATURES,
+  collectAlignmentGuides,
+  findAlignmentSnap,
+  getResizeSnapFeatures,
+} from '../geometry/alignment';
+import { handleDragMove } from '../interactions/drag/dispatch';
+import type { DragState } from '../interactions/drag/types';
+
+const viewport = { offsetX: 0, offsetY: 0, zoom: 1 };
+
+function rect(id: string, x: number, y: number, width = 50, height = 50): WhiteboardObject {
+  return { id, type: 'rectangle', x, y, width, height };
+}
+
+function move(drag: DragState, objects: WhiteboardObject[], pos: { x: number; y: number }, extra: object = {}) {
+  const patches: any[] = [];
+  const next = handleDragMove(drag, {
+    objects,
+    viewport,
+    pos,
+    canvasX: 0,
+    canvasY: 0,
+    onTransientObjectPatch: (_id, patch) => patches.push(patch),
+    onViewportChange: () => {},
+    ...extra,
+  });
+  return { next, patch: patches[patches.length - 1] };
+}
+
+describe('whiteboard/geometry/alignment', () => {
+  test('snaps edges and centres within tolerance and reports guide lines', () => {
+    const neighbour = { x: 100, y: 0, width: 50, height: 50 };
+    const moving = { x: 103, y: 200, width: 50, height: 50 };
+    const snap = findAlignmentSnap(moving, [neighbour], 6, MOVE_SNAP_FEATURES);
+    expect(snap).toEqual({ x: -3, y: null });
+
+    const guides = collectAlignmentGuides({ ...moving, x: 100 }, [neighbour], MOVE_SNAP_FEATURES);
+    expect(guides.lines.map((l) => l.position).sort((a, b) => a - b)).toEqual([100, 125, 150]);
+    expect(guides.lines[0]).toMatchObject({ axis: 'x', start: 0, end: 250 });
+  });
+
+  test('centres between two neighbours and shows an equal-spacing hint', () => {
+    const left = { x: 0, y: 0, width: 50, height: 50 };
+    const right = { x: 250, y: 0, width: 50, height: 50 };
+    const moving = { x: 123, y: 300, width: 50, height: 50 };
+    // Not in the same row: no spacing snap.
+    expect(findAlignmentSnap(moving, [left, right], 6, MOVE_SNAP_FEATURES).x).toBeNull();
+
+    const inRow = { ...moving, y: 10 };
+    expect(findAlignmentSnap(inRow, [left, right], 6, MOVE_SNAP_FEATURES).x).toBe(2);
+    const guides = collectAlignmentGuides({ ...inRow, x: 125 }, [left, right], MOVE_SNAP_FEATURES);
+    expect(guides.spacing).toEqual([
+      { axis: 'x', cross: 35, gaps: [{ start: 50, end: 125 }, { start: 175, end: 250 }] },
+    ]);
+  });
+
+  test('resize only snaps the edges the handle moves', () => {
+    expect(getResizeSnapFeatures('se')).toEqual({ x: ['end'], y: ['end'], spacing: false });
+    expect(getResizeSnapFeatures('n')).toEqual({ x: [], y: ['start'], spacing: false });
+  });
+
+  test('dragging snaps to neighbours and the modifier turns it off', () => {
+    const a = rect('a', 0, 0);
+    const b = rect('b', 200, 4);
+    const drag: DragState = { kind: 'move', objectId: 'b', startX: 210, startY: 10, originalObject: b, lastPatch: null };
+
+    const snapped = move(drag, [a, b], { x: 212, y: 10 });
+    expect(snapped.patch).toEqual({ x: 202, y: 0 });
+    expect(snapped.next.kind === 'move' && snapped.next.guides?.lines.length).toBeGreaterThan(0);
+
+    const free = move(drag, [a, b], { x: 212, y: 10 }, { disableSnapping: true });
+    expect(free.patch).toEqual({ x: 202, y: 4 });
+    expect(free.next.kind === 'move' && free.next.guides).toBeNull();
+  });
+
+  test('resizing snaps the dragged edge to a neighbour', () => {
+    const a = rect('a', 200, 0);
+    const b = rect('b', 0, 100);
+    const drag: DragState = {
+      kind: 'resize',
+      objectId: 'b',
+      handle: 'e',
+      startX: 50,
+      startY: 125,
+      originalBounds: { x: 0, y: 100, width: 50, height: 50 },
+      originalObject: b,
+      lastPatch: null,
+    };
+    expect(move(drag, [a, b], { x: 204, y: 125 }).patch).toEqual({ x: 0, y: 100, width: 200, height: 50 });
+  });
+});
@@ -0,0 +1,61 @@
+import type { WhiteboardObject } from '../../domain/types';
+import { getArrangeUnits, getArrangeUpdates, TIDY_GAP } from '../arrange';
+
+function rect(id: string, x: number, y: number, width = 40, height = 40, extra: Partial<WhiteboardObject> = {}): WhiteboardObject {
+  return { id, type: 'rectangle', x, y, width, height, ...extra };
+}
+
+const connector: WhiteboardObject = {
+  id: 'k',
+  type: 'connector',
+  x: 0,
+  y: 0,
+  from: { objectId: 'a', attachment: { type: 'port', portId: 'right' } },
+  to: { objectId: 'b', attachment: { type: 'port', portId: 'left' } },
+} as WhiteboardObject;
+
+describe('arrange commands', () => {
+  it('treats a group as one unit and skips locked objects and connectors', () => {
+    const objects = [
+      rect('a', 0, 0),
+      rect('b', 100, 50, 40, 40, { groupId: 'g1' }),
+      rect('c', 200, 50, 40, 40, { groupId: 'g1' }),
+      rect('d', 300, 0, 40, 40, { locked: true }),
+      connector,
+    ];
+    const units = getArrangeUnits(objects, ['a', 'b', 'd', 'k']);
+    expect(units.map((u) => u.members.map((m) => m.id))).toEqual([['a'], ['b', 'c']]);
+    expect(units[1].bounds).toEqual({ x: 100, y: 50, width: 140, height: 40 });
+  });
+
+  it('aligns units to the selection edges and centres', () => {
+    const objects = [rect('a', 0, 0), rect('b', 100, 60, 80, 20), connector];
+    expect(getArrangeUpdates(objects, ['a', 'b', 'k'], { kind: 'align', mode: 'left' })).toEqual([
+      { objectId: 'b', patch: { x: 0, y: 60 } },
+    ]);
+    expect(getArrangeUpdates(objects, ['a', 'b'], { kind: 'align', mode: 'middle' })).toEqual([
+      { objectId: 'a', patch: { x: 0, y: 20 } },
+      { objectId: 'b', patch: { x: 100, y: 30 } },
+    ]);
+  });
+
+  it('distributes with equal gaps, keeping the outermost units in place', () => {
+    const objects = [rect('a', 0, 0), rect('b', 60, 0, 20), rect('c', 200, 0)];
+    expect(getArrangeUpdates(objects, ['a', 'b', 'c'], { kind: 'distribute', axis: 'x' })).toEqual([
+      { objectId: 'b', patch: { x: 110, y: 0 } },
+    ]);
+    expect(getArrangeUpdates(objects, ['a', 'b'], { kind: 'distribute', axis: 'x' })).toEqual([]);
+  });
+
+  it('tidies units into a grid in reading order', () => {
+    const objects = [rect('a', 500, 0), rect('b', 0, 300, 60, 60), rect('c', 100, 0), rect('d', 10, 10)];
+    const updates = getArrangeUpdates(objects, ['a', 'b', 'c', 'd'], { kind: 'tidy' });
+    const cell = 60 + TIDY_GAP;
+    expect(Object.fromEntries(updates.map((u) => [u.objectId, [u.patch.x, u.patch.y]]))).toEqual({
+      d: [0, 0],
+      c: [cell, 0],
+      a: [0, cell],
+      b: [cell, cell],
+    });
+  });
+});
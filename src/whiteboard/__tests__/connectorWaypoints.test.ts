@@ -0,0 +1,192 @@
+import type { Point, Viewport, WhiteboardObject } from '../../domain/types';
+import { validateWhiteboardObject } from '../../collab/protocol/validation/objectValidation';
+import { getBoundingBox, getConnectorPath, hitTest } from '../geometry';
+import { getCurveThroughPoints, getBezierPoint } from '../tools/connector/curves';
+import {
+  getConnectorHandles,
+  hitTestConnectorHandle,
+  insertConnectorWaypoint,
+  moveConnectorWaypoint,
+  removeConnectorWaypoint,
+} from '../tools/connector/interactions';
+import { handleDragMove } from '../interactions/drag/dispatch';
+import { getArrowTailPoint } from '../tools/_shared/arrowHeads';
+
+const viewport: Viewport = { offsetX: 0, offsetY: 0, zoom: 1 };
+
+const box = (id: string, x: number, y: number): WhiteboardObject => ({
+  id,
+  type: 'rectangle',
+  x,
+  y,
+  width: 100,
+  height: 60,
+});
+const a = box('a', 0, 0);
+const b = box('b', 400, 0);
+const connector: WhiteboardObject = {
+  id: 'k',
+  type: 'connector',
+  x: 0,
+  y: 0,
+  routing: 'manual',
+  waypoints: [{ x: 250, y: 200 }],
+  from: { objectId: 'a', attachment: { type: 'port', portId: 'right' } },
+  to: { objectId: 'b', attachment: { type: 'port', portId: 'left' } },
+};
+const objects = [a, b, connector];
+
+describe('manual connectors', () => {
+  it('run through their waypoints', () => {
+    expect(getConnectorPath(objects, connector)).toEqual([
+      { x: 100, y: 30 },
+      { x: 250, y: 200 },
+      { x: 400, y: 30 },
+    ]);
+    // Straight connectors ignore leftover waypoints.
+    expect(getConnectorPath(objects, { ...connector, routing: 'straight' })).toHaveLength(2);
+  });
+
+  it('hit-test and bound every segment', () => {
+    const objs = [a, b, { ...connector }];
+    expect(hitTest(objs, 175, 115)?.id).toBe('k');
+    expect(hitTest(objs, 250, 30)).toBeNull();
+    const bounds = getBoundingBox(objs[2], objs)!;
+    expect(bounds.y + bounds.height).toBeGreaterThanOrEqual(200);
+  });
+
+  it('expose waypoint and midpoint handles', () => {
+    const handles = getConnectorHandles(objects, connector)!;
+    expect(handles.waypoints).toEqual([{ x: 250, y: 200 }]);
+    expect(handles.midpoints).toEqual([
+      { x: 175, y: 115 },
+      { x: 325, y: 115 },
+    ]);
+    expect(hitTestConnectorHandle(objects, connector, viewport, 252, 198)).toEqual({ kind: 'waypoint', index: 0 });
+    expect(hitTestConnectorHandle(objects, connector, viewport, 325, 115)).toEqual({ kind: 'midpoint', index: 1 });
+    expect(hitTestConnectorHandle(objects, connector, viewport, 300, 60)).toBeNull();
+    expect(getConnectorHandles(objects, { ...connector, routing: 'orthogonal' })).toBeNull();
+  });
+});
+
+describe('waypoint edits', () => {
+  it('insert, move and remove waypoints', () => {
+    expect(insertConnectorWaypoint(connector, 1, { x: 350, y: 100 })).toEqual({
+      waypoints: [
+        { x: 250, y: 200 },
+        { x: 350, y: 100 },
+      ],
+      routing: 'manual',
+    });
+    expect(moveConnectorWaypoint(connector, 0, { x: 240, y: 180 })).toEqual({ waypoints: [{ x: 240, y: 180 }] });
+    expect(removeConnectorWaypoint(connector, 0)).toEqual({ waypoints: [] });
+    expect(removeConnectorWaypoint(connector, 3)).toEqual({});
+  });
+
+  it('turn a straight connector into a manual one', () => {
+    const straight = { ...connector, routing: 'straight' as const };
+    expect(insertConnectorWaypoint(straight, 0, { x: 250, y: 100 })).toEqual({
+      waypoints: [{ x: 250, y: 100 }],
+      routing: 'manual',
+    });
+  });
+
+  it('insert a dragged midpoint once and snap it to the grid', () => {
+    const patches: Array<Partial<WhiteboardObject>> = [];
+    const drag = { kind: 'connectorWaypoint' as const, objectId: 'k', index: 0, insert: true, originalObject: connector };
+    const deps = {
+      objects,
+      viewport,
+      canvasX: 0,
+      canvasY: 0,
+      onTransientObjectPatch: (_id: string, patch: Partial<WhiteboardObject>) => patches.push(patch),
+      onViewportChange: () => undefined,
+      snapGridSize: 20,
+    };
+    const moved = handleDragMove(drag, { ...deps, pos: { x: 150, y: 90 } });
+    const again = handleDragMove(moved, { ...deps, pos: { x: 162, y: 97 } });
+    expect(again.kind === 'connectorWaypoint' && again.lastPatch).toEqual({
+      waypoints: [
+        { x: 160, y: 100 },
+        { x: 250, y: 200 },
+      ],
+      routing: 'manual',
+    });
+    expect(patches).toHaveLength(2);
+  });
+});
+
+describe('curved connectors', () => {
+  const curved: WhiteboardObject = { ...connector, routing: 'curved' };
+
+  it('pass through every vertex with a smooth tangent', () => {
+    const points: Point[] = [
+      { x: 0, y: 0 },
+      { x: 100, y: 100 },
+      { x: 200, y: 0 },
+    ];
+    const [first, second] = getCurveThroughPoints(points);
+    expect(first.p3).toEqual(points[1]);
+    expect(second.p0).toEqual(points[1]);
+    // The tangent at the waypoint is continuous: incoming and outgoing handles are collinear.
+    const inX = first.p3.x - first.c2.x;
+    const inY = first.p3.y - first.c2.y;
+    const outX = second.c1.x - second.p0.x;
+    const outY = second.c1.y - second.p0.y;
+    expect(inX * outY - inY * outX).toBeCloseTo(0);
+    expect(inX * outX + inY * outY).toBeGreaterThan(0);
+  });
+
+  it('leave attached edges along their normal', () => {
+    const [seg] = getCurveThroughPoints(
+      [
+        { x: 0, y: 0 },
+        { x: 100, y: 100 },
+      ],
+      { x: 1, y: 0 },
+      { x: 0, y: -1 }
+    );
+    expect(seg.c1.y).toBe(0);
+    expect(seg.c1.x).toBeGreaterThan(0);
+    expect(seg.c2.x).toBe(100);
+    expect(seg.c2.y).toBeLessThan(100);
+  });
+
+  it('hit-test and bound the curve, not the straight segments', () => {
+    const objs = [a, b, curved];
+    const path = getConnectorPath(objs, curved)!;
+    expect(path[0]).toEqual({ x: 100, y: 30 });
+    expect(path[path.length - 1]).toEqual({ x: 400, y: 30 });
+    expect(path).toContainEqual({ x: 250, y: 200 });
+
+    // The curve bulges past the waypoint's straight-segment midpoints.
+    const handles = getConnectorHandles(objs, curved)!;
+    const mid = handles.midpoints[0];
+    expect(mid).not.toEqual({ x: 175, y: 115 });
+    expect(hitTest(objs, mid.x, mid.y)?.id).toBe('k');
+    const bounds = getBoundingBox(curved, objs)!;
+    expect(bounds.y + bounds.height).toBeGreaterThanOrEqual(200);
+  });
+
+  it('aim arrow heads along the curve near the tip', () => {
+    const seg = getCurveThroughPoints([
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+    ])[0];
+    expect(getBezierPoint(seg, 0.5)).toEqual({ x: 50, y: 0 });
+    // 20px head on a 2px stroke: the tail point is 20px back along the path.
+    const tail = getArrowTailPoint(
+      [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 30 },
+      ],
+      2
+    );
+    expect(tail).toEqual({ x: 10, y: 10 });
+  });
+
+  it('are validated for collab', () => {
+    expect(validateWhiteboardObject(curved, 'object').ok).toBe(true);
+  });
+});
@@ -0,0 +1,139 @@
+import type { Point, WhiteboardObject } from '../../domain/types';
+import { validateWhiteboardObject } from '../../collab/protocol/validation/objectValidation';
+import { BOARD_TYPES } from '../boardTypes';
+import { hitTest } from '../geometry';
+import { TOOL_REGISTRY } from '../tools/registry';
+import {
+  getPortsFor,
+  getShape,
+  getShapeTextArea,
+  toolPointerDown,
+  toolPointerMove,
+  toolPointerUp,
+} from '../tools/shapeRegistry';
+import type { ToolPointerContext } from '../tools/shapeTypes';
+import { getBlockArrowOutline } from '../tools/blockArrow/geometry';
+import { getCloudOutline } from '../tools/cloud/geometry';
+import { getCylinderOutline } from '../tools/cylinder/geometry';
+import { getHexagonOutline } from '../tools/hexagon/geometry';
+import { getParallelogramOutline } from '../tools/parallelogram/geometry';
+import { getStarOutline } from '../tools/star/geometry';
+import { getTriangleOutline } from '../tools/triangle/geometry';
+
+const TYPES = ['triangle', 'hexagon', 'parallelogram', 'cylinder', 'cloud', 'star', 'blockArrow'] as const;
+
+const OUTLINES = {
+  triangle: getTriangleOutline,
+  hexagon: getHexagonOutline,
+  parallelogram: getParallelogramOutline,
+  cylinder: getCylinderOutline,
+  cloud: getCloudOutline,
+  star: getStarOutline,
+  blockArrow: getBlockArrowOutline,
+};
+
+const shape = (type: WhiteboardObject['type'], extra: Partial<WhiteboardObject> = {}): WhiteboardObject => ({
+  id: type,
+  type,
+  x: 0,
+  y: 0,
+  width: 200,
+  height: 100,
+  ...extra,
+});
+
+const hits = (obj: WhiteboardObject, x: number, y: number) => hitTest([obj], x, y) !== null;
+
+function distanceToOutline(p: Point, outline: Point[]): number {
+  let best = Infinity;
+  outline.forEach((a, i) => {
+    const b = outline[(i + 1) % outline.length];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / (dx * dx + dy * dy || 1)));
+    best = Math.min(best, Math.hypot(p.x - (a.x + dx * t), p.y - (a.y + dy * t)));
+  });
+  return best;
+}
+
+describe('diagram shapes', () => {
+  it('are registered as tools, shapes and in the advanced toolbox flyout', () => {
+    const moreShapes = BOARD_TYPES.advanced.toolbox.filter((t) => t.group === 'moreShapes');
+    expect(moreShapes.map((t) => t.baseToolId)).toEqual([...TYPES]);
+    for (const type of TYPES) {
+      expect(TOOL_REGISTRY.find((t) => t.id === type)?.objectType).toBe(type);
+      expect(getShape(type).type).toBe(type);
+      expect(getShape(type).connectorAttachmentPolicy).toBe('portsOnly');
+      expect(validateWhiteboardObject(shape(type), 'object').ok).toBe(true);
+    }
+  });
+
+  it('keep their outline, ports and text area inside the box', () => {
+    for (const type of TYPES) {
+      const outline = OUTLINES[type]({ x: 0, y: 0, width: 200, height: 100 });
+      for (const p of outline) {
+        expect(p.x).toBeGreaterThanOrEqual(-1e-9);
+        expect(p.x).toBeLessThanOrEqual(200 + 1e-9);
+        expect(p.y).toBeGreaterThanOrEqual(-1e-9);
+        expect(p.y).toBeLessThanOrEqual(100 + 1e-9);
+      }
+      const ports = getPortsFor(shape(type));
+      expect(ports.map((p) => p.portId).sort()).toEqual(['bottom', 'center', 'left', 'right', 'top']);
+      for (const port of ports.filter((p) => p.portId !== 'center')) {
+        expect(distanceToOutline(port.point, outline)).toBeLessThan(1e-6);
+      }
+      const area = getShapeTextArea(shape(type))!;
+      expect(area.width).toBeGreaterThan(0);
+      expect(area.height).toBeGreaterThan(0);
+    }
+  });
+
+  it('hit-test the outline rather than the box', () => {
+    for (const type of TYPES) {
+      const obj = shape(type);
+      expect(hits(obj, 100, 60)).toBe(true);
+      expect(hits(obj, 2, 2)).toBe(false);
+    }
+    // Between the star's upper arms, and above the block arrow's shaft.
+    expect(hits(shape('star'), 40, 20)).toBe(false);
+    expect(hits(shape('blockArrow'), 20, 50)).toBe(true);
+    expect(hits(shape('blockArrow'), 20, 15)).toBe(false);
+  });
+
+  it('hit-test and place ports in their rotated frame', () => {
+    const triangle = shape('triangle', { x: 0, y: 0, width: 100, height: 100, rotation: 180 });
+    // Upside down: the apex points down, so the top corners are now inside.
+    expect(hits(triangle, 5, 5)).toBe(true);
+    expect(hits(triangle, 5, 95)).toBe(false);
+    const top = getPortsFor(triangle).find((p) => p.portId === 'top')!;
+    expect(top.point.x).toBeCloseTo(50);
+    expect(top.point.y).toBeCloseTo(100);
+  });
+
+  it('are drawn out with a box drag', () => {
+    const ctx: ToolPointerContext = {
+      objects: [],
+      viewport: { offsetX: 0, offsetY: 0, zoom: 1 },
+      strokeColor: '#111111',
+      strokeWidth: 3,
+      generateObjectId: () => 'new',
+      toolProps: { fillColor: '#ff0000', strokeDash: 'dashed' },
+    };
+    const down = toolPointerDown('cloud', ctx, { x: 10, y: 20 });
+    if (down.kind !== 'draft') throw new Error('expected a draft');
+    const moved = toolPointerMove(down.draft, ctx, { x: 110, y: 80 });
+    const up = toolPointerUp(moved.draft, ctx, { x: 110, y: 80 });
+    expect(up.kind === 'create' && up.object).toEqual({
+      id: 'new',
+      type: 'cloud',
+      x: 10,
+      y: 20,
+      width: 100,
+      height: 60,
+      strokeColor: '#111111',
+      strokeWidth: 3,
+      fillColor: '#ff0000',
+      strokeDash: 'dashed',
+    });
+  });
+});
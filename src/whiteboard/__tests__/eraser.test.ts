@@ -0,0 +1,124 @@
+import { createEmptyWhiteboardState } from '../../domain/whiteboardState';
+import type { BoardEvent, WhiteboardObject, WhiteboardState } from '../../domain/types';
+import { whiteboardReducer } from '../store/reducer';
+import { hitTest } from '../geometry';
+import { cutFreehandStroke, getEraseResult, getObjectsTouchedByEraser } from '../tools/eraser/erase';
+import { validateBoardEvent } from '../../collab/protocol/validation/eventValidation';
+
+const rect: WhiteboardObject = { id: 'r', type: 'rectangle', x: 0, y: 0, width: 40, height: 40 };
+const line: WhiteboardObject = { id: 'l', type: 'line', x: 100, y: 0, x2: 200, y2: 100 };
+const stroke: WhiteboardObject = {
+  id: 'f',
+  type: 'freehand',
+  x: 0,
+  y: 100,
+  width: 100,
+  height: 0,
+  strokeWidth: 2,
+  points: [
+    { x: 0, y: 100 },
+    { x: 100, y: 100 },
+  ],
+  pressures: [0.2, 0.8],
+};
+
+function createState(objects: WhiteboardObject[]): WhiteboardState {
+  return {
+    ...createEmptyWhiteboardState({
+      id: 'board-1',
+      name: 'Board 1',
+      boardType: 'advanced',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    }),
+    objects,
+  };
+}
+
+function erasedEvent(erased: unknown): BoardEvent {
+  return {
+    id: 'e-erase',
+    boardId: 'board-1',
+    type: 'objectsErased',
+    timestamp: '2026-01-01T00:00:01.000Z',
+    payload: { erased },
+  } as BoardEvent;
+}
+
+let nextId = 0;
+const generateObjectId = () => `frag-${++nextId}`;
+
+describe('eraser tool', () => {
+  it('touches objects with their precise hit test, skipping locked ones', () => {
+    const objects = [rect, line, stroke, { ...rect, id: 'locked', x: 300, locked: true }];
+    // Inside the line's bounding box but away from the segment.
+    expect(getObjectsTouchedByEraser(objects, { x: 190, y: 20 }, { x: 190, y: 30 }, 4)).toEqual([]);
+    expect(getObjectsTouchedByEraser(objects, { x: 20, y: 20 }, { x: 150, y: 52 }, 4)).toEqual(['r', 'l']);
+    expect(getObjectsTouchedByEraser(objects, { x: 310, y: 10 }, { x: 320, y: 10 }, 4)).toEqual([]);
+    // Freehand strokes hit along the drawn path only.
+    expect(hitTest([stroke], 50, 100)?.id).toBe('f');
+    expect(hitTest([{ ...stroke, points: [{ x: 0, y: 100 }, { x: 50, y: 200 }, { x: 100, y: 100 }] }], 50, 110)).toBeNull();
+  });
+
+  it('cuts a freehand stroke into the parts outside the eraser', () => {
+    const fragments = cutFreehandStroke(stroke, [{ x: 50, y: 80 }, { x: 50, y: 120 }], 5, 1, generateObjectId)!;
+    expect(fragments).toHaveLength(2);
+    const [left, right] = fragments;
+    expect(left.id).not.toBe('f');
+    expect(left.points![0]).toEqual({ x: 0, y: 100 });
+    expect(left.points![left.points!.length - 1].x).toBeLessThan(45);
+    expect(right.points![0].x).toBeGreaterThan(55);
+    expect(right.points![right.points!.length - 1]).toEqual({ x: 100, y: 100 });
+    expect(left.pressures![0]).toBe(0.2);
+    expect(right.pressures![right.pressures!.length - 1]).toBe(0.8);
+    expect(right.x).toBe(right.points![0].x);
+
+    expect(cutFreehandStroke(stroke, [{ x: 50, y: 0 }], 5, 1, generateObjectId)).toBeNull();
+    expect(cutFreehandStroke(stroke, [{ x: 0, y: 100 }, { x: 100, y: 100 }], 5, 1, generateObjectId)).toEqual([]);
+  });
+
+  it('builds one change set per gesture for each mode', () => {
+    const objects = [rect, stroke];
+    const path = [{ x: 20, y: 20 }, { x: 20, y: 100 }];
+    expect(getEraseResult(objects, ['r', 'f'], path, { mode: 'object', size: 8 }, 1, generateObjectId)).toEqual([
+      { objectId: 'r', fragments: [] },
+      { objectId: 'f', fragments: [] },
+    ]);
+
+    const cut = getEraseResult(objects, ['r', 'f'], path, { mode: 'stroke', size: 8 }, 1, generateObjectId);
+    expect(cut.map((e) => e.objectId)).toEqual(['f']);
+    expect(cut[0].fragments).toHaveLength(2);
+  });
+
+  it('applies an erase as one undo step, keeping fragments in place and skipping locked objects', () => {
+    const top: WhiteboardObject = { ...rect, id: 'top', x: 500 };
+    const fragments = cutFreehandStroke(stroke, [{ x: 50, y: 100 }], 5, 1, generateObjectId)!;
+    let state: WhiteboardState | null = {
+      ...createState([{ ...rect, locked: true }, stroke, top]),
+      selectedObjectIds: ['f', 'top'],
+    };
+
+    state = whiteboardReducer(state, {
+      type: 'APPLY_EVENT',
+      event: erasedEvent([
+        { objectId: 'r', fragments: [] },
+        { objectId: 'f', fragments },
+      ]),
+    });
+    expect(state!.objects.map((o) => o.id)).toEqual(['r', fragments[0].id, fragments[1].id, 'top']);
+    expect(state!.selectedObjectIds).toEqual(['top']);
+    expect(state!.history.pastEvents).toHaveLength(1);
+    expect((state!.history.pastEvents[0].payload as any).erased).toHaveLength(1);
+    expect(hitTest(state!.objects, 10, 100)?.id).toBe(fragments[0].id);
+
+    state = whiteboardReducer(state, { type: 'UNDO' });
+    expect(state!.objects.map((o) => o.id)).toEqual(['r', 'f', 'top']);
+  });
+
+  it('validates erase events for collab', () => {
+    expect(validateBoardEvent(erasedEvent([{ objectId: 'f', fragments: [] }])).ok).toBe(true);
+    expect(validateBoardEvent(erasedEvent([{ objectId: 'f', fragments: [{ ...stroke, id: 'g' }] }])).ok).toBe(true);
+    expect(validateBoardEvent(erasedEvent([])).ok).toBe(false);
+    expect(validateBoardEvent(erasedEvent([{ objectId: 'f', fragments: [{ id: 'g' }] }])).ok).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import type { Point } from '../../domain/types';
+import { simplifyFreehandStroke, simplifyIndices } from '../tools/freehand/simplify';
+import { finishFreehandDraft, startFreehandDraft, updateFreehandDraft } from '../tools/freehand/interactions';
+import { getPressureWidth } from '../tools/freehand/draw';
+import { getPenPressure } from '../interactions/canvas/utils';
+import { validateWhiteboardObject } from '../../collab/protocol/validation/objectValidation';
+import { validateBoardEvent } from '../../collab/protocol/validation/eventValidation';
+
+// A straight run with slight jitter, then a corner.
+const jittery: Point[] = [
+  ...Array.from({ length: 50 }, (_, i) => ({ x: i * 2, y: i % 2 === 0 ? 0 : 0.2 })),
+  ...Array.from({ length: 50 }, (_, i) => ({ x: 100, y: i * 2 })),
+];
+
+describe('freehand strokes', () => {
+  it('simplifies with Ramer–Douglas–Peucker, keeping ends and corners', () => {
+    const kept = simplifyIndices(jittery, 0.75);
+    expect(kept[0]).toBe(0);
+    expect(kept[kept.length - 1]).toBe(jittery.length - 1);
+    expect(kept.length).toBeLessThan(6);
+    expect(kept.map((i) => jittery[i])).toContainEqual({ x: 100, y: 0 });
+  });
+
+  it('uses a zoom-aware tolerance and respects the point limit', () => {
+    const zoomedIn = simplifyFreehandStroke({ points: jittery }, 4).points.length;
+    const zoomedOut = simplifyFreehandStroke({ points: jittery }, 0.25).points.length;
+    expect(zoomedIn).toBeGreaterThan(zoomedOut);
+
+    const circle = Array.from({ length: 400 }, (_, i) => ({
+      x: Math.cos(i / 20) * 200,
+      y: Math.sin(i / 20) * 200,
+    }));
+    expect(simplifyFreehandStroke({ points: circle }, 8, 50).points.length).toBeLessThanOrEqual(50);
+  });
+
+  it('records pen pressure per point and keeps it aligned through simplification', () => {
+    let draft = startFreehandDraft({
+      pos: { x: 0, y: 0 },
+      strokeColor: '#000',
+      strokeWidth: 4,
+      pressure: 0.2,
+      generateObjectId: () => 'f1',
+    });
+    draft = updateFreehandDraft(draft, { x: 0.1, y: 0 }, { zoom: 1, pressure: 0.3 });
+    draft = updateFreehandDraft(draft, { x: 10, y: 0 }, { zoom: 1, pressure: 0.5 });
+    draft = updateFreehandDraft(draft, { x: 20, y: 10 }, { zoom: 1, pressure: 0.9 });
+    expect(draft.kind === 'freehand' && draft.points.length).toBe(3);
+
+    const { object } = finishFreehandDraft(draft, 1);
+    expect(object!.points).toHaveLength(3);
+    expect(object!.pressures).toEqual([0.2, 0.5, 0.9]);
+    expect(validateWhiteboardObject(object, 'object').ok).toBe(true);
+    expect(validateWhiteboardObject({ ...object, pressures: [2] }, 'object').ok).toBe(false);
+    expect(validateWhiteboardObject({ ...object, pressures: [0.2, 0.5] }, 'object').ok).toBe(false);
+    expect(validateWhiteboardObject({ ...object, pressures: Array(5000).fill(0.5) }, 'object').ok).toBe(false);
+    expect(validateWhiteboardObject({ ...object, points: undefined }, 'object').ok).toBe(false);
+
+    const update = (patch: object) => ({
+      id: 'e1',
+      boardId: 'b1',
+      type: 'objectUpdated',
+      timestamp: new Date().toISOString(),
+      payload: { objectId: 'f1', patch },
+    });
+    expect(validateBoardEvent(update({ points: object!.points, pressures: [0.1, 0.2, 0.3] })).ok).toBe(true);
+    expect(validateBoardEvent(update({ pressures: [0.1, 0.2, 0.3] })).ok).toBe(false);
+  });
+
+  it('only trusts pressure from pens', () => {
+    expect(getPenPressure({ pointerType: 'mouse', pressure: 0.5 })).toBeUndefined();
+    expect(getPenPressure({ pointerType: 'pen', pressure: 0.4567 })).toBe(0.46);
+    expect(getPressureWidth(4, 0.5)).toBe(4);
+    expect(getPressureWidth(4, 0)).toBe(1);
+  });
+});
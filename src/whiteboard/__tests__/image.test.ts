@@ -0,0 +1,137 @@
+import type { WhiteboardObject } from '../../domain/types';
+import { validateWhiteboardObject } from '../../collab/protocol/validation/objectValidation';
+import { validateBoardEvent } from '../../collab/protocol/validation/eventValidation';
+import { buildServerFeatureFlags } from '../../domain/serverFeatures';
+import { canResizeObject, canRotateObject, keepsAspectRatio } from '../tools/shapeRegistry';
+import { hitTest } from '../geometry';
+import { createImageCache } from '../tools/image/imageCache';
+import { MAX_IMAGES_PER_INSERT, getDownscaledSize, getImageFiles } from '../tools/image/imageFiles';
+import { createImageObject } from '../tools/image/interactions';
+
+const image: WhiteboardObject = { id: 'img', type: 'image', x: 10, y: 20, width: 200, height: 100, assetId: 'a-1' };
+
+function file(name: string, type: string): File {
+  return new File(['x'], name, { type });
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('image objects', () => {
+  it('are box shapes that keep their aspect ratio when resized', () => {
+    expect(hitTest([image], 100, 60)?.id).toBe('img');
+    expect(hitTest([image], 100, 130)).toBeNull();
+    expect(canResizeObject(image)).toBe(true);
+    expect(canRotateObject(image)).toBe(true);
+    expect(keepsAspectRatio(image)).toBe(true);
+    expect(keepsAspectRatio({ ...image, type: 'rectangle' })).toBe(false);
+  });
+
+  it('validates the asset reference for collab', () => {
+    expect(validateWhiteboardObject(image, 'object').ok).toBe(true);
+    expect(validateWhiteboardObject({ ...image, assetId: undefined }, 'object').ok).toBe(false);
+    expect(validateWhiteboardObject({ ...image, assetId: '' }, 'object').ok).toBe(false);
+    expect(validateWhiteboardObject({ ...image, assetId: 'x'.repeat(500) }, 'object').ok).toBe(false);
+
+    const update = (assetId: unknown) => ({
+      id: 'e1',
+      boardId: 'b1',
+      type: 'objectUpdated',
+      timestamp: new Date().toISOString(),
+      payload: { objectId: 'img', patch: { assetId } },
+    });
+    expect(validateBoardEvent(update('a-2')).ok).toBe(true);
+    expect(validateBoardEvent(update('')).ok).toBe(false);
+    expect(validateBoardEvent(update(42)).ok).toBe(false);
+    expect(validateBoardEvent(update('x'.repeat(500))).ok).toBe(false);
+  });
+
+  it('only uses server storage when the server advertises board assets', () => {
+    expect(buildServerFeatureFlags({ capabilities: ['board-assets'] }).supportsBoardAssets).toBe(true);
+    expect(buildServerFeatureFlags({ capabilities: ['comments'] }).supportsBoardAssets).toBe(false);
+  });
+});
+
+describe('image files', () => {
+  it('downscales only images larger than the limit, keeping the ratio', () => {
+    expect(getDownscaledSize({ width: 800, height: 600 })).toEqual({ width: 800, height: 600 });
+    expect(getDownscaledSize({ width: 8000, height: 2000 }, 2000)).toEqual({ width: 2000, height: 500 });
+    expect(getDownscaledSize({ width: 10, height: 100000 }, 1000)).toEqual({ width: 1, height: 1000 });
+  });
+
+  it('picks image files from a paste or drop', () => {
+    expect(getImageFiles({ files: [file('a.png', 'image/png'), file('b.txt', 'text/plain')] }).map((f) => f.name)).toEqual(['a.png']);
+
+    const shot = file('shot.png', 'image/png');
+    const items = [
+      { kind: 'string', type: 'text/html', getAsFile: () => null },
+      { kind: 'file', type: 'image/png', getAsFile: () => shot },
+    ];
+    expect(getImageFiles({ files: [], items })).toEqual([shot]);
+
+    const many = Array.from({ length: MAX_IMAGES_PER_INSERT + 3 }, (_, i) => file(`${i}.jpg`, 'image/jpeg'));
+    expect(getImageFiles({ files: many })).toHaveLength(MAX_IMAGES_PER_INSERT);
+    expect(getImageFiles(null)).toEqual([]);
+  });
+
+  it('places images at their on-screen size, shrunk to fit the view', () => {
+    const viewport = { offsetX: 0, offsetY: 0, zoom: 2 };
+    const small = createImageObject({
+      assetId: 'a-1',
+      size: { width: 100, height: 50 },
+      center: { x: 100, y: 100 },
+      viewport,
+      viewSize: { width: 1000, height: 500 },
+      generateObjectId: () => 'o-1',
+    });
+    expect(small).toEqual({ id: 'o-1', type: 'image', x: 75, y: 87.5, width: 50, height: 25, assetId: 'a-1' });
+
+    const large = createImageObject({
+      assetId: 'a-2',
+      size: { width: 2000, height: 1000 },
+      center: { x: 0, y: 0 },
+      viewport: { offsetX: 0, offsetY: 0, zoom: 1 },
+      viewSize: { width: 1000, height: 500 },
+      index: 1,
+      generateObjectId: () => 'o-2',
+    });
+    expect(large.width).toBeCloseTo(600);
+    expect(large.height).toBeCloseTo(300);
+    expect(large.x).toBeCloseTo(-300 + 24);
+  });
+});
+
+describe('image cache', () => {
+  const decoded = (tag: string) => ({ image: { tag } as any, width: 1, height: 1, release: jest.fn() });
+
+  it('loads each asset once and notifies when it is ready', async () => {
+    const load = jest.fn(async (assetId: string) => (assetId === 'missing' ? null : new Blob([assetId])));
+    const decode = jest.fn(async () => decoded('img'));
+    const cache = createImageCache(load, decode);
+    const listener = jest.fn();
+    cache.subscribe(listener);
+
+    expect(cache.getImage('a-1')).toBeNull();
+    expect(cache.getStatus('a-1')).toBe('loading');
+    expect(cache.getStatus('missing')).toBe('loading');
+    await flush();
+
+    expect(cache.getImage('a-1')).toEqual({ tag: 'img' });
+    expect(cache.getStatus('missing')).toBe('error');
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses primed bytes without loading and releases images on dispose', async () => {
+    const load = jest.fn(async () => null);
+    const first = decoded('primed');
+    const cache = createImageCache(load, async () => first);
+
+    cache.prime('a-1', new Blob(['x']));
+    await flush();
+    expect(cache.getImage('a-1')).toEqual({ tag: 'primed' });
+    expect(load).not.toHaveBeenCalled();
+
+    cache.dispose();
+    expect(first.release).toHaveBeenCalled();
+  });
+});
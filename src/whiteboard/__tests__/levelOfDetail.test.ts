@@ -0,0 +1,113 @@
+import type { Viewport, WhiteboardObject } from '../../domain/types';
+import { drawObject } from '../drawing';
+import {
+  isTextLegible,
+  isTinyOnScreen,
+  simplifyPointsForZoom,
+} from '../tools/_shared/levelOfDetail';
+
+describe('tools/_shared/levelOfDetail', () => {
+  test('text becomes illegible once its on-screen size drops below the threshold', () => {
+    expect(isTextLegible(16, 1)).toBe(true);
+    expect(isTextLegible(16, 0.25)).toBe(false);
+  });
+
+  test('tiny objects are detected from on-screen bounds, ignoring zero-area bounds', () => {
+    expect(isTinyOnScreen({ x: 0, y: 0, width: 20, height: 10 }, 0.1)).toBe(true);
+    expect(isTinyOnScreen({ x: 0, y: 0, width: 20, height: 10 }, 1)).toBe(false);
+    expect(isTinyOnScreen({ x: 0, y: 0, width: 0, height: 0 }, 0.1)).toBe(false);
+  });
+
+  test('freehand points are decimated only below 100% zoom and keep both ends', () => {
+    const points = Array.from({ length: 101 }, (_, i) => ({ x: i, y: 0 }));
+    expect(simplifyPointsForZoom(points, 1)).toBe(points);
+
+    const simplified = simplifyPointsForZoom(points, 0.1);
+    expect(simplified.length).toBeLessThan(points.length);
+    expect(simplified[0]).toEqual({ x: 0, y: 0 });
+    expect(simplified[simplified.length - 1]).toEqual({ x: 100, y: 0 });
+  });
+});
+
+type RecordedCall = { name: string; args: unknown[] };
+
+/** A 2D context that records every method call; text measures 8px per character. */
+function createRecordingContext() {
+  const calls: RecordedCall[] = [];
+  const state: Record<string | symbol, unknown> = { globalAlpha: 1 };
+  const ctx = new Proxy(state, {
+    get(target, key) {
+      if (key in target) return target[key];
+      if (typeof key !== 'string') return undefined;
+      return (...args: unknown[]) => {
+        calls.push({ name: key, args });
+        if (key === 'measureText') return { width: String(args[0]).length * 8 };
+        if (key === 'getLineDash') return [];
+        return undefined;
+      };
+    },
+    set(target, key, value) {
+      target[key] = value;
+      return true;
+    },
+  }) as unknown as CanvasRenderingContext2D;
+  const count = (name: string) => calls.filter((c) => c.name === name).length;
+  return { ctx, calls, count };
+}
+
+function draw(obj: WhiteboardObject, zoom: number) {
+  const recording = createRecordingContext();
+  const viewport: Viewport = { offsetX: 0, offsetY: 0, zoom };
+  drawObject(recording.ctx, obj, viewport, '#fff', [obj]);
+  return recording;
+}
+
+describe('level of detail while drawing', () => {
+  // Text measurement falls back to a shared canvas, which jsdom does not implement.
+  beforeAll(() => {
+    jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('illegible text is drawn as bars, and as glyphs again once zoomed in', () => {
+    const text: WhiteboardObject = { id: 't', type: 'text', x: 0, y: 0, text: 'Hello\nworld', fontSize: 16 };
+
+    const far = draw(text, 0.2);
+    expect(far.count('fillText')).toBe(0);
+    expect(far.count('fillRect')).toBe(2);
+
+    const near = draw(text, 1);
+    expect(near.calls.filter((c) => c.name === 'fillText').map((c) => c.args[0])).toEqual(['Hello', 'world']);
+    expect(near.count('fillRect')).toBe(0);
+  });
+
+  test('tiny shapes collapse to a filled box and get their outline back when zoomed in', () => {
+    const rect: WhiteboardObject = { id: 'r', type: 'rectangle', x: 10, y: 10, width: 20, height: 10 };
+
+    const far = draw(rect, 0.1);
+    expect(far.calls.filter((c) => c.name === 'fillRect').map((c) => c.args)).toEqual([[1, 1, 2, 1]]);
+    expect(far.count('strokeRect')).toBe(0);
+
+    const near = draw(rect, 1);
+    expect(near.calls.find((c) => c.name === 'strokeRect')?.args).toEqual([10, 10, 20, 10]);
+  });
+
+  test('zoomed-out freehand strokes are decimated but still drawn in full length', () => {
+    const points = Array.from({ length: 101 }, (_, i) => ({ x: i, y: (i % 2) * 2 }));
+    const stroke: WhiteboardObject = { id: 'f', type: 'freehand', x: 0, y: 0, points, strokeWidth: 2 };
+
+    const segments = (r: ReturnType<typeof draw>) => r.count('quadraticCurveTo') + r.count('lineTo');
+    const far = draw(stroke, 0.1);
+    expect(far.count('stroke')).toBe(1);
+    expect(segments(far)).toBeGreaterThan(0);
+    expect(segments(far)).toBeLessThan(20);
+    expect(far.calls.filter((c) => c.name === 'lineTo').pop()!.args).toEqual([10, 0]);
+
+    const near = draw(stroke, 1);
+    expect(near.count('stroke')).toBe(1);
+    expect(segments(near)).toBe(100);
+  });
+});
@@ -0,0 +1,103 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import type { WhiteboardObject } from '../../domain/types';
+import type { MarqueeSettings } from '../whiteboardTypes';
+import { getMarqueeBounds, getObjectsInMarquee } from '../geometry/marquee';
+import { useCanvasInteractions } from '../useCanvasInteractions';
+
+const objects: WhiteboardObject[] = [
+  { id: 'a', type: 'rectangle', x: 10, y: 10, width: 40, height: 40 },
+  { id: 'b', type: 'rectangle', x: 80, y: 10, width: 40, height: 40 },
+  { id: 'c', type: 'rectangle', x: 300, y: 300, width: 40, height: 40, groupId: 'g1' },
+  { id: 'd', type: 'rectangle', x: 500, y: 500, width: 40, height: 40, groupId: 'g1' },
+  { id: 'e', type: 'rectangle', x: 10, y: 80, width: 40, height: 40, locked: true },
+];
+
+function Harness(props: { selectedObjectIds?: string[]; marqueeSettings: MarqueeSettings; onSelectionChange: jest.Mock; onViewportChange?: jest.Mock }) {
+  const interactions = useCanvasInteractions({
+    objects,
+    selectedObjectIds: props.selectedObjectIds ?? [],
+    viewport: { offsetX: 0, offsetY: 0, zoom: 1 },
+    activeTool: 'select',
+    strokeColor: '#111111',
+    strokeWidth: 2,
+    onCreateObject: jest.fn(),
+    onSelectionChange: props.onSelectionChange,
+    onUpdateObject: jest.fn(),
+    onTransientObjectPatch: jest.fn(),
+    onViewportChange: props.onViewportChange ?? jest.fn(),
+    canvasWidth: 800,
+    canvasHeight: 600,
+    marqueeSettings: props.marqueeSettings,
+  });
+
+  return <canvas data-testid="canvas" width={800} height={600} ref={(el) => { if (!el) return; Object.defineProperty(el, 'getBoundingClientRect', { configurable: true, value: () => ({ left: 0, top: 0, width: 800, height: 600, right: 800, bottom: 600 }) }); }} onPointerDown={interactions.handlePointerDown} onPointerMove={interactions.handlePointerMove} onPointerUp={interactions.handlePointerUp} />;
+}
+
+// jsdom has no PointerEvent, so fireEvent would drop clientX and the modifier keys.
+class TestPointerEvent extends MouseEvent {
+  pointerId: number;
+  pointerType: string;
+  constructor(type: string, init: PointerEventInit = {}) {
+    super(type, init);
+    this.pointerId = init.pointerId ?? 1;
+    this.pointerType = init.pointerType ?? 'mouse';
+  }
+}
+
+describe('marquee selection', () => {
+  const originalPointerEvent = (window as any).PointerEvent;
+  beforeAll(() => {
+    (window as any).PointerEvent = TestPointerEvent;
+  });
+  afterAll(() => {
+    (window as any).PointerEvent = originalPointerEvent;
+  });
+
+  test('selects fully contained or touched objects, skipping locked ones', () => {
+    const rect = getMarqueeBounds({ x: 130, y: 130 }, { x: 0, y: 0 });
+    expect(rect).toEqual({ x: 0, y: 0, width: 130, height: 130 });
+    expect(getObjectsInMarquee(objects, rect, 'contain')).toEqual(['a', 'b']);
+    expect(getObjectsInMarquee(objects, { x: 0, y: 0, width: 100, height: 30 }, 'contain')).toEqual([]);
+    expect(getObjectsInMarquee(objects, { x: 0, y: 0, width: 100, height: 30 }, 'touch')).toEqual(['a', 'b']);
+  });
+
+  test('a picked group member brings its whole group', () => {
+    expect(getObjectsInMarquee(objects, { x: 290, y: 290, width: 60, height: 60 }, 'contain')).toEqual(['c', 'd']);
+  });
+
+  test('select-drag on empty canvas reports the marquee selection', () => {
+    const onSelectionChange = jest.fn();
+    render(<Harness marqueeSettings={{ emptyDrag: 'select', mode: 'contain' }} onSelectionChange={onSelectionChange} />);
+    const canvas = screen.getByTestId('canvas');
+    fireEvent.pointerDown(canvas, { pointerId: 1, pointerType: 'mouse', button: 0, clientX: 5, clientY: 5 });
+    fireEvent.pointerMove(canvas, { pointerId: 1, pointerType: 'mouse', clientX: 60, clientY: 60 });
+    fireEvent.pointerUp(canvas, { pointerId: 1, pointerType: 'mouse', clientX: 60, clientY: 60 });
+    expect(onSelectionChange).toHaveBeenNthCalledWith(1, []);
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['a']);
+  });
+
+  test('Shift-drag adds to the selection and Alt swaps pan for marquee', () => {
+    const onSelectionChange = jest.fn();
+    const onViewportChange = jest.fn();
+    render(
+      <Harness
+        selectedObjectIds={['b']}
+        marqueeSettings={{ emptyDrag: 'pan', mode: 'touch' }}
+        onSelectionChange={onSelectionChange}
+        onViewportChange={onViewportChange}
+      />
+    );
+    const canvas = screen.getByTestId('canvas');
+    fireEvent.pointerDown(canvas, { pointerId: 1, pointerType: 'mouse', button: 0, clientX: 5, clientY: 5, shiftKey: true });
+    fireEvent.pointerMove(canvas, { pointerId: 1, pointerType: 'mouse', clientX: 20, clientY: 20, shiftKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['b', 'a']);
+    fireEvent.pointerUp(canvas, { pointerId: 1, pointerType: 'mouse', clientX: 20, clientY: 20 });
+
+    onSelectionChange.mockClear();
+    fireEvent.pointerDown(canvas, { pointerId: 2, pointerType: 'mouse', button: 0, clientX: 5, clientY: 5, altKey: true });
+    fireEvent.pointerMove(canvas, { pointerId: 2, pointerType: 'mouse', clientX: 20, clientY: 20, altKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['a']);
+    expect(onViewportChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,167 @@
+import { createEmptyWhiteboardState } from '../../domain/whiteboardState';
+import type { BoardEvent, WhiteboardObject, WhiteboardState } from '../../domain/types';
+import { whiteboardReducer } from '../store/reducer';
+import { keepAspectRatio } from '../geometry';
+import { getObjectsBounds } from '../geometry/selectionTransform';
+import { getCommitsFromDrag, handleDragMove } from '../interactions/drag/dispatch';
+import { validateBoardEvent } from '../../collab/protocol/validation/eventValidation';
+import { MAX_SELECTION_IDS } from '../../collab/protocol/limits';
+import { handleSelectPointerDown } from '../interactions/canvas/selectMode';
+import type { CanvasInteractionsDeps } from '../interactions/canvas/types';
+
+const rectA: WhiteboardObject = { id: 'a', type: 'rectangle', x: 0, y: 0, width: 100, height: 50 };
+const line: WhiteboardObject = { id: 'l', type: 'line', x: 20, y: 10, x2: 60, y2: 40 };
+const stroke: WhiteboardObject = {
+  id: 'f',
+  type: 'freehand',
+  x: 0,
+  y: 0,
+  points: [
+    { x: 30, y: 20 },
+    { x: 70, y: 30 },
+  ],
+};
+
+function createState(objects: WhiteboardObject[]): WhiteboardState {
+  return {
+    ...createEmptyWhiteboardState({
+      id: 'board-1',
+      name: 'Board 1',
+      boardType: 'advanced',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    }),
+    objects,
+  };
+}
+
+function updatesEvent(updates: unknown): BoardEvent {
+  return {
+    id: 'e-batch',
+    boardId: 'board-1',
+    type: 'objectsUpdated',
+    timestamp: '2026-01-01T00:00:01.000Z',
+    payload: { updates },
+  } as BoardEvent;
+}
+
+function resizeSelection(pos: { x: number; y: number }, constrain = false) {
+  const objects = [rectA, line, stroke];
+  const bounds = getObjectsBounds(objects)!;
+  expect(bounds).toEqual({ x: 0, y: 0, width: 100, height: 50 });
+
+  const drag = handleDragMove(
+    {
+      kind: 'resize',
+      objectId: 'a',
+      handle: 'se',
+      startX: 100,
+      startY: 50,
+      originalBounds: bounds,
+      originalObject: rectA,
+      lastPatch: null,
+      members: [line, stroke],
+    },
+    {
+      objects,
+      viewport: { offsetX: 0, offsetY: 0, zoom: 1 },
+      pos,
+      canvasX: pos.x,
+      canvasY: pos.y,
+      onTransientObjectPatch: () => {},
+      onViewportChange: () => {},
+      disableSnapping: true,
+      constrain,
+    }
+  );
+  return getCommitsFromDrag(drag, (_obj, patch) => patch);
+}
+
+describe('multi-object resize', () => {
+  it('scales every selected object from the selection frame', () => {
+    const commits = resizeSelection({ x: 200, y: 150 });
+    expect(commits).toEqual([
+      { objectId: 'a', patch: { x: 0, y: 0, width: 200, height: 150 } },
+      { objectId: 'l', patch: { x: 40, y: 30, x2: 120, y2: 120 } },
+      {
+        objectId: 'f',
+        patch: expect.objectContaining({
+          points: [
+            { x: 60, y: 60 },
+            { x: 140, y: 90 },
+          ],
+        }),
+      },
+    ]);
+  });
+
+  it('keeps the selection aspect ratio while Shift is held', () => {
+    const commits = resizeSelection({ x: 200, y: 60 }, true);
+    expect(commits[0]).toEqual({ objectId: 'a', patch: { x: 0, y: 0, width: 200, height: 100 } });
+
+    expect(keepAspectRatio({ x: 0, y: 0, width: 200, height: 100 }, { x: -100, y: 0, width: 300, height: 100 }, 'w')).toEqual({
+      x: -100,
+      y: -25,
+      width: 300,
+      height: 150,
+    });
+  });
+
+  it('applies a batch update as one undo step, skipping locked objects', () => {
+    let state: WhiteboardState | null = createState([rectA, { ...line, locked: true }]);
+    state = whiteboardReducer(state, {
+      type: 'APPLY_EVENT',
+      event: updatesEvent([
+        { objectId: 'a', patch: { width: 300 } },
+        { objectId: 'l', patch: { x2: 500 } },
+      ]),
+    });
+    expect(state!.objects.map((o) => [o.width, o.x2])).toEqual([
+      [300, undefined],
+      [undefined, 60],
+    ]);
+    expect(state!.history.pastEvents).toHaveLength(1);
+    expect((state!.history.pastEvents[0].payload as any).updates).toHaveLength(1);
+
+    state = whiteboardReducer(state, { type: 'UNDO' });
+    expect(state!.objects[0].width).toBe(100);
+  });
+
+  it('is only offered for selections that commit as one event', () => {
+    const grabCorner = (count: number) => {
+      const objects = Array.from({ length: count }, (_, i): WhiteboardObject => ({
+        id: `r${i}`,
+        type: 'rectangle',
+        x: i,
+        y: 0,
+        width: 10,
+        height: 10,
+      }));
+      const setDrag = jest.fn();
+      const viewport = { offsetX: 0, offsetY: 0, zoom: 1 };
+      const deps = {
+        objects,
+        selectedObjectIds: objects.map((o) => o.id),
+        viewport,
+        activeTool: 'select',
+        onSelectionChange: jest.fn(),
+        onViewportChange: jest.fn(),
+        toolCtx: { objects, viewport, strokeColor: '#fff', strokeWidth: 2, generateObjectId: () => 'x' },
+        drag: null,
+        setDrag,
+      } as unknown as CanvasInteractionsDeps;
+      const corner = { x: count - 1 + 10, y: 10 };
+      handleSelectPointerDown(deps, corner, corner.x, corner.y);
+      return setDrag.mock.calls[0]?.[0];
+    };
+
+    expect(grabCorner(MAX_SELECTION_IDS)?.kind).toBe('resize');
+    expect(grabCorner(MAX_SELECTION_IDS + 1)?.kind).not.toBe('resize');
+  });
+
+  it('validates batch updates for collab', () => {
+    expect(validateBoardEvent(updatesEvent([{ objectId: 'a', patch: { x: 1 } }])).ok).toBe(true);
+    expect(validateBoardEvent(updatesEvent([])).ok).toBe(false);
+    expect(validateBoardEvent(updatesEvent([{ objectId: 'a', patch: 'x' }])).ok).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+import type { Point, WhiteboardObject } from '../../domain/types';
+import type { Bounds } from '../geometry/types';
+import { validateWhiteboardObject } from '../../collab/protocol/validation/objectValidation';
+import { getBoundingBox, getConnectorPath, hitTest } from '../geometry';
+import { routeOrthogonal } from '../tools/connector/orthogonalRouting';
+
+function isOrthogonal(path: Point[]): boolean {
+  return path.slice(1).every((p, i) => p.x === path[i].x || p.y === path[i].y);
+}
+
+/** True when an axis-aligned segment of `path` runs through the inside of `box`. */
+function crossesBox(path: Point[], box: Bounds): boolean {
+  return path.slice(1).some((b, i) => {
+    const a = path[i];
+    const overlaps = (p: number, q: number, lo: number, hi: number) => Math.max(p, q) > lo && Math.min(p, q) < hi;
+    if (a.y === b.y) return a.y > box.y && a.y < box.y + box.height && overlaps(a.x, b.x, box.x, box.x + box.width);
+    return a.x > box.x && a.x < box.x + box.width && overlaps(a.y, b.y, box.y, box.y + box.height);
+  });
+}
+
+describe('routeOrthogonal', () => {
+  it('leaves and enters perpendicular to the attached edges', () => {
+    const path = routeOrthogonal(
+      { point: { x: 0, y: 0 }, direction: { x: 1, y: 0 } },
+      { point: { x: 200, y: 100 }, direction: { x: 0, y: -1 } },
+      []
+    );
+    expect(isOrthogonal(path)).toBe(true);
+    expect(path[0]).toEqual({ x: 0, y: 0 });
+    expect(path[1].y).toBe(0);
+    expect(path[1].x).toBeGreaterThan(0);
+    const beforeEnd = path[path.length - 2];
+    expect(beforeEnd.x).toBe(200);
+    expect(beforeEnd.y).toBeLessThan(100);
+    expect(path).toHaveLength(3);
+  });
+
+  it('goes around obstacles in the way', () => {
+    const wall = { x: 80, y: -60, width: 40, height: 120 };
+    const path = routeOrthogonal(
+      { point: { x: 0, y: 0 }, direction: { x: 1, y: 0 } },
+      { point: { x: 200, y: 0 }, direction: { x: -1, y: 0 } },
+      [wall]
+    );
+    expect(isOrthogonal(path)).toBe(true);
+    expect(crossesBox(path, wall)).toBe(false);
+    expect(path[path.length - 1]).toEqual({ x: 200, y: 0 });
+  });
+});
+
+describe('orthogonal connectors', () => {
+  const box = (id: string, x: number, y: number): WhiteboardObject => ({
+    id,
+    type: 'rectangle',
+    x,
+    y,
+    width: 100,
+    height: 60,
+  });
+  const a = box('a', 0, 0);
+  const b = box('b', 400, 0);
+  const blocker: WhiteboardObject = { id: 'c', type: 'rectangle', x: 200, y: -100, width: 60, height: 260 };
+  const connector: WhiteboardObject = {
+    id: 'k',
+    type: 'connector',
+    x: 0,
+    y: 0,
+    routing: 'orthogonal',
+    from: { objectId: 'a', attachment: { type: 'port', portId: 'right' } },
+    to: { objectId: 'b', attachment: { type: 'port', portId: 'left' } },
+  };
+  const objects = [a, b, blocker, connector];
+
+  it('route around other objects and keep straight connectors straight', () => {
+    const path = getConnectorPath(objects, connector)!;
+    expect(isOrthogonal(path)).toBe(true);
+    expect(crossesBox(path, getBoundingBox(blocker)!)).toBe(false);
+    expect(path[1].y).toBe(30);
+    expect(getConnectorPath(objects, { ...connector, routing: undefined })).toEqual([
+      { x: 100, y: 30 },
+      { x: 400, y: 30 },
+    ]);
+  });
+
+  it('hit-test and bound the routed path', () => {
+    const path = getConnectorPath(objects, connector)!;
+    // The detour passes above or below the blocker.
+    const detourY = path.map((p) => p.y).find((y) => y !== 30)!;
+    const bounds = getBoundingBox(connector, objects)!;
+    expect(bounds.y < detourY && detourY < bounds.y + bounds.height).toBe(true);
+    expect(detourY < -100 || detourY > 160).toBe(true);
+    expect(hitTest(objects, 230, detourY)?.id).toBe('k');
+    // The straight line would run through the blocker; the routed connector does not.
+    expect(hitTest(objects, 230, 30)?.id).toBe('c');
+  });
+
+  it('avoid obstacles however many other objects are nearby', () => {
+    const clutter = Array.from({ length: 60 }, (_, i): WhiteboardObject => ({
+      id: `n${i}`,
+      type: 'rectangle',
+      x: 300,
+      y: 60,
+      width: 4,
+      height: 4,
+    }));
+    const late: WhiteboardObject = { ...blocker, x: 140 };
+    const path = getConnectorPath([a, b, ...clutter, late, connector], connector)!;
+    expect(isOrthogonal(path)).toBe(true);
+    expect(crossesBox(path, getBoundingBox(late)!)).toBe(false);
+  });
+
+  it('re-route when an endpoint moves', () => {
+    const before = getConnectorPath(objects, connector)!;
+    const moved = [a, { ...b, y: 300 }, blocker, connector];
+    const after = getConnectorPath(moved, connector)!;
+    expect(after).not.toEqual(before);
+    expect(after[after.length - 1]).toEqual({ x: 400, y: 330 });
+    expect(isOrthogonal(after)).toBe(true);
+  });
+
+  it('are validated for collab', () => {
+    expect(validateWhiteboardObject(connector, 'object').ok).toBe(true);
+    expect(validateWhiteboardObject({ ...connector, routing: 'zigzag' as any }, 'object').ok).toBe(false);
+  });
+});
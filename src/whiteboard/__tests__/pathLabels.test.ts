@@ -0,0 +1,149 @@
+import type { Viewport, WhiteboardObject } from '../../domain/types';
+import { validateWhiteboardObject } from '../../collab/protocol/validation/objectValidation';
+import { validateBoardEvent } from '../../collab/protocol/validation/eventValidation';
+import { MAX_PATH_LABELS } from '../../collab/protocol/limits';
+import { getBoundingBox, hitTest } from '../geometry';
+import { handleDragMove } from '../interactions/drag/dispatch';
+import { canEditTextInPlace, getPathLabelEditTarget, getTextEditFrame } from '../textEditing';
+import {
+  getPathLabelMovePatch,
+  getPathLabelTextPatch,
+  getPathLabels,
+  getPathTAtPoint,
+  getPointAtPathT,
+} from '../tools/_shared/pathLabels';
+
+const viewport: Viewport = { offsetX: 0, offsetY: 0, zoom: 1 };
+
+const line: WhiteboardObject = {
+  id: 'l',
+  type: 'line',
+  x: 0,
+  y: 0,
+  x2: 400,
+  y2: 0,
+  text: 'yes',
+  labels: [{ text: 'no', t: 0.9 }],
+};
+
+describe('positions along a path', () => {
+  const path = [
+    { x: 0, y: 0 },
+    { x: 100, y: 0 },
+    { x: 100, y: 100 },
+  ];
+
+  it('measure by length across segments', () => {
+    expect(getPointAtPathT(path, 0.5)).toEqual({ x: 100, y: 0 });
+    expect(getPointAtPathT(path, 0.75)).toEqual({ x: 100, y: 50 });
+    expect(getPointAtPathT(path, 2)).toEqual({ x: 100, y: 100 });
+  });
+
+  it('project points onto the nearest segment', () => {
+    expect(getPathTAtPoint(path, { x: 50, y: -20 })).toBeCloseTo(0.25);
+    expect(getPathTAtPoint(path, { x: 130, y: 50 })).toBeCloseTo(0.75);
+  });
+});
+
+describe('label patches', () => {
+  it('address the text as label 0 and further labels from 1', () => {
+    expect(getPathLabels(line).map(({ index, text, t }) => ({ index, text, t }))).toEqual([
+      { index: 0, text: 'yes', t: 0.5 },
+      { index: 1, text: 'no', t: 0.9 },
+    ]);
+  });
+
+  it('add, edit and remove labels', () => {
+    expect(getPathLabelTextPatch(line, 2, 'maybe', 0.2)).toEqual({
+      labels: [
+        { text: 'no', t: 0.9 },
+        { text: 'maybe', t: 0.2 },
+      ],
+    });
+    expect(getPathLabelTextPatch(line, 1, 'never')).toEqual({ labels: [{ text: 'never', t: 0.9 }] });
+    expect(getPathLabelTextPatch(line, 1, '')).toEqual({ labels: [] });
+    expect(getPathLabelTextPatch({ ...line, text: undefined }, 0, 'ok', 0.3)).toEqual({ text: 'ok', labelT: 0.3 });
+  });
+
+  it('move labels along the path, clamped to its ends', () => {
+    expect(getPathLabelMovePatch(line, 0, 0.25)).toEqual({ labelT: 0.25 });
+    expect(getPathLabelMovePatch(line, 1, 1.5)).toEqual({ labels: [{ text: 'no', t: 1 }] });
+  });
+});
+
+describe('labels on lines and connectors', () => {
+  const a: WhiteboardObject = { id: 'a', type: 'rectangle', x: 0, y: 0, width: 100, height: 60 };
+  const b: WhiteboardObject = { id: 'b', type: 'rectangle', x: 400, y: 0, width: 100, height: 60 };
+  const connector: WhiteboardObject = {
+    id: 'k',
+    type: 'connector',
+    x: 0,
+    y: 0,
+    text: 'depends on',
+    fontSize: 20,
+    from: { objectId: 'a', attachment: { type: 'port', portId: 'right' } },
+    to: { objectId: 'b', attachment: { type: 'port', portId: 'left' } },
+  };
+  const objects = [a, b, connector];
+
+  it('count towards hit-testing and bounds', () => {
+    // Taller than the line's own hit area at 20px text.
+    expect(hitTest(objects, 250, 30 + 14)?.id).toBe('k');
+    const bounds = getBoundingBox(connector, objects)!;
+    expect(bounds.y).toBeLessThan(30 - 14);
+    expect(hitTest([line], 200, 9)?.id).toBe('l');
+    expect(hitTest([{ ...line, text: undefined }], 200, 9)).toBeNull();
+  });
+
+  it('are edited in place: the label under the pointer or a new one', () => {
+    expect(canEditTextInPlace(connector)).toBe(true);
+    expect(canEditTextInPlace({ ...connector, locked: true })).toBe(false);
+    expect(getPathLabelEditTarget(connector, objects, { x: 250, y: 30 })).toEqual({ index: 0 });
+    const target = getPathLabelEditTarget(connector, objects, { x: 130, y: 30 })!;
+    expect(target.index).toBe(1);
+    expect(target.t).toBeCloseTo(0.1);
+
+    const frame = getTextEditFrame(connector, 'depends on', { label: { index: 0 }, objects })!;
+    expect(frame.fontSize).toBe(20);
+    expect(frame.center.x).toBeCloseTo(250);
+    expect(frame.center.y).toBeCloseTo(30);
+    expect(getTextEditFrame(connector)).toBeNull();
+  });
+
+  it('slide along the path when dragged', () => {
+    const drag = { kind: 'pathLabel' as const, objectId: 'k', index: 0, originalObject: connector };
+    const next = handleDragMove(drag, {
+      objects,
+      viewport,
+      pos: { x: 175, y: 80 },
+      canvasX: 0,
+      canvasY: 0,
+      onTransientObjectPatch: () => undefined,
+      onViewportChange: () => undefined,
+    });
+    expect(next.kind === 'pathLabel' && next.lastPatch).toEqual({ labelT: 0.25 });
+  });
+});
+
+describe('label validation', () => {
+  it('accepts labels and rejects bad positions or too many labels', () => {
+    expect(validateWhiteboardObject({ ...line, labelT: 0.2 }, 'object').ok).toBe(true);
+    expect(validateWhiteboardObject({ ...line, labelT: 2 }, 'object').ok).toBe(false);
+    expect(validateWhiteboardObject({ ...line, labels: [{ text: 'x', t: -1 }] }, 'object').ok).toBe(false);
+    expect(validateWhiteboardObject({ ...line, labels: [{ t: 0.5 }] }, 'object').ok).toBe(false);
+    const many = Array.from({ length: MAX_PATH_LABELS + 1 }, () => ({ text: 'x', t: 0.5 }));
+    expect(validateWhiteboardObject({ ...line, labels: many }, 'object').ok).toBe(false);
+  });
+
+  it('validates label patches', () => {
+    const event = (patch: Partial<WhiteboardObject>) => ({
+      id: 'e1',
+      boardId: 'b1',
+      type: 'objectUpdated',
+      timestamp: new Date().toISOString(),
+      payload: { objectId: 'l', patch },
+    });
+    expect(validateBoardEvent(event({ labelT: 0.4, labels: [{ text: 'no', t: 1 }] })).ok).toBe(true);
+    expect(validateBoardEvent(event({ labels: [{ text: 'no', t: Number.NaN }] })).ok).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+import type { WhiteboardObject } from '../../domain/types';
+import { getBoundingBox, getSelectionFrame, hitTest, hitTestRotateHandleCanvas, resolveAttachmentPoint } from '../geometry';
+import { getPortsFor } from '../tools/shapeRegistry';
+import { handleDragMove } from '../interactions/drag/dispatch';
+import type { DragState } from '../interactions/drag/types';
+import { normalizeRotation, snapRotation } from '../tools/_shared/rotation';
+
+const viewport = { offsetX: 0, offsetY: 0, zoom: 1 };
+
+function rect(rotation?: number): WhiteboardObject {
+  return { id: 'r1', type: 'rectangle', x: 0, y: 0, width: 100, height: 20, rotation };
+}
+
+function expectPoint(p: { x: number; y: number }, x: number, y: number) {
+  expect(p.x).toBeCloseTo(x);
+  expect(p.y).toBeCloseTo(y);
+}
+
+describe('whiteboard/rotation', () => {
+  test('normalizes and snaps angles', () => {
+    expect(normalizeRotation(-90)).toBe(270);
+    expect(normalizeRotation(370)).toBe(10);
+    expect(snapRotation(52)).toBe(45);
+    expect(snapRotation(-5)).toBe(0);
+    expect(snapRotation(-8)).toBe(345);
+  });
+
+  test('bounding box grows to fit a rotated box; unrotated stays identical', () => {
+    expect(getBoundingBox(rect())).toEqual({ x: 0, y: 0, width: 100, height: 20 });
+
+    const b = getBoundingBox(rect(90))!;
+    expect(b.x).toBeCloseTo(40);
+    expect(b.y).toBeCloseTo(-40);
+    expect(b.width).toBeCloseTo(20);
+    expect(b.height).toBeCloseTo(100);
+  });
+
+  test('ports and connector attachments follow the rotation', () => {
+    const obj = rect(90);
+    const top = getPortsFor(obj).find((p) => p.portId === 'top')!;
+    expectPoint(top.point, 60, 10);
+
+    expectPoint(resolveAttachmentPoint(obj, { type: 'port', portId: 'top' }), 60, 10);
+    expectPoint(resolveAttachmentPoint(obj, { type: 'edgeT', edge: 'left', t: 0.5 }), 50, -40);
+  });
+
+  test('hit-testing uses the rotated outline', () => {
+    const obj = rect(90);
+    expect(hitTest([obj], 50, -30)?.id).toBe('r1');
+    expect(hitTest([obj], 90, 10)).toBeNull();
+  });
+
+  test('rotate handle sits above the rotated frame', () => {
+    const frame = getSelectionFrame(rect(90))!;
+    expect(frame.rotation).toBe(90);
+    // Unrotated handle is at (50, -24); turned 90° around (50, 10) it lands at (84, 10).
+    expect(hitTestRotateHandleCanvas(84, 10, frame.bounds, viewport, frame.rotation)).toBe(true);
+    expect(hitTestRotateHandleCanvas(50, -24, frame.bounds, viewport, frame.rotation)).toBe(false);
+  });
+
+  test('rotate drag follows the pointer and snaps to 15° with Shift', () => {
+    const obj = rect();
+    const drag: DragState = {
+      kind: 'rotate',
+      objectId: obj.id,
+      center: { x: 50, y: 10 },
+      startAngle: -Math.PI / 2,
+      originalObject: obj,
+      lastPatch: null,
+    };
+
+    const run = (pos: { x: number; y: number }, constrain: boolean) => {
+      const next = handleDragMove(drag, {
+        objects: [obj],
+        viewport,
+        pos,
+        canvasX: 0,
+        canvasY: 0,
+        onTransientObjectPatch: () => {},
+        onViewportChange: () => {},
+        constrain,
+      });
+      return (next as any).lastPatch.rotation as number;
+    };
+
+    // Pointer 50° clockwise from straight up.
+    const angle = (-90 + 50) * (Math.PI / 180);
+    const pos = { x: 50 + Math.cos(angle) * 40, y: 10 + Math.sin(angle) * 40 };
+    expect(run(pos, false)).toBeCloseTo(50);
+    expect(run(pos, true)).toBe(45);
+  });
+
+  test('resizing a rotated box keeps the opposite edge in place', () => {
+    const obj = rect(90);
+    const drag: DragState = {
+      kind: 'resize',
+      objectId: obj.id,
+      handle: 'e',
+      startX: 50,
+      startY: 60,
+      originalBounds: { x: 0, y: 0, width: 100, height: 20 },
+      originalObject: obj,
+      lastPatch: null,
+    };
+
+    const next = handleDragMove(drag, {
+      objects: [obj],
+      viewport,
+      pos: { x: 50, y: 80 },
+      canvasX: 0,
+      canvasY: 0,
+      onTransientObjectPatch: () => {},
+      onViewportChange: () => {},
+    });
+    const patch = (next as any).lastPatch;
+    expect(patch.width).toBeCloseTo(120);
+    expect(patch.height).toBeCloseTo(20);
+
+    // The west edge (world y = -40 after rotation) must not move.
+    const resized = { ...obj, ...patch };
+    expect(getBoundingBox(resized)!.y).toBeCloseTo(-40);
+  });
+});
@@ -0,0 +1,110 @@
+import type { WhiteboardObject } from '../../domain/types';
+import { validateWhiteboardObject } from '../../collab/protocol/validation/objectValidation';
+import { validateBoardEvent } from '../../collab/protocol/validation/eventValidation';
+import { canEditTextInPlace, getTextEditFrame } from '../textEditing';
+import { getSelectionCapabilities } from '../tools/selectionRegistry';
+import { getShapeTextArea, hasShapeText } from '../tools/shapeRegistry';
+import { SHAPE_TEXT_PADDING, getShapeTextBlock } from '../tools/_shared/shapeText';
+import { drawTextLayout, layoutText, type MeasureTextWidth } from '../tools/_shared/textLayout';
+
+const mono: MeasureTextWidth = (text, fontSize) => Array.from(text).length * fontSize;
+
+const box = (type: WhiteboardObject['type'], extra: Partial<WhiteboardObject> = {}): WhiteboardObject => ({
+  id: type,
+  type,
+  x: 0,
+  y: 0,
+  width: 200,
+  height: 100,
+  ...extra,
+});
+
+describe('shape text areas', () => {
+  it('use the inside of the outline', () => {
+    expect(getShapeTextArea(box('rectangle'))).toEqual({ x: 0, y: 0, width: 200, height: 100 });
+    expect(getShapeTextArea(box('diamond'))).toEqual({ x: 50, y: 25, width: 100, height: 50 });
+    const ellipse = getShapeTextArea(box('ellipse'))!;
+    expect(ellipse.width).toBeCloseTo(200 * Math.SQRT1_2);
+    expect(ellipse.x + ellipse.width / 2).toBeCloseTo(100);
+    const rounded = getShapeTextArea(box('roundedRect', { cornerRadius: 20 }))!;
+    expect(rounded.x).toBeCloseTo(20 * (1 - Math.SQRT1_2));
+    expect(rounded.width).toBeLessThan(200);
+    expect(getShapeTextArea(box('stickyNote'))).toBeNull();
+    expect(hasShapeText('line')).toBe(false);
+  });
+
+  it('wrap inside the padding and follow the vertical alignment', () => {
+    const words = Array.from({ length: 12 }, () => 'word').join(' ');
+    const area = getShapeTextArea(box('diamond'))!;
+    const middle = getShapeTextBlock(box('diamond', { text: 'hi' }), area);
+    expect(middle.area).toEqual({
+      x: 50 + SHAPE_TEXT_PADDING,
+      y: 25 + SHAPE_TEXT_PADDING,
+      width: 100 - SHAPE_TEXT_PADDING * 2,
+      height: 50 - SHAPE_TEXT_PADDING * 2,
+    });
+    expect(middle.origin.y).toBeCloseTo(50 - middle.layout.height / 2);
+    expect(middle.align).toBe('center');
+
+    const bottom = getShapeTextBlock(box('diamond', { text: 'hi', textVerticalAlign: 'bottom' }), area);
+    expect(bottom.origin.y + bottom.layout.height).toBeCloseTo(75 - SHAPE_TEXT_PADDING);
+
+    const long = getShapeTextBlock(box('diamond', { text: words }), area);
+    expect(long.overflowing).toBe(true);
+    expect(long.layout.width).toBeLessThanOrEqual(long.area.width);
+  });
+});
+
+describe('editing shape text', () => {
+  it('works in place and from the selection panel', () => {
+    const rect = box('rectangle', { text: 'Start', textAlign: 'left', textVerticalAlign: 'top' });
+    expect(canEditTextInPlace(rect)).toBe(true);
+    expect(canEditTextInPlace({ ...rect, locked: true })).toBe(false);
+    const frame = getTextEditFrame(rect)!;
+    expect(frame.textBox.x).toBe(SHAPE_TEXT_PADDING);
+    expect(frame.textBox.y).toBe(SHAPE_TEXT_PADDING);
+    expect(frame.textBox.width).toBe(200 - SHAPE_TEXT_PADDING * 2);
+    expect(frame.align).toBe('left');
+    expect(frame.center).toEqual({ x: 100, y: 50 });
+
+    for (const type of ['rectangle', 'roundedRect', 'ellipse', 'diamond'] as const) {
+      expect(getSelectionCapabilities(type).editableProps).toEqual(
+        expect.arrayContaining(['text', 'fontSize', 'textColor', 'textAlign', 'textVerticalAlign'])
+      );
+    }
+  });
+
+  it('validates the alignment props', () => {
+    expect(validateWhiteboardObject(box('ellipse', { textAlign: 'right', textVerticalAlign: 'top' }), 'object').ok).toBe(
+      true
+    );
+    expect(validateWhiteboardObject(box('ellipse', { textAlign: 'justify' as any }), 'object').ok).toBe(false);
+    const event = {
+      id: 'e1',
+      boardId: 'b1',
+      type: 'objectUpdated',
+      timestamp: new Date().toISOString(),
+      payload: { objectId: 'ellipse', patch: { textVerticalAlign: 'center' } },
+    };
+    expect(validateBoardEvent(event).ok).toBe(false);
+  });
+});
+
+describe('aligned text drawing', () => {
+  it('offsets each line within the given width', () => {
+    const calls: Array<[string, number]> = [];
+    const ctx = {
+      fillText: (text: string, x: number) => calls.push([text, x]),
+      fillRect: () => undefined,
+    } as unknown as CanvasRenderingContext2D;
+    const layout = layoutText('ab\nabcd', 10, {}, mono);
+    drawTextLayout(ctx, layout, 0, 0, 10, 1, '#000', { align: 'center', width: 100 });
+    expect(calls).toEqual([
+      ['ab', 40],
+      ['abcd', 30],
+    ]);
+    calls.length = 0;
+    drawTextLayout(ctx, layout, 0, 0, 10, 1, '#000', { align: 'right', width: 100 });
+    expect(calls.map(([, x]) => x)).toEqual([80, 60]);
+  });
+});
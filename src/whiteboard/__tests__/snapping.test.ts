@@ -0,0 +1,111 @@
+import type { WhiteboardObject } from '../../domain/types';
+import { snapBoundsToGrid, snapPointToGrid } from '../geometry/snapping';
+import { handleDragMove } from '../interactions/drag/dispatch';
+import { toolPointerDown, toolPointerMove, toolPointerUp, resizeObject } from '../tools/shapeRegistry';
+import { getPatternSpacingPx } from '../boardBackground';
+
+const viewport = { offsetX: 0, offsetY: 0, zoom: 1 };
+
+function toolCtx(snapGridSize?: number) {
+  return {
+    objects: [] as WhiteboardObject[],
+    viewport,
+    strokeColor: '#fff',
+    strokeWidth: 2,
+    generateObjectId: () => 'new',
+    snapGridSize,
+  };
+}
+
+describe('whiteboard snap-to-grid', () => {
+  test('helpers are no-ops without a grid', () => {
+    expect(snapPointToGrid({ x: 13, y: 27 })).toEqual({ x: 13, y: 27 });
+    expect(snapPointToGrid({ x: 13, y: 27 }, 10)).toEqual({ x: 10, y: 30 });
+    expect(snapBoundsToGrid({ x: 3, y: 3, width: 2, height: 2 }, 10)).toEqual({ x: 0, y: 0, width: 10, height: 10 });
+  });
+
+  test('box drafts round both corners to the grid', () => {
+    const ctx = toolCtx(20);
+    const down = toolPointerDown('rectangle', ctx, { x: 9, y: 31 });
+    expect(down.kind).toBe('draft');
+    if (down.kind !== 'draft') return;
+    const moved = toolPointerMove(down.draft, ctx, { x: 68, y: 93 });
+    const up = toolPointerUp(moved.draft, ctx, { x: 68, y: 93 });
+    expect(up.kind === 'create' && up.object).toMatchObject({ x: 0, y: 40, width: 60, height: 60 });
+  });
+
+  test('click-created text lands on the grid', () => {
+    const res = toolPointerDown('text', toolCtx(25), { x: 37, y: 62 });
+    expect(res.kind === 'create' && res.object).toMatchObject({ x: 25, y: 50 });
+  });
+
+  test('moving snaps the object corner while keeping the grab offset', () => {
+    const rect: WhiteboardObject = { id: 'r', type: 'rectangle', x: 40, y: 40, width: 50, height: 50 };
+    const patches: any[] = [];
+    handleDragMove(
+      { kind: 'move', objectId: 'r', startX: 55, startY: 55, originalObject: rect, lastPatch: null },
+      {
+        objects: [rect],
+        viewport,
+        pos: { x: 67, y: 74 },
+        canvasX: 0,
+        canvasY: 0,
+        onTransientObjectPatch: (_id, patch) => patches.push(patch),
+        onViewportChange: () => {},
+        snapGridSize: 20,
+      }
+    );
+    expect(patches).toEqual([{ x: 60, y: 60 }]);
+  });
+
+  test('box resize snaps edges only when a grid is given', () => {
+    const rect: WhiteboardObject = { id: 'r', type: 'rectangle', x: 0, y: 0, width: 50, height: 50 };
+    const bounds = { x: 0, y: 0, width: 53, height: 71 };
+    expect(resizeObject(rect, bounds)).toEqual({ x: 0, y: 0, width: 53, height: 71 });
+    expect(resizeObject(rect, bounds, { snapGridSize: 20 })).toEqual({ x: 0, y: 0, width: 60, height: 80 });
+  });
+
+  test('box resize snaps only the edges the handle moves', () => {
+    const rect: WhiteboardObject = { id: 'r', type: 'rectangle', x: 13, y: 7, width: 50, height: 50 };
+    const bounds = { x: 13, y: 7, width: 53, height: 71 };
+    expect(resizeObject(rect, bounds, { snapGridSize: 20, handle: 'se' })).toEqual({ x: 13, y: 7, width: 47, height: 73 });
+    expect(resizeObject(rect, bounds, { snapGridSize: 20, handle: 'e' })).toEqual({ x: 13, y: 7, width: 47, height: 71 });
+    expect(snapBoundsToGrid({ x: 27, y: 7, width: 36, height: 50 }, 20, 'w')).toEqual({ x: 20, y: 7, width: 43, height: 50 });
+    // Dragged past the fixed edge, the moving edge stays a grid cell away from it.
+    expect(snapBoundsToGrid({ x: 59, y: 7, width: 4, height: 50 }, 20, 'w')).toEqual({ x: 43, y: 7, width: 20, height: 50 });
+  });
+
+  test('dragging a resize handle keeps the opposite edges in place', () => {
+    const rect: WhiteboardObject = { id: 'r', type: 'rectangle', x: 13, y: 7, width: 50, height: 50 };
+    const patches: any[] = [];
+    handleDragMove(
+      {
+        kind: 'resize',
+        objectId: 'r',
+        handle: 'se',
+        startX: 63,
+        startY: 57,
+        originalObject: rect,
+        originalBounds: { x: 13, y: 7, width: 50, height: 50 },
+        lastPatch: null,
+      },
+      {
+        objects: [rect],
+        viewport,
+        pos: { x: 78, y: 78 },
+        canvasX: 0,
+        canvasY: 0,
+        onTransientObjectPatch: (_id, patch) => patches.push(patch),
+        onViewportChange: () => {},
+        snapGridSize: 20,
+      }
+    );
+    expect(patches).toEqual([{ x: 13, y: 7, width: 67, height: 73 }]);
+  });
+
+  test('background pattern thins out when zoomed far out', () => {
+    expect(getPatternSpacingPx(20, 1)).toBe(20);
+    expect(getPatternSpacingPx(20, 0.1)).toBe(8);
+    expect(getPatternSpacingPx(20, 0.05)).toBe(8);
+  });
+});
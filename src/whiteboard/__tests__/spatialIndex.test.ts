@@ -0,0 +1,90 @@
+import type { BoardEvent, WhiteboardObject } from '../../domain/types';
+import { applyEvent, createEmptyWhiteboardState } from '../../domain/whiteboardState';
+import { getSpatialIndex, queryObjectsAtPoint, queryObjectsInBounds } from '../geometry/spatialIndex';
+import { hitTest } from '../geometry';
+import { whiteboardReducer } from '../store/reducer';
+
+const meta = { id: 'b1', name: 'Board', boardType: 'advanced', createdAt: 't', updatedAt: 't' } as const;
+
+function rect(id: string, x: number, y: number, size = 50): WhiteboardObject {
+  return { id, type: 'rectangle', x, y, width: size, height: size };
+}
+
+function ev(type: BoardEvent['type'], payload: any): BoardEvent {
+  return { id: `ev-${Math.random()}`, boardId: 'b1', type, timestamp: 't', payload } as BoardEvent;
+}
+
+describe('whiteboard/geometry/spatialIndex', () => {
+  test('point queries return only overlapping objects, topmost first', () => {
+    const objects = [rect('a', 0, 0), rect('b', 20, 20), rect('far', 5000, 5000)];
+    expect(queryObjectsAtPoint(objects, 30, 30).map((o) => o.id)).toEqual(['b', 'a']);
+    expect(queryObjectsAtPoint(objects, 5010, 5010).map((o) => o.id)).toEqual(['far']);
+    expect(queryObjectsAtPoint(objects, 1000, 1000)).toEqual([]);
+  });
+
+  test('area queries keep draw order and always include connectors', () => {
+    const connector: WhiteboardObject = {
+      id: 'c1',
+      type: 'connector',
+      x: 0,
+      y: 0,
+      from: { objectId: 'a', attachment: { type: 'fallback', anchor: 'center' } },
+      to: { objectId: 'far', attachment: { type: 'fallback', anchor: 'center' } },
+    };
+    const objects = [rect('a', 0, 0), connector, rect('far', 5000, 5000)];
+    const visible = queryObjectsInBounds(objects, { x: -10, y: -10, width: 200, height: 200 });
+    expect(visible.map((o) => o.id)).toEqual(['a', 'c1']);
+  });
+
+  test('applyEvent carries the index forward incrementally', () => {
+    let state = createEmptyWhiteboardState(meta);
+    state = applyEvent(state, ev('objectCreated', { object: rect('a', 0, 0) }));
+    const index = getSpatialIndex(state.objects);
+
+    state = applyEvent(state, ev('objectCreated', { object: rect('b', 400, 400) }));
+    state = applyEvent(state, ev('objectUpdated', { objectId: 'a', patch: { x: 800, y: 800 } }));
+    expect(getSpatialIndex(state.objects)).toBe(index);
+    expect(hitTest(state.objects, 10, 10)).toBeNull();
+    expect(hitTest(state.objects, 810, 810)?.id).toBe('a');
+    expect(hitTest(state.objects, 410, 410)?.id).toBe('b');
+
+    state = applyEvent(state, ev('objectDeleted', { objectId: 'a' }));
+    expect(getSpatialIndex(state.objects)).toBe(index);
+    expect(hitTest(state.objects, 810, 810)).toBeNull();
+    expect(hitTest(state.objects, 410, 410)?.id).toBe('b');
+  });
+
+  test('transient patches carry the index forward instead of rebuilding it', () => {
+    let state = createEmptyWhiteboardState(meta);
+    state = applyEvent(state, ev('objectCreated', { object: rect('a', 0, 0) }));
+    const index = getSpatialIndex(state.objects);
+
+    const dragged = whiteboardReducer(state, {
+      type: 'APPLY_TRANSIENT_OBJECT_PATCH',
+      objectId: 'a',
+      patch: { x: 600, y: 600 },
+    })!;
+    expect(dragged.objects).not.toBe(state.objects);
+    expect(getSpatialIndex(dragged.objects)).toBe(index);
+    expect(hitTest(dragged.objects, 10, 10)).toBeNull();
+    expect(hitTest(dragged.objects, 610, 610)?.id).toBe('a');
+  });
+
+  test('freehand strokes are found within their hit tolerance outside their bounds', () => {
+    // A horizontal stroke has a zero-height bounding box; clicks just above it still select it.
+    const stroke: WhiteboardObject = {
+      id: 's',
+      type: 'freehand',
+      x: 0,
+      y: 100,
+      strokeWidth: 4,
+      points: [
+        { x: 0, y: 100 },
+        { x: 200, y: 100 },
+      ],
+    };
+    expect(hitTest([stroke], 100, 106)?.id).toBe('s');
+    expect(hitTest([stroke], -5, 100)?.id).toBe('s');
+    expect(hitTest([stroke], 100, 120)).toBeNull();
+  });
+});
@@ -0,0 +1,110 @@
+import { createEmptyWhiteboardState } from '../../domain/whiteboardState';
+import type { BoardEvent, WhiteboardObject, WhiteboardState } from '../../domain/types';
+import { whiteboardReducer } from '../store/reducer';
+import { hitTest } from '../geometry';
+
+function createState(objects: WhiteboardObject[]): WhiteboardState {
+  return {
+    ...createEmptyWhiteboardState({
+      id: 'board-1',
+      name: 'Board 1',
+      boardType: 'advanced',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    }),
+    objects,
+  };
+}
+
+const frame: WhiteboardObject = { id: 'frame', type: 'rectangle', x: 0, y: 0, width: 400, height: 300, locked: true };
+const note: WhiteboardObject = { id: 'note', type: 'rectangle', x: 20, y: 20, width: 50, height: 50 };
+
+function event(type: BoardEvent['type'], payload: unknown): BoardEvent {
+  return {
+    id: `e-${type}`,
+    boardId: 'board-1',
+    type,
+    timestamp: '2026-01-01T00:00:01.000Z',
+    payload,
+  } as BoardEvent;
+}
+
+describe('whiteboard store per-object lock', () => {
+  it('ignores moves, edits and deletes of locked objects, local or remote', () => {
+    const state = createState([frame, note]);
+
+    const moved = whiteboardReducer(state, {
+      type: 'APPLY_EVENT',
+      event: event('objectUpdated', { objectId: 'frame', patch: { x: 50, fillColor: '#fff' } }),
+    });
+    expect(moved).toBe(state);
+
+    const deleted = whiteboardReducer(state, {
+      type: 'APPLY_REMOTE_EVENT',
+      event: event('objectDeleted', { objectId: 'frame' }),
+    });
+    expect(deleted!.objects.map((o) => o.id)).toEqual(['frame', 'note']);
+
+    const dragged = whiteboardReducer(state, {
+      type: 'APPLY_TRANSIENT_OBJECT_PATCH',
+      objectId: 'frame',
+      patch: { x: 10 },
+    });
+    expect(dragged).toBe(state);
+
+    const reordered = whiteboardReducer(state, {
+      type: 'APPLY_EVENT',
+      event: event('objectsReordered', { objectIds: ['frame', 'note'], direction: 'back' }),
+    });
+    expect(reordered!.objects.map((o) => o.id)).toEqual(['note', 'frame']);
+  });
+
+  it('only lets the lock itself change, and unlocking restores editing', () => {
+    let state: WhiteboardState | null = createState([frame]);
+
+    state = whiteboardReducer(state, {
+      type: 'APPLY_EVENT',
+      event: event('objectUpdated', { objectId: 'frame', patch: { locked: false, x: 99 } }),
+    });
+    expect(state!.objects[0]).toMatchObject({ locked: false, x: 0 });
+
+    state = whiteboardReducer(state, {
+      type: 'APPLY_EVENT',
+      event: event('objectUpdated', { objectId: 'frame', patch: { x: 99 } }),
+    });
+    expect(state!.objects[0].x).toBe(99);
+  });
+
+  it('keeps locked objects out of grouping and ungrouping', () => {
+    const state = createState([frame, note, { ...note, id: 'note2' }]);
+
+    const grouped = whiteboardReducer(state, {
+      type: 'APPLY_EVENT',
+      event: event('objectsGrouped', { groupId: 'g1', objectIds: ['frame', 'note', 'note2'] }),
+    });
+    expect(grouped!.objects.map((o) => o.groupId)).toEqual([undefined, 'g1', 'g1']);
+
+    const pair = whiteboardReducer(state, {
+      type: 'APPLY_REMOTE_EVENT',
+      event: event('objectsGrouped', { groupId: 'g1', objectIds: ['frame', 'note'] }),
+    });
+    expect(pair).toBe(state);
+
+    const lockedMember = createState([
+      { ...frame, groupId: 'g2' },
+      { ...note, groupId: 'g2' },
+    ]);
+    const ungrouped = whiteboardReducer(lockedMember, {
+      type: 'APPLY_EVENT',
+      event: event('objectsUngrouped', { groupId: 'g2' }),
+    });
+    expect(ungrouped).toBe(lockedMember);
+  });
+
+  it('lets hit-testing skip locked objects', () => {
+    const objects = [note, { ...frame, x: 0, y: 0 }];
+    expect(hitTest(objects, 30, 30)?.id).toBe('frame');
+    expect(hitTest(objects, 30, 30, (o) => !o.locked)?.id).toBe('note');
+    expect(hitTest(objects, 300, 200, (o) => !o.locked)).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import type { WhiteboardObject } from '../../domain/types';
+import { createEmptyWhiteboardState } from '../../domain';
+import { decodeSnapshotJson, encodeSnapshotJson } from '../../domain/snapshotCodec';
+import { validateWhiteboardObject } from '../../collab/protocol/validation/objectValidation';
+import { validateBoardEvent } from '../../collab/protocol/validation/eventValidation';
+import { createClipboardFromSelection, pasteClipboard } from '../clipboard';
+import { getSelectionCapabilities } from '../tools/selectionRegistry';
+import { applyStrokeStyleProps } from '../tools/shapeRegistry/common';
+import { getLineDashPattern, strokeWithStyle } from '../tools/_shared/strokeStyle';
+
+const styled: WhiteboardObject = {
+  id: 'r1',
+  type: 'rectangle',
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 50,
+  strokeDash: 'dashed',
+  strokeOpacity: 0.5,
+  fillOpacity: 0.25,
+};
+
+describe('stroke dash patterns', () => {
+  it('scale with the line width', () => {
+    expect(getLineDashPattern('solid', 4)).toEqual([]);
+    expect(getLineDashPattern('dashed', 2)).toEqual([8, 6]);
+    expect(getLineDashPattern('dotted', 3)).toEqual([0, 6]);
+    expect(getLineDashPattern('dashed', 0.5)).toEqual([4, 3]);
+  });
+
+  it('are applied with the stroke opacity and then restored', () => {
+    const ctx = {
+      globalAlpha: 0.8,
+      lineCap: 'butt',
+      dash: [] as number[],
+      saved: [] as number[],
+      save() {
+        this.saved.push(this.globalAlpha);
+      },
+      restore() {
+        this.globalAlpha = this.saved.pop()!;
+      },
+      setLineDash(d: number[]) {
+        this.dash = d;
+      },
+      stroke: jest.fn(),
+    };
+    let seen: [number, number[]] | undefined;
+    strokeWithStyle(ctx as unknown as CanvasRenderingContext2D, styled, 2, () => {
+      seen = [ctx.globalAlpha, ctx.dash];
+    });
+    expect(seen![0]).toBeCloseTo(0.4);
+    expect(seen![1]).toEqual([8, 6]);
+    expect(ctx.globalAlpha).toBe(0.8);
+  });
+});
+
+describe('stroke style props', () => {
+  it('are editable on every stroked shape', () => {
+    for (const type of ['rectangle', 'roundedRect', 'ellipse', 'diamond', 'stickyNote'] as const) {
+      expect(getSelectionCapabilities(type).editableProps).toEqual(
+        expect.arrayContaining(['strokeDash', 'strokeOpacity', 'fillOpacity'])
+      );
+    }
+    for (const type of ['freehand', 'line', 'connector'] as const) {
+      const props = getSelectionCapabilities(type).editableProps;
+      expect(props).toEqual(expect.arrayContaining(['strokeDash', 'strokeOpacity']));
+      expect(props).not.toContain('fillOpacity');
+    }
+  });
+
+  it('come from the tool settings when an object is created', () => {
+    const plain: WhiteboardObject = { id: 'f', type: 'freehand', x: 0, y: 0 };
+    expect(applyStrokeStyleProps(plain, { strokeDash: 'dotted', strokeOpacity: 0.3 })).toEqual({
+      ...plain,
+      strokeDash: 'dotted',
+      strokeOpacity: 0.3,
+    });
+    expect(applyStrokeStyleProps(plain, undefined)).toBe(plain);
+  });
+
+  it('are validated on objects and patches', () => {
+    expect(validateWhiteboardObject(styled, 'object').ok).toBe(true);
+    expect(validateWhiteboardObject({ ...styled, strokeDash: 'wavy' as any }, 'object').ok).toBe(false);
+    expect(validateWhiteboardObject({ ...styled, fillOpacity: 1.5 }, 'object').ok).toBe(false);
+    const event = (patch: Partial<WhiteboardObject>) => ({
+      id: 'e1',
+      boardId: 'b1',
+      type: 'objectUpdated',
+      timestamp: new Date().toISOString(),
+      payload: { objectId: 'r1', patch },
+    });
+    expect(validateBoardEvent(event({ strokeDash: 'dotted', strokeOpacity: 0 })).ok).toBe(true);
+    expect(validateBoardEvent(event({ strokeOpacity: -0.1 })).ok).toBe(false);
+    expect(validateBoardEvent(event({ strokeDash: 'none' as any })).ok).toBe(false);
+  });
+
+  it('survive copy/paste and snapshots', () => {
+    const clip = createClipboardFromSelection({ boardId: 'b1', objects: [styled], selectedIds: ['r1'] })!;
+    const pasted = pasteClipboard({
+      clipboard: clip,
+      targetBoardId: 'b1',
+      viewport: { offsetX: 0, offsetY: 0, zoom: 1 },
+      existingIds: ['r1'],
+      generateObjectId: () => 'r2',
+    });
+    expect(pasted.objects[0]).toMatchObject({ strokeDash: 'dashed', strokeOpacity: 0.5, fillOpacity: 0.25 });
+
+    const meta = {
+      id: 'b1',
+      name: 'Board',
+      boardType: 'advanced',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+    } as const;
+    const state = { ...createEmptyWhiteboardState(meta), objects: [styled] };
+    expect(decodeSnapshotJson('b1', encodeSnapshotJson('b1', state))!.objects[0]).toEqual(styled);
+  });
+});
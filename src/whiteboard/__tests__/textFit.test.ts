@@ -0,0 +1,88 @@
+import type { WhiteboardObject } from '../../domain/types';
+import { validateWhiteboardObject } from '../../collab/protocol/validation/objectValidation';
+import { getBoardType, getLockedEditableKeys, getLockedObjectProps } from '../boardTypes';
+import { getBoundingBox } from '../geometry';
+import { filterLockedObjectPatch } from '../store/policy';
+import type { MeasureTextWidth } from '../tools/_shared/textLayout';
+import { fitText, getTextFit, MIN_FIT_FONT_SIZE } from '../tools/_shared/textFit';
+import { getStickyNoteBlock } from '../tools/stickyNote/geometry';
+import { getTextBlock } from '../tools/text/geometry';
+
+const mono: MeasureTextWidth = (text, fontSize) => Array.from(text).length * fontSize;
+
+const longText = Array.from({ length: 30 }, () => 'word').join(' ');
+
+const note: WhiteboardObject = {
+  id: 's',
+  type: 'stickyNote',
+  x: 0,
+  y: 0,
+  width: 200,
+  height: 100,
+  fontSize: 16,
+  text: longText,
+};
+
+describe('fitText', () => {
+  it('shrinks the font until the lines fit the box', () => {
+    const fitted = fitText(longText, 20, 'shrink', { maxWidth: 100, maxHeight: 100 }, mono);
+    expect(fitted.fontSize).toBeLessThan(20);
+    expect(fitted.fontSize).toBeGreaterThanOrEqual(MIN_FIT_FONT_SIZE);
+    expect(fitted.layout.height).toBeLessThanOrEqual(100);
+    expect(fitted.overflowing).toBe(false);
+  });
+
+  it('keeps the requested size when the text already fits', () => {
+    expect(fitText('hi', 20, 'shrink', { maxWidth: 100, maxHeight: 100 }, mono).fontSize).toBe(20);
+  });
+
+  it('clips at a fixed font size and reports the overflow', () => {
+    const fitted = fitText(longText, 20, 'overflow', { maxWidth: 100, maxHeight: 100 }, mono);
+    expect(fitted.fontSize).toBe(20);
+    expect(fitted.overflowing).toBe(true);
+    expect(fitted.layout.lines).toHaveLength(4);
+  });
+
+  it('lays out every line when growing', () => {
+    const fitted = fitText(longText, 20, 'grow', { maxWidth: 100, maxHeight: 100 }, mono);
+    expect(fitted.overflowing).toBe(false);
+    expect(fitted.layout.height).toBeGreaterThan(100);
+  });
+});
+
+describe('fit modes on objects', () => {
+  it('default to what each type did before fit modes existed', () => {
+    expect(getTextFit(note)).toBe('overflow');
+    expect(getTextFit({ type: 'text' })).toBe('grow');
+    expect(getTextFit({ ...note, textFit: 'shrink' })).toBe('shrink');
+  });
+
+  it('grow sticky notes downwards to fit their text', () => {
+    const grown = { ...note, textFit: 'grow' as const };
+    const bounds = getBoundingBox(grown)!;
+    expect(bounds.width).toBe(200);
+    expect(bounds.height).toBeGreaterThan(100);
+    expect(getBoundingBox(note)!.height).toBe(100);
+    expect(getStickyNoteBlock(note).overflowing).toBe(true);
+  });
+
+  it('keep a text box at its height when shrinking', () => {
+    const text: WhiteboardObject = { ...note, id: 't', type: 'text', height: 40, textFit: 'shrink' };
+    const block = getTextBlock(text);
+    expect(block.box.height).toBe(40);
+    expect(block.fontSize).toBeLessThan(16);
+    expect(getTextBlock({ ...text, textFit: 'grow' }).box.height).toBeGreaterThan(40);
+  });
+
+  it('are validated for collab', () => {
+    expect(validateWhiteboardObject({ ...note, textFit: 'grow' }, 'object').ok).toBe(true);
+    expect(validateWhiteboardObject({ ...note, textFit: 'stretch' as any }, 'object').ok).toBe(false);
+  });
+
+  it('can be locked by a board type', () => {
+    const mindmap = getBoardType('mindmap');
+    const locked = getLockedObjectProps(mindmap, 'stickyNote');
+    expect(getLockedEditableKeys(locked).has('textFit')).toBe(true);
+    expect(filterLockedObjectPatch(mindmap, note, { textFit: 'shrink' })).toBeNull();
+  });
+});
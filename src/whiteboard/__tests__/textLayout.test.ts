@@ -0,0 +1,125 @@
+import type { WhiteboardObject } from '../../domain/types';
+import { getBoundingBox, hitTest } from '../geometry';
+import { layoutText, type MeasureTextWidth } from '../tools/_shared/textLayout';
+import { getTextEditFrame, canEditTextInPlace } from '../textEditing';
+import { getStickyNoteBlock } from '../tools/stickyNote/geometry';
+
+// Every character is exactly one font size wide (e.g. 10 units at fontSize 10).
+const mono: MeasureTextWidth = (text, fontSize) => Array.from(text).length * fontSize;
+
+describe('layoutText', () => {
+  it('keeps explicit line breaks and empty lines', () => {
+    const layout = layoutText('one\r\ntwo\n\nfour', 10, {}, mono);
+    expect(layout.lines).toEqual(['one', 'two', '', 'four']);
+    expect(layout.width).toBe(40);
+    expect(layout.height).toBe(4 * 12.5);
+  });
+
+  it('wraps words to the maximum width', () => {
+    const layout = layoutText('the quick brown fox', 10, { maxWidth: 100 }, mono);
+    expect(layout.lines).toEqual(['the quick', 'brown fox']);
+    expect(layout.lineWidths).toEqual([90, 90]);
+  });
+
+  it('breaks words that are wider than a line', () => {
+    expect(layoutText('abcdefghij xy', 10, { maxWidth: 40 }, mono).lines).toEqual(['abcd', 'efgh', 'ij', 'xy']);
+  });
+
+  it('drops lines below the maximum height and ends with an ellipsis', () => {
+    const layout = layoutText('aaa bbb ccc ddd', 10, { maxWidth: 40, maxHeight: 30 }, mono);
+    expect(layout.truncated).toBe(true);
+    expect(layout.lines).toEqual(['aaa', 'bbb…']);
+  });
+
+  it('always keeps one line', () => {
+    const layout = layoutText('aaa bbb', 10, { maxWidth: 40, maxHeight: 1 }, mono);
+    expect(layout.lines).toHaveLength(1);
+    expect(layout.truncated).toBe(true);
+  });
+
+  it('keeps marks per span when wrapping rich text', () => {
+    const layout = layoutText(
+      [{ runs: [{ text: 'the ' }, { text: 'quick', bold: true }, { text: 'er brown' }] }],
+      10,
+      { maxWidth: 100 },
+      mono
+    );
+    expect(layout.lines).toEqual(['the', 'quicker', 'brown']);
+    expect(layout.rows[1].spans).toEqual([
+      { text: 'quick', bold: true, x: 0, width: 50 },
+      { text: 'er', x: 50, width: 20 },
+    ]);
+  });
+
+  it('indents bullet list items on every wrapped line', () => {
+    const layout = layoutText([{ runs: [{ text: 'aaa bbb' }], list: 'bullet' }], 10, { maxWidth: 50 }, mono);
+    expect(layout.lines).toEqual(['aaa', 'bbb']);
+    expect(layout.rows.map((r) => [r.indent, r.bullet])).toEqual([
+      [12.5, true],
+      [12.5, false],
+    ]);
+    expect(layout.rows[0].spans[0].x).toBe(12.5);
+    expect(layout.lineWidths).toEqual([42.5, 42.5]);
+  });
+});
+
+describe('text objects', () => {
+  const text: WhiteboardObject = {
+    id: 't',
+    type: 'text',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 10,
+    fontSize: 20,
+    text: 'one\ntwo\nthree',
+  };
+
+  it('hit-test and bound the measured text block', () => {
+    const bounds = getBoundingBox(text)!;
+    expect(bounds.width).toBe(100);
+    expect(bounds.height).toBe(3 * 25);
+    expect(hitTest([text], 50, 60)?.id).toBe('t');
+    expect(hitTest([text], 50, 80)).toBeNull();
+  });
+
+  it('follow the text width when they have none', () => {
+    const unwrapped = { ...text, width: undefined, text: 'ab' };
+    expect(getBoundingBox(unwrapped)!.width).toBeGreaterThan(0);
+    expect(getBoundingBox(unwrapped)!.width).toBeLessThan(getBoundingBox({ ...unwrapped, text: 'abcdef' })!.width);
+  });
+
+  it('grow the editor frame with the draft text', () => {
+    const frame = getTextEditFrame(text, 'one line')!;
+    expect(frame.wraps).toBe(true);
+    expect(frame.textBox.height).toBe(25);
+    expect(getTextEditFrame(text)!.textBox.height).toBe(75);
+  });
+});
+
+describe('sticky notes', () => {
+  const note: WhiteboardObject = {
+    id: 's',
+    type: 'stickyNote',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 60,
+    fontSize: 16,
+    text: Array.from({ length: 20 }, () => 'word').join(' '),
+  };
+
+  it('clip overflowing text to the note', () => {
+    const { layout } = getStickyNoteBlock(note);
+    expect(layout.truncated).toBe(true);
+    expect(layout.height).toBeLessThanOrEqual(60 - 16);
+    expect(layout.lines[layout.lines.length - 1].endsWith('…')).toBe(true);
+  });
+
+  it('are edited inside their padding unless locked', () => {
+    expect(getTextEditFrame(note)!.textBox).toEqual({ x: 8, y: 8, width: 84, height: 44 });
+    expect(canEditTextInPlace(note)).toBe(true);
+    expect(canEditTextInPlace({ ...note, locked: true })).toBe(false);
+    expect(canEditTextInPlace({ ...note, type: 'image' })).toBe(false);
+  });
+});
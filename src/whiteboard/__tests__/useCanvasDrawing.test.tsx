@@ -0,0 +1,157 @@
+import { act, renderHook } from '@testing-library/react';
+import type { Viewport, WhiteboardObject } from '../../domain/types';
+import type { ImageCache } from '../tools/image/imageCache';
+import { drawSceneObjects } from '../drawing';
+import { flushSceneCanvas, PAN_REPAINT_DELAY_MS, useCanvasDrawing } from '../useCanvasDrawing';
+
+jest.mock('../drawing', () => ({
+  ...jest.requireActual('../drawing'),
+  drawSceneObjects: jest.fn(),
+}));
+
+const drawScene = drawSceneObjects as jest.MockedFunction<typeof drawSceneObjects>;
+
+/** A 2D context that records drawImage calls and accepts everything else. */
+function createContextMock() {
+  const drawImage = jest.fn();
+  const ctx = new Proxy({ drawImage } as Record<string | symbol, unknown>, {
+    get(target, key) {
+      if (!(key in target)) target[key] = jest.fn(() => ({ addColorStop: jest.fn() }));
+      return target[key];
+    },
+    set(target, key, value) {
+      target[key] = value;
+      return true;
+    },
+  });
+  return { ctx, drawImage };
+}
+
+const contexts = new WeakMap<HTMLCanvasElement, ReturnType<typeof createContextMock>>();
+
+function contextOf(canvas: HTMLCanvasElement) {
+  let entry = contexts.get(canvas);
+  if (!entry) {
+    entry = createContextMock();
+    contexts.set(canvas, entry);
+  }
+  return entry;
+}
+
+const objects: WhiteboardObject[] = [{ id: 'r1', type: 'rectangle', x: 0, y: 0, width: 40, height: 40 }];
+
+type Props = {
+  objects: WhiteboardObject[];
+  viewport: Viewport;
+  width: number;
+  images?: ImageCache;
+};
+
+function renderDrawing(initial: Partial<Props> = {}) {
+  const scene = document.createElement('canvas');
+  const overlay = document.createElement('canvas');
+  const hook = renderHook(
+    (props: Props) =>
+      useCanvasDrawing({
+        sceneCanvasRef: { current: scene },
+        overlayCanvasRef: { current: overlay },
+        width: props.width,
+        height: 300,
+        objects: props.objects,
+        selectedObjectIds: [],
+        viewport: props.viewport,
+        draft: null,
+        strokeColor: '#fff',
+        background: 'dots',
+        gridSize: 20,
+        images: props.images,
+      }),
+    { initialProps: { objects, viewport: { offsetX: 0, offsetY: 0, zoom: 1 }, width: 400, ...initial } }
+  );
+  return { ...hook, scene };
+}
+
+describe('useCanvasDrawing scene cache', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    drawScene.mockClear();
+    jest
+      .spyOn(HTMLCanvasElement.prototype, 'getContext')
+      .mockImplementation(function (this: HTMLCanvasElement) {
+        return contextOf(this).ctx as unknown as CanvasRenderingContext2D;
+      } as unknown as HTMLCanvasElement['getContext']);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('pans by translating the cached bitmap, then repaints once settled', () => {
+    const { rerender, scene } = renderDrawing();
+    expect(drawScene).toHaveBeenCalledTimes(1);
+
+    rerender({ objects, viewport: { offsetX: 10, offsetY: -5, zoom: 2 }, width: 400 });
+    // Zoom changed: full repaint.
+    expect(drawScene).toHaveBeenCalledTimes(2);
+
+    const { drawImage } = contextOf(scene);
+    drawImage.mockClear();
+    rerender({ objects, viewport: { offsetX: 15, offsetY: -5, zoom: 2 }, width: 400 });
+    expect(drawScene).toHaveBeenCalledTimes(2);
+    expect(drawImage).toHaveBeenCalledWith(expect.anything(), 10, 0, 400, 300);
+
+    jest.advanceTimersByTime(PAN_REPAINT_DELAY_MS - 1);
+    expect(drawScene).toHaveBeenCalledTimes(2);
+    jest.advanceTimersByTime(1);
+    expect(drawScene).toHaveBeenCalledTimes(3);
+    expect(drawScene.mock.calls[2][2]).toMatchObject({ offsetX: 15, offsetY: -5 });
+  });
+
+  test('repaints immediately when objects or size change during a pan', () => {
+    const { rerender } = renderDrawing();
+    rerender({ objects, viewport: { offsetX: 20, offsetY: 0, zoom: 1 }, width: 400 });
+    expect(drawScene).toHaveBeenCalledTimes(1);
+
+    const moved = [{ ...objects[0], x: 50 }];
+    rerender({ objects: moved, viewport: { offsetX: 20, offsetY: 0, zoom: 1 }, width: 400 });
+    expect(drawScene).toHaveBeenCalledTimes(2);
+    expect(drawScene.mock.calls[1][1]).toBe(moved);
+
+    rerender({ objects: moved, viewport: { offsetX: 20, offsetY: 0, zoom: 1 }, width: 500 });
+    expect(drawScene).toHaveBeenCalledTimes(3);
+
+    // The superseded pan timer does not fire a stale repaint.
+    jest.advanceTimersByTime(PAN_REPAINT_DELAY_MS);
+    expect(drawScene).toHaveBeenCalledTimes(3);
+  });
+
+  test('repaints when an image finishes loading', () => {
+    let notify = () => {};
+    const images = {
+      subscribe: (listener: () => void) => {
+        notify = listener;
+        return () => {};
+      },
+    } as unknown as ImageCache;
+    renderDrawing({ images });
+    expect(drawScene).toHaveBeenCalledTimes(1);
+
+    act(() => notify());
+    expect(drawScene).toHaveBeenCalledTimes(2);
+  });
+
+  test('flushes a pending pan repaint before the canvas is read', () => {
+    const { rerender, scene } = renderDrawing();
+    rerender({ objects, viewport: { offsetX: 30, offsetY: 0, zoom: 1 }, width: 400 });
+    expect(drawScene).toHaveBeenCalledTimes(1);
+
+    flushSceneCanvas(scene);
+    expect(drawScene).toHaveBeenCalledTimes(2);
+    expect(drawScene.mock.calls[1][2]).toMatchObject({ offsetX: 30 });
+
+    jest.advanceTimersByTime(PAN_REPAINT_DELAY_MS);
+    flushSceneCanvas(scene);
+    expect(drawScene).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,175 @@
+// src/whiteboard/arrange.ts
+
+import type { ObjectId, ObjectUpdate, WhiteboardObject } from '../domain/types';
+import { expandSelectionToGroups } from '../domain/groups';
+import { getBoundingBox } from './geometry';
+import { getShape, translateObject } from './tools/shapeRegistry';
+import type { Bounds } from './geometry/types';
+
+/**
+ * Align / distribute / tidy commands for a multi-selection.
+ *
+ * A group moves as one unit. Locked objects and connectors are never moved:
+ * connectors follow the objects they are attached to.
+ */
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export type ArrangeCommand =
+  | { kind: 'align'; mode: AlignMode }
+  | { kind: 'distribute'; axis: 'x' | 'y' }
+  | { kind: 'tidy' };
+
+/** World units between cells when tidying into a grid. */
+export const TIDY_GAP = 24;
+
+type ArrangeUnit = {
+  members: WhiteboardObject[];
+  bounds: Bounds;
+};
+
+function unionBounds(boxes: Bounds[]): Bounds | null {
+  if (boxes.length === 0) return null;
+  const minX = Math.min(...boxes.map((b) => b.x));
+  const minY = Math.min(...boxes.map((b) => b.y));
+  const maxX = Math.max(...boxes.map((b) => b.x + b.width));
+  const maxY = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * The movable units of a selection: one per group, one per other object.
+ */
+export function getArrangeUnits(objects: WhiteboardObject[], selectedIds: ObjectId[]): ArrangeUnit[] {
+  const ids = new Set(expandSelectionToGroups(objects, selectedIds));
+  const byKey = new Map<string, WhiteboardObject[]>();
+
+  for (const obj of objects) {
+    if (!ids.has(obj.id) || obj.locked) continue;
+    if (getShape(obj.type)?.boundsDependOnObjects) continue;
+    const key = obj.groupId ? `group:${obj.groupId}` : `object:${obj.id}`;
+    const list = byKey.get(key);
+    if (list) list.push(obj);
+    else byKey.set(key, [obj]);
+  }
+
+  const units: ArrangeUnit[] = [];
+  for (const members of byKey.values()) {
+    const bounds = unionBounds(
+      members.map((m) => getBoundingBox(m, objects)).filter((b): b is Bounds => !!b)
+    );
+    if (bounds) units.push({ members, bounds });
+  }
+  return units;
+}
+
+/** Smallest number of units each command needs to do anything. */
+export function getArrangeMinUnits(command: ArrangeCommand): number {
+  return command.kind === 'distribute' ? 3 : 2;
+}
+
+function alignDelta(b: Bounds, frame: Bounds, mode: AlignMode): { dx: number; dy: number } {
+  switch (mode) {
+    case 'left':
+      return { dx: frame.x - b.x, dy: 0 };
+    case 'center':
+      return { dx: frame.x + frame.width / 2 - (b.x + b.width / 2), dy: 0 };
+    case 'right':
+      return { dx: frame.x + frame.width - (b.x + b.width), dy: 0 };
+    case 'top':
+      return { dx: 0, dy: frame.y - b.y };
+    case 'middle':
+      return { dx: 0, dy: frame.y + frame.height / 2 - (b.y + b.height / 2) };
+    case 'bottom':
+      return { dx: 0, dy: frame.y + frame.height - (b.y + b.height) };
+  }
+}
+
+/**
+ * Equal gaps between units along `axis`; the outermost units stay put.
+ */
+function distributeDeltas(units: ArrangeUnit[], axis: 'x' | 'y'): Map<ArrangeUnit, { dx: number; dy: number }> {
+  const start = (b: Bounds) => (axis === 'x' ? b.x : b.y);
+  const size = (b: Bounds) => (axis === 'x' ? b.width : b.height);
+  const center = (b: Bounds) => start(b) + size(b) / 2;
+
+  const sorted = [...units].sort((a, b) => center(a.bounds) - center(b.bounds));
+  const first = sorted[0].bounds;
+  const last = sorted[sorted.length - 1].bounds;
+  const total = sorted.reduce((sum, u) => sum + size(u.bounds), 0);
+  const gap = (start(last) + size(last) - start(first) - total) / (sorted.length - 1);
+
+  const deltas = new Map<ArrangeUnit, { dx: number; dy: number }>();
+  let cursor = start(first);
+  for (const unit of sorted) {
+    const d = cursor - start(unit.bounds);
+    deltas.set(unit, axis === 'x' ? { dx: d, dy: 0 } : { dx: 0, dy: d });
+    cursor += size(unit.bounds) + gap;
+  }
+  return deltas;
+}
+
+/**
+ * Reading order: units whose top lies above the middle of a row's first unit share
+ * that row; rows go top to bottom, units left to right.
+ */
+function sortInReadingOrder(units: ArrangeUnit[]): ArrangeUnit[] {
+  const byTop = [...units].sort((a, b) => a.bounds.y - b.bounds.y);
+  const rows: ArrangeUnit[][] = [];
+  for (const unit of byTop) {
+    const row = rows[rows.length - 1];
+    const head = row?.[0].bounds;
+    if (head && unit.bounds.y < head.y + head.height / 2) row.push(unit);
+    else rows.push([unit]);
+  }
+  return rows.flatMap((row) => row.sort((a, b) => a.bounds.x - b.bounds.x));
+}
+
+/**
+ * Lay units out in reading order on a near-square grid of equal cells, starting at
+ * the selection's top-left corner.
+ */
+function tidyDeltas(units: ArrangeUnit[], frame: Bounds): Map<ArrangeUnit, { dx: number; dy: number }> {
+  const sorted = sortInReadingOrder(units);
+  const columns = Math.ceil(Math.sqrt(sorted.length));
+  const cellWidth = Math.max(...sorted.map((u) => u.bounds.width)) + TIDY_GAP;
+  const cellHeight = Math.max(...sorted.map((u) => u.bounds.height)) + TIDY_GAP;
+
+  const deltas = new Map<ArrangeUnit, { dx: number; dy: number }>();
+  sorted.forEach((unit, i) => {
+    const x = frame.x + (i % columns) * cellWidth;
+    const y = frame.y + Math.floor(i / columns) * cellHeight;
+    deltas.set(unit, { dx: x - unit.bounds.x, dy: y - unit.bounds.y });
+  });
+  return deltas;
+}
+
+/**
+ * Patches that apply `command` to the selection (only objects that actually move).
+ */
+export function getArrangeUpdates(
+  objects: WhiteboardObject[],
+  selectedIds: ObjectId[],
+  command: ArrangeCommand
+): ObjectUpdate[] {
+  const units = getArrangeUnits(objects, selectedIds);
+  if (units.length < getArrangeMinUnits(command)) return [];
+
+  const frame = unionBounds(units.map((u) => u.bounds))!;
+  const deltas =
+    command.kind === 'align'
+      ? new Map(units.map((u) => [u, alignDelta(u.bounds, frame, command.mode)] as const))
+      : command.kind === 'distribute'
+        ? distributeDeltas(units, command.axis)
+        : tidyDeltas(units, frame);
+
+  const updates: ObjectUpdate[] = [];
+  for (const [unit, { dx, dy }] of deltas) {
+    if (Math.abs(dx) < 1e-6 && Math.abs(dy) < 1e-6) continue;
+    for (const member of unit.members) {
+      const patch = translateObject(member, dx, dy);
+      if (patch) updates.push({ objectId: member.id, patch });
+    }
+  }
+  return updates;
+}
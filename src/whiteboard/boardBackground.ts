@@ -0,0 +1,109 @@
+// src/whiteboard/boardBackground.ts
+import type { BoardBackground, Viewport } from '../domain/types';
+
+/** Pattern lines/dots closer than this on screen are thinned out by doubling the step. */
+const MIN_PATTERN_SPACING_PX = 8;
+
+const PATTERN_COLOR = 'rgba(148, 163, 184, 0.22)';
+const DOT_COLOR = 'rgba(148, 163, 184, 0.45)';
+
+/**
+ * On-screen spacing of the background pattern for the given zoom.
+ * The world grid stays fixed; only the visible step doubles when it gets too dense.
+ */
+export function getPatternSpacingPx(gridSize: number, zoom: number): number {
+  let spacing = gridSize * zoom;
+  if (!(spacing > 0)) return 0;
+  while (spacing < MIN_PATTERN_SPACING_PX) spacing *= 2;
+  return spacing;
+}
+
+function firstLineOffset(originPx: number, spacing: number): number {
+  const mod = originPx % spacing;
+  return mod < 0 ? mod + spacing : mod;
+}
+
+function drawLinesPattern(ctx: CanvasRenderingContext2D, ox: number, oy: number, spacing: number, width: number, height: number) {
+  ctx.strokeStyle = PATTERN_COLOR;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let x = firstLineOffset(ox, spacing); x <= width; x += spacing) {
+    ctx.moveTo(Math.round(x) + 0.5, 0);
+    ctx.lineTo(Math.round(x) + 0.5, height);
+  }
+  for (let y = firstLineOffset(oy, spacing); y <= height; y += spacing) {
+    ctx.moveTo(0, Math.round(y) + 0.5);
+    ctx.lineTo(width, Math.round(y) + 0.5);
+  }
+  ctx.stroke();
+}
+
+function drawDotsPattern(ctx: CanvasRenderingContext2D, ox: number, oy: number, spacing: number, width: number, height: number) {
+  const r = spacing >= 24 ? 1.5 : 1;
+  ctx.fillStyle = DOT_COLOR;
+  for (let x = firstLineOffset(ox, spacing); x <= width; x += spacing) {
+    for (let y = firstLineOffset(oy, spacing); y <= height; y += spacing) {
+      ctx.fillRect(x - r, y - r, r * 2, r * 2);
+    }
+  }
+}
+
+/**
+ * Isometric grid: vertical lines plus two families at ±30°, all anchored to the world origin.
+ * `spacing` is the triangle side length in canvas px.
+ */
+function drawIsometricPattern(ctx: CanvasRenderingContext2D, ox: number, oy: number, spacing: number, width: number, height: number) {
+  const colStep = (spacing * Math.sqrt(3)) / 2;
+  const slope = Math.tan(Math.PI / 6);
+
+  ctx.strokeStyle = PATTERN_COLOR;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+
+  for (let x = firstLineOffset(ox, colStep); x <= width; x += colStep) {
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+  }
+
+  for (const m of [slope, -slope]) {
+    // Lines y = m*x + c; c steps by `spacing`, anchored at the world origin.
+    const corners = [0, -m * width, height, height - m * width];
+    const cMin = Math.min(...corners);
+    const cMax = Math.max(...corners);
+    const anchor = oy - m * ox;
+    for (let c = anchor - Math.ceil((anchor - cMin) / spacing) * spacing; c <= cMax; c += spacing) {
+      ctx.moveTo(0, c);
+      ctx.lineTo(width, m * width + c);
+    }
+  }
+
+  ctx.stroke();
+}
+
+/**
+ * Draw the board background pattern in canvas coordinates. Scales with zoom and
+ * moves with the viewport so the pattern stays fixed to the world.
+ */
+export function drawBoardBackground(
+  ctx: CanvasRenderingContext2D,
+  viewport: Viewport,
+  width: number,
+  height: number,
+  background: BoardBackground,
+  gridSize: number
+): void {
+  if (background === 'none') return;
+
+  const zoom = viewport.zoom ?? 1;
+  const spacing = getPatternSpacingPx(gridSize, zoom);
+  if (spacing <= 0) return;
+
+  const ox = (viewport.offsetX ?? 0) * zoom;
+  const oy = (viewport.offsetY ?? 0) * zoom;
+
+  ctx.save();
+  if (background === 'lines') drawLinesPattern(ctx, ox, oy, spacing, width, height);
+  else if (background === 'dots') drawDotsPattern(ctx, ox, oy, spacing, width, height);
+  else if (background === 'isometric') drawIsometricPattern(ctx, ox, oy, spacing, width, height);
+  ctx.restore();
+}
@@ -15,6 +15,13 @@ import type { EditablePropKey } from './tools/selection/types';
 
 export type ToolInstanceId = string;
 
+/** Toolbox flyouts: tools in a group are listed in its flyout instead of the tool grid. */
+export type ToolGroupId = 'moreShapes';
+
+export const TOOL_GROUPS: Record<ToolGroupId, { label: string; icon: string }> = {
+  moreShapes: { label: 'More shapes', icon: '⬠' },
+};
+
 export type ToolInstanceDefinition = {
   /** Unique id for this entry in the toolbox (enables presets, duplicates, etc.). */
   id: ToolInstanceId;
@@ -26,6 +33,8 @@ export type ToolInstanceDefinition = {
   icon?: string;
   /** Optional defaults for this tool instance (used in later steps). */
   defaults?: Partial<WhiteboardObject>;
+  /** Optional flyout the tool is listed in (see TOOL_GROUPS). */
+  group?: ToolGroupId;
 };
 
 export type BoardTypePolicy = {
@@ -76,6 +85,10 @@ function preset(
   return { id: instanceId, baseToolId, label, icon, defaults };
 }
 
+function inGroup(group: ToolGroupId, tools: ToolInstanceDefinition[]): ToolInstanceDefinition[] {
+  return tools.map((t) => ({ ...t, group }));
+}
+
 /**
  * Single source of truth for board types.
  *
@@ -108,9 +121,20 @@ export const BOARD_TYPES: Record<BoardTypeId, BoardTypeDefinition> = {
       tool('roundedRect', 'Rounded rect', '▢'),
       tool('ellipse', 'Ellipse', '⬭'),
       tool('diamond', 'Diamond', '◇'),
+      ...inGroup('moreShapes', [
+        tool('triangle', 'Triangle', '△'),
+        tool('hexagon', 'Hexagon', '⬡'),
+        tool('parallelogram', 'Parallelogram', '▱'),
+        tool('cylinder', 'Cylinder', '🛢'),
+        tool('cloud', 'Cloud', '☁'),
+        tool('star', 'Star', '☆'),
+        tool('blockArrow', 'Block arrow', '⇨'),
+      ]),
       tool('connector', 'Connector', '🔗'),
       tool('text', 'Text', '🔤'),
       tool('stickyNote', 'Sticky note', '🗒'),
+      tool('eraser', 'Eraser', '🧽'),
+      tool('laser', 'Laser pointer', '🔴'),
       tool('select', 'Select', '🖱'),
     ],
   },
@@ -119,14 +143,19 @@ export const BOARD_TYPES: Record<BoardTypeId, BoardTypeDefinition> = {
     id: 'freehand',
     label: 'Freehand',
     description: 'Only freehand drawing + selection.',
-    toolbox: [tool('freehand', 'Freehand', '✏️'), tool('select', 'Select', '🖱')],
+    toolbox: [tool('freehand', 'Freehand', '✏️'), tool('eraser', 'Eraser', '🧽'), tool('laser', 'Laser pointer', '🔴'), tool('select', 'Select', '🖱')],
   },
 
   mindmap: {
     id: 'mindmap',
     label: 'Mindmap',
-    description: 'Simplified tools for ideation (sticky notes + connector + selection).',
-    toolbox: [tool('stickyNote', 'Sticky note', '🗒'), tool('connector', 'Connector', '🔗'), tool('select', 'Select', '🖱')],
+    description: 'Simplified tools for ideation (sticky notes + connector + laser pointer + selection).',
+    toolbox: [
+      tool('stickyNote', 'Sticky note', '🗒'),
+      tool('connector', 'Connector', '🔗'),
+      tool('laser', 'Laser pointer', '🔴'),
+      tool('select', 'Select', '🖱'),
+    ],
     policy: {
       // Example policy: simplify sticky notes by hiding and locking some style controls.
       hiddenToolProps: {
@@ -141,6 +170,8 @@ export const BOARD_TYPES: Record<BoardTypeId, BoardTypeDefinition> = {
           fillColor: '#fef08a', // soft yellow
           strokeColor: '#0f172a',
           textColor: '#0f172a',
+          // Ideas stay readable: notes grow instead of shrinking or hiding text.
+          textFit: 'grow',
         },
       },
     },
@@ -214,13 +245,20 @@ export function getLockedEditableKeys(locked: Partial<WhiteboardObject>): Set<Ed
     [
       'strokeColor',
       'strokeWidth',
+      'strokeDash',
+      'strokeOpacity',
       'fillColor',
+      'fillOpacity',
       'textColor',
       'fontSize',
       'cornerRadius',
+      'textFit',
+      'textAlign',
+      'textVerticalAlign',
       'text',
       'arrowStart',
       'arrowEnd',
+      'routing',
     ] as const
   ).forEach((k) => {
     if (hasOwn(locked, k)) keys.push(k);
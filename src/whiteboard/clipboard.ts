@@ -1,6 +1,7 @@
 // src/whiteboard/clipboard.ts
 
 import type {
+  GroupId,
   ObjectId,
   WhiteboardClipboardV1,
   WhiteboardObject,
@@ -10,6 +11,7 @@ import type {
   Point,
 } from '../domain/types';
 
+import { expandSelectionToGroups, generateGroupId as defaultGenerateGroupId } from '../domain/groups';
 import { canvasToWorld, getBoundingBox } from './geometry';
 
 export type CanvasSize = {
@@ -43,6 +45,8 @@ export type PasteClipboardArgs = {
   offsetCanvasPx?: number;
   /** Optional ID generator, used for deterministic tests. */
   generateObjectId?: () => ObjectId;
+  /** Optional group ID generator, used for deterministic tests. */
+  generateGroupId?: () => GroupId;
 };
 
 export type PasteClipboardResult = {
@@ -215,8 +219,39 @@ function remapConnectorReferences(args: {
   };
 }
 
+/**
+ * Give every pasted group a fresh id so the copy is a separate group.
+ * Groups with a single pasted member (e.g. a dropped cross-board connector) are dissolved.
+ */
+function remapGroups(
+  objects: WhiteboardObject[],
+  used: Set<GroupId>,
+  generateGroupId: () => GroupId
+): WhiteboardObject[] {
+  const counts = new Map<GroupId, number>();
+  for (const o of objects) {
+    if (o.groupId) counts.set(o.groupId, (counts.get(o.groupId) ?? 0) + 1);
+  }
+
+  const groupMap = new Map<GroupId, GroupId>();
+  return objects.map((o) => {
+    if (!o.groupId) return o;
+    if (counts.get(o.groupId) === 1) {
+      const { groupId: _groupId, ...rest } = o;
+      return rest;
+    }
+    let nextGroupId = groupMap.get(o.groupId);
+    if (!nextGroupId) {
+      nextGroupId = generateUniqueId(used, generateGroupId);
+      groupMap.set(o.groupId, nextGroupId);
+    }
+    return { ...o, groupId: nextGroupId };
+  });
+}
+
 /**
  * Create a clipboard payload from the current selection.
+ * Selecting part of a group copies the whole group.
  * Returns null if there is no selection.
  */
 export function createClipboardFromSelection({
@@ -225,7 +260,7 @@ export function createClipboardFromSelection({
   selectedIds,
   nowIso,
 }: CreateClipboardArgs): WhiteboardClipboardV1 | null {
-  const selectedSet = new Set(selectedIds);
+  const selectedSet = new Set(expandSelectionToGroups(objects, selectedIds));
   const selectedObjects = objects.filter((o) => selectedSet.has(o.id));
   if (selectedObjects.length === 0) return null;
 
@@ -257,6 +292,7 @@ export function createClipboardFromSelection({
  *   in the clipboard; otherwise:
  *   - same-board paste keeps references to existing objects
  *   - cross-board paste skips connectors that reference outside the clipboard
+ * - Grouped objects are pasted as a new group.
  */
 export function pasteClipboard({
   clipboard,
@@ -266,6 +302,7 @@ export function pasteClipboard({
   existingIds,
   offsetCanvasPx = 20,
   generateObjectId = defaultGenerateObjectId,
+  generateGroupId = defaultGenerateGroupId,
 }: PasteClipboardArgs): PasteClipboardResult {
   const used = new Set<ObjectId>(Array.from(existingIds));
 
@@ -311,6 +348,12 @@ export function pasteClipboard({
     pastedObjects.push(translateObject(remappedOrNull, dx, dy));
   }
 
+  const usedGroupIds = new Set<GroupId>();
+  for (const o of clipboard.objects) {
+    if (o.groupId) usedGroupIds.add(o.groupId);
+  }
+  const groupedObjects = remapGroups(pastedObjects, usedGroupIds, generateGroupId);
+
   const pastedIdSet = new Set(pastedObjects.map((o) => o.id));
   const selectedIds = clipboard.objects
     .map((o) => idMap.get(o.id)!)
@@ -324,7 +367,7 @@ export function pasteClipboard({
   };
 
   return {
-    objects: pastedObjects,
+    objects: groupedObjects,
     selectedIds,
     nextClipboard,
   };
@@ -1,12 +1,26 @@
 // src/whiteboard/drawing.ts
-import type {WhiteboardObject, Viewport, Point, ObjectId, Attachment, WhiteboardObjectType, ArrowType} from '../domain/types';
+import type {WhiteboardObject, Viewport, Point, ObjectId, Attachment, WhiteboardObjectType, ArrowType, ConnectorRouting} from '../domain/types';
 import {
   worldToCanvas,
-  getBoundingBox,
+  canvasToWorld,
   getHandlePositions,
-  resolveConnectorEndpoints
+  getRotateHandleCanvasPosition,
+  getBoundingBox,
+  getSelectionFrame,
+  getConnectorPath
 } from './geometry';
 import { getShape } from './tools/shapeRegistry';
+import { queryObjectsInBounds } from './geometry/spatialIndex';
+import { drawCollapsedBox, isTinyOnScreen } from './tools/_shared/levelOfDetail';
+import { getFillOpacity, getStrokeOpacity } from './tools/_shared/strokeStyle';
+import type { Bounds } from './geometry/types';
+import type { AlignmentGuides } from './geometry/alignment';
+import type { EraserMode, MarqueeMode } from './whiteboardTypes';
+import { getObjectsBounds } from './geometry/selectionTransform';
+import { MAX_SELECTION_IDS } from '../collab/protocol/limits';
+import type { ImageCache } from './tools/image/imageCache';
+import { getConnectorHandles } from './tools/connector/interactions';
+import { getPlacedPathLabels, hitTestPathLabels } from './tools/_shared/pathLabels';
 
 
 export type DraftBase = {
@@ -36,6 +50,8 @@ export type DraftShape =
   | (DraftBase & {
       kind: 'freehand';
       points: Point[];
+      /** Pen pressure per point (0..1), only when drawn with a pen. */
+      pressures?: number[];
     })
   | (DraftBase & {
       kind: 'rectangle' | 'ellipse';
@@ -54,6 +70,7 @@ export type DraftShape =
       toObjectId?: ObjectId;
       toAttachment?: Attachment;
       toPoint?: Point;
+      routing?: ConnectorRouting;
     });
 
 /**
@@ -64,7 +81,8 @@ export function drawObject(
   obj: WhiteboardObject,
   viewport: Viewport,
   fallbackStrokeColor: string,
-  allObjects?: WhiteboardObject[]
+  allObjects?: WhiteboardObject[],
+  images?: ImageCache
 ): void {
   // Keep shared canvas defaults here; per-tool drawing lives in tool modules.
   ctx.lineJoin = 'round';
@@ -74,9 +92,24 @@ export function drawObject(
   if (obj.type === 'connector' && !allObjects) return;
 
   const shape = getShape(obj.type);
+
+  // Level of detail: objects only a few pixels across collapse to a filled box.
+  if (!shape.boundsDependOnObjects) {
+    const bounds = shape.getBoundingBox(obj);
+    if (bounds && isTinyOnScreen(bounds, viewport.zoom ?? 1)) {
+      const fill = obj.fillColor && obj.fillColor !== 'transparent' ? obj.fillColor : undefined;
+      ctx.save();
+      ctx.globalAlpha *= fill ? getFillOpacity(obj) : getStrokeOpacity(obj);
+      drawCollapsedBox(ctx, bounds, viewport, fill ?? obj.strokeColor ?? fallbackStrokeColor);
+      ctx.restore();
+      return;
+    }
+  }
+
   shape.draw(ctx, obj, viewport, {
     objects: allObjects,
     fallbackStrokeColor,
+    images,
   });
 
 }
@@ -85,13 +118,15 @@ function drawConnectorSelection(
   ctx: CanvasRenderingContext2D,
   obj: WhiteboardObject,
   objects: WhiteboardObject[],
-  viewport: Viewport
+  viewport: Viewport,
+  withHandles: boolean
 ): void {
-  const endpoints = resolveConnectorEndpoints(objects, obj);
-  if (!endpoints) return;
+  const path = getConnectorPath(objects, obj);
+  if (!path) return;
 
-  const a = worldToCanvas(endpoints.p1.x, endpoints.p1.y, viewport);
-  const b = worldToCanvas(endpoints.p2.x, endpoints.p2.y, viewport);
+  const points = path.map((p) => worldToCanvas(p.x, p.y, viewport));
+  const a = points[0];
+  const b = points[points.length - 1];
 
   ctx.save();
   ctx.lineJoin = 'round';
@@ -103,7 +138,7 @@ function drawConnectorSelection(
   ctx.setLineDash([6, 4]);
   ctx.beginPath();
   ctx.moveTo(a.x, a.y);
-  ctx.lineTo(b.x, b.y);
+  for (let i = 1; i < points.length; i++) ctx.lineTo(points[i].x, points[i].y);
   ctx.stroke();
 
   // Endpoints
@@ -120,6 +155,29 @@ function drawConnectorSelection(
     ctx.stroke();
   }
 
+  // Waypoints (filled) and segment midpoints (hollow, drag to add a waypoint).
+  // Midpoints under a label are left out: dragging there moves the label.
+  const handles = withHandles && !obj.locked ? getConnectorHandles(objects, obj) : null;
+  if (handles) {
+    const labels = getPlacedPathLabels(obj, path);
+    ctx.fillStyle = '#38bdf8';
+    for (const w of handles.waypoints) {
+      const p = worldToCanvas(w.x, w.y, viewport);
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, r, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.fillStyle = '#ffffff';
+    for (const m of handles.midpoints) {
+      if (hitTestPathLabels(labels, m.x, m.y) !== null) continue;
+      const p = worldToCanvas(m.x, m.y, viewport);
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, r - 1.5, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    }
+  }
+
   ctx.restore();
 }
 
@@ -169,32 +227,26 @@ function drawLineSelection(
 }
 
 /**
- * Draw selection rectangle + resize handles for a given object (if applicable).
+ * Dashed selection frame around `bounds`, optionally turned by `rotation` (degrees)
+ * around its centre, with resize and/or rotate handles.
  */
-export function drawSelectionOutlineAndHandles(
+function drawSelectionFrame(
   ctx: CanvasRenderingContext2D,
-  obj: WhiteboardObject,
+  bounds: Bounds,
   viewport: Viewport,
-  allObjects?: WhiteboardObject[]
+  options: { rotation?: number; resizeHandles?: boolean; rotateHandle?: boolean; dash?: number[] }
 ): void {
-  // Special-case connectors: highlight the line + endpoints (no resize handles).
-  if (obj.type === 'connector') {
-    if (!allObjects) return;
-    drawConnectorSelection(ctx, obj, allObjects, viewport);
-    return;
-  }
+  const toCanvas = (x: number, y: number) => worldToCanvas(x, y, viewport);
 
-  // Special-case straight lines: highlight the line + endpoints (no bounding box, no resize handles).
-  if (obj.type === 'line') {
-    drawLineSelection(ctx, obj, viewport);
-    return;
+  // Rotated shapes: draw the outline and handles on the unrotated box, turned with the object.
+  ctx.save();
+  if (options.rotation) {
+    const c = toCanvas(bounds.x + bounds.width / 2, bounds.y + bounds.height / 2);
+    ctx.translate(c.x, c.y);
+    ctx.rotate((options.rotation * Math.PI) / 180);
+    ctx.translate(-c.x, -c.y);
   }
 
-  const bounds = getBoundingBox(obj);
-  if (!bounds) return;
-
-  const toCanvas = (x: number, y: number) => worldToCanvas(x, y, viewport);
-
   const margin = 4;
   const tl = toCanvas(bounds.x - margin, bounds.y - margin);
   const br = toCanvas(
@@ -208,58 +260,357 @@ export function drawSelectionOutlineAndHandles(
   ctx.save();
   ctx.strokeStyle = '#38bdf8';
   ctx.lineWidth = 1;
-  ctx.setLineDash([4, 3]);
+  ctx.setLineDash(options.dash ?? [4, 3]);
   ctx.strokeRect(tl.x, tl.y, wDraw, hDraw);
   ctx.restore();
 
-  // Resize handles for shapes that support resize.
+  if (options.rotateHandle) {
+    drawRotateHandle(ctx, bounds, viewport);
+  }
+
+  if (options.resizeHandles) {
+    const HANDLE_SIZE = 10;
+    const handlePositions = getHandlePositions(bounds);
+
+    ctx.save();
+    ctx.setLineDash([]);
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = '#38bdf8';
+
+    for (const pos of Object.values(handlePositions)) {
+      const c = toCanvas(pos.x, pos.y);
+      ctx.beginPath();
+      ctx.rect(
+        c.x - HANDLE_SIZE / 2,
+        c.y - HANDLE_SIZE / 2,
+        HANDLE_SIZE,
+        HANDLE_SIZE
+      );
+      ctx.fillStyle = '#ffffff';
+      ctx.fill();
+      ctx.stroke();
+    }
+
+    ctx.restore();
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Draw selection rectangle + resize handles for a given object (if applicable).
+ * Pass `handles: false` for members of a multi-object selection.
+ */
+export function drawSelectionOutlineAndHandles(
+  ctx: CanvasRenderingContext2D,
+  obj: WhiteboardObject,
+  viewport: Viewport,
+  allObjects?: WhiteboardObject[],
+  options: { handles?: boolean } = {}
+): void {
+  // Special-case connectors: highlight the line + endpoints (no resize handles).
+  if (obj.type === 'connector') {
+    if (!allObjects) return;
+    drawConnectorSelection(ctx, obj, allObjects, viewport, options.handles ?? true);
+    return;
+  }
+
+  // Special-case straight lines: highlight the line + endpoints (no bounding box, no resize handles).
+  if (obj.type === 'line') {
+    drawLineSelection(ctx, obj, viewport);
+    return;
+  }
+
+  const frame = getSelectionFrame(obj);
+  if (!frame) return;
+
+  // Resize/rotate handles for shapes that support them.
   // This is registry-driven so the core drawing code does not need to special-case types.
+  // Locked objects get the outline only.
   const shape = getShape(obj.type);
-  if (!shape.resize) return;
+  const handles = (options.handles ?? true) && !obj.locked;
+  drawSelectionFrame(ctx, frame.bounds, viewport, {
+    rotation: frame.rotation,
+    resizeHandles: handles && !!shape.resize,
+    rotateHandle: handles && !!shape.rotatable,
+  });
+}
 
-  const HANDLE_SIZE = 10;
-  const handlePositions = getHandlePositions(bounds);
+function drawRotateHandle(ctx: CanvasRenderingContext2D, bounds: Bounds, viewport: Viewport): void {
+  const top = worldToCanvas(bounds.x + bounds.width / 2, bounds.y, viewport);
+  const knob = getRotateHandleCanvasPosition(bounds, viewport);
 
   ctx.save();
   ctx.setLineDash([]);
   ctx.lineWidth = 1;
   ctx.strokeStyle = '#38bdf8';
+  ctx.beginPath();
+  ctx.moveTo(top.x, top.y);
+  ctx.lineTo(knob.x, knob.y);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.arc(knob.x, knob.y, 5, 0, Math.PI * 2);
+  ctx.fillStyle = '#ffffff';
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Extra canvas-space margin kept around the visible area when culling, so
+ * strokes, arrowheads and text that overhang their bounds are not clipped.
+ */
+const CULL_MARGIN_PX = 64;
+
+/**
+ * World-space rectangle visible in a canvas of the given size (plus cull margin).
+ */
+export function getVisibleWorldBounds(
+  viewport: Viewport,
+  viewSize: { width: number; height: number }
+): Bounds {
+  const tl = canvasToWorld(-CULL_MARGIN_PX, -CULL_MARGIN_PX, viewport);
+  const br = canvasToWorld(viewSize.width + CULL_MARGIN_PX, viewSize.height + CULL_MARGIN_PX, viewport);
+  return { x: tl.x, y: tl.y, width: br.x - tl.x, height: br.y - tl.y };
+}
 
-  for (const pos of Object.values(handlePositions)) {
-    const c = toCanvas(pos.x, pos.y);
+/**
+ * Draw all objects (the cached scene layer).
+ *
+ * When `viewSize` (canvas size in CSS pixels) is provided, objects outside the
+ * visible area are skipped using the spatial index.
+ */
+export function drawSceneObjects(
+  ctx: CanvasRenderingContext2D,
+  objects: WhiteboardObject[],
+  viewport: Viewport,
+  fallbackStrokeColor: string,
+  viewSize?: { width: number; height: number },
+  images?: ImageCache
+): void {
+  const visible = viewSize
+    ? queryObjectsInBounds(objects, getVisibleWorldBounds(viewport, viewSize))
+    : objects;
+
+  for (const obj of visible) {
+    drawObject(ctx, obj, viewport, fallbackStrokeColor, objects, images);
+  }
+}
+
+/**
+ * Draw selection outlines + handles (part of the overlay layer).
+ */
+export function drawSelectionOverlays(
+  ctx: CanvasRenderingContext2D,
+  objects: WhiteboardObject[],
+  selectedObjectIds: ObjectId[],
+  viewport: Viewport
+): void {
+  const single = selectedObjectIds.length === 1;
+  for (const obj of objects) {
+    if (!selectedObjectIds.includes(obj.id)) continue;
+    drawSelectionOutlineAndHandles(ctx, obj, viewport, objects, { handles: single });
+  }
+
+  // A multi-selection (or group) gets one frame around all members; it can only be
+  // resized as a whole when nothing in it is locked and it fits in one batch event.
+  if (!single && selectedObjectIds.length > 0) {
+    const selected = objects.filter((o) => selectedObjectIds.includes(o.id));
+    const bounds = getObjectsBounds(selected);
+    const resizeHandles = selected.length <= MAX_SELECTION_IDS && !selected.some((o) => o.locked);
+    if (bounds) drawSelectionFrame(ctx, bounds, viewport, { resizeHandles, dash: [] });
+  }
+}
+
+const LOCK_BADGE_SIZE = 14;
+
+function drawLockBadge(ctx: CanvasRenderingContext2D, x: number, y: number): void {
+  const s = LOCK_BADGE_SIZE;
+
+  ctx.save();
+  ctx.setLineDash([]);
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.85)';
+  ctx.beginPath();
+  ctx.arc(x, y, s * 0.75, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Padlock: shackle arc over a small body.
+  ctx.strokeStyle = '#e2e8f0';
+  ctx.fillStyle = '#e2e8f0';
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.arc(x, y - s * 0.1, s * 0.2, Math.PI, 0);
+  ctx.stroke();
+  ctx.fillRect(x - s * 0.3, y - s * 0.1, s * 0.6, s * 0.42);
+  ctx.restore();
+}
+
+/**
+ * Draw a lock badge at the top-right corner of every visible locked object
+ * (overlay layer, so exports stay clean).
+ */
+export function drawLockBadges(
+  ctx: CanvasRenderingContext2D,
+  objects: WhiteboardObject[],
+  viewport: Viewport,
+  viewSize?: { width: number; height: number }
+): void {
+  const visible = viewSize
+    ? queryObjectsInBounds(objects, getVisibleWorldBounds(viewport, viewSize))
+    : objects;
+
+  for (const obj of visible) {
+    if (!obj.locked) continue;
+    const bounds = getBoundingBox(obj, objects);
+    if (!bounds) continue;
+    const corner = worldToCanvas(bounds.x + bounds.width, bounds.y, viewport);
+    drawLockBadge(ctx, corner.x, corner.y);
+  }
+}
+
+/**
+ * Draw the marquee selection rectangle. 'touch' mode is dashed so the two modes
+ * can be told apart while dragging.
+ */
+export function drawMarquee(
+  ctx: CanvasRenderingContext2D,
+  bounds: Bounds,
+  viewport: Viewport,
+  mode: MarqueeMode
+): void {
+  const tl = worldToCanvas(bounds.x, bounds.y, viewport);
+  const br = worldToCanvas(bounds.x + bounds.width, bounds.y + bounds.height, viewport);
+
+  ctx.save();
+  ctx.fillStyle = 'rgba(56, 189, 248, 0.08)';
+  ctx.fillRect(tl.x, tl.y, br.x - tl.x, br.y - tl.y);
+  ctx.strokeStyle = '#38bdf8';
+  ctx.lineWidth = 1;
+  ctx.setLineDash(mode === 'touch' ? [5, 4] : []);
+  ctx.strokeRect(tl.x, tl.y, br.x - tl.x, br.y - tl.y);
+  ctx.restore();
+}
+
+/** Eraser gesture in progress (world coords). */
+export type EraserPreview = {
+  path: Point[];
+  touchedIds: ObjectId[];
+  radius: number;
+  mode: EraserMode;
+};
+
+/**
+ * Draw the eraser trail and, in object mode, outline the objects that will be
+ * deleted when the gesture ends.
+ */
+export function drawEraserPreview(
+  ctx: CanvasRenderingContext2D,
+  eraser: EraserPreview,
+  objects: WhiteboardObject[],
+  viewport: Viewport
+): void {
+  const zoom = viewport.zoom || 1;
+  const path = eraser.path.map((p) => worldToCanvas(p.x, p.y, viewport));
+
+  ctx.save();
+  if (eraser.mode === 'object' && eraser.touchedIds.length > 0) {
+    const touched = new Set(eraser.touchedIds);
+    ctx.strokeStyle = '#f87171';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 3]);
+    for (const obj of objects) {
+      if (!touched.has(obj.id)) continue;
+      const box = getBoundingBox(obj, objects);
+      if (!box) continue;
+      const tl = worldToCanvas(box.x, box.y, viewport);
+      ctx.strokeRect(tl.x, tl.y, box.width * zoom, box.height * zoom);
+    }
+    ctx.setLineDash([]);
+  }
+
+  ctx.strokeStyle = 'rgba(248, 113, 113, 0.35)';
+  ctx.fillStyle = 'rgba(248, 113, 113, 0.35)';
+  ctx.lineWidth = eraser.radius * 2 * zoom;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  if (path.length === 1) {
     ctx.beginPath();
-    ctx.rect(
-      c.x - HANDLE_SIZE / 2,
-      c.y - HANDLE_SIZE / 2,
-      HANDLE_SIZE,
-      HANDLE_SIZE
-    );
-    ctx.fillStyle = '#ffffff';
+    ctx.arc(path[0].x, path[0].y, eraser.radius * zoom, 0, Math.PI * 2);
     ctx.fill();
+  } else {
+    ctx.beginPath();
+    ctx.moveTo(path[0].x, path[0].y);
+    for (const p of path.slice(1)) ctx.lineTo(p.x, p.y);
     ctx.stroke();
   }
+  ctx.restore();
+}
+
+const GUIDE_COLOR = '#f472b6';
+
+/**
+ * Draw smart alignment guides (edge/centre lines and equal-spacing hints) on the overlay.
+ */
+export function drawAlignmentGuides(
+  ctx: CanvasRenderingContext2D,
+  guides: AlignmentGuides,
+  viewport: Viewport
+): void {
+  const toCanvas = (x: number, y: number) => worldToCanvas(x, y, viewport);
+  const TICK = 4;
+
+  ctx.save();
+  ctx.strokeStyle = GUIDE_COLOR;
+  ctx.lineWidth = 1;
+  ctx.setLineDash([]);
+
+  ctx.beginPath();
+  for (const line of guides.lines) {
+    const a = line.axis === 'x' ? toCanvas(line.position, line.start) : toCanvas(line.start, line.position);
+    const b = line.axis === 'x' ? toCanvas(line.position, line.end) : toCanvas(line.end, line.position);
+    ctx.moveTo(a.x, a.y);
+    ctx.lineTo(b.x, b.y);
+  }
+  ctx.stroke();
+
+  // Equal-spacing hints: each gap drawn as a measured segment with end ticks.
+  ctx.beginPath();
+  for (const hint of guides.spacing) {
+    for (const gap of hint.gaps) {
+      const a = hint.axis === 'x' ? toCanvas(gap.start, hint.cross) : toCanvas(hint.cross, gap.start);
+      const b = hint.axis === 'x' ? toCanvas(gap.end, hint.cross) : toCanvas(hint.cross, gap.end);
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      for (const p of [a, b]) {
+        if (hint.axis === 'x') {
+          ctx.moveTo(p.x, p.y - TICK);
+          ctx.lineTo(p.x, p.y + TICK);
+        } else {
+          ctx.moveTo(p.x - TICK, p.y);
+          ctx.lineTo(p.x + TICK, p.y);
+        }
+      }
+    }
+  }
+  ctx.stroke();
 
   ctx.restore();
 }
 
 /**
- * Draw all objects + selection overlays.
+ * Draw all objects + selection overlays into a single context.
  */
 export function drawObjectsWithSelection(
   ctx: CanvasRenderingContext2D,
   objects: WhiteboardObject[],
   selectedObjectIds: ObjectId[],
   viewport: Viewport,
-  fallbackStrokeColor: string
+  fallbackStrokeColor: string,
+  viewSize?: { width: number; height: number }
 ): void {
-  for (const obj of objects) {
-    drawObject(ctx, obj, viewport, fallbackStrokeColor, objects);
-  }
-
-  for (const obj of objects) {
-    if (!selectedObjectIds.includes(obj.id)) continue;
-    drawSelectionOutlineAndHandles(ctx, obj, viewport, objects);
-  }
+  drawSceneObjects(ctx, objects, viewport, fallbackStrokeColor, viewSize);
+  drawSelectionOverlays(ctx, objects, selectedObjectIds, viewport);
 }
 
 /**
@@ -296,21 +647,7 @@ export function drawDraftShape(
   }
 
   if (draft.kind === 'freehand') {
-    const pts = draft.points;
-    if (pts.length > 1) {
-      ctx.strokeStyle = draft.strokeColor;
-      ctx.lineWidth = draft.strokeWidth;
-      ctx.lineJoin = 'round';
-      ctx.lineCap = 'round';
-      ctx.beginPath();
-      const first = toCanvas(pts[0].x, pts[0].y);
-      ctx.moveTo(first.x, first.y);
-      for (let i = 1; i < pts.length; i++) {
-        const p = toCanvas(pts[i].x, pts[i].y);
-        ctx.lineTo(p.x, p.y);
-      }
-      ctx.stroke();
-    }
+    getShape('freehand').drawDraft?.(ctx, draft, viewport, { fallbackStrokeColor: draft.strokeColor });
   } else {
     const draftType = (draft.toolType ?? draft.kind) as any;
     const shape = getShape(draftType);
@@ -7,12 +7,15 @@ import type {
 } from '../domain/types';
 
 import type { Bounds, ResizeHandleId } from './geometry/types';
-import { getHandlePositions, resizeBounds } from './geometry/handles';
-import { getShape, getPortsFor } from './tools/shapeRegistry';
+import { ROTATE_HANDLE_OFFSET_PX, getHandlePositions, keepAspectRatio, resizeBounds } from './geometry/handles';
+import { queryObjectsAtPoint } from './geometry/spatialIndex';
+import { canRotateObject, getObjectFrame, getShape, getPortsFor } from './tools/shapeRegistry';
+import { getBoxCenter, getRotationRad, rotatePoint } from './tools/_shared/rotation';
 
 // NOTE: Connector-specific helpers are still re-exported from the connector tool module
 // for backwards compatibility. A later step can move these behind the shape registry.
 export {
+  getConnectorPath,
   resolveAttachmentPoint,
   resolveConnectorEndpoints,
 } from './tools/connector/geometry';
@@ -73,29 +76,70 @@ export function getBoundingBox(
   return shape.getBoundingBox(obj, objects ? { objects } : undefined);
 }
 
-export { getHandlePositions, resizeBounds };
+export { getHandlePositions, keepAspectRatio, resizeBounds };
+
+const HANDLE_SIZE = 10; // px
+
+/**
+ * Box the selection handles are laid out on, and the rotation (degrees) they are
+ * drawn with. Rotated shapes keep their handles on the unrotated box, turned
+ * with the object; everything else uses the axis-aligned bounding box.
+ */
+export function getSelectionFrame(obj: WhiteboardObject): { bounds: Bounds; rotation: number } | null {
+  if (canRotateObject(obj) && getRotationRad(obj) !== 0) {
+    return { bounds: getObjectFrame(obj), rotation: obj.rotation ?? 0 };
+  }
+  const bounds = getBoundingBox(obj);
+  return bounds ? { bounds, rotation: 0 } : null;
+}
+
+/**
+ * Undo the frame rotation for a canvas point, so handles can be tested on the unrotated box.
+ */
+function toFrameCanvasPoint(
+  pointerCanvasX: number,
+  pointerCanvasY: number,
+  bounds: Bounds,
+  viewport: Viewport,
+  rotation: number
+): Point {
+  const p = { x: pointerCanvasX, y: pointerCanvasY };
+  if (!rotation) return p;
+  const c = getBoxCenter(bounds);
+  return rotatePoint(p, worldToCanvas(c.x, c.y, viewport), (-rotation * Math.PI) / 180);
+}
+
+/**
+ * Canvas position of the rotate handle for an unrotated frame (above the top edge).
+ */
+export function getRotateHandleCanvasPosition(bounds: Bounds, viewport: Viewport): Point {
+  const top = worldToCanvas(bounds.x + bounds.width / 2, bounds.y, viewport);
+  return { x: top.x, y: top.y - ROTATE_HANDLE_OFFSET_PX };
+}
 
 /**
  * Hit-testing for resize handles, using canvas pixel coordinates.
+ * `rotation` (degrees) is the frame rotation from `getSelectionFrame`.
  */
 export function hitTestResizeHandleCanvas(
   pointerCanvasX: number,
   pointerCanvasY: number,
   bounds: Bounds,
-  viewport: Viewport
+  viewport: Viewport,
+  rotation: number = 0
 ): ResizeHandleId | null {
-  const HANDLE_SIZE = 10; // px
   const half = HANDLE_SIZE / 2;
+  const p = toFrameCanvasPoint(pointerCanvasX, pointerCanvasY, bounds, viewport, rotation);
 
   const handles = getHandlePositions(bounds);
 
   for (const [id, pos] of Object.entries(handles) as [ResizeHandleId, Point][]) {
     const c = worldToCanvas(pos.x, pos.y, viewport);
     if (
-      pointerCanvasX >= c.x - half &&
-      pointerCanvasX <= c.x + half &&
-      pointerCanvasY >= c.y - half &&
-      pointerCanvasY <= c.y + half
+      p.x >= c.x - half &&
+      p.x <= c.x + half &&
+      p.y >= c.y - half &&
+      p.y <= c.y + half
     ) {
       return id;
     }
@@ -104,37 +148,58 @@ export function hitTestResizeHandleCanvas(
   return null;
 }
 
+/**
+ * Hit-testing for the rotate handle, using canvas pixel coordinates.
+ */
+export function hitTestRotateHandleCanvas(
+  pointerCanvasX: number,
+  pointerCanvasY: number,
+  bounds: Bounds,
+  viewport: Viewport,
+  rotation: number = 0
+): boolean {
+  const p = toFrameCanvasPoint(pointerCanvasX, pointerCanvasY, bounds, viewport, rotation);
+  const c = getRotateHandleCanvasPosition(bounds, viewport);
+  const r = HANDLE_SIZE / 2 + 2;
+  return (p.x - c.x) ** 2 + (p.y - c.y) ** 2 <= r * r;
+}
+
+/**
+ * Whether world point x, y is on `obj`: the shape's precise hitTest when it has
+ * one, otherwise its bounding box.
+ */
+export function hitTestObject(obj: WhiteboardObject, x: number, y: number, objects: WhiteboardObject[]): boolean {
+  const shape = getShape(obj.type);
+  if (shape.hitTest) return shape.hitTest(obj, x, y, { objects });
+
+  const box = shape.getBoundingBox(obj, { objects });
+  if (!box) return false;
+  return x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height;
+}
+
 /**
  * Hit-test objects from topmost to bottom-most.
  * x, y are world coordinates.
  *
+ * Candidates come from the spatial index, so only objects whose bounds contain
+ * the point (plus connectors) are tested.
+ *
  * Registry-driven dispatch:
  * - If the shape provides a precise hitTest, use it.
  * - Otherwise fall back to bounding-box hit testing.
+ *
+ * `accept` can rule objects out (e.g. locked objects when starting a drag);
+ * objects underneath are then considered instead.
  */
 export function hitTest(
   objects: WhiteboardObject[],
   x: number,
-  y: number
+  y: number,
+  accept?: (obj: WhiteboardObject) => boolean
 ): WhiteboardObject | null {
-  for (let i = objects.length - 1; i >= 0; i--) {
-    const obj = objects[i];
-    const shape = getShape(obj.type);
-
-    if (shape.hitTest) {
-      if (shape.hitTest(obj, x, y, { objects })) return obj;
-      continue;
-    }
-
-    const box = shape.getBoundingBox(obj, { objects });
-    if (!box) continue;
-
-    const x2 = box.x + box.width;
-    const y2 = box.y + box.height;
-
-    if (x >= box.x && x <= x2 && y >= box.y && y <= y2) {
-      return obj;
-    }
+  for (const obj of queryObjectsAtPoint(objects, x, y)) {
+    if (accept && !accept(obj)) continue;
+    if (hitTestObject(obj, x, y, objects)) return obj;
   }
 
   return null;
@@ -149,26 +214,9 @@ export function hitTestConnectable(
   x: number,
   y: number
 ): WhiteboardObject | null {
-  for (let i = objects.length - 1; i >= 0; i--) {
-    const obj = objects[i];
+  for (const obj of queryObjectsAtPoint(objects, x, y)) {
     if (!isConnectable(obj)) continue;
-
-    const shape = getShape(obj.type);
-
-    if (shape.hitTest) {
-      if (shape.hitTest(obj, x, y, { objects })) return obj;
-      continue;
-    }
-
-    const box = shape.getBoundingBox(obj, { objects });
-    if (!box) continue;
-
-    const x2 = box.x + box.width;
-    const y2 = box.y + box.height;
-
-    if (x >= box.x && x <= x2 && y >= box.y && y <= y2) {
-      return obj;
-    }
+    if (hitTestObject(obj, x, y, objects)) return obj;
   }
 
   return null;
@@ -0,0 +1,309 @@
+// src/whiteboard/geometry/alignment.ts
+
+import type { ObjectId, Viewport, WhiteboardObject } from '../../domain/types';
+import { getShape } from '../tools/shapeRegistry';
+import { queryObjectsInBounds } from './spatialIndex';
+import type { Bounds, ResizeHandleId } from './types';
+
+/**
+ * Smart alignment: snap a dragged box to the edges/centres of nearby objects and
+ * report the guide lines to draw while the pointer is down.
+ *
+ * Everything here works in world coordinates; callers convert the screen-space
+ * tolerance using the current zoom.
+ */
+
+/** Screen distance within which an edge/centre snaps to a neighbour. */
+export const ALIGNMENT_SNAP_TOLERANCE_PX = 6;
+
+/** Only objects within this screen distance of the dragged box are considered. */
+const ALIGNMENT_SEARCH_RADIUS_PX = 600;
+
+const EPSILON = 1e-6;
+
+/** start = left/top edge, center = centre line, end = right/bottom edge. */
+export type AxisFeature = 'start' | 'center' | 'end';
+
+export type SnapFeatures = {
+  x: AxisFeature[];
+  y: AxisFeature[];
+  /** Also snap to the midpoint between the nearest neighbours on each side. */
+  spacing: boolean;
+};
+
+/** A vertical (axis 'x') or horizontal (axis 'y') guide line at `position`, spanning start..end. */
+export type AlignmentGuideLine = {
+  axis: 'x' | 'y';
+  position: number;
+  start: number;
+  end: number;
+};
+
+/**
+ * Equal-spacing hint: two gaps along `axis` of the same length, drawn at `cross`
+ * on the other axis.
+ */
+export type SpacingGuide = {
+  axis: 'x' | 'y';
+  cross: number;
+  gaps: Array<{ start: number; end: number }>;
+};
+
+export type AlignmentGuides = {
+  lines: AlignmentGuideLine[];
+  spacing: SpacingGuide[];
+};
+
+/** Per-axis correction to apply to the dragged features; null when nothing is in range. */
+export type AlignmentSnap = { x: number | null; y: number | null };
+
+export const MOVE_SNAP_FEATURES: SnapFeatures = {
+  x: ['start', 'center', 'end'],
+  y: ['start', 'center', 'end'],
+  spacing: true,
+};
+
+/**
+ * Only the edges a resize handle actually moves may snap.
+ */
+export function getResizeSnapFeatures(handle: ResizeHandleId): SnapFeatures {
+  const x: AxisFeature[] = handle.includes('w') ? ['start'] : handle.includes('e') ? ['end'] : [];
+  const y: AxisFeature[] = handle.includes('n') ? ['start'] : handle.includes('s') ? ['end'] : [];
+  return { x, y, spacing: false };
+}
+
+type Span = { start: number; size: number };
+
+function span(b: Bounds, axis: 'x' | 'y'): Span {
+  return axis === 'x' ? { start: b.x, size: b.width } : { start: b.y, size: b.height };
+}
+
+function featureValue(s: Span, f: AxisFeature): number {
+  if (f === 'start') return s.start;
+  if (f === 'center') return s.start + s.size / 2;
+  return s.start + s.size;
+}
+
+const ALL_FEATURES: AxisFeature[] = ['start', 'center', 'end'];
+
+function otherAxis(axis: 'x' | 'y'): 'x' | 'y' {
+  return axis === 'x' ? 'y' : 'x';
+}
+
+function overlapsOnAxis(a: Bounds, b: Bounds, axis: 'x' | 'y'): boolean {
+  const sa = span(a, axis);
+  const sb = span(b, axis);
+  return sa.start <= sb.start + sb.size && sb.start <= sa.start + sa.size;
+}
+
+/**
+ * Nearest neighbours before and after `bounds` along `axis` that overlap it on the
+ * other axis (i.e. objects in the same row/column).
+ */
+function nearestNeighbours(
+  bounds: Bounds,
+  candidates: Bounds[],
+  axis: 'x' | 'y'
+): { before: Bounds; after: Bounds } | null {
+  const s = span(bounds, axis);
+  let before: Bounds | null = null;
+  let after: Bounds | null = null;
+
+  for (const c of candidates) {
+    if (!overlapsOnAxis(bounds, c, otherAxis(axis))) continue;
+    const cs = span(c, axis);
+    if (cs.start + cs.size <= s.start + EPSILON) {
+      if (!before || cs.start + cs.size > featureValue(span(before, axis), 'end')) before = c;
+    } else if (cs.start >= s.start + s.size - EPSILON) {
+      if (!after || cs.start < span(after, axis).start) after = c;
+    }
+  }
+
+  return before && after ? { before, after } : null;
+}
+
+/** Start position that would leave equal gaps to both neighbours, if it fits. */
+function equalSpacingStart(bounds: Bounds, candidates: Bounds[], axis: 'x' | 'y'): number | null {
+  const pair = nearestNeighbours(bounds, candidates, axis);
+  if (!pair) return null;
+  const room = span(pair.after, axis).start - featureValue(span(pair.before, axis), 'end');
+  const size = span(bounds, axis).size;
+  if (room < size) return null;
+  return featureValue(span(pair.before, axis), 'end') + (room - size) / 2;
+}
+
+function findAxisSnap(
+  bounds: Bounds,
+  candidates: Bounds[],
+  tolerance: number,
+  features: SnapFeatures,
+  axis: 'x' | 'y'
+): number | null {
+  const own = span(bounds, axis);
+  let best: number | null = null;
+
+  const consider = (delta: number) => {
+    if (Math.abs(delta) > tolerance) return;
+    if (best === null || Math.abs(delta) < Math.abs(best)) best = delta;
+  };
+
+  for (const f of features[axis]) {
+    const value = featureValue(own, f);
+    for (const c of candidates) {
+      const cs = span(c, axis);
+      for (const g of ALL_FEATURES) consider(featureValue(cs, g) - value);
+    }
+  }
+
+  if (features.spacing) {
+    const start = equalSpacingStart(bounds, candidates, axis);
+    if (start !== null) consider(start - own.start);
+  }
+
+  return best;
+}
+
+/**
+ * Find the smallest correction per axis that lines the dragged features up with a
+ * neighbour (or centres the box between two neighbours), within `tolerance`.
+ */
+export function findAlignmentSnap(
+  bounds: Bounds,
+  candidates: Bounds[],
+  tolerance: number,
+  features: SnapFeatures
+): AlignmentSnap {
+  return {
+    x: findAxisSnap(bounds, candidates, tolerance, features, 'x'),
+    y: findAxisSnap(bounds, candidates, tolerance, features, 'y'),
+  };
+}
+
+function applyEdgeDelta(s: Span, feature: AxisFeature | undefined, delta: number | null): Span {
+  if (delta === null || !feature) return s;
+  if (feature === 'start') {
+    const size = s.size - delta;
+    return size > 0 ? { start: s.start + delta, size } : s;
+  }
+  const size = s.size + delta;
+  return size > 0 ? { start: s.start, size } : s;
+}
+
+/**
+ * Apply a snap found with resize features by moving only the dragged edges.
+ */
+export function applyResizeSnap(bounds: Bounds, features: SnapFeatures, snap: AlignmentSnap): Bounds {
+  const sx = applyEdgeDelta(span(bounds, 'x'), features.x[0], snap.x);
+  const sy = applyEdgeDelta(span(bounds, 'y'), features.y[0], snap.y);
+  return { x: sx.start, y: sy.start, width: sx.size, height: sy.size };
+}
+
+function addGuideLine(lines: AlignmentGuideLine[], next: AlignmentGuideLine): void {
+  const existing = lines.find((l) => l.axis === next.axis && Math.abs(l.position - next.position) < EPSILON);
+  if (!existing) {
+    lines.push(next);
+    return;
+  }
+  existing.start = Math.min(existing.start, next.start);
+  existing.end = Math.max(existing.end, next.end);
+}
+
+function collectSpacingGuide(bounds: Bounds, candidates: Bounds[], axis: 'x' | 'y'): SpacingGuide | null {
+  const pair = nearestNeighbours(bounds, candidates, axis);
+  if (!pair) return null;
+
+  const own = span(bounds, axis);
+  const beforeEnd = featureValue(span(pair.before, axis), 'end');
+  const afterStart = span(pair.after, axis).start;
+  const gapBefore = own.start - beforeEnd;
+  const gapAfter = afterStart - (own.start + own.size);
+  if (gapBefore <= 0 || Math.abs(gapBefore - gapAfter) > EPSILON) return null;
+
+  const cross = featureValue(span(bounds, otherAxis(axis)), 'center');
+  return {
+    axis,
+    cross,
+    gaps: [
+      { start: beforeEnd, end: own.start },
+      { start: own.start + own.size, end: afterStart },
+    ],
+  };
+}
+
+/**
+ * Guides for features of `bounds` that coincide exactly with a neighbour
+ * (call after snapping so the lines match what the user sees).
+ */
+export function collectAlignmentGuides(
+  bounds: Bounds,
+  candidates: Bounds[],
+  features: SnapFeatures
+): AlignmentGuides {
+  const lines: AlignmentGuideLine[] = [];
+
+  for (const axis of ['x', 'y'] as const) {
+    const own = span(bounds, axis);
+    const cross = otherAxis(axis);
+    const ownCross = span(bounds, cross);
+
+    for (const f of features[axis]) {
+      const value = featureValue(own, f);
+      for (const c of candidates) {
+        const cs = span(c, axis);
+        if (!ALL_FEATURES.some((g) => Math.abs(featureValue(cs, g) - value) < EPSILON)) continue;
+        const cc = span(c, cross);
+        addGuideLine(lines, {
+          axis,
+          position: value,
+          start: Math.min(ownCross.start, cc.start),
+          end: Math.max(ownCross.start + ownCross.size, cc.start + cc.size),
+        });
+      }
+    }
+  }
+
+  const spacing: SpacingGuide[] = [];
+  if (features.spacing) {
+    for (const axis of ['x', 'y'] as const) {
+      const guide = collectSpacingGuide(bounds, candidates, axis);
+      if (guide) spacing.push(guide);
+    }
+  }
+
+  return { lines, spacing };
+}
+
+/**
+ * Bounding boxes of objects near `around` that the dragged object(s) can align to.
+ * Objects whose bounds follow other objects (connectors) are skipped.
+ */
+export function getAlignmentCandidates(
+  objects: WhiteboardObject[],
+  exclude: ObjectId | readonly ObjectId[],
+  around: Bounds,
+  viewport: Viewport
+): Bounds[] {
+  const excluded = new Set<ObjectId>(typeof exclude === 'string' ? [exclude] : exclude);
+  const radius = ALIGNMENT_SEARCH_RADIUS_PX / (viewport.zoom || 1);
+  const area: Bounds = {
+    x: around.x - radius,
+    y: around.y - radius,
+    width: around.width + radius * 2,
+    height: around.height + radius * 2,
+  };
+
+  const out: Bounds[] = [];
+  for (const obj of queryObjectsInBounds(objects, area)) {
+    if (excluded.has(obj.id)) continue;
+    const shape = getShape(obj.type);
+    if (!shape || shape.boundsDependOnObjects) continue;
+    const b = shape.getBoundingBox(obj);
+    if (b) out.push(b);
+  }
+  return out;
+}
+
+/** World-space snap tolerance for the current zoom. */
+export function getAlignmentTolerance(viewport: Viewport): number {
+  return ALIGNMENT_SNAP_TOLERANCE_PX / (viewport.zoom || 1);
+}
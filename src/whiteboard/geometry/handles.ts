@@ -3,6 +3,9 @@
 import type { Point } from '../../domain/types';
 import type { Bounds, ResizeHandleId } from './types';
 
+/** Distance (canvas px) between the top edge of the selection box and the rotate handle. */
+export const ROTATE_HANDLE_OFFSET_PX = 24;
+
 /**
  * Positions of the eight resize handles around a bounding box (in world coords).
  */
@@ -80,3 +83,34 @@ export function resizeBounds(
 
   return { x, y, width, height };
 }
+
+/**
+ * Adjust a resized box so it keeps the aspect ratio of `original`.
+ *
+ * Corner handles follow whichever side grew (or shrank) the most and keep the
+ * opposite corner in place; edge handles scale the other side around its centre.
+ */
+export function keepAspectRatio(original: Bounds, resized: Bounds, handle: ResizeHandleId): Bounds {
+  if (original.width <= 0 || original.height <= 0) return resized;
+
+  const sx = resized.width / original.width;
+  const sy = resized.height / original.height;
+  const horizontal = handle.includes('e') || handle.includes('w');
+  const vertical = handle.includes('n') || handle.includes('s');
+  const scale = horizontal && vertical ? (Math.abs(sx - 1) >= Math.abs(sy - 1) ? sx : sy) : horizontal ? sx : sy;
+
+  const width = original.width * scale;
+  const height = original.height * scale;
+  const x = handle.includes('w')
+    ? original.x + original.width - width
+    : handle.includes('e')
+      ? original.x
+      : original.x + (original.width - width) / 2;
+  const y = handle.includes('n')
+    ? original.y + original.height - height
+    : handle.includes('s')
+      ? original.y
+      : original.y + (original.height - height) / 2;
+
+  return { x, y, width, height };
+}
@@ -0,0 +1,60 @@
+// src/whiteboard/geometry/marquee.ts
+
+import type { ObjectId, Point, WhiteboardObject } from '../../domain/types';
+import { expandSelectionToGroups } from '../../domain/groups';
+import { getShape } from '../tools/shapeRegistry';
+import { queryObjectsInBounds } from './spatialIndex';
+import type { Bounds } from './types';
+import type { MarqueeMode, MarqueeSettings } from '../whiteboardTypes';
+
+/**
+ * Rectangle (rubber-band) selection with the Select tool.
+ */
+
+export const DEFAULT_MARQUEE_SETTINGS: MarqueeSettings = {
+  emptyDrag: 'pan',
+  mode: 'contain',
+};
+
+/** Normalized rectangle spanned by two corners. */
+export function getMarqueeBounds(a: Point, b: Point): Bounds {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  };
+}
+
+function contains(outer: Bounds, inner: Bounds): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+function intersects(a: Bounds, b: Bounds): boolean {
+  return a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+}
+
+/**
+ * Ids of the objects picked by `rect`: fully inside it ('contain') or overlapping
+ * it ('touch'), by bounding box. Locked objects are skipped; a picked group member
+ * brings its whole group along. Order follows the objects array.
+ */
+export function getObjectsInMarquee(objects: WhiteboardObject[], rect: Bounds, mode: MarqueeMode): ObjectId[] {
+  const ids: ObjectId[] = [];
+  for (const obj of queryObjectsInBounds(objects, rect)) {
+    if (obj.locked) continue;
+    const b = getShape(obj.type)?.getBoundingBox(obj, { objects });
+    if (!b) continue;
+    if (mode === 'contain' ? contains(rect, b) : intersects(rect, b)) ids.push(obj.id);
+  }
+
+  const picked = expandSelectionToGroups(objects, ids);
+  if (picked.length === ids.length) return picked;
+  const lockedIds = new Set(objects.filter((o) => o.locked).map((o) => o.id));
+  return picked.filter((id) => !lockedIds.has(id));
+}
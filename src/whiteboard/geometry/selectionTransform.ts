@@ -0,0 +1,107 @@
+// src/whiteboard/geometry/selectionTransform.ts
+
+import type { Point, WhiteboardObject } from '../../domain/types';
+import { getShape, resizeObject, translateObject } from '../tools/shapeRegistry';
+import { getBoxCenter, getRotationRad } from '../tools/_shared/rotation';
+import type { Bounds } from './types';
+
+/**
+ * Helpers for transforming several objects as one unit (groups, multi-selection).
+ *
+ * Objects whose bounds follow other objects (connectors) are left out: they move
+ * with whatever they are attached to.
+ */
+
+function isFollower(obj: WhiteboardObject): boolean {
+  return !!getShape(obj.type)?.boundsDependOnObjects;
+}
+
+/**
+ * Union of the bounding boxes of `objects` (connectors excluded), or null when empty.
+ */
+export function getObjectsBounds(objects: WhiteboardObject[]): Bounds | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  for (const obj of objects) {
+    if (isFollower(obj)) continue;
+    const b = getShape(obj.type)?.getBoundingBox(obj);
+    if (!b) continue;
+    minX = Math.min(minX, b.x);
+    minY = Math.min(minY, b.y);
+    maxX = Math.max(maxX, b.x + b.width);
+    maxY = Math.max(maxY, b.y + b.height);
+  }
+
+  if (!Number.isFinite(minX)) return null;
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+function scaleFactor(from: number, to: number): number {
+  return from > 0 ? to / from : 1;
+}
+
+/**
+ * Map a point from `from` to `to`, keeping its relative position in the box.
+ */
+export function mapPointBetweenBounds(p: Point, from: Bounds, to: Bounds): Point {
+  return {
+    x: to.x + (p.x - from.x) * scaleFactor(from.width, to.width),
+    y: to.y + (p.y - from.y) * scaleFactor(from.height, to.height),
+  };
+}
+
+function mapBounds(b: Bounds, from: Bounds, to: Bounds): Bounds {
+  const tl = mapPointBetweenBounds({ x: b.x, y: b.y }, from, to);
+  const br = mapPointBetweenBounds({ x: b.x + b.width, y: b.y + b.height }, from, to);
+  return { x: tl.x, y: tl.y, width: br.x - tl.x, height: br.y - tl.y };
+}
+
+/**
+ * Patch that moves/scales `obj` as part of a unit whose frame goes from `from` to `to`.
+ *
+ * - Rotated boxes keep their rotation: the centre is mapped and the size scaled.
+ * - Resizable shapes are resized into their mapped bounding box.
+ * - Lines map both endpoints; anything else is translated with its centre.
+ */
+export function scaleObjectBetweenBounds(
+  obj: WhiteboardObject,
+  from: Bounds,
+  to: Bounds
+): Partial<WhiteboardObject> | null {
+  if (isFollower(obj)) return null;
+
+  const shape = getShape(obj.type);
+  const sx = scaleFactor(from.width, to.width);
+  const sy = scaleFactor(from.height, to.height);
+
+  if (shape?.rotatable && getRotationRad(obj) !== 0) {
+    const c = mapPointBetweenBounds(
+      getBoxCenter({ x: obj.x, y: obj.y, width: obj.width ?? 0, height: obj.height ?? 0 }),
+      from,
+      to
+    );
+    const width = (obj.width ?? 0) * sx;
+    const height = (obj.height ?? 0) * sy;
+    return { x: c.x - width / 2, y: c.y - height / 2, width, height };
+  }
+
+  const box = shape?.getBoundingBox(obj);
+  if (!box) return null;
+
+  if (shape.resize) {
+    return resizeObject(obj, mapBounds(box, from, to));
+  }
+
+  if (typeof obj.x2 === 'number' && typeof obj.y2 === 'number') {
+    const p1 = mapPointBetweenBounds({ x: obj.x, y: obj.y }, from, to);
+    const p2 = mapPointBetweenBounds({ x: obj.x2, y: obj.y2 }, from, to);
+    return { x: p1.x, y: p1.y, x2: p2.x, y2: p2.y };
+  }
+
+  const c = getBoxCenter(box);
+  const mapped = mapPointBetweenBounds(c, from, to);
+  return translateObject(obj, mapped.x - c.x, mapped.y - c.y);
+}
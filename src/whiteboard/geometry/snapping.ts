@@ -0,0 +1,50 @@
+// src/whiteboard/geometry/snapping.ts
+
+import type { Point } from '../../domain/types';
+import type { Bounds, ResizeHandleId } from './types';
+
+/**
+ * Grid snapping helpers.
+ *
+ * All helpers take an optional grid size; when it is missing or not positive the
+ * input is returned unchanged, so callers can pass the board setting straight through.
+ */
+
+function isActiveGrid(gridSize: number | undefined): gridSize is number {
+  return typeof gridSize === 'number' && gridSize > 0;
+}
+
+export function snapValueToGrid(value: number, gridSize?: number): number {
+  if (!isActiveGrid(gridSize)) return value;
+  return Math.round(value / gridSize) * gridSize;
+}
+
+export function snapPointToGrid(point: Point, gridSize?: number): Point {
+  if (!isActiveGrid(gridSize)) return point;
+  return { x: snapValueToGrid(point.x, gridSize), y: snapValueToGrid(point.y, gridSize) };
+}
+
+/**
+ * Snap the edges of `bounds` to the grid: every edge, or only the ones `handle`
+ * moves so a resize leaves the opposite edges where they were. Edges that would
+ * collapse onto each other are kept one grid cell apart so the result never has
+ * zero size.
+ */
+export function snapBoundsToGrid(bounds: Bounds, gridSize?: number, handle?: ResizeHandleId): Bounds {
+  if (!isActiveGrid(gridSize)) return bounds;
+
+  const moves = (edge: 'n' | 'e' | 's' | 'w') => !handle || handle.includes(edge);
+  let x1 = bounds.x;
+  let y1 = bounds.y;
+  let x2 = bounds.x + bounds.width;
+  let y2 = bounds.y + bounds.height;
+
+  if (moves('w')) x1 = snapValueToGrid(x1, gridSize);
+  if (moves('n')) y1 = snapValueToGrid(y1, gridSize);
+  if (moves('e')) x2 = Math.max(x1 + gridSize, snapValueToGrid(x2, gridSize));
+  else if (moves('w')) x1 = Math.min(x2 - gridSize, x1);
+  if (moves('s')) y2 = Math.max(y1 + gridSize, snapValueToGrid(y2, gridSize));
+  else if (moves('n')) y1 = Math.min(y2 - gridSize, y1);
+
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+}
@@ -0,0 +1,223 @@
+// src/whiteboard/geometry/spatialIndex.ts
+
+import type { ObjectId, WhiteboardObject } from '../../domain/types';
+import { registerObjectIndex } from '../../domain/objectIndex';
+import { getShape } from '../tools/shapeRegistry';
+import type { Bounds } from './types';
+
+/**
+ * Uniform-grid spatial index over an objects array.
+ *
+ * - Each object is bucketed into every grid cell its bounding box touches, grown
+ *   by the shape's hit-test padding so clicks within that tolerance still find it.
+ * - Objects whose bounds depend on other objects (connectors) or that cover
+ *   too many cells are kept in `unindexed` and are always returned as candidates.
+ * - Results are ordered by the object's position in the array, so callers keep
+ *   the same z-order semantics as a plain linear scan.
+ *
+ * Indexes are cached per objects array (arrays are treated as immutable). When
+ * applyEvent() derives a new array from an indexed one, the index is carried over
+ * and patched incrementally instead of being rebuilt.
+ */
+
+export const SPATIAL_INDEX_CELL_SIZE = 256;
+
+/** Objects spanning more cells than this are kept out of the grid. */
+const MAX_CELLS_PER_OBJECT = 1024;
+
+type IndexedEntry = {
+  bounds: Bounds;
+  cells: string[];
+};
+
+export type SpatialIndex = {
+  cellSize: number;
+  cells: Map<string, Set<ObjectId>>;
+  entries: Map<ObjectId, IndexedEntry>;
+  unindexed: Set<ObjectId>;
+  /** Array position per id; null after deletes and rebuilt lazily on the next query. */
+  order: Map<ObjectId, number> | null;
+};
+
+const cache = new WeakMap<WhiteboardObject[], SpatialIndex>();
+
+function cellKey(cx: number, cy: number): string {
+  return `${cx}:${cy}`;
+}
+
+function cellsForBounds(bounds: Bounds, cellSize: number): string[] | null {
+  const minCx = Math.floor(bounds.x / cellSize);
+  const minCy = Math.floor(bounds.y / cellSize);
+  const maxCx = Math.floor((bounds.x + Math.max(0, bounds.width)) / cellSize);
+  const maxCy = Math.floor((bounds.y + Math.max(0, bounds.height)) / cellSize);
+
+  const count = (maxCx - minCx + 1) * (maxCy - minCy + 1);
+  if (!Number.isFinite(count) || count > MAX_CELLS_PER_OBJECT) return null;
+
+  const keys: string[] = [];
+  for (let cx = minCx; cx <= maxCx; cx++) {
+    for (let cy = minCy; cy <= maxCy; cy++) {
+      keys.push(cellKey(cx, cy));
+    }
+  }
+  return keys;
+}
+
+function boundsIntersect(a: Bounds, b: Bounds): boolean {
+  return (
+    a.x <= b.x + b.width &&
+    a.x + a.width >= b.x &&
+    a.y <= b.y + b.height &&
+    a.y + a.height >= b.y
+  );
+}
+
+function insertObject(index: SpatialIndex, obj: WhiteboardObject): void {
+  const shape = getShape(obj.type);
+  const box = shape?.boundsDependOnObjects ? null : shape?.getBoundingBox(obj) ?? null;
+  const pad = box && shape.getHitTestPadding ? shape.getHitTestPadding(obj) : 0;
+  const bounds =
+    box && pad > 0
+      ? { x: box.x - pad, y: box.y - pad, width: box.width + pad * 2, height: box.height + pad * 2 }
+      : box;
+  const cells = bounds ? cellsForBounds(bounds, index.cellSize) : null;
+
+  if (!bounds || !cells) {
+    index.unindexed.add(obj.id);
+    return;
+  }
+
+  index.entries.set(obj.id, { bounds, cells });
+  for (const key of cells) {
+    let bucket = index.cells.get(key);
+    if (!bucket) {
+      bucket = new Set();
+      index.cells.set(key, bucket);
+    }
+    bucket.add(obj.id);
+  }
+}
+
+function removeObject(index: SpatialIndex, id: ObjectId): void {
+  index.unindexed.delete(id);
+  const entry = index.entries.get(id);
+  if (!entry) return;
+
+  index.entries.delete(id);
+  for (const key of entry.cells) {
+    const bucket = index.cells.get(key);
+    if (!bucket) continue;
+    bucket.delete(id);
+    if (bucket.size === 0) index.cells.delete(key);
+  }
+}
+
+function buildOrder(objects: WhiteboardObject[]): Map<ObjectId, number> {
+  const order = new Map<ObjectId, number>();
+  objects.forEach((obj, i) => order.set(obj.id, i));
+  return order;
+}
+
+export function createSpatialIndex(
+  objects: WhiteboardObject[],
+  cellSize: number = SPATIAL_INDEX_CELL_SIZE
+): SpatialIndex {
+  const index: SpatialIndex = {
+    cellSize,
+    cells: new Map(),
+    entries: new Map(),
+    unindexed: new Set(),
+    order: buildOrder(objects),
+  };
+  for (const obj of objects) insertObject(index, obj);
+  return index;
+}
+
+/**
+ * Get (or lazily build) the spatial index for an objects array.
+ */
+export function getSpatialIndex(objects: WhiteboardObject[]): SpatialIndex {
+  let index = cache.get(objects);
+  if (!index) {
+    index = createSpatialIndex(objects);
+    cache.set(objects, index);
+  }
+  if (!index.order) index.order = buildOrder(objects);
+  return index;
+}
+
+function collectInOrder(
+  objects: WhiteboardObject[],
+  index: SpatialIndex,
+  ids: Set<ObjectId>
+): WhiteboardObject[] {
+  const order = index.order ?? buildOrder(objects);
+  const positions: number[] = [];
+  ids.forEach((id) => {
+    const pos = order.get(id);
+    if (pos !== undefined && objects[pos]?.id === id) positions.push(pos);
+  });
+  positions.sort((a, b) => a - b);
+  return positions.map((pos) => objects[pos]);
+}
+
+/**
+ * Objects whose cached bounds intersect `area`, plus all unindexed objects,
+ * in array (bottom → top) order.
+ */
+export function queryObjectsInBounds(objects: WhiteboardObject[], area: Bounds): WhiteboardObject[] {
+  const index = getSpatialIndex(objects);
+  const keys = cellsForBounds(area, index.cellSize);
+  if (!keys) return objects;
+
+  const ids = new Set<ObjectId>(index.unindexed);
+  for (const key of keys) {
+    const bucket = index.cells.get(key);
+    if (!bucket) continue;
+    bucket.forEach((id) => {
+      if (ids.has(id)) return;
+      const entry = index.entries.get(id);
+      if (entry && boundsIntersect(entry.bounds, area)) ids.add(id);
+    });
+  }
+
+  return collectInOrder(objects, index, ids);
+}
+
+/**
+ * Hit-test candidates for a world point, topmost first.
+ */
+export function queryObjectsAtPoint(objects: WhiteboardObject[], x: number, y: number): WhiteboardObject[] {
+  return queryObjectsInBounds(objects, { x, y, width: 0, height: 0 }).reverse();
+}
+
+registerObjectIndex((prev, next, change) => {
+  const index = cache.get(prev);
+  if (!index) return;
+
+  // Ownership moves to the new array; the old one rebuilds on demand if queried again.
+  cache.delete(prev);
+
+  switch (change.kind) {
+    case 'created':
+      insertObject(index, change.object);
+      if (index.order) index.order.set(change.object.id, next.length - 1);
+      break;
+    case 'updated':
+      removeObject(index, change.before.id);
+      insertObject(index, change.after);
+      break;
+    case 'deleted':
+      removeObject(index, change.object.id);
+      index.order = null;
+      break;
+    case 'reordered':
+      // Bounds are unchanged; only the array positions need rebuilding.
+      index.order = null;
+      break;
+    case 'regrouped':
+      break;
+  }
+
+  cache.set(next, index);
+});
@@ -0,0 +1,74 @@
+import type { ObjectId, Point } from '../../../domain/types';
+import {
+  DEFAULT_ERASER_SETTINGS,
+  getEraseResult,
+  getEraserRadius,
+  getObjectsTouchedByEraser,
+} from '../../tools/eraser/erase';
+import type { CanvasInteractionsDeps } from './types';
+import type { EraseDragState } from '../drag/types';
+
+function getSettings(deps: CanvasInteractionsDeps) {
+  return deps.eraserSettings ?? DEFAULT_ERASER_SETTINGS;
+}
+
+/** Objects touched between two eraser positions that the current mode acts on. */
+function touchedBetween(deps: CanvasInteractionsDeps, from: Point, to: Point): ObjectId[] {
+  const settings = getSettings(deps);
+  const radius = getEraserRadius(settings, deps.viewport.zoom);
+  const ids = getObjectsTouchedByEraser(deps.objects, from, to, radius);
+  if (settings.mode === 'object') return ids;
+
+  const strokes = new Set(deps.objects.filter((o) => o.type === 'freehand').map((o) => o.id));
+  return ids.filter((id) => strokes.has(id));
+}
+
+export function handleErasePointerDown(deps: CanvasInteractionsDeps, pos: Point): boolean {
+  if (deps.activeTool !== 'eraser') return false;
+
+  const drag: EraseDragState = {
+    kind: 'erase',
+    mode: getSettings(deps).mode,
+    path: [pos],
+    touchedIds: touchedBetween(deps, pos, pos),
+  };
+  deps.setDrag(drag);
+  return true;
+}
+
+export function handleErasePointerMove(deps: CanvasInteractionsDeps, pos: Point): boolean {
+  if (deps.drag?.kind !== 'erase') return false;
+
+  const drag = deps.drag;
+  const last = drag.path[drag.path.length - 1];
+  if (last.x === pos.x && last.y === pos.y) return true;
+
+  const touched = new Set(drag.touchedIds);
+  const added = touchedBetween(deps, last, pos).filter((id) => !touched.has(id));
+  deps.setDrag({
+    ...drag,
+    path: [...drag.path, pos],
+    touchedIds: added.length > 0 ? [...drag.touchedIds, ...added] : drag.touchedIds,
+  });
+  return true;
+}
+
+/**
+ * End the eraser gesture: everything it erased or cut is committed as one event.
+ */
+export function finishEraseInteraction(deps: CanvasInteractionsDeps): boolean {
+  if (deps.drag?.kind !== 'erase') return false;
+
+  const drag = deps.drag;
+  const erased = getEraseResult(
+    deps.objects,
+    drag.touchedIds,
+    drag.path,
+    { ...getSettings(deps), mode: drag.mode },
+    deps.viewport.zoom,
+    deps.toolCtx.generateObjectId
+  );
+  if (erased.length > 0) deps.onEraseObjects?.(erased);
+  deps.setDrag(null);
+  return true;
+}
@@ -2,3 +2,5 @@ export * from './types';
 export * from './utils';
 export * from './toolMode';
 export * from './selectMode';
+export * from './eraseMode';
+export * from './laserMode';
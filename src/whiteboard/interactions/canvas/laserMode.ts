@@ -0,0 +1,26 @@
+import type { Point } from '../../../domain/types';
+import type { CanvasInteractionsDeps } from './types';
+
+/**
+ * Laser pointer: every pointer position over the canvas extends the trail (no
+ * button needed); releasing or leaving the canvas ends the current stroke.
+ * Nothing is created on the board.
+ */
+
+export function handleLaserPointerDown(deps: CanvasInteractionsDeps, pos: Point): boolean {
+  if (deps.activeTool !== 'laser') return false;
+  deps.onLaserPoint?.(pos);
+  return true;
+}
+
+export function handleLaserPointerMove(deps: CanvasInteractionsDeps, pos: Point): boolean {
+  if (deps.activeTool !== 'laser') return false;
+  deps.onLaserPoint?.(pos);
+  return true;
+}
+
+export function finishLaserInteraction(deps: CanvasInteractionsDeps): boolean {
+  if (deps.activeTool !== 'laser') return false;
+  deps.onLaserEnd?.();
+  return true;
+}
@@ -1,51 +1,234 @@
-import type { Point } from '../../../domain/types';
-import { getBoundingBox, hitTest, hitTestResizeHandleCanvas } from '../../geometry';
-import type { Bounds } from '../../geometry';
-import { canResizeObject } from '../../tools/shapeRegistry';
-import { getCommitFromDrag, handleDragMove } from '../drag/dispatch';
+import type { ObjectId, Point, WhiteboardObject } from '../../../domain/types';
+import { expandSelectionToGroups } from '../../../domain/groups';
+import { MAX_SELECTION_IDS } from '../../../collab/protocol/limits';
+import {
+  getSelectionFrame,
+  hitTest,
+  hitTestResizeHandleCanvas,
+  hitTestRotateHandleCanvas,
+  worldToCanvas,
+} from '../../geometry';
+import { canResizeObject, canRotateObject } from '../../tools/shapeRegistry';
+import { hitTestConnectorHandle, removeConnectorWaypoint } from '../../tools/connector/interactions';
+import { getBoxCenter } from '../../tools/_shared/rotation';
+import { getObjectsBounds } from '../../geometry/selectionTransform';
+import { DEFAULT_MARQUEE_SETTINGS, getMarqueeBounds, getObjectsInMarquee } from '../../geometry/marquee';
+import { canEditTextInPlace, getPathLabelEditTarget, getPathLabelHit } from '../../textEditing';
+import { getCommitsFromDrag, handleDragMove } from '../drag/dispatch';
 import { cloneObj, getConnectorEndpointHit, getLineEndpointHit, minimizePatch } from './utils';
 import type { CanvasInteractionsDeps } from './types';
+import type { MarqueeDragState } from '../drag/types';
 
-export function handleSelectPointerDown(
+/**
+ * Ids that act as one unit with `obj`: its whole group, unless the user has
+ * double-clicked into that group.
+ */
+function getUnitIds(deps: CanvasInteractionsDeps, obj: WhiteboardObject): ObjectId[] {
+  if (!obj.groupId || obj.groupId === deps.enteredGroupId) return [obj.id];
+  return expandSelectionToGroups(deps.objects, [obj.id]);
+}
+
+/**
+ * Multi-object moves and resizes commit as one objectsUpdated event (one undo
+ * step), so they are only offered for selections that fit in one.
+ */
+function fitsOneBatch(ids: ObjectId[]): boolean {
+  return ids.length <= MAX_SELECTION_IDS;
+}
+
+/**
+ * Start resizing a multi-selection (or group) from the handles on its union frame.
+ */
+function startUnitResize(deps: CanvasInteractionsDeps, pos: Point, canvasX: number, canvasY: number): boolean {
+  if (deps.selectedObjectIds.length < 2 || !fitsOneBatch(deps.selectedObjectIds)) return false;
+
+  const selected = deps.objects.filter((o) => deps.selectedObjectIds.includes(o.id));
+  if (selected.some((o) => o.locked)) return false;
+  const bounds = getObjectsBounds(selected);
+  if (!bounds) return false;
+
+  const handleId = hitTestResizeHandleCanvas(canvasX, canvasY, bounds, deps.viewport);
+  if (!handleId) return false;
+
+  const [primary, ...members] = selected;
+  deps.setDrag({
+    kind: 'resize',
+    objectId: primary.id,
+    handle: handleId,
+    startX: pos.x,
+    startY: pos.y,
+    originalBounds: bounds,
+    originalObject: cloneObj(primary),
+    lastPatch: null,
+    members: members.map(cloneObj),
+  });
+  return true;
+}
+
+function startUnitMove(deps: CanvasInteractionsDeps, hitObj: WhiteboardObject, ids: ObjectId[], pos: Point): void {
+  const members = deps.objects.filter((o) => o.id !== hitObj.id && !o.locked && ids.includes(o.id));
+  deps.setDrag({
+    kind: 'move',
+    objectId: hitObj.id,
+    startX: pos.x,
+    startY: pos.y,
+    originalObject: cloneObj(hitObj),
+    lastPatch: null,
+    members: members.map(cloneObj),
+  });
+}
+
+/**
+ * Start dragging a waypoint (or a segment midpoint, which inserts one) of the
+ * selected connector. Its endpoint handles take precedence.
+ */
+function startConnectorWaypointDrag(
   deps: CanvasInteractionsDeps,
+  connector: WhiteboardObject,
   pos: Point,
   canvasX: number,
   canvasY: number
+): boolean {
+  if (connector.type !== 'connector' || connector.locked) return false;
+  if (getConnectorEndpointHit(connector, deps.objects, deps.viewport, canvasX, canvasY)) return false;
+  // Labels cover the midpoint handles below them.
+  if (getPathLabelHit(connector, deps.objects, pos) !== null) return false;
+
+  const handle = hitTestConnectorHandle(deps.objects, connector, deps.viewport, canvasX, canvasY);
+  if (!handle) return false;
+  deps.setDrag({
+    kind: 'connectorWaypoint',
+    objectId: connector.id,
+    index: handle.index,
+    insert: handle.kind === 'midpoint',
+    originalObject: cloneObj(connector),
+    lastPatch: null,
+  });
+  return true;
+}
+
+/** Start sliding the line's or connector's label under the pointer along its path. */
+function startPathLabelDrag(deps: CanvasInteractionsDeps, obj: WhiteboardObject, pos: Point): boolean {
+  const index = getPathLabelHit(obj, deps.objects, pos);
+  if (index === null) return false;
+  deps.setDrag({
+    kind: 'pathLabel',
+    objectId: obj.id,
+    index,
+    originalObject: cloneObj(obj),
+    lastPatch: null,
+  });
+  return true;
+}
+
+/** Select whatever the marquee currently covers (plus the base selection when adding). */
+function applyMarqueeSelection(deps: CanvasInteractionsDeps, drag: MarqueeDragState): void {
+  const rect = getMarqueeBounds({ x: drag.startX, y: drag.startY }, { x: drag.currentX, y: drag.currentY });
+  const picked = getObjectsInMarquee(deps.objects, rect, drag.mode);
+  const base = new Set(drag.baseSelection);
+  const next = [...drag.baseSelection, ...picked.filter((id) => !base.has(id))];
+
+  const current = deps.selectedObjectIds;
+  if (next.length === current.length && next.every((id) => current.includes(id))) return;
+  deps.onSelectionChange(next);
+}
+
+export function handleSelectPointerDown(
+  deps: CanvasInteractionsDeps,
+  pos: Point,
+  canvasX: number,
+  canvasY: number,
+  options: { additive?: boolean; swapEmptyDrag?: boolean } = {}
 ): boolean {
   if (deps.activeTool !== 'select') return false;
 
+  if (!options.additive && startUnitResize(deps, pos, canvasX, canvasY)) return true;
+
   if (deps.selectedObjectIds.length === 1) {
     const selectedId = deps.selectedObjectIds[0];
     const selectedObj = deps.objects.find((o) => o.id === selectedId);
 
-    if (selectedObj && canResizeObject(selectedObj)) {
-      const box = getBoundingBox(selectedObj);
-      if (box) {
-        const handleId = hitTestResizeHandleCanvas(canvasX, canvasY, box as Bounds, deps.viewport);
-        if (handleId) {
-          deps.setDrag({
-            kind: 'resize',
-            objectId: selectedId,
-            handle: handleId,
-            startX: pos.x,
-            startY: pos.y,
-            originalBounds: {
-              x: box.x,
-              y: box.y,
-              width: box.width,
-              height: box.height,
-            },
-            originalObject: cloneObj(selectedObj),
-            lastPatch: null,
-          });
-          return true;
-        }
+    if (selectedObj && startConnectorWaypointDrag(deps, selectedObj, pos, canvasX, canvasY)) return true;
+
+    // Locked objects have no rotate/resize handles.
+    const frame = selectedObj && !selectedObj.locked ? getSelectionFrame(selectedObj) : null;
+
+    if (selectedObj && frame && canRotateObject(selectedObj)) {
+      if (hitTestRotateHandleCanvas(canvasX, canvasY, frame.bounds, deps.viewport, frame.rotation)) {
+        const center = getBoxCenter(frame.bounds);
+        deps.setDrag({
+          kind: 'rotate',
+          objectId: selectedId,
+          center,
+          startAngle: Math.atan2(pos.y - center.y, pos.x - center.x),
+          originalObject: cloneObj(selectedObj),
+          lastPatch: null,
+        });
+        return true;
+      }
+    }
+
+    if (selectedObj && frame && canResizeObject(selectedObj)) {
+      const box = frame.bounds;
+      const handleId = hitTestResizeHandleCanvas(canvasX, canvasY, box, deps.viewport, frame.rotation);
+      if (handleId) {
+        deps.setDrag({
+          kind: 'resize',
+          objectId: selectedId,
+          handle: handleId,
+          startX: pos.x,
+          startY: pos.y,
+          originalBounds: {
+            x: box.x,
+            y: box.y,
+            width: box.width,
+            height: box.height,
+          },
+          originalObject: cloneObj(selectedObj),
+          lastPatch: null,
+        });
+        return true;
       }
     }
   }
 
-  const hitObj = hitTest(deps.objects, pos.x, pos.y);
+  const topObj = hitTest(deps.objects, pos.x, pos.y);
+  if (topObj && topObj.groupId !== deps.enteredGroupId) deps.setEnteredGroupId?.(null);
+
+  // Shift+click adds/removes the object (or its whole group) without dragging.
+  if (topObj && options.additive) {
+    const unitIds = getUnitIds(deps, topObj);
+    const alreadySelected = deps.selectedObjectIds.includes(topObj.id);
+    deps.onSelectionChange(
+      alreadySelected
+        ? deps.selectedObjectIds.filter((id) => !unitIds.includes(id))
+        : [...deps.selectedObjectIds, ...unitIds.filter((id) => !deps.selectedObjectIds.includes(id))]
+    );
+    return true;
+  }
+
+  // Locked objects never start a drag: the pointer reaches the unlocked object
+  // underneath, or, when there is none, just selects the locked one (so it can be unlocked).
+  const hitObj = topObj?.locked ? hitTest(deps.objects, pos.x, pos.y, (o) => !o.locked) : topObj;
+  if (!hitObj && topObj) {
+    deps.onSelectionChange(getUnitIds(deps, topObj));
+    return true;
+  }
+
   if (hitObj) {
+    const unitIds = getUnitIds(deps, hitObj);
+
+    // Groups and multi-selections move together.
+    const selectionIds =
+      deps.selectedObjectIds.length > 1 && deps.selectedObjectIds.includes(hitObj.id)
+        ? deps.selectedObjectIds
+        : unitIds;
+    if (selectionIds.length > 1) {
+      if (selectionIds !== deps.selectedObjectIds) deps.onSelectionChange(selectionIds);
+      if (fitsOneBatch(selectionIds)) startUnitMove(deps, hitObj, selectionIds, pos);
+      return true;
+    }
+
     if (hitObj.type === 'line') {
       deps.onSelectionChange([hitObj.id]);
 
@@ -60,6 +243,7 @@ export function handleSelectPointerDown(
         });
         return true;
       }
+      if (startPathLabelDrag(deps, hitObj, pos)) return true;
 
       deps.setDrag({
         kind: 'move',
@@ -84,6 +268,8 @@ export function handleSelectPointerDown(
           originalObject: cloneObj(hitObj),
           lastPatch: null,
         });
+      } else {
+        startPathLabelDrag(deps, hitObj, pos);
       }
       return true;
     }
@@ -100,6 +286,26 @@ export function handleSelectPointerDown(
     return true;
   }
 
+  deps.setEnteredGroupId?.(null);
+
+  // Empty canvas: marquee selection (always when adding with Shift) or pan.
+  const settings = deps.marqueeSettings ?? DEFAULT_MARQUEE_SETTINGS;
+  const selectDrag = (settings.emptyDrag === 'select') !== !!options.swapEmptyDrag;
+  if (options.additive || selectDrag) {
+    const baseSelection = options.additive ? [...deps.selectedObjectIds] : [];
+    if (!options.additive) deps.onSelectionChange([]);
+    deps.setDrag({
+      kind: 'marquee',
+      startX: pos.x,
+      startY: pos.y,
+      currentX: pos.x,
+      currentY: pos.y,
+      mode: settings.mode,
+      baseSelection,
+    });
+    return true;
+  }
+
   deps.onSelectionChange([]);
   deps.setDrag({
     kind: 'pan',
@@ -116,7 +322,8 @@ export function handleSelectPointerMove(
   deps: CanvasInteractionsDeps,
   pos: Point,
   canvasX: number,
-  canvasY: number
+  canvasY: number,
+  options: { disableSnapping?: boolean; constrain?: boolean } = {}
 ): boolean {
   if (!deps.drag || deps.activeTool !== 'select') return false;
 
@@ -128,17 +335,69 @@ export function handleSelectPointerMove(
     canvasY,
     onTransientObjectPatch: deps.onTransientObjectPatch,
     onViewportChange: deps.onViewportChange,
+    snapGridSize: deps.toolCtx.snapGridSize,
+    disableSnapping: options.disableSnapping,
+    constrain: options.constrain,
   });
 
-  if (next !== deps.drag) deps.setDrag(next);
+  if (next !== deps.drag) {
+    deps.setDrag(next);
+    if (next.kind === 'marquee') applyMarqueeSelection(deps, next);
+  }
   return true;
 }
 
 export function finishSelectInteraction(deps: CanvasInteractionsDeps): boolean {
   if (!deps.drag || deps.activeTool !== 'select') return false;
 
-  const commit = getCommitFromDrag(deps.drag, minimizePatch);
-  if (commit) deps.onUpdateObject(commit.objectId, commit.patch);
+  // Several objects (group / multi-selection) land in history as one step.
+  const commits = getCommitsFromDrag(deps.drag, minimizePatch);
+  if (commits.length > 1 && deps.onUpdateObjects) {
+    deps.onUpdateObjects(commits);
+  } else {
+    for (const commit of commits) {
+      deps.onUpdateObject(commit.objectId, commit.patch);
+    }
+  }
   deps.setDrag(null);
   return true;
 }
+
+/**
+ * Double-click on a group member enters the group and selects just that member,
+ * so it can be edited on its own. Clicking outside the group leaves it again.
+ * On a selected connector's waypoint, it removes the waypoint.
+ */
+export function handleSelectDoubleClick(deps: CanvasInteractionsDeps, pos: Point): boolean {
+  if (deps.activeTool !== 'select') return false;
+
+  // Double-clicking a waypoint of the selected connector removes it.
+  const selected =
+    deps.selectedObjectIds.length === 1 ? deps.objects.find((o) => o.id === deps.selectedObjectIds[0]) : undefined;
+  if (selected?.type === 'connector' && !selected.locked) {
+    const c = worldToCanvas(pos.x, pos.y, deps.viewport);
+    const handle = hitTestConnectorHandle(deps.objects, selected, deps.viewport, c.x, c.y);
+    if (handle?.kind === 'waypoint') {
+      deps.onUpdateObject(selected.id, removeConnectorWaypoint(selected, handle.index));
+      return true;
+    }
+  }
+
+  const hitObj = hitTest(deps.objects, pos.x, pos.y);
+  if (!hitObj) return false;
+
+  // The first double-click enters a group; inside it, double-click edits members.
+  if (hitObj.groupId && hitObj.groupId !== deps.enteredGroupId) {
+    deps.setEnteredGroupId?.(hitObj.groupId);
+    deps.onSelectionChange([hitObj.id]);
+    return true;
+  }
+
+  if (deps.onEditText && canEditTextInPlace(hitObj)) {
+    deps.onSelectionChange([hitObj.id]);
+    // Lines and connectors edit the label under the pointer, or add one there.
+    deps.onEditText(hitObj.id, getPathLabelEditTarget(hitObj, deps.objects, pos));
+    return true;
+  }
+  return false;
+}
@@ -2,10 +2,15 @@ import { toolPointerDown, toolPointerMove, toolPointerUp } from '../../tools/sha
 import type { Point } from '../../../domain/types';
 import type { CanvasInteractionsDeps } from './types';
 
-export function handleToolPointerDown(deps: CanvasInteractionsDeps, pos: Point): boolean {
+/** Tool context for one pointer sample (pen pressure varies per event). */
+function sampleCtx(deps: CanvasInteractionsDeps, pressure?: number) {
+  return pressure === undefined ? deps.toolCtx : { ...deps.toolCtx, pressure };
+}
+
+export function handleToolPointerDown(deps: CanvasInteractionsDeps, pos: Point, pressure?: number): boolean {
   if (deps.activeTool === 'select') return false;
 
-  const res = toolPointerDown(deps.activeTool, deps.toolCtx, pos);
+  const res = toolPointerDown(deps.activeTool, sampleCtx(deps, pressure), pos);
   if (res.kind === 'draft') {
     deps.setDraft(res.draft);
   } else if (res.kind === 'create') {
@@ -15,9 +20,9 @@ export function handleToolPointerDown(deps: CanvasInteractionsDeps, pos: Point):
   return true;
 }
 
-export function handleToolPointerMove(deps: CanvasInteractionsDeps, pos: Point): boolean {
+export function handleToolPointerMove(deps: CanvasInteractionsDeps, pos: Point, pressure?: number): boolean {
   if (!deps.draft) return false;
-  const res = toolPointerMove(deps.draft, deps.toolCtx, pos);
+  const res = toolPointerMove(deps.draft, sampleCtx(deps, pressure), pos);
   deps.setDraft(res.draft);
   return true;
 }
@@ -1,7 +1,8 @@
 import type { DraftShape } from '../../drawing';
-import type { Point, Viewport, WhiteboardObject, ObjectId } from '../../../domain/types';
-import type { DrawingTool } from '../../whiteboardTypes';
+import type { ErasedObject, GroupId, Point, Viewport, WhiteboardObject, ObjectId, ObjectUpdate } from '../../../domain/types';
+import type { DrawingTool, EraserSettings, MarqueeSettings } from '../../whiteboardTypes';
 import type { DragState } from '../drag/types';
+import type { PathLabelEditTarget } from '../../textEditing';
 
 export type CanvasToolContext = {
   objects: WhiteboardObject[];
@@ -10,6 +11,9 @@ export type CanvasToolContext = {
   strokeWidth: number;
   toolProps?: Partial<WhiteboardObject>;
   generateObjectId: () => ObjectId;
+  snapGridSize?: number;
+  /** Pen pressure of the sample being handled (set per event, not per render). */
+  pressure?: number;
 };
 
 export type CanvasPointerHelpers = {
@@ -27,6 +31,10 @@ export type CanvasInteractionsDeps = {
   onCreateObject: (object: WhiteboardObject) => void;
   onSelectionChange: (selectedIds: ObjectId[]) => void;
   onUpdateObject: (objectId: ObjectId, patch: Partial<WhiteboardObject>) => void;
+  onUpdateObjects?: (updates: ObjectUpdate[]) => void;
+  onEraseObjects?: (erased: ErasedObject[]) => void;
+  onLaserPoint?: (pos: Point) => void;
+  onLaserEnd?: () => void;
   onTransientObjectPatch: (objectId: ObjectId, patch: Partial<WhiteboardObject>) => void;
   onViewportChange: (patch: Partial<Viewport>) => void;
   onCursorWorldMove?: (pos: { x: number; y: number }) => void;
@@ -35,4 +43,16 @@ export type CanvasInteractionsDeps = {
   drag: DragState | null;
   setDraft: (draft: DraftShape | null) => void;
   setDrag: (drag: DragState | null) => void;
+  /** Group the user double-clicked into: its members are selected individually. */
+  enteredGroupId?: GroupId | null;
+  setEnteredGroupId?: (groupId: GroupId | null) => void;
+  /**
+   * Open the in-place text editor for an object (for lines and connectors, one of
+   * their labels); double-click does nothing when omitted.
+   */
+  onEditText?: (objectId: ObjectId, label?: PathLabelEditTarget) => void;
+  /** Empty-canvas drag behaviour; DEFAULT_MARQUEE_SETTINGS when omitted. */
+  marqueeSettings?: MarqueeSettings;
+  /** Eraser tool mode and size; DEFAULT_ERASER_SETTINGS when omitted. */
+  eraserSettings?: EraserSettings;
 };
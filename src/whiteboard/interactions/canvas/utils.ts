@@ -85,6 +85,15 @@ export function createCanvasPointerHelpers(
   };
 }
 
+/**
+ * Pressure of a pen sample rounded to 0.01, or undefined for mouse/touch (which
+ * report a fixed 0.5 while pressed, so it carries no information).
+ */
+export function getPenPressure(evt: { pointerType?: string; pressure?: number }): number | undefined {
+  if (evt.pointerType !== 'pen' || typeof evt.pressure !== 'number') return undefined;
+  return Math.round(Math.max(0, Math.min(1, evt.pressure)) * 100) / 100;
+}
+
 export function getConnectorEndpointHit(
   connector: WhiteboardObject,
   objects: WhiteboardObject[],
@@ -1,17 +1,65 @@
 // src/whiteboard/interactions/drag/dispatch.ts
-import type { Attachment, Point, Viewport, WhiteboardObject } from '../../../domain/types';
+import type { Attachment, ObjectId, Point, Viewport, WhiteboardObject } from '../../../domain/types';
 import {
+  getBoundingBox,
   hitTestConnectable,
   isConnectable,
+  keepAspectRatio,
   resizeBounds,
 } from '../../geometry';
-import { pickAttachmentForObject } from '../../tools/connector/interactions';
+import { snapBoundsToGrid, snapValueToGrid } from '../../geometry/snapping';
+import { getObjectsBounds, scaleObjectBetweenBounds } from '../../geometry/selectionTransform';
 import {
+  MOVE_SNAP_FEATURES,
+  applyResizeSnap,
+  collectAlignmentGuides,
+  findAlignmentSnap,
+  getAlignmentCandidates,
+  getAlignmentTolerance,
+  getResizeSnapFeatures,
+} from '../../geometry/alignment';
+import {
+  insertConnectorWaypoint,
+  moveConnectorWaypoint,
+  pickAttachmentForObject,
+} from '../../tools/connector/interactions';
+import { getRotationRad, normalizeRotation, placeLocalBox, rotatePoint, snapRotation } from '../../tools/_shared/rotation';
+import {
+  getLabelPath,
+  keepsAspectRatio,
   resizeObject,
   translateObject,
 } from '../../tools/shapeRegistry';
+import { getPathLabelMovePatch, getPathTAtPoint } from '../../tools/_shared/pathLabels';
+import type { Bounds } from '../../geometry/types';
+import type { AlignmentGuides } from '../../geometry/alignment';
 import type { DragCommit, DragState } from './types';
 
+/** Delta that puts `start + delta` on the grid (unchanged when snapping is off). */
+function snapDeltaToGrid(start: number, delta: number, gridSize?: number): number {
+  return gridSize ? snapValueToGrid(start + delta, gridSize) - start : delta;
+}
+
+function offsetBounds(b: Bounds, dx: number, dy: number): Bounds {
+  return { x: b.x + dx, y: b.y + dy, width: b.width, height: b.height };
+}
+
+/** Emit a transient patch per member and collect them for the commit. */
+function patchMembers(
+  members: WhiteboardObject[],
+  makePatch: (member: WhiteboardObject) => Partial<WhiteboardObject> | null,
+  onTransientObjectPatch: DragMoveDeps['onTransientObjectPatch']
+): Record<ObjectId, Partial<WhiteboardObject>> {
+  const patches: Record<ObjectId, Partial<WhiteboardObject>> = {};
+  for (const member of members) {
+    const patch = makePatch(member);
+    if (!patch) continue;
+    patches[member.id] = patch;
+    onTransientObjectPatch(member.id, patch);
+  }
+  return patches;
+}
+
 export type DragMoveDeps = {
   objects: WhiteboardObject[];
   viewport: Viewport;
@@ -20,6 +68,12 @@ export type DragMoveDeps = {
   canvasY: number;
   onTransientObjectPatch: (objectId: string, patch: Partial<WhiteboardObject>) => void;
   onViewportChange: (patch: Partial<Viewport>) => void;
+  /** Board grid size when snap-to-grid is on. */
+  snapGridSize?: number;
+  /** True while the snapping modifier is held: no grid or alignment snapping. */
+  disableSnapping?: boolean;
+  /** True while Shift is held: rotation snaps to fixed steps and resizing keeps the aspect ratio. */
+  constrain?: boolean;
 };
 
 /**
@@ -30,6 +84,8 @@ export type DragMoveDeps = {
  */
 export function handleDragMove(drag: DragState, deps: DragMoveDeps): DragState {
   const { objects, viewport, pos, canvasX, canvasY, onTransientObjectPatch, onViewportChange } = deps;
+  const snapping = !deps.disableSnapping;
+  const snapGridSize = snapping ? deps.snapGridSize : undefined;
 
   if (drag.kind === 'lineEndpoint') {
     const line = objects.find((o) => o.id === drag.objectId);
@@ -70,18 +126,64 @@ export function handleDragMove(drag: DragState, deps: DragMoveDeps): DragState {
     return { ...drag, lastPatch: patch };
   }
 
+  if (drag.kind === 'connectorWaypoint') {
+    const point = snapGridSize
+      ? { x: snapValueToGrid(pos.x, snapGridSize), y: snapValueToGrid(pos.y, snapGridSize) }
+      : pos;
+    // Always patch from the original, so a midpoint drag inserts its waypoint once.
+    const patch = drag.insert
+      ? insertConnectorWaypoint(drag.originalObject, drag.index, point)
+      : moveConnectorWaypoint(drag.originalObject, drag.index, point);
+
+    onTransientObjectPatch(drag.objectId, patch);
+    return { ...drag, lastPatch: patch };
+  }
+
+  if (drag.kind === 'pathLabel') {
+    const obj = objects.find((o) => o.id === drag.objectId);
+    const path = obj ? getLabelPath(obj, objects) : null;
+    if (!path) return drag;
+
+    const patch = getPathLabelMovePatch(drag.originalObject, drag.index, getPathTAtPoint(path, pos));
+    onTransientObjectPatch(drag.objectId, patch);
+    return { ...drag, lastPatch: patch };
+  }
+
   if (drag.kind === 'move') {
-    const dx = pos.x - drag.startX;
-    const dy = pos.y - drag.startY;
+    let dx = pos.x - drag.startX;
+    let dy = pos.y - drag.startY;
     if (dx === 0 && dy === 0) return drag;
+    let guides: AlignmentGuides | null = null;
+    const members = drag.members ?? [];
+
+    // Snap the moved object's box (or the whole unit's), not the pointer, so the grab
+    // offset is kept. Neighbour alignment wins over the grid on each axis.
+    const box = !snapping
+      ? null
+      : members.length > 0
+        ? getObjectsBounds([drag.originalObject, ...members])
+        : getBoundingBox(drag.originalObject, objects);
+    if (box) {
+      const moved = offsetBounds(box, dx, dy);
+      const exclude = [drag.objectId, ...members.map((m) => m.id)];
+      const candidates = getAlignmentCandidates(objects, exclude, moved, viewport);
+      const snap = findAlignmentSnap(moved, candidates, getAlignmentTolerance(viewport), MOVE_SNAP_FEATURES);
+
+      dx = snap.x !== null ? dx + snap.x : snapDeltaToGrid(box.x, dx, snapGridSize);
+      dy = snap.y !== null ? dy + snap.y : snapDeltaToGrid(box.y, dy, snapGridSize);
+      guides = collectAlignmentGuides(offsetBounds(box, dx, dy), candidates, MOVE_SNAP_FEATURES);
+    }
 
     const patch = translateObject(drag.originalObject, dx, dy);
+    const memberPatches = members.length
+      ? patchMembers(members, (m) => translateObject(m, dx, dy), onTransientObjectPatch)
+      : undefined;
 
     // If a shape opts out of moving (e.g., semantic connectors), don't emit patches.
-    if (!patch) return drag;
+    if (!patch) return memberPatches ? { ...drag, memberPatches, guides } : drag;
 
     onTransientObjectPatch(drag.objectId, patch);
-    return { ...drag, lastPatch: patch };
+    return { ...drag, lastPatch: patch, memberPatches, guides };
   }
 
   if (drag.kind === 'pan') {
@@ -97,15 +199,79 @@ export function handleDragMove(drag: DragState, deps: DragMoveDeps): DragState {
     return drag;
   }
 
+  if (drag.kind === 'marquee') {
+    if (pos.x === drag.currentX && pos.y === drag.currentY) return drag;
+    return { ...drag, currentX: pos.x, currentY: pos.y };
+  }
+
+  // Eraser gestures are tracked by the erase interaction itself.
+  if (drag.kind === 'erase') return drag;
+
+  if (drag.kind === 'rotate') {
+    const angle = Math.atan2(pos.y - drag.center.y, pos.x - drag.center.x);
+    const raw = (drag.originalObject.rotation ?? 0) + ((angle - drag.startAngle) * 180) / Math.PI;
+    const patch = { rotation: deps.constrain ? snapRotation(raw) : normalizeRotation(raw) } as Partial<WhiteboardObject>;
+
+    onTransientObjectPatch(drag.objectId, patch);
+    return { ...drag, lastPatch: patch };
+  }
+
   // resize
   const dx = pos.x - drag.startX;
   const dy = pos.y - drag.startY;
-  const newBounds = resizeBounds(drag.originalBounds, drag.handle, dx, dy);
 
-  const patch = resizeObject(drag.originalObject, newBounds);
+  const members = drag.members ?? [];
+  // Shift constrains the ratio, or frees it for shapes that keep theirs by default.
+  const keepRatio = !!deps.constrain !== (members.length === 0 && keepsAspectRatio(drag.originalObject));
+
+  // Rotated shapes resize in their own frame; neighbour/grid snapping only makes sense axis-aligned.
+  const rad = members.length > 0 ? 0 : getRotationRad(drag.originalObject);
+  if (rad !== 0) {
+    const local = rotatePoint({ x: dx, y: dy }, { x: 0, y: 0 }, -rad);
+    let localBounds = resizeBounds(drag.originalBounds, drag.handle, local.x, local.y);
+    if (keepRatio) localBounds = keepAspectRatio(drag.originalBounds, localBounds, drag.handle);
+    const patch = resizeObject(drag.originalObject, placeLocalBox(localBounds, drag.originalBounds, rad));
+    if (!patch) return drag;
+    onTransientObjectPatch(drag.objectId, patch);
+    return { ...drag, lastPatch: patch, guides: null };
+  }
+
+  let newBounds = resizeBounds(drag.originalBounds, drag.handle, dx, dy);
+  let guides: AlignmentGuides | null = null;
+  let aligned = false;
+
+  // Snapping moves single edges, which would break the ratio again.
+  if (keepRatio) newBounds = keepAspectRatio(drag.originalBounds, newBounds, drag.handle);
+  const resizeGridSize = keepRatio ? undefined : snapGridSize;
+
+  if (snapping && !keepRatio) {
+    const features = getResizeSnapFeatures(drag.handle);
+    const exclude = [drag.objectId, ...members.map((m) => m.id)];
+    const candidates = getAlignmentCandidates(objects, exclude, newBounds, viewport);
+    const snap = findAlignmentSnap(newBounds, candidates, getAlignmentTolerance(viewport), features);
+    aligned = snap.x !== null || snap.y !== null;
+    newBounds = applyResizeSnap(newBounds, features, snap);
+    guides = collectAlignmentGuides(newBounds, candidates, features);
+  }
+
+  // A unit (group) scales every member from the original frame into the new one.
+  if (members.length > 0) {
+    const frame = aligned ? newBounds : snapBoundsToGrid(newBounds, resizeGridSize, drag.handle);
+    const scale = (obj: WhiteboardObject) => scaleObjectBetweenBounds(obj, drag.originalBounds, frame);
+    const patch = scale(drag.originalObject);
+    if (patch) onTransientObjectPatch(drag.objectId, patch);
+    const memberPatches = patchMembers(members, scale, onTransientObjectPatch);
+    return { ...drag, lastPatch: patch ?? drag.lastPatch, memberPatches, guides };
+  }
+
+  // Grid snapping would move the edge off the neighbour again, so it only applies when unaligned.
+  const patch = resizeObject(drag.originalObject, newBounds, {
+    snapGridSize: aligned ? undefined : resizeGridSize,
+    handle: drag.handle,
+  });
   if (patch) {
     onTransientObjectPatch(drag.objectId, patch);
-    return { ...drag, lastPatch: patch };
+    return { ...drag, lastPatch: patch, guides };
   }
 
   return drag;
@@ -118,10 +284,10 @@ export type MinimizePatchFn = (
 
 /**
  * Produces an undo-worthy patch for the completed drag, if any.
- * (Pan has no object patch to commit.)
+ * (Pan, marquee and erase have no object patch to commit.)
  */
 export function getCommitFromDrag(drag: DragState, minimizePatch: MinimizePatchFn): DragCommit | null {
-  if (drag.kind === 'pan') return null;
+  if (drag.kind === 'pan' || drag.kind === 'marquee' || drag.kind === 'erase') return null;
 
   const patch = (drag as any).lastPatch ?? null;
   if (!patch) return null;
@@ -131,3 +297,21 @@ export function getCommitFromDrag(drag: DragState, minimizePatch: MinimizePatchF
 
   return { objectId: (drag as any).objectId, patch: minimized as any };
 }
+
+/**
+ * All undo-worthy patches for the completed drag: the dragged object plus any
+ * members moved/resized with it.
+ */
+export function getCommitsFromDrag(drag: DragState, minimizePatch: MinimizePatchFn): DragCommit[] {
+  const commits: DragCommit[] = [];
+  const primary = getCommitFromDrag(drag, minimizePatch);
+  if (primary) commits.push(primary);
+
+  if (drag.kind !== 'move' && drag.kind !== 'resize') return commits;
+  for (const member of drag.members ?? []) {
+    const patch = drag.memberPatches?.[member.id];
+    const minimized = patch ? minimizePatch(member, patch) : null;
+    if (minimized) commits.push({ objectId: member.id, patch: minimized as Partial<WhiteboardObject> });
+  }
+  return commits;
+}
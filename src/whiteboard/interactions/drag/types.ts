@@ -1,6 +1,8 @@
 // src/whiteboard/interactions/drag/types.ts
-import type { ObjectId, WhiteboardObject } from '../../../domain/types';
+import type { ObjectId, Point, WhiteboardObject } from '../../../domain/types';
 import type { Bounds, ResizeHandleId } from '../../geometry';
+import type { AlignmentGuides } from '../../geometry/alignment';
+import type { EraserMode, MarqueeMode } from '../../whiteboardTypes';
 
 export type ResizeDragState = {
   kind: 'resize';
@@ -8,9 +10,18 @@ export type ResizeDragState = {
   handle: ResizeHandleId;
   startX: number; // world coords at pointer-down
   startY: number;
+  /** Unrotated x/y/width/height for rotated shapes (handles follow the object's own frame). */
   originalBounds: Bounds;
   originalObject: WhiteboardObject;
   lastPatch?: Partial<WhiteboardObject> | null;
+  /** Smart guides for the current pointer position (drawn on the overlay). */
+  guides?: AlignmentGuides | null;
+  /**
+   * Other objects resized with `objectId` as one unit (e.g. a group).
+   * `originalBounds` is then the frame around all of them.
+   */
+  members?: WhiteboardObject[];
+  memberPatches?: Record<ObjectId, Partial<WhiteboardObject>>;
 };
 
 export type MoveDragState = {
@@ -20,6 +31,40 @@ export type MoveDragState = {
   startY: number;
   originalObject: WhiteboardObject;
   lastPatch?: Partial<WhiteboardObject> | null;
+  /** Smart guides for the current pointer position (drawn on the overlay). */
+  guides?: AlignmentGuides | null;
+  /** Other objects moved with `objectId` as one unit (group / multi-selection). */
+  members?: WhiteboardObject[];
+  memberPatches?: Record<ObjectId, Partial<WhiteboardObject>>;
+};
+
+export type RotateDragState = {
+  kind: 'rotate';
+  objectId: ObjectId;
+  center: Point; // world coords, pivot of the rotation
+  startAngle: number; // radians, pointer angle around `center` at pointer-down
+  originalObject: WhiteboardObject;
+  lastPatch?: Partial<WhiteboardObject> | null;
+};
+
+export type MarqueeDragState = {
+  kind: 'marquee';
+  startX: number; // world coords at pointer-down
+  startY: number;
+  currentX: number;
+  currentY: number;
+  mode: MarqueeMode;
+  /** Selection the marquee adds to (Shift held), otherwise empty. */
+  baseSelection: ObjectId[];
+};
+
+export type EraseDragState = {
+  kind: 'erase';
+  mode: EraserMode;
+  /** Eraser positions so far, world coords. */
+  path: Point[];
+  /** Objects touched so far (erased or cut when the gesture ends). */
+  touchedIds: ObjectId[];
 };
 
 export type PanDragState = {
@@ -39,6 +84,27 @@ export type ConnectorEndpointDragState = {
   lastPatch?: Partial<WhiteboardObject> | null;
 };
 
+export type ConnectorWaypointDragState = {
+  kind: 'connectorWaypoint';
+  objectId: ObjectId;
+  /** Index into the connector's waypoints. */
+  index: number;
+  /** Dragging a segment's midpoint handle: a new waypoint is inserted at `index`. */
+  insert: boolean;
+  originalObject: WhiteboardObject;
+  lastPatch?: Partial<WhiteboardObject> | null;
+};
+
+/** Sliding a label of a line or connector along its path. */
+export type PathLabelDragState = {
+  kind: 'pathLabel';
+  objectId: ObjectId;
+  /** Label index: 0 is the object's `text`, 1… its `labels`. */
+  index: number;
+  originalObject: WhiteboardObject;
+  lastPatch?: Partial<WhiteboardObject> | null;
+};
+
 export type LineEndpointDragState = {
   kind: 'lineEndpoint';
   objectId: ObjectId;
@@ -50,8 +116,13 @@ export type LineEndpointDragState = {
 export type DragState =
   | MoveDragState
   | PanDragState
+  | MarqueeDragState
+  | EraseDragState
   | ResizeDragState
+  | RotateDragState
   | ConnectorEndpointDragState
+  | ConnectorWaypointDragState
+  | PathLabelDragState
   | LineEndpointDragState;
 
 export type DragCommit = {
@@ -5,11 +5,25 @@ function hasOwn(obj: object, key: string): boolean {
   return Object.prototype.hasOwnProperty.call(obj, key);
 }
 
+/**
+ * A locked object only accepts changes to `locked` itself (so it can be unlocked).
+ */
+function filterObjectLockPatch(
+  target: WhiteboardObject,
+  patch: Partial<WhiteboardObject>,
+): Partial<WhiteboardObject> | null {
+  if (!target.locked) return patch;
+  return hasOwn(patch, 'locked') ? { locked: patch.locked } : null;
+}
+
 export function filterLockedObjectPatch(
   boardTypeDef: ReturnType<typeof getBoardType>,
   target: WhiteboardObject,
-  patch: Partial<WhiteboardObject>,
+  rawPatch: Partial<WhiteboardObject>,
 ): Partial<WhiteboardObject> | null {
+  const patch = filterObjectLockPatch(target, rawPatch ?? {});
+  if (!patch) return null;
+
   const locked = getLockedObjectProps(boardTypeDef, target.type);
   if (!locked || Object.keys(locked).length === 0) return patch;
 
@@ -60,5 +74,89 @@ export function enforcePolicyOnEvent(
     } as BoardEvent;
   }
 
+  if (event.type === 'objectsUpdated') {
+    const byId = new Map(state.objects.map((object) => [object.id, object]));
+    const updates: typeof event.payload.updates = [];
+    for (const update of event.payload.updates) {
+      const target = byId.get(update.objectId);
+      if (!target) {
+        updates.push(update);
+        continue;
+      }
+      const patch = filterLockedObjectPatch(boardTypeDef, target, update.patch ?? {});
+      if (patch) updates.push({ ...update, patch });
+    }
+    if (updates.length === 0) return null;
+
+    return {
+      ...event,
+      payload: {
+        ...event.payload,
+        updates,
+      },
+    } as BoardEvent;
+  }
+
+  if (event.type === 'objectDeleted') {
+    const target = state.objects.find((candidate) => candidate.id === event.payload.objectId);
+    return target?.locked ? null : event;
+  }
+
+  if (event.type === 'objectsErased') {
+    const lockedIds = new Set(state.objects.filter((o) => o.locked).map((o) => o.id));
+    if (lockedIds.size === 0) return event;
+
+    const erased = event.payload.erased.filter((entry) => !lockedIds.has(entry.objectId));
+    if (erased.length === 0) return null;
+    if (erased.length === event.payload.erased.length) return event;
+
+    return {
+      ...event,
+      payload: {
+        ...event.payload,
+        erased,
+      },
+    } as BoardEvent;
+  }
+
+  if (event.type === 'objectsReordered') {
+    const lockedIds = new Set(state.objects.filter((o) => o.locked).map((o) => o.id));
+    if (lockedIds.size === 0) return event;
+
+    const objectIds = event.payload.objectIds.filter((id) => !lockedIds.has(id));
+    if (objectIds.length === 0) return null;
+
+    return {
+      ...event,
+      payload: {
+        ...event.payload,
+        objectIds,
+      },
+    } as BoardEvent;
+  }
+
+  if (event.type === 'objectsGrouped') {
+    const lockedIds = new Set(state.objects.filter((o) => o.locked).map((o) => o.id));
+    if (lockedIds.size === 0) return event;
+
+    const objectIds = event.payload.objectIds.filter((id) => !lockedIds.has(id));
+    if (objectIds.length < 2) return null;
+    if (objectIds.length === event.payload.objectIds.length) return event;
+
+    return {
+      ...event,
+      payload: {
+        ...event.payload,
+        objectIds,
+      },
+    } as BoardEvent;
+  }
+
+  if (event.type === 'objectsUngrouped') {
+    // Ungrouping rewrites every member, so a single locked member keeps the group.
+    const groupId = event.payload.groupId;
+    return state.objects.some((o) => o.groupId === groupId && o.locked) ? null : event;
+  }
+
   return event;
 }
@@ -1,4 +1,5 @@
 import { applyEvent } from '../../domain/whiteboardState';
+import { notifyObjectIndexes } from '../../domain/objectIndex';
 import type { WhiteboardState } from '../../domain/types';
 import { getBoardType } from '../boardTypes';
 import { ensureHistory, rebuildStateFromHistory } from './history';
@@ -23,7 +24,12 @@ export function whiteboardReducer(
       const history = ensureHistory(state);
       const applied = applyEvent(state, enforcedEvent);
 
-      if (enforcedEvent.type === 'viewportChanged' || enforcedEvent.type === 'selectionChanged') {
+      // Board settings are not undoable: UNDO rebuilds from the current meta, so they persist.
+      if (
+        enforcedEvent.type === 'viewportChanged' ||
+        enforcedEvent.type === 'selectionChanged' ||
+        enforcedEvent.type === 'boardSettingsChanged'
+      ) {
         return {
           ...applied,
           history,
@@ -123,10 +129,11 @@ export function whiteboardReducer(
       const patch = filterLockedObjectPatch(boardTypeDef, target, action.patch ?? {});
       if (!patch) return state;
 
-      return {
-        ...state,
-        objects: state.objects.map((object) => (object.id === action.objectId ? { ...object, ...patch } : object)),
-      };
+      // Same incremental index update as applyEvent, so drags don't rebuild the spatial index every frame.
+      const patched = { ...target, ...patch };
+      const objects = state.objects.map((object) => (object.id === action.objectId ? patched : object));
+      notifyObjectIndexes(state.objects, objects, { kind: 'updated', before: target, after: patched });
+      return { ...state, objects };
     }
 
     case 'SET_VIEWPORT': {
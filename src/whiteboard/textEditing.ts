@@ -0,0 +1,166 @@
+// src/whiteboard/textEditing.ts
+//
+// Geometry for editing an object's text in place: where the editor sits and how
+// it wraps, matching what the canvas draws for the object.
+
+import type { Point, TextAlign, WhiteboardObject } from '../domain/types';
+import type { Bounds } from './geometry/types';
+import { getLabelPath, getSelectionCaps, getShapeTextArea, hasPathLabels } from './tools/shapeRegistry';
+import { getBoxCenter, getUnrotatedBox } from './tools/_shared/rotation';
+import {
+  getNewPathLabelIndex,
+  getPathLabelFontSize,
+  getPathLabels,
+  getPathTAtPoint,
+  getPlacedPathLabels,
+  hitTestPathLabels,
+  placePathLabel,
+} from './tools/_shared/pathLabels';
+import { getShapeTextBlock } from './tools/_shared/shapeText';
+import { getTextFit } from './tools/_shared/textFit';
+import { getTextBlock } from './tools/text/geometry';
+import { STICKY_NOTE_PADDING, getStickyNoteBlock } from './tools/stickyNote/geometry';
+
+export type TextEditFrame = {
+  /** World rectangle the text is laid out in, before rotation. */
+  textBox: Bounds;
+  /** World point the object rotates around. */
+  center: { x: number; y: number };
+  rotation: number;
+  fontSize: number;
+  /** True when lines wrap at textBox.width; otherwise the box follows the text. */
+  wraps: boolean;
+  /** True when the box has a fixed height and extra lines must scroll. */
+  fixedHeight: boolean;
+  /** Line alignment; left when omitted. Labels on lines and connectors are centred on their path point. */
+  align?: TextAlign;
+};
+
+/** The label of a line or connector being edited: index 0 is its `text` (see _shared/pathLabels). */
+export type PathLabelEditTarget = {
+  index: number;
+  /** Position along the path of a label that does not exist yet. */
+  t?: number;
+};
+
+/** Objects whose text can be edited by double-clicking them on the canvas. */
+export function canEditTextInPlace(obj: WhiteboardObject): boolean {
+  if (obj.locked || !getSelectionCaps(obj.type).editableProps.includes('text')) return false;
+  return hasPathLabels(obj.type) || getTextEditFrame(obj) !== null;
+}
+
+/** Index of the line's or connector's label under the world point, or null. */
+export function getPathLabelHit(obj: WhiteboardObject, objects: WhiteboardObject[], pos: Point): number | null {
+  if (!hasPathLabels(obj.type)) return null;
+  return hitTestPathLabels(getPlacedPathLabels(obj, getLabelPath(obj, objects)), pos.x, pos.y);
+}
+
+/**
+ * What double-clicking a line or connector at `pos` edits: the label there, or
+ * a new one at that point of the path. Undefined for other objects.
+ */
+export function getPathLabelEditTarget(
+  obj: WhiteboardObject,
+  objects: WhiteboardObject[],
+  pos: Point
+): PathLabelEditTarget | undefined {
+  if (!hasPathLabels(obj.type)) return undefined;
+  const hit = getPathLabelHit(obj, objects, pos);
+  if (hit !== null) return { index: hit };
+  const path = getLabelPath(obj, objects);
+  return { index: getNewPathLabelIndex(obj), t: path ? getPathTAtPoint(path, pos) : undefined };
+}
+
+function getPathLabelEditFrame(
+  obj: WhiteboardObject,
+  text: string,
+  label: PathLabelEditTarget,
+  objects: WhiteboardObject[]
+): TextEditFrame | null {
+  const path = getLabelPath(obj, objects);
+  if (!path || path.length < 2) return null;
+  const t = label.t ?? getPathLabels(obj).find((slot) => slot.index === label.index)?.t ?? 0.5;
+  const { layout, textOrigin } = placePathLabel(obj, path, { index: label.index, text, t });
+  const textBox = { x: textOrigin.x, y: textOrigin.y, width: layout.width, height: layout.height };
+  return {
+    textBox,
+    center: getBoxCenter(textBox),
+    rotation: 0,
+    fontSize: getPathLabelFontSize(obj),
+    wraps: false,
+    fixedHeight: false,
+    align: 'center',
+  };
+}
+
+/**
+ * The editor frame for `obj` showing `text` (the draft being typed, so a text
+ * object's box can grow while editing). Lines and connectors edit one of their
+ * labels, which needs `options.label` and the board's objects. Null for objects
+ * without in-place editing.
+ */
+export function getTextEditFrame(
+  obj: WhiteboardObject,
+  text: string = obj.text ?? '',
+  options: { label?: PathLabelEditTarget; objects?: WhiteboardObject[] } = {}
+): TextEditFrame | null {
+  if (hasPathLabels(obj.type)) {
+    return options.label ? getPathLabelEditFrame(obj, text, options.label, options.objects ?? []) : null;
+  }
+
+  const rotation = obj.rotation ?? 0;
+  const draft = { ...obj, text };
+  // Shrunk text is edited at the size it is drawn at; fixed boxes scroll instead of growing.
+  const fixedHeight = getTextFit(obj) !== 'grow';
+
+  if (obj.type === 'text') {
+    const { box, fontSize } = getTextBlock(draft);
+    return {
+      textBox: box,
+      center: getBoxCenter(box),
+      rotation,
+      fontSize,
+      wraps: obj.width !== undefined && obj.width > 0,
+      fixedHeight: fixedHeight && (obj.height ?? 0) > 0,
+    };
+  }
+
+  const textArea = getShapeTextArea(obj);
+  if (textArea) {
+    // The editor covers the lines where they are drawn, so it grows from the vertical alignment point.
+    const { area, origin, layout, fontSize, align } = getShapeTextBlock(draft, textArea);
+    return {
+      textBox: {
+        x: area.x,
+        y: origin.y,
+        width: area.width,
+        height: Math.max(1, Math.min(layout.height, area.height)),
+      },
+      center: getBoxCenter(getUnrotatedBox(obj)),
+      rotation,
+      fontSize,
+      wraps: true,
+      fixedHeight: true,
+      align,
+    };
+  }
+
+  if (obj.type === 'stickyNote') {
+    const { box, fontSize } = getStickyNoteBlock(draft);
+    return {
+      textBox: {
+        x: box.x + STICKY_NOTE_PADDING,
+        y: box.y + STICKY_NOTE_PADDING,
+        width: Math.max(1, box.width - STICKY_NOTE_PADDING * 2),
+        height: Math.max(1, box.height - STICKY_NOTE_PADDING * 2),
+      },
+      center: getBoxCenter(box),
+      rotation,
+      fontSize,
+      wraps: true,
+      fixedHeight,
+    };
+  }
+
+  return null;
+}
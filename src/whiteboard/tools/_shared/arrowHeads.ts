@@ -1,9 +1,38 @@
 // src/whiteboard/tools/_shared/arrowHeads.ts
 
-import type { ArrowType } from '../../../domain/types';
+import type { ArrowType, Point } from '../../../domain/types';
+
+/** Arrow head length in canvas pixels: proportional to the stroke width, with a minimum. */
+function getArrowHeadLength(strokeWidthPx: number): number {
+  // Requested: make arrows ~2x larger than previous.
+  return Math.max(20, strokeWidthPx * 6);
+}
+
+/**
+ * Point to aim an arrow head from when its line bends close to the tip.
+ *
+ * `path` runs from the tip backwards (canvas px). The result is the point one
+ * head length along it, so a head on a curve covers the curve's last stretch
+ * instead of following the tangent off the line.
+ */
+export function getArrowTailPoint(path: readonly Point[], strokeWidthPx: number): Point {
+  let remaining = getArrowHeadLength(strokeWidthPx);
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    if (len >= remaining) {
+      const t = remaining / len;
+      return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+    }
+    remaining -= len;
+  }
+  return path[path.length - 1];
+}
 
 /**
- * Draw an arrow head at `tip` pointing towards `tail`.
+ * Draw an arrow head at `tip`, pointing away from `tail` (for curves, see
+ * `getArrowTailPoint`).
  *
  * - open: stroked V
  * - closed: outlined triangle
@@ -27,9 +56,7 @@ export function drawArrowHead(
   const ux = dx / len;
   const uy = dy / len;
 
-  // Arrow size (in canvas pixels). Keep proportional to stroke width, with a minimum.
-  // Requested: make arrows ~2x larger than previous.
-  const headLen = Math.max(20, strokeWidthPx * 6);
+  const headLen = getArrowHeadLength(strokeWidthPx);
   const backX = tipX - ux * headLen;
   const backY = tipY - uy * headLen;
 
@@ -6,6 +6,7 @@
 
 import type { WhiteboardObject, ObjectId, Point, WhiteboardObjectType } from '../../../domain/types';
 import type { DraftShape } from '../../drawing';
+import { snapPointToGrid } from '../../geometry/snapping';
 
 export type BoxDraftKind = Extract<DraftShape, { kind: 'rectangle' | 'ellipse' }>['kind'];
 
@@ -14,10 +15,13 @@ export type BoxStartArgs = {
   strokeColor: string;
   strokeWidth: number;
   generateObjectId: () => ObjectId;
+  /** Round the draft corners to this grid (snap-to-grid). */
+  snapGridSize?: number;
 };
 
 export function startBoxDraft(args: BoxStartArgs, draftKind: BoxDraftKind): DraftShape {
-  const { pos, strokeColor, strokeWidth, generateObjectId } = args;
+  const { strokeColor, strokeWidth, generateObjectId } = args;
+  const pos = snapPointToGrid(args.pos, args.snapGridSize);
 
   return {
     kind: draftKind,
@@ -31,9 +35,15 @@ export function startBoxDraft(args: BoxStartArgs, draftKind: BoxDraftKind): Draf
   };
 }
 
-export function updateBoxDraft(draft: DraftShape, draftKind: BoxDraftKind, pos: Point): DraftShape {
+export function updateBoxDraft(
+  draft: DraftShape,
+  draftKind: BoxDraftKind,
+  pos: Point,
+  snapGridSize?: number
+): DraftShape {
   if (draft.kind !== draftKind) return draft;
-  return { ...draft, currentX: pos.x, currentY: pos.y };
+  const p = snapPointToGrid(pos, snapGridSize);
+  return { ...draft, currentX: p.x, currentY: p.y };
 }
 
 export function finishBoxDraft(
@@ -1,10 +1,12 @@
 // src/whiteboard/tools/_shared/boxGeometry.ts
 //
-// Shared helpers for axis-aligned "box-like" shapes (rectangle/ellipse/text/stickyNote/diamond).
-// Keeps per-tool geometry modules thin and consistent.
+// Shared helpers for "box-like" shapes (rectangle/ellipse/text/stickyNote/diamond).
+// Keeps per-tool geometry modules thin and consistent. Boxes may carry a
+// `rotation`; ports and bounds returned here already include it.
 
 import type { WhiteboardObject, Point, WhiteboardObjectType } from '../../../domain/types';
 import type { Bounds } from '../../geometry/types';
+import { rotatePorts, toObjectLocalPoint, withRotatedBounds } from './rotation';
 
 export type BoxPort = { portId: string; point: Point };
 
@@ -25,13 +27,13 @@ export function getBoxPorts(
   const cx = obj.x + w / 2;
   const cy = obj.y + h / 2;
 
-  return [
+  return rotatePorts(obj, [
     { portId: 'center', point: { x: cx, y: cy } },
     { portId: 'top', point: { x: cx, y: obj.y } },
     { portId: 'right', point: { x: obj.x + w, y: cy } },
     { portId: 'bottom', point: { x: cx, y: obj.y + h } },
     { portId: 'left', point: { x: obj.x, y: cy } },
-  ];
+  ]);
 }
 
 export function getBoxBoundingBox(
@@ -41,10 +43,27 @@ export function getBoxBoundingBox(
   if (obj.type !== expectedType) return null;
   if (typeof obj.x !== 'number' || typeof obj.y !== 'number') return null;
 
-  return {
+  return withRotatedBounds(obj, {
     x: obj.x,
     y: obj.y,
     width: obj.width ?? 0,
     height: obj.height ?? 0,
-  };
+  });
+}
+
+/**
+ * Point-in-box test in the object's own (unrotated) frame. Matches the inclusive
+ * bounding-box fallback used by core hit-testing for unrotated boxes.
+ */
+export function hitTestBox(
+  obj: WhiteboardObject,
+  expectedType: WhiteboardObjectType,
+  worldX: number,
+  worldY: number
+): boolean {
+  if (obj.type !== expectedType) return false;
+  const p = toObjectLocalPoint(obj, { x: worldX, y: worldY });
+  const w = obj.width ?? 0;
+  const h = obj.height ?? 0;
+  return p.x >= obj.x && p.x <= obj.x + w && p.y >= obj.y && p.y <= obj.y + h;
 }
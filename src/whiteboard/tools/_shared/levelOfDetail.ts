@@ -0,0 +1,95 @@
+// src/whiteboard/tools/_shared/levelOfDetail.ts
+//
+// Level-of-detail helpers shared by draw modules. When zoomed far out, drawing
+// every glyph or stroke point costs a lot and adds nothing visually, so shapes
+// substitute cheaper stand-ins below a few screen pixels.
+
+import type { Point, Viewport } from '../../../domain/types';
+import type { Bounds } from '../../geometry/types';
+
+/** Text smaller than this on screen is drawn as placeholder bars. */
+export const MIN_LEGIBLE_TEXT_PX = 5;
+
+/** Objects whose on-screen bounds are smaller than this collapse to a filled box. */
+export const TINY_OBJECT_PX = 3;
+
+/** When zoomed out, freehand points closer than this on screen are merged. */
+export const FREEHAND_MIN_SEGMENT_PX = 1.5;
+
+export function isTextLegible(fontSize: number, zoom: number): boolean {
+  return fontSize * zoom >= MIN_LEGIBLE_TEXT_PX;
+}
+
+/**
+ * True when an object with meaningful bounds is too small on screen to show detail.
+ * Zero-area bounds (e.g. text without an explicit size) are never considered tiny.
+ */
+export function isTinyOnScreen(bounds: Bounds, zoom: number): boolean {
+  if (bounds.width <= 0 || bounds.height <= 0) return false;
+  return Math.max(bounds.width, bounds.height) * zoom < TINY_OBJECT_PX;
+}
+
+/**
+ * Draw a collapsed stand-in for an object (canvas coords derived from world bounds).
+ */
+export function drawCollapsedBox(
+  ctx: CanvasRenderingContext2D,
+  bounds: Bounds,
+  viewport: Viewport,
+  color: string
+): void {
+  const zoom = viewport.zoom ?? 1;
+  const x = (bounds.x + (viewport.offsetX ?? 0)) * zoom;
+  const y = (bounds.y + (viewport.offsetY ?? 0)) * zoom;
+  ctx.fillStyle = color;
+  ctx.fillRect(x, y, Math.max(1, bounds.width * zoom), Math.max(1, bounds.height * zoom));
+}
+
+/**
+ * Draw one rounded-off bar per text line in place of illegible text.
+ * `lineWidths` are in canvas px; (x, y) is the top-left of the first line.
+ */
+export function drawTextPlaceholderBars(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  lineWidths: number[],
+  lineHeight: number,
+  color: string
+): void {
+  const barHeight = Math.max(1, lineHeight * 0.5);
+  ctx.save();
+  ctx.globalAlpha *= 0.5;
+  ctx.fillStyle = color;
+  lineWidths.forEach((w, i) => {
+    if (w <= 0) return;
+    ctx.fillRect(x, y + i * lineHeight + (lineHeight - barHeight) / 2, w, barHeight);
+  });
+  ctx.restore();
+}
+
+/**
+ * Drop points that would land within FREEHAND_MIN_SEGMENT_PX of the previously kept
+ * point on screen. Only applied below 100% zoom; the last point is always kept.
+ */
+export function simplifyPointsForZoom<T extends Point>(points: T[], zoom: number): T[] {
+  if (zoom >= 1 || points.length <= 2) return points;
+
+  const minWorld = FREEHAND_MIN_SEGMENT_PX / zoom;
+  const minSq = minWorld * minWorld;
+  const kept: T[] = [points[0]];
+  let last = points[0];
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const p = points[i];
+    const dx = p.x - last.x;
+    const dy = p.y - last.y;
+    if (dx * dx + dy * dy >= minSq) {
+      kept.push(p);
+      last = p;
+    }
+  }
+
+  kept.push(points[points.length - 1]);
+  return kept;
+}
@@ -0,0 +1,135 @@
+// src/whiteboard/tools/_shared/outlineShape.ts
+//
+// Shared helpers for box shapes drawn from an outline inside their x/y/w/h box
+// (triangle, hexagon, parallelogram, cylinder, cloud, star, block arrow). Each
+// tool computes its outline from the unrotated box; these helpers add rotation,
+// fill/stroke styling, the shape's text and the dashed draft preview.
+
+import type { Point, Viewport, WhiteboardObject, WhiteboardObjectType } from '../../../domain/types';
+import type { DraftShape } from '../../drawing';
+import type { Bounds } from '../../geometry/types';
+import { worldToCanvas } from '../../geometry';
+import type { BoxPort } from './boxGeometry';
+import { drawRotated, getBoxCenter, getUnrotatedBox, rotatePorts, toObjectLocalPoint } from './rotation';
+import { drawShapeText } from './shapeText';
+import { fillWithOpacity, strokeWithStyle } from './strokeStyle';
+
+/** Traces the shape's path (canvas coords) for the given world box; the caller fills/strokes it. */
+export type TraceOutline = (ctx: CanvasRenderingContext2D, box: Bounds, viewport: Viewport) => void;
+
+/** Even-odd point-in-polygon test. */
+export function pointInPolygon(p: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Begin a closed path through world-space `points`. */
+export function tracePolygon(ctx: CanvasRenderingContext2D, points: Point[], viewport: Viewport): void {
+  ctx.beginPath();
+  points.forEach((p, i) => {
+    const c = worldToCanvas(p.x, p.y, viewport);
+    if (i === 0) ctx.moveTo(c.x, c.y);
+    else ctx.lineTo(c.x, c.y);
+  });
+  ctx.closePath();
+}
+
+/** Point-in-outline test in the object's own (unrotated) frame. */
+export function hitTestOutline(
+  obj: WhiteboardObject,
+  expectedType: WhiteboardObjectType,
+  worldX: number,
+  worldY: number,
+  getOutline: (box: Bounds) => Point[]
+): boolean {
+  if (obj.type !== expectedType) return false;
+  const box = getUnrotatedBox(obj);
+  if (box.width <= 0 || box.height <= 0) return false;
+  return pointInPolygon(toObjectLocalPoint(obj, { x: worldX, y: worldY }), getOutline(box));
+}
+
+/**
+ * Ports on the outline (from `getPorts`, unrotated) plus the centre, rotated with
+ * the object. Degenerate boxes expose a single anchor port, like box shapes.
+ */
+export function getOutlinePorts(
+  obj: WhiteboardObject,
+  expectedType: WhiteboardObjectType,
+  getPorts: (box: Bounds) => BoxPort[]
+): BoxPort[] {
+  if (obj.type !== expectedType) return [];
+  const box = getUnrotatedBox(obj);
+  if (box.width <= 0 || box.height <= 0) {
+    return [{ portId: 'center', point: { x: obj.x, y: obj.y } }];
+  }
+  return rotatePorts(obj, [{ portId: 'center', point: getBoxCenter(box) }, ...getPorts(box)]);
+}
+
+/**
+ * Fill and stroke the outline traced by `trace`, then draw the shape's text in
+ * `textArea`. `traceDetail` traces extra stroke-only lines (e.g. a cylinder's rim).
+ */
+export function drawOutlineShape(
+  ctx: CanvasRenderingContext2D,
+  obj: WhiteboardObject,
+  viewport: Viewport,
+  trace: TraceOutline,
+  textArea: Bounds,
+  traceDetail?: TraceOutline
+): void {
+  drawRotated(ctx, obj, viewport, () => {
+    const box = getUnrotatedBox(obj);
+    if (box.width === 0 || box.height === 0) return;
+    const widthPx = obj.strokeWidth ?? 2;
+
+    trace(ctx, box, viewport);
+    if (obj.fillColor) {
+      ctx.fillStyle = obj.fillColor;
+      fillWithOpacity(ctx, obj);
+    }
+    ctx.strokeStyle = obj.strokeColor ?? '#e5e7eb';
+    ctx.lineWidth = widthPx;
+    strokeWithStyle(ctx, obj, widthPx);
+
+    if (traceDetail) {
+      traceDetail(ctx, box, viewport);
+      strokeWithStyle(ctx, obj, widthPx);
+    }
+
+    drawShapeText(ctx, obj, textArea, viewport);
+  });
+}
+
+/** Dashed preview of the outline while a box draft is dragged (matches other drafts). */
+export function drawOutlineDraft(
+  ctx: CanvasRenderingContext2D,
+  draft: DraftShape,
+  viewport: Viewport,
+  trace: TraceOutline
+): void {
+  if (draft.kind !== 'rectangle') return;
+
+  const box: Bounds = {
+    x: Math.min(draft.startX, draft.currentX),
+    y: Math.min(draft.startY, draft.currentY),
+    width: Math.abs(draft.currentX - draft.startX),
+    height: Math.abs(draft.currentY - draft.startY),
+  };
+  if (box.width === 0 || box.height === 0) return;
+
+  ctx.save();
+  ctx.globalAlpha = 0.9;
+  ctx.strokeStyle = draft.strokeColor ?? '#e5e7eb';
+  ctx.lineWidth = draft.strokeWidth ?? 2;
+  ctx.setLineDash([6, 4]);
+  trace(ctx, box, viewport);
+  ctx.stroke();
+  ctx.restore();
+}
@@ -0,0 +1,234 @@
+// src/whiteboard/tools/_shared/pathLabels.ts
+//
+// Text labels along lines and connectors. The first label is the object's
+// `text` (placed at `labelT`), further ones live in `labels`; all of them share
+// the object's font size and text colour. Labels sit at a fraction of the
+// path's length and are knocked out of the line so they stay readable.
+// Everything works on the path polyline, so lines and connectors share it.
+
+import type { PathLabel, Point, Viewport, WhiteboardObject } from '../../../domain/types';
+import type { Bounds } from '../../geometry/types';
+import { worldToCanvas } from '../../geometry';
+import { drawTextLayout, layoutText, type TextLayout } from './textLayout';
+
+export const DEFAULT_PATH_LABEL_FONT_SIZE = 14;
+const DEFAULT_PATH_LABEL_T = 0.5;
+
+/** Gap between a label's text and the line around it, in world units. */
+const PATH_LABEL_PADDING = 4;
+
+/** A label, addressed by index: 0 is the object's `text`, 1… are `labels[0…]`. */
+export type PathLabelSlot = { index: number; text: string; t: number };
+
+/** A label placed on the path: its text layout and the box knocked out of the line. */
+export type PlacedPathLabel = PathLabelSlot & {
+  layout: TextLayout;
+  /** World box around the text, padded; the line is not drawn inside it. */
+  box: Bounds;
+  /** World top-left of the text. */
+  textOrigin: Point;
+};
+
+function clampT(t: number): number {
+  return Number.isFinite(t) ? Math.max(0, Math.min(1, t)) : DEFAULT_PATH_LABEL_T;
+}
+
+export function getPathLabelFontSize(obj: Pick<WhiteboardObject, 'fontSize'>): number {
+  return obj.fontSize ?? DEFAULT_PATH_LABEL_FONT_SIZE;
+}
+
+export function getPathLabelColor(obj: Pick<WhiteboardObject, 'textColor' | 'strokeColor'>): string {
+  return obj.textColor ?? obj.strokeColor ?? '#e5e7eb';
+}
+
+/** Every label of `obj` with text, in index order. */
+export function getPathLabels(obj: WhiteboardObject): PathLabelSlot[] {
+  const slots: PathLabelSlot[] = [];
+  if (obj.text) slots.push({ index: 0, text: obj.text, t: clampT(obj.labelT ?? DEFAULT_PATH_LABEL_T) });
+  (obj.labels ?? []).forEach((label, i) => {
+    if (label.text) slots.push({ index: i + 1, text: label.text, t: clampT(label.t) });
+  });
+  return slots;
+}
+
+export function getPathLabelText(obj: WhiteboardObject, index: number): string {
+  return (index === 0 ? obj.text : obj.labels?.[index - 1]?.text) ?? '';
+}
+
+/** Index for a label added to `obj`: its `text` while that is empty, otherwise the next `labels` entry. */
+export function getNewPathLabelIndex(obj: WhiteboardObject): number {
+  return obj.text ? (obj.labels?.length ?? 0) + 1 : 0;
+}
+
+/**
+ * Patch setting the text of label `index`; labels past the end are added at `t`.
+ * Extra labels left empty are removed (the first label just has no text).
+ */
+export function getPathLabelTextPatch(
+  obj: WhiteboardObject,
+  index: number,
+  text: string,
+  t?: number
+): Partial<WhiteboardObject> {
+  if (index === 0) return t === undefined ? { text } : { text, labelT: clampT(t) };
+
+  const labels: PathLabel[] = (obj.labels ?? []).slice();
+  const i = index - 1;
+  if (i < labels.length) {
+    if (text) labels[i] = { ...labels[i], text };
+    else labels.splice(i, 1);
+  } else if (text) {
+    labels.push({ text, t: clampT(t ?? DEFAULT_PATH_LABEL_T) });
+  }
+  return { labels };
+}
+
+/** Patch moving label `index` to `t` along the path. */
+export function getPathLabelMovePatch(obj: WhiteboardObject, index: number, t: number): Partial<WhiteboardObject> {
+  if (index === 0) return { labelT: clampT(t) };
+  const labels = (obj.labels ?? []).slice();
+  if (!labels[index - 1]) return {};
+  labels[index - 1] = { ...labels[index - 1], t: clampT(t) };
+  return { labels };
+}
+
+function getPathLength(path: readonly Point[]): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) total += Math.hypot(path[i].x - path[i - 1].x, path[i].y - path[i - 1].y);
+  return total;
+}
+
+/** The point a fraction `t` of the way along `path`, by length. */
+export function getPointAtPathT(path: readonly Point[], t: number): Point {
+  if (path.length === 0) return { x: 0, y: 0 };
+  let remaining = getPathLength(path) * clampT(t);
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    if (len > 0 && remaining <= len) {
+      const f = remaining / len;
+      return { x: a.x + (b.x - a.x) * f, y: a.y + (b.y - a.y) * f };
+    }
+    remaining -= len;
+  }
+  return path[path.length - 1];
+}
+
+/** Fraction of the way along `path` of the path point nearest to `p`. */
+export function getPathTAtPoint(path: readonly Point[], p: Point): number {
+  const total = getPathLength(path);
+  if (total <= 0) return DEFAULT_PATH_LABEL_T;
+
+  let bestD2 = Infinity;
+  let bestAt = 0;
+  let walked = 0;
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+    const f = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+    const cx = a.x + dx * f;
+    const cy = a.y + dy * f;
+    const d2 = (p.x - cx) * (p.x - cx) + (p.y - cy) * (p.y - cy);
+    const len = Math.sqrt(len2);
+    if (d2 < bestD2) {
+      bestD2 = d2;
+      bestAt = walked + len * f;
+    }
+    walked += len;
+  }
+  return bestAt / total;
+}
+
+/** Lay out one label's `text` centred on the path point at `t`. */
+export function placePathLabel(
+  obj: WhiteboardObject,
+  path: readonly Point[],
+  slot: PathLabelSlot
+): PlacedPathLabel {
+  const layout = layoutText(slot.text, getPathLabelFontSize(obj));
+  const center = getPointAtPathT(path, slot.t);
+  const textOrigin = { x: center.x - layout.width / 2, y: center.y - layout.height / 2 };
+  return {
+    ...slot,
+    layout,
+    textOrigin,
+    box: {
+      x: textOrigin.x - PATH_LABEL_PADDING,
+      y: textOrigin.y - PATH_LABEL_PADDING,
+      width: layout.width + PATH_LABEL_PADDING * 2,
+      height: layout.height + PATH_LABEL_PADDING * 2,
+    },
+  };
+}
+
+export function getPlacedPathLabels(obj: WhiteboardObject, path: readonly Point[] | null): PlacedPathLabel[] {
+  if (!path || path.length < 2) return [];
+  return getPathLabels(obj).map((slot) => placePathLabel(obj, path, slot));
+}
+
+/** Grow `bounds` to take in the label boxes. */
+export function unionWithPathLabels(bounds: Bounds, labels: readonly PlacedPathLabel[]): Bounds {
+  let minX = bounds.x;
+  let minY = bounds.y;
+  let maxX = bounds.x + bounds.width;
+  let maxY = bounds.y + bounds.height;
+  for (const { box } of labels) {
+    minX = Math.min(minX, box.x);
+    minY = Math.min(minY, box.y);
+    maxX = Math.max(maxX, box.x + box.width);
+    maxY = Math.max(maxY, box.y + box.height);
+  }
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/** Index of the topmost label box containing the world point, or null. */
+export function hitTestPathLabels(labels: readonly PlacedPathLabel[], x: number, y: number): number | null {
+  for (let i = labels.length - 1; i >= 0; i--) {
+    const { box, index } = labels[i];
+    if (x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height) return index;
+  }
+  return null;
+}
+
+/**
+ * Clip the context to everything outside the label boxes, so the line (and its
+ * arrow heads) drawn next leaves a gap for each label. Wrap in save/restore.
+ */
+export function clipOutPathLabels(
+  ctx: CanvasRenderingContext2D,
+  labels: readonly PlacedPathLabel[],
+  viewport: Viewport
+): void {
+  if (labels.length === 0) return;
+  const zoom = viewport.zoom ?? 1;
+  const FAR = 1e7;
+  ctx.beginPath();
+  ctx.rect(-FAR, -FAR, FAR * 2, FAR * 2);
+  for (const { box } of labels) {
+    const p = worldToCanvas(box.x, box.y, viewport);
+    ctx.rect(p.x, p.y, box.width * zoom, box.height * zoom);
+  }
+  ctx.clip('evenodd');
+}
+
+export function drawPathLabels(
+  ctx: CanvasRenderingContext2D,
+  obj: WhiteboardObject,
+  labels: readonly PlacedPathLabel[],
+  viewport: Viewport
+): void {
+  if (labels.length === 0) return;
+  const zoom = viewport.zoom ?? 1;
+  const fontSize = getPathLabelFontSize(obj);
+  const color = getPathLabelColor(obj);
+  ctx.save();
+  for (const label of labels) {
+    const p = worldToCanvas(label.textOrigin.x, label.textOrigin.y, viewport);
+    drawTextLayout(ctx, label.layout, p.x, p.y, fontSize, zoom, color, { align: 'center' });
+  }
+  ctx.restore();
+}
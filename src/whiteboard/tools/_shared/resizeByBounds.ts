@@ -1,19 +1,24 @@
 // src/whiteboard/tools/_shared/resizeByBounds.ts
 import type { WhiteboardObject } from '../../../domain/types';
 import type { Bounds } from '../../geometry/types';
+import { snapBoundsToGrid } from '../../geometry/snapping';
+import type { ResizeOptions } from '../shapeTypes';
 
 /**
  * Default resize behavior for axis-aligned box-based objects.
- * Applies the resized bounds directly to x/y/width/height.
+ * Applies the resized bounds directly to x/y/width/height. When `options.snapGridSize`
+ * is set the edges moved by `options.handle` (all edges without one) snap to the grid.
  */
 export function resizeBoxObjectByBounds(
   _obj: WhiteboardObject,
-  newBounds: Bounds
+  newBounds: Bounds,
+  options?: ResizeOptions
 ): Partial<WhiteboardObject> {
+  const bounds = snapBoundsToGrid(newBounds, options?.snapGridSize, options?.handle);
   return {
-    x: newBounds.x,
-    y: newBounds.y,
-    width: newBounds.width,
-    height: newBounds.height,
+    x: bounds.x,
+    y: bounds.y,
+    width: bounds.width,
+    height: bounds.height,
   };
 }
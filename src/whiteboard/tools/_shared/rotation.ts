@@ -0,0 +1,128 @@
+// src/whiteboard/tools/_shared/rotation.ts
+//
+// Rotation helpers shared by box-like shapes. `rotation` is stored in degrees
+// (clockwise on screen) and always applied around the centre of the object's
+// unrotated x/y/width/height box.
+
+import type { Point, Viewport, WhiteboardObject } from '../../../domain/types';
+import type { Bounds } from '../../geometry/types';
+import { worldToCanvas } from '../../geometry';
+
+/** Step used when rotation is constrained (Shift held). */
+export const ROTATION_SNAP_DEGREES = 15;
+
+/** Normalize an angle in degrees to [0, 360). */
+export function normalizeRotation(degrees: number): number {
+  if (!Number.isFinite(degrees)) return 0;
+  const r = degrees % 360;
+  // `+ 0` turns -0 into 0 so a snapped "no rotation" compares equal to 0.
+  return r < 0 ? r + 360 : r + 0;
+}
+
+export function snapRotation(degrees: number, step: number = ROTATION_SNAP_DEGREES): number {
+  return normalizeRotation(Math.round(degrees / step) * step);
+}
+
+export function getRotationRad(obj: Pick<WhiteboardObject, 'rotation'>): number {
+  const deg = obj.rotation;
+  if (typeof deg !== 'number' || !Number.isFinite(deg) || deg % 360 === 0) return 0;
+  return (deg * Math.PI) / 180;
+}
+
+/** The object's own x/y/width/height box, before rotation. */
+export function getUnrotatedBox(obj: WhiteboardObject): Bounds {
+  return { x: obj.x, y: obj.y, width: obj.width ?? 0, height: obj.height ?? 0 };
+}
+
+export function getBoxCenter(b: Bounds): Point {
+  return { x: b.x + b.width / 2, y: b.y + b.height / 2 };
+}
+
+export function rotatePoint(p: Point, center: Point, rad: number): Point {
+  if (rad === 0) return p;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = p.x - center.x;
+  const dy = p.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+}
+
+/** Map a world point into the object's unrotated frame (inverse rotation). */
+export function toObjectLocalPoint(obj: WhiteboardObject, p: Point): Point {
+  const rad = getRotationRad(obj);
+  if (rad === 0) return p;
+  return rotatePoint(p, getBoxCenter(getUnrotatedBox(obj)), -rad);
+}
+
+/** Map a point from the object's unrotated frame into world coords. */
+export function fromObjectLocalPoint(obj: WhiteboardObject, p: Point): Point {
+  const rad = getRotationRad(obj);
+  if (rad === 0) return p;
+  return rotatePoint(p, getBoxCenter(getUnrotatedBox(obj)), rad);
+}
+
+/** Axis-aligned bounds of a box rotated around its centre. */
+export function getRotatedBoxBounds(box: Bounds, rad: number): Bounds {
+  if (rad === 0) return box;
+  const c = getBoxCenter(box);
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  const w = box.width * cos + box.height * sin;
+  const h = box.width * sin + box.height * cos;
+  return { x: c.x - w / 2, y: c.y - h / 2, width: w, height: h };
+}
+
+/**
+ * Axis-aligned bounds for a box-like object, accounting for rotation.
+ * Pass-through for unrotated objects so existing bounds stay bit-identical.
+ */
+export function withRotatedBounds(obj: WhiteboardObject, bounds: Bounds | null): Bounds | null {
+  if (!bounds) return null;
+  return getRotatedBoxBounds(bounds, getRotationRad(obj));
+}
+
+/** Rotate port points with the object. */
+export function rotatePorts<T extends { point: Point }>(obj: WhiteboardObject, ports: T[]): T[] {
+  const rad = getRotationRad(obj);
+  if (rad === 0) return ports;
+  const c = getBoxCenter(getUnrotatedBox(obj));
+  return ports.map((p) => ({ ...p, point: rotatePoint(p.point, c, rad) }));
+}
+
+/**
+ * Run `draw` with the canvas rotated around the object's centre, so draw code can
+ * keep working with the unrotated box.
+ */
+export function drawRotated(
+  ctx: CanvasRenderingContext2D,
+  obj: WhiteboardObject,
+  viewport: Viewport,
+  draw: () => void
+): void {
+  const rad = getRotationRad(obj);
+  if (rad === 0) {
+    draw();
+    return;
+  }
+
+  const c = getBoxCenter(getUnrotatedBox(obj));
+  const pivot = worldToCanvas(c.x, c.y, viewport);
+  ctx.save();
+  ctx.translate(pivot.x, pivot.y);
+  ctx.rotate(rad);
+  ctx.translate(-pivot.x, -pivot.y);
+  draw();
+  ctx.restore();
+}
+
+/**
+ * Place a box that was resized in the object's local (unrotated) frame back into
+ * world coords. `frame` is the box whose centre the local frame rotates around.
+ * Returns the new unrotated x/y/width/height that, rotated by `rad` around its
+ * own centre, covers the same area.
+ */
+export function placeLocalBox(local: Bounds, frame: Bounds, rad: number): Bounds {
+  if (rad === 0) return local;
+  const c = rotatePoint(getBoxCenter(local), getBoxCenter(frame), rad);
+  return { x: c.x - local.width / 2, y: c.y - local.height / 2, width: local.width, height: local.height };
+}
@@ -5,21 +5,57 @@
 import type { SelectionCapabilities } from '../selection/types';
 
 export const STROKE_ONLY: SelectionCapabilities = {
-  editableProps: ['strokeColor', 'strokeWidth'] as const,
+  editableProps: ['strokeColor', 'strokeWidth', 'strokeDash', 'strokeOpacity'] as const,
 };
 
-export const BOX_WITH_FILL: SelectionCapabilities = {
-  editableProps: ['strokeColor', 'strokeWidth', 'fillColor'] as const,
+export const BOX_WITH_TEXT: SelectionCapabilities = {
+  editableProps: [
+    'strokeColor',
+    'strokeWidth',
+    'strokeDash',
+    'strokeOpacity',
+    'fillColor',
+    'fillOpacity',
+    'textColor',
+    'fontSize',
+    'textAlign',
+    'textVerticalAlign',
+    'text',
+  ] as const,
 };
 
-export const ROUNDED_BOX_WITH_FILL: SelectionCapabilities = {
-  editableProps: ['strokeColor', 'strokeWidth', 'fillColor', 'cornerRadius'] as const,
+export const ROUNDED_BOX_WITH_TEXT: SelectionCapabilities = {
+  editableProps: [
+    'strokeColor',
+    'strokeWidth',
+    'strokeDash',
+    'strokeOpacity',
+    'fillColor',
+    'fillOpacity',
+    'cornerRadius',
+    'textColor',
+    'fontSize',
+    'textAlign',
+    'textVerticalAlign',
+    'text',
+  ] as const,
 };
 
 export const TEXT_ONLY: SelectionCapabilities = {
-  editableProps: ['textColor', 'fontSize', 'text'] as const,
+  editableProps: ['textColor', 'fontSize', 'textFit', 'text'] as const,
 };
 
 export const STICKY_NOTE: SelectionCapabilities = {
-  editableProps: ['strokeColor', 'strokeWidth', 'fillColor', 'textColor', 'fontSize', 'text'] as const,
+  editableProps: [
+    'strokeColor',
+    'strokeWidth',
+    'strokeDash',
+    'strokeOpacity',
+    'fillColor',
+    'fillOpacity',
+    'textColor',
+    'fontSize',
+    'textFit',
+    'text',
+  ] as const,
 };
@@ -0,0 +1,91 @@
+// src/whiteboard/tools/_shared/shapeText.ts
+//
+// Text inside box shapes (rectangle, rounded rect, ellipse, diamond). Each shape
+// provides the area its text may use (see ShapeDefinition.getTextArea); the text
+// wraps inside that area less padding, is aligned by `textAlign` and
+// `textVerticalAlign`, and is clipped with the overflow indicator when too long.
+
+import { getTextParagraphs } from '../../../domain/richText';
+import type { Point, TextAlign, TextVerticalAlign, Viewport, WhiteboardObject } from '../../../domain/types';
+import type { Bounds } from '../../geometry/types';
+import { worldToCanvas } from '../../geometry';
+import { drawOverflowIndicator, fitText, type FittedText } from './textFit';
+import { drawTextLayout } from './textLayout';
+
+export const DEFAULT_SHAPE_FONT_SIZE = 16;
+
+/** Gap between the shape's text area and its text, in world units. */
+export const SHAPE_TEXT_PADDING = 8;
+
+export type ShapeTextBlock = FittedText & {
+  /** The padded text area: lines wrap at its width and are clipped at its height. */
+  area: Bounds;
+  /** World top-left of the first line, after vertical alignment. */
+  origin: Point;
+  align: TextAlign;
+};
+
+export function getShapeTextAlign(obj: Pick<WhiteboardObject, 'textAlign'>): TextAlign {
+  return obj.textAlign ?? 'center';
+}
+
+export function getShapeTextVerticalAlign(obj: Pick<WhiteboardObject, 'textVerticalAlign'>): TextVerticalAlign {
+  return obj.textVerticalAlign ?? 'middle';
+}
+
+export function getShapeTextColor(obj: Pick<WhiteboardObject, 'textColor' | 'strokeColor'>): string {
+  return obj.textColor ?? obj.strokeColor ?? '#e5e7eb';
+}
+
+const blockCache = new WeakMap<WhiteboardObject, ShapeTextBlock>();
+
+/** Lay out the text of `obj` inside `textArea`, the shape's unpadded text area. */
+export function getShapeTextBlock(obj: WhiteboardObject, textArea: Bounds): ShapeTextBlock {
+  const cached = blockCache.get(obj);
+  if (cached) return cached;
+
+  const area = {
+    x: textArea.x + SHAPE_TEXT_PADDING,
+    y: textArea.y + SHAPE_TEXT_PADDING,
+    width: Math.max(1, textArea.width - SHAPE_TEXT_PADDING * 2),
+    height: Math.max(0, textArea.height - SHAPE_TEXT_PADDING * 2),
+  };
+  const fitted = fitText(getTextParagraphs(obj), obj.fontSize ?? DEFAULT_SHAPE_FONT_SIZE, 'overflow', {
+    maxWidth: area.width,
+    maxHeight: area.height,
+  });
+  const spare = Math.max(0, area.height - fitted.layout.height);
+  const vertical = getShapeTextVerticalAlign(obj);
+  const offsetY = vertical === 'middle' ? spare / 2 : vertical === 'bottom' ? spare : 0;
+
+  const block: ShapeTextBlock = {
+    ...fitted,
+    area,
+    origin: { x: area.x, y: area.y + offsetY },
+    align: getShapeTextAlign(obj),
+  };
+  blockCache.set(obj, block);
+  return block;
+}
+
+/** Draw the text of `obj` in `textArea`. Call inside the shape's drawRotated callback. */
+export function drawShapeText(
+  ctx: CanvasRenderingContext2D,
+  obj: WhiteboardObject,
+  textArea: Bounds,
+  viewport: Viewport
+): void {
+  if (!obj.text) return;
+  const block = getShapeTextBlock(obj, textArea);
+  const zoom = viewport.zoom ?? 1;
+  const color = getShapeTextColor(obj);
+  const p = worldToCanvas(block.origin.x, block.origin.y, viewport);
+  drawTextLayout(ctx, block.layout, p.x, p.y, block.fontSize, zoom, color, {
+    align: block.align,
+    width: block.area.width,
+  });
+  if (block.overflowing) {
+    const topLeft = worldToCanvas(block.area.x, block.area.y, viewport);
+    drawOverflowIndicator(ctx, topLeft.x, topLeft.y, block.area.width * zoom, block.area.height * zoom, color, zoom);
+  }
+}
@@ -0,0 +1,61 @@
+// src/whiteboard/tools/_shared/strokeStyle.ts
+//
+// Dash style and stroke/fill opacity shared by the draw modules. Opacity
+// multiplies the context's current alpha, so it composes with draft previews;
+// dash lengths scale with the line width so thick strokes keep their rhythm.
+
+import type { StrokeDash, WhiteboardObject } from '../../../domain/types';
+
+type StrokeStyleProps = Pick<WhiteboardObject, 'strokeDash' | 'strokeOpacity'>;
+
+export function getStrokeDash(obj: Pick<WhiteboardObject, 'strokeDash'>): StrokeDash {
+  return obj.strokeDash ?? 'solid';
+}
+
+export function getStrokeOpacity(obj: Pick<WhiteboardObject, 'strokeOpacity'>): number {
+  return obj.strokeOpacity ?? 1;
+}
+
+export function getFillOpacity(obj: Pick<WhiteboardObject, 'fillOpacity'>): number {
+  return obj.fillOpacity ?? 1;
+}
+
+/** Canvas dash pattern for `dash` at a line width of `widthPx` (dots are zero-length dashes with round caps). */
+export function getLineDashPattern(dash: StrokeDash, widthPx: number): number[] {
+  const w = Math.max(1, widthPx);
+  if (dash === 'dashed') return [w * 4, w * 3];
+  if (dash === 'dotted') return [0, w * 2];
+  return [];
+}
+
+/**
+ * Run `paint` with the object's dash pattern and stroke opacity; by default it
+ * strokes the current path. Set lineWidth first. Arrow heads painted inside
+ * should clear the dash (`ctx.setLineDash([])`).
+ */
+export function strokeWithStyle(
+  ctx: CanvasRenderingContext2D,
+  obj: StrokeStyleProps,
+  widthPx: number,
+  paint: () => void = () => ctx.stroke()
+): void {
+  const dash = getStrokeDash(obj);
+  ctx.save();
+  ctx.globalAlpha *= getStrokeOpacity(obj);
+  ctx.setLineDash(getLineDashPattern(dash, widthPx));
+  if (dash === 'dotted') ctx.lineCap = 'round';
+  paint();
+  ctx.restore();
+}
+
+/** Run `paint` with the object's fill opacity; by default it fills the current path. */
+export function fillWithOpacity(
+  ctx: CanvasRenderingContext2D,
+  obj: Pick<WhiteboardObject, 'fillOpacity'>,
+  paint: () => void = () => ctx.fill()
+): void {
+  ctx.save();
+  ctx.globalAlpha *= getFillOpacity(obj);
+  paint();
+  ctx.restore();
+}
@@ -0,0 +1,96 @@
+// src/whiteboard/tools/_shared/textFit.ts
+//
+// Fitting laid-out text into a box according to the object's `textFit` mode.
+
+import type { TextFit, TextParagraph, WhiteboardObject, WhiteboardObjectType } from '../../../domain/types';
+import { layoutText, measureTextWidth, type MeasureTextWidth, type TextLayout } from './textLayout';
+
+/** Smallest font size 'shrink' goes down to; text that still does not fit is clipped. */
+export const MIN_FIT_FONT_SIZE = 6;
+
+/** Steps of the font size search; fine enough to look continuous when resizing. */
+const FONT_SIZE_STEP = 0.5;
+
+/** The fit mode an object gets when it does not set one (what each type did before fit modes). */
+export function getDefaultTextFit(type: WhiteboardObjectType | string): TextFit {
+  return type === 'stickyNote' ? 'overflow' : 'grow';
+}
+
+export function getTextFit(obj: Pick<WhiteboardObject, 'type' | 'textFit'>): TextFit {
+  return obj.textFit ?? getDefaultTextFit(obj.type);
+}
+
+export type FittedText = {
+  layout: TextLayout;
+  /** Font size the text is drawn at (smaller than requested when shrunk). */
+  fontSize: number;
+  /** Lines were clipped: the overflow indicator should be shown. */
+  overflowing: boolean;
+};
+
+/**
+ * Lay out `text` (plain or rich) for a box of `maxWidth` × `maxHeight`. 'grow' ignores the height
+ * (the caller grows the box to layout.height), 'overflow' clips to it, 'shrink'
+ * picks the largest font size up to `fontSize` whose lines fit.
+ */
+export function fitText(
+  text: string | readonly TextParagraph[],
+  fontSize: number,
+  fit: TextFit,
+  box: { maxWidth?: number; maxHeight: number },
+  measure: MeasureTextWidth = measureTextWidth
+): FittedText {
+  const { maxWidth, maxHeight } = box;
+
+  if (fit === 'grow') {
+    return { layout: layoutText(text, fontSize, { maxWidth }, measure), fontSize, overflowing: false };
+  }
+
+  let size = fontSize;
+  if (fit === 'shrink') {
+    const fits = (candidate: number) => layoutText(text, candidate, { maxWidth }, measure).height <= maxHeight;
+    if (!fits(fontSize)) {
+      // Binary search over FONT_SIZE_STEP increments between the minimum and the requested size.
+      let lo = 0;
+      let hi = Math.floor((fontSize - MIN_FIT_FONT_SIZE) / FONT_SIZE_STEP);
+      while (lo < hi) {
+        const mid = Math.ceil((lo + hi) / 2);
+        if (fits(MIN_FIT_FONT_SIZE + mid * FONT_SIZE_STEP)) lo = mid;
+        else hi = mid - 1;
+      }
+      size = Math.min(fontSize, MIN_FIT_FONT_SIZE + lo * FONT_SIZE_STEP);
+    }
+  }
+
+  const layout = layoutText(text, size, { maxWidth, maxHeight }, measure);
+  return { layout, fontSize: size, overflowing: layout.truncated };
+}
+
+/**
+ * Small corner marker for clipped text: a triangle in the bottom-right corner of
+ * the canvas-space box (x, y, width, height).
+ */
+export function drawOverflowIndicator(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  color: string,
+  zoom: number
+): void {
+  const size = Math.min(10 * zoom, width / 3, height / 3);
+  if (size < 2) return;
+  const right = x + width;
+  const bottom = y + height;
+  ctx.save();
+  ctx.globalAlpha *= 0.7;
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.moveTo(right, bottom - size);
+  ctx.lineTo(right, bottom);
+  ctx.lineTo(right - size, bottom);
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+}
@@ -0,0 +1,342 @@
+// src/whiteboard/tools/_shared/textLayout.ts
+//
+// Multi-line text layout shared by text and sticky notes: explicit line breaks,
+// word wrap to a width, clipping to a height and rich text marks. Layout happens in world units
+// (font size as stored on the object), so geometry and drawing agree at any zoom.
+
+import { plainTextToRichText, sameMarks } from '../../../domain/richText';
+import type { TextAlign, TextMarks, TextParagraph, TextRun } from '../../../domain/types';
+import { drawTextPlaceholderBars, isTextLegible } from './levelOfDetail';
+
+export const TEXT_FONT_FAMILY = `system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif`;
+
+/** Line height as a multiple of the font size. */
+export const TEXT_LINE_HEIGHT = 1.25;
+
+/** Font variant of a measured or drawn piece of text. */
+export type TextStyle = Pick<TextMarks, 'bold' | 'italic'>;
+
+/** Width of `text` at `fontSize` (both in the same units). */
+export type MeasureTextWidth = (text: string, fontSize: number, style?: TextStyle) => number;
+
+/** A piece of a laid-out line that shares one set of marks. */
+export type TextSpan = TextMarks & {
+  text: string;
+  /** Offset from the left edge of the layout. */
+  x: number;
+  width: number;
+};
+
+export type TextLayoutLine = {
+  spans: TextSpan[];
+  /** Left inset of the line (list items). */
+  indent: number;
+  /** First line of a bullet list item. */
+  bullet: boolean;
+};
+
+export type TextLayout = {
+  lines: string[];
+  /** Measured width of each line, including its indent. */
+  lineWidths: number[];
+  /** Formatted content of each line. */
+  rows: TextLayoutLine[];
+  /** Widest line. */
+  width: number;
+  /** lines.length × lineHeight. */
+  height: number;
+  lineHeight: number;
+  /** True when lines were dropped to fit a maximum height. */
+  truncated: boolean;
+};
+
+export type TextLayoutOptions = {
+  /** Wrap lines longer than this; no wrapping when omitted. */
+  maxWidth?: number;
+  /** Drop lines below this height, ending the last visible one with an ellipsis. */
+  maxHeight?: number;
+};
+
+const ELLIPSIS = '…';
+
+/** Inset of bullet list items, as a multiple of the font size. */
+const LIST_INDENT_EM = 1.25;
+
+/** Rough average glyph width, used where no canvas is available to measure (tests, SSR). */
+const FALLBACK_CHAR_WIDTH_EM = 0.55;
+const FALLBACK_BOLD_SCALE = 1.1;
+
+/** Fonts are measured at this size and scaled, so the width cache is size independent. */
+const MEASURE_FONT_PX = 100;
+
+let measureCtx: CanvasRenderingContext2D | null | undefined;
+const widthCache = new Map<string, number>();
+const MAX_CACHED_WIDTHS = 5000;
+
+/** CSS font for `style` at `fontPx`. */
+export function getTextFont(fontPx: number, style: TextStyle = {}): string {
+  return `${style.italic ? 'italic ' : ''}${style.bold ? 'bold ' : ''}${fontPx}px ${TEXT_FONT_FAMILY}`;
+}
+
+function getMeasureContext(): CanvasRenderingContext2D | null {
+  if (measureCtx === undefined) {
+    try {
+      measureCtx = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+    } catch {
+      measureCtx = null;
+    }
+  }
+  return measureCtx;
+}
+
+/** Default measurer: a shared offscreen canvas, with a character-count estimate as fallback. */
+export const measureTextWidth: MeasureTextWidth = (text, fontSize, style = {}) => {
+  if (!text) return 0;
+  const key = `${style.bold ? 'b' : ''}${style.italic ? 'i' : ''}|${text}`;
+  let unit = widthCache.get(key);
+  if (unit === undefined) {
+    const ctx = getMeasureContext();
+    if (ctx) {
+      ctx.font = getTextFont(MEASURE_FONT_PX, style);
+      unit = ctx.measureText(text).width / MEASURE_FONT_PX;
+    } else {
+      unit = text.length * FALLBACK_CHAR_WIDTH_EM * (style.bold ? FALLBACK_BOLD_SCALE : 1);
+    }
+    if (widthCache.size >= MAX_CACHED_WIDTHS) widthCache.clear();
+    widthCache.set(key, unit);
+  }
+  return unit * fontSize;
+};
+
+/** Text with one set of marks, before it is placed on a line. */
+type Piece = TextMarks & { text: string };
+
+function piecesWidth(pieces: readonly Piece[], fontSize: number, measure: MeasureTextWidth): number {
+  return pieces.reduce((sum, p) => sum + measure(p.text, fontSize, p), 0);
+}
+
+function pushPiece(pieces: Piece[], piece: Piece): void {
+  const last = pieces[pieces.length - 1];
+  if (last && sameMarks(last, piece)) last.text += piece.text;
+  else if (piece.text) pieces.push({ ...piece });
+}
+
+/** Split a paragraph into words; each keeps its leading whitespace and may span several runs. */
+function splitWords(runs: readonly TextRun[]): Piece[][] {
+  const words: Piece[][] = [];
+  for (const run of runs) {
+    for (const part of run.text.split(/(?=\s)/)) {
+      if (!part) continue;
+      const current = words[words.length - 1];
+      // A run boundary inside a word continues that word.
+      if (current && !/^\s/.test(part)) pushPiece(current, { ...run, text: part });
+      else words.push([{ ...run, text: part }]);
+    }
+  }
+  return words;
+}
+
+function trimLeading(word: Piece[]): Piece[] {
+  const out: Piece[] = [];
+  for (const piece of word) {
+    const text = out.length ? piece.text : piece.text.replace(/^\s+/, '');
+    if (text) out.push({ ...piece, text });
+  }
+  return out;
+}
+
+function wrapParagraph(
+  runs: readonly TextRun[],
+  fontSize: number,
+  maxWidth: number | undefined,
+  measure: MeasureTextWidth
+): Piece[][] {
+  const rows: Piece[][] = [];
+  let current: Piece[] = [];
+  let currentWidth = 0;
+
+  for (let word of splitWords(runs)) {
+    let width = piecesWidth(word, fontSize, measure);
+    if (maxWidth === undefined || currentWidth + width <= maxWidth) {
+      word.forEach((p) => pushPiece(current, p));
+      currentWidth += width;
+      continue;
+    }
+    if (current.length) {
+      rows.push(current);
+      word = trimLeading(word);
+      width = piecesWidth(word, fontSize, measure);
+      current = [];
+      currentWidth = 0;
+    }
+    if (width <= maxWidth) {
+      word.forEach((p) => pushPiece(current, p));
+      currentWidth = width;
+      continue;
+    }
+    // A single word wider than the line: break it between characters.
+    for (const piece of word) {
+      for (const ch of Array.from(piece.text)) {
+        const w = measure(ch, fontSize, piece);
+        if (current.length && currentWidth + w > maxWidth) {
+          rows.push(current);
+          current = [];
+          currentWidth = 0;
+        }
+        pushPiece(current, { ...piece, text: ch });
+        currentWidth += w;
+      }
+    }
+  }
+  rows.push(current);
+  return rows;
+}
+
+function withEllipsis(
+  row: Piece[],
+  fontSize: number,
+  maxWidth: number | undefined,
+  measure: MeasureTextWidth
+): Piece[] {
+  const pieces = row.map((p) => ({ ...p }));
+  const last = pieces[pieces.length - 1];
+  if (last) last.text = last.text.replace(/\s+$/, '');
+  const ellipsis: Piece = { ...(last ?? {}), text: ELLIPSIS };
+  if (maxWidth !== undefined) {
+    const ellipsisWidth = measure(ELLIPSIS, fontSize, ellipsis);
+    while (pieces.length && piecesWidth(pieces, fontSize, measure) + ellipsisWidth > maxWidth) {
+      const tail = pieces[pieces.length - 1];
+      tail.text = Array.from(tail.text).slice(0, -1).join('');
+      if (!tail.text) pieces.pop();
+    }
+  }
+  pushPiece(pieces, ellipsis);
+  return pieces;
+}
+
+/**
+ * Lay out text at `fontSize`: split at line breaks, wrap to `maxWidth` and clip
+ * to `maxHeight` (always keeping at least one line). Accepts plain text or rich
+ * text paragraphs; bullet list items are indented and their marks kept per span.
+ */
+export function layoutText(
+  content: string | readonly TextParagraph[],
+  fontSize: number,
+  options: TextLayoutOptions = {},
+  measure: MeasureTextWidth = measureTextWidth
+): TextLayout {
+  const { maxWidth, maxHeight } = options;
+  const lineHeight = fontSize * TEXT_LINE_HEIGHT;
+  const wrapWidth = maxWidth !== undefined && maxWidth > 0 ? maxWidth : undefined;
+  const paragraphs = typeof content === 'string' ? plainTextToRichText(content) : content;
+
+  let rows: Array<{ pieces: Piece[]; indent: number; bullet: boolean }> = [];
+  for (const paragraph of paragraphs) {
+    const indent = paragraph.list ? fontSize * LIST_INDENT_EM : 0;
+    const width = wrapWidth !== undefined ? Math.max(fontSize, wrapWidth - indent) : undefined;
+    wrapParagraph(paragraph.runs, fontSize, width, measure).forEach((pieces, i) => {
+      rows.push({ pieces, indent, bullet: !!paragraph.list && i === 0 });
+    });
+  }
+
+  let truncated = false;
+  if (maxHeight !== undefined) {
+    const fit = Math.max(1, Math.floor(maxHeight / lineHeight + 1e-6));
+    if (rows.length > fit) {
+      rows = rows.slice(0, fit);
+      const last = rows[fit - 1];
+      const width = wrapWidth !== undefined ? Math.max(fontSize, wrapWidth - last.indent) : undefined;
+      last.pieces = withEllipsis(last.pieces, fontSize, width, measure);
+      truncated = true;
+    }
+  }
+
+  const laidOut: TextLayoutLine[] = rows.map(({ pieces, indent, bullet }) => {
+    let x = indent;
+    const spans = pieces.map((piece) => {
+      const width = measure(piece.text, fontSize, piece);
+      const span: TextSpan = { ...piece, x, width };
+      x += width;
+      return span;
+    });
+    return { spans, indent, bullet };
+  });
+  const lineWidths = laidOut.map((row) =>
+    row.spans.length ? row.spans[row.spans.length - 1].x + row.spans[row.spans.length - 1].width : row.indent
+  );
+  return {
+    lines: laidOut.map((row) => row.spans.map((s) => s.text).join('')),
+    lineWidths,
+    rows: laidOut,
+    width: Math.max(0, ...lineWidths),
+    height: rows.length * lineHeight,
+    lineHeight,
+    truncated,
+  };
+}
+
+/** Colour of linked text, readable on both light notes and the dark canvas. */
+const LINK_COLOR = '#3b82f6';
+
+export type DrawTextLayoutOptions = {
+  /** Line alignment within `width`; left when omitted. */
+  align?: TextAlign;
+  /** World width lines are aligned in; the layout's widest line when omitted. */
+  width?: number;
+};
+
+/**
+ * Draw laid-out lines with their top-left at canvas (x, y). `layout` is in world
+ * units; below legible sizes each line becomes a placeholder bar instead.
+ */
+export function drawTextLayout(
+  ctx: CanvasRenderingContext2D,
+  layout: TextLayout,
+  x: number,
+  y: number,
+  fontSize: number,
+  zoom: number,
+  color: string,
+  options: DrawTextLayoutOptions = {}
+): void {
+  const lineHeight = layout.lineHeight * zoom;
+  const { align = 'left', width = layout.width } = options;
+  const share = align === 'center' ? 0.5 : align === 'right' ? 1 : 0;
+  const lineLeft = (i: number) => x + (width - layout.lineWidths[i]) * share * zoom;
+
+  if (!isTextLegible(fontSize, zoom)) {
+    if (share === 0) {
+      drawTextPlaceholderBars(ctx, x, y, layout.lineWidths.map((w) => w * zoom), lineHeight, color);
+    } else {
+      layout.lineWidths.forEach((w, i) =>
+        drawTextPlaceholderBars(ctx, lineLeft(i), y + i * lineHeight, [w * zoom], lineHeight, color)
+      );
+    }
+    return;
+  }
+
+  const fontPx = fontSize * zoom;
+  const decoration = Math.max(1, fontPx / 14);
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'left';
+  // Glyphs sit in the middle of each line box, as they do in the editor overlay.
+  const halfLeading = (lineHeight - fontPx) / 2;
+  layout.rows.forEach((row, i) => {
+    const top = y + i * lineHeight + halfLeading;
+    const rowX = lineLeft(i);
+    if (row.bullet) {
+      ctx.font = getTextFont(fontPx);
+      ctx.fillStyle = color;
+      ctx.fillText('•', rowX + row.indent * zoom * 0.3, top);
+    }
+    for (const span of row.spans) {
+      const left = rowX + span.x * zoom;
+      const spanColor = span.link ? LINK_COLOR : color;
+      ctx.font = getTextFont(fontPx, span);
+      ctx.fillStyle = spanColor;
+      ctx.fillText(span.text, left, top);
+      if (span.strike) ctx.fillRect(left, top + fontPx * 0.55, span.width * zoom, decoration);
+      if (span.link) ctx.fillRect(left, top + fontPx * 0.95, span.width * zoom, decoration);
+    }
+  });
+}
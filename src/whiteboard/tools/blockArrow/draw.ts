@@ -0,0 +1,21 @@
+// src/whiteboard/tools/blockArrow/draw.ts
+import type { WhiteboardObject, Viewport } from '../../../domain/types';
+import type { DraftShape } from '../../drawing';
+import { drawOutlineDraft, drawOutlineShape, tracePolygon, type TraceOutline } from '../_shared/outlineShape';
+import { getBlockArrowOutline, getBlockArrowTextArea } from './geometry';
+
+const traceBlockArrow: TraceOutline = (ctx, box, viewport) => tracePolygon(ctx, getBlockArrowOutline(box), viewport);
+
+export function drawBlockArrowObject(
+  ctx: CanvasRenderingContext2D,
+  obj: WhiteboardObject,
+  viewport: Viewport
+): void {
+  if (obj.type !== 'blockArrow') return;
+  drawOutlineShape(ctx, obj, viewport, traceBlockArrow, getBlockArrowTextArea(obj));
+}
+
+/** Dashed draft preview while dragging out a new block arrow. */
+export function drawBlockArrowDraft(ctx: CanvasRenderingContext2D, draft: DraftShape, viewport: Viewport): void {
+  drawOutlineDraft(ctx, draft, viewport, traceBlockArrow);
+}
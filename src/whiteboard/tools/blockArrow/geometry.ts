@@ -0,0 +1,54 @@
+// src/whiteboard/tools/blockArrow/geometry.ts
+import type { WhiteboardObject, Point } from '../../../domain/types';
+import type { Bounds } from '../../geometry/types';
+import { getBoxBoundingBox, type BoxPort } from '../_shared/boxGeometry';
+import { getOutlinePorts, hitTestOutline } from '../_shared/outlineShape';
+
+/** Length of the arrow head; the shaft takes the rest of the width. */
+export function getBlockArrowHeadLength(box: Bounds): number {
+  return Math.min(box.width / 2, box.height * 0.6);
+}
+
+/** Arrow pointing right: a shaft half the box's height and a head as tall as the box. */
+export function getBlockArrowOutline(box: Bounds): Point[] {
+  const { x, y, width: w, height: h } = box;
+  const neck = x + w - getBlockArrowHeadLength(box);
+  return [
+    { x, y: y + h / 4 },
+    { x: neck, y: y + h / 4 },
+    { x: neck, y },
+    { x: x + w, y: y + h / 2 },
+    { x: neck, y: y + h },
+    { x: neck, y: y + (h * 3) / 4 },
+    { x, y: y + (h * 3) / 4 },
+  ];
+}
+
+export function getBlockArrowBoundingBox(obj: WhiteboardObject): Bounds | null {
+  return getBoxBoundingBox(obj, 'blockArrow');
+}
+
+/** Tail, tip, and the middle of the shaft's top and bottom edges. */
+export function getBlockArrowPorts(obj: WhiteboardObject): BoxPort[] {
+  return getOutlinePorts(obj, 'blockArrow', (box) => {
+    const { x, y, width: w, height: h } = box;
+    const shaftMid = x + (w - getBlockArrowHeadLength(box)) / 2;
+    return [
+      { portId: 'top', point: { x: shaftMid, y: y + h / 4 } },
+      { portId: 'right', point: { x: x + w, y: y + h / 2 } },
+      { portId: 'bottom', point: { x: shaftMid, y: y + (h * 3) / 4 } },
+      { portId: 'left', point: { x, y: y + h / 2 } },
+    ];
+  });
+}
+
+export function hitTestBlockArrow(obj: WhiteboardObject, worldX: number, worldY: number): boolean {
+  return hitTestOutline(obj, 'blockArrow', worldX, worldY, getBlockArrowOutline);
+}
+
+/** The shaft, reaching into the head as far as the head is as tall as the shaft. */
+export function getBlockArrowTextArea(obj: WhiteboardObject): Bounds {
+  const box = { x: obj.x, y: obj.y, width: obj.width ?? 0, height: obj.height ?? 0 };
+  const head = getBlockArrowHeadLength(box);
+  return { x: box.x, y: box.y + box.height / 4, width: box.width - head / 2, height: box.height / 2 };
+}
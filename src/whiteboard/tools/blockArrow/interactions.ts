@@ -0,0 +1,29 @@
+// src/whiteboard/tools/blockArrow/interactions.ts
+import type { WhiteboardObject, ObjectId, Point } from '../../../domain/types';
+import type { DraftShape } from '../../drawing';
+
+import {
+  type BoxStartArgs,
+  startBoxDraft,
+  updateBoxDraft,
+  finishBoxDraft,
+} from '../_shared/boxDraft';
+
+/**
+ * Block arrow reuses the rectangle draft shape (kind: 'rectangle'), like diamond.
+ * The owning tool is tracked via draft.toolType by the core dispatcher.
+ */
+export function startBlockArrowDraft(args: BoxStartArgs): DraftShape {
+  return { ...startBoxDraft(args, 'rectangle'), toolType: 'blockArrow' };
+}
+
+export function updateBlockArrowDraft(draft: DraftShape, pos: Point, snapGridSize?: number): DraftShape {
+  return updateBoxDraft(draft, 'rectangle', pos, snapGridSize);
+}
+
+export function finishBlockArrowDraft(draft: DraftShape): {
+  object?: WhiteboardObject;
+  selectIds?: ObjectId[];
+} {
+  return finishBoxDraft(draft, 'rectangle', 'blockArrow');
+}
@@ -0,0 +1,5 @@
+// src/whiteboard/tools/blockArrow/selection.ts
+
+import { BOX_WITH_TEXT } from '../_shared/selectionCaps';
+
+export const blockArrowSelectionCapabilities = BOX_WITH_TEXT;
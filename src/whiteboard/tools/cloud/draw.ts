@@ -0,0 +1,33 @@
+// src/whiteboard/tools/cloud/draw.ts
+import type { WhiteboardObject, Viewport } from '../../../domain/types';
+import type { DraftShape } from '../../drawing';
+import { worldToCanvas } from '../../geometry';
+import { drawOutlineDraft, drawOutlineShape, type TraceOutline } from '../_shared/outlineShape';
+import { getCloudBumps, getCloudTextArea } from './geometry';
+
+const traceCloud: TraceOutline = (ctx, box, viewport) => {
+  const bumps = getCloudBumps(box);
+  const start = worldToCanvas(bumps[0].from.x, bumps[0].from.y, viewport);
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  for (const { control, to } of bumps) {
+    const c = worldToCanvas(control.x, control.y, viewport);
+    const p = worldToCanvas(to.x, to.y, viewport);
+    ctx.quadraticCurveTo(c.x, c.y, p.x, p.y);
+  }
+  ctx.closePath();
+};
+
+export function drawCloudObject(
+  ctx: CanvasRenderingContext2D,
+  obj: WhiteboardObject,
+  viewport: Viewport
+): void {
+  if (obj.type !== 'cloud') return;
+  drawOutlineShape(ctx, obj, viewport, traceCloud, getCloudTextArea(obj));
+}
+
+/** Dashed draft preview while dragging out a new cloud. */
+export function drawCloudDraft(ctx: CanvasRenderingContext2D, draft: DraftShape, viewport: Viewport): void {
+  drawOutlineDraft(ctx, draft, viewport, traceCloud);
+}
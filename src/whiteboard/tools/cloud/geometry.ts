@@ -0,0 +1,80 @@
+// src/whiteboard/tools/cloud/geometry.ts
+import type { WhiteboardObject, Point } from '../../../domain/types';
+import type { Bounds } from '../../geometry/types';
+import { getBoxBoundingBox, getBoxPorts, type BoxPort } from '../_shared/boxGeometry';
+import { hitTestOutline } from '../_shared/outlineShape';
+
+const CLOUD_BUMPS = 8;
+
+/** Bump height against half its width. */
+const BUMP_ROUNDNESS = 0.8;
+
+/** Points sampled along each bump for hit-testing. */
+const BUMP_STEPS = 6;
+
+const HALF_STEP = Math.PI / CLOUD_BUMPS;
+
+/** Radius (of the unit circle) the bumps start and end on; their peaks reach the circle itself. */
+const BASE_RADIUS = 1 / (Math.cos(HALF_STEP) + BUMP_ROUNDNESS * Math.sin(HALF_STEP));
+
+/** One bump: a quadratic curve from `from` to `to` bulging out through `control`. */
+export type CloudBump = { from: Point; control: Point; to: Point };
+
+/**
+ * The cloud as a ring of bumps around an ellipse, in world coords. Bump peaks
+ * touch the middle of each side of the box, so those are the cloud's ports.
+ */
+export function getCloudBumps(box: Bounds): CloudBump[] {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const at = (angle: number, r: number): Point => ({
+    x: cx + Math.cos(angle) * r * (box.width / 2),
+    y: cy + Math.sin(angle) * r * (box.height / 2),
+  });
+  // A quadratic's midpoint lies halfway between its chord and its control point.
+  const controlRadius = BASE_RADIUS * (Math.cos(HALF_STEP) + 2 * BUMP_ROUNDNESS * Math.sin(HALF_STEP));
+
+  return Array.from({ length: CLOUD_BUMPS }, (_, i) => {
+    const peak = -Math.PI / 2 + i * HALF_STEP * 2;
+    return {
+      from: at(peak - HALF_STEP, BASE_RADIUS),
+      control: at(peak, controlRadius),
+      to: at(peak + HALF_STEP, BASE_RADIUS),
+    };
+  });
+}
+
+/** The bumps flattened into a polygon. */
+export function getCloudOutline(box: Bounds): Point[] {
+  const out: Point[] = [];
+  for (const { from, control, to } of getCloudBumps(box)) {
+    for (let s = 0; s < BUMP_STEPS; s++) {
+      const t = s / BUMP_STEPS;
+      const u = 1 - t;
+      out.push({
+        x: u * u * from.x + 2 * u * t * control.x + t * t * to.x,
+        y: u * u * from.y + 2 * u * t * control.y + t * t * to.y,
+      });
+    }
+  }
+  return out;
+}
+
+export function getCloudBoundingBox(obj: WhiteboardObject): Bounds | null {
+  return getBoxBoundingBox(obj, 'cloud');
+}
+
+export function getCloudPorts(obj: WhiteboardObject): BoxPort[] {
+  return getBoxPorts(obj, 'cloud');
+}
+
+export function hitTestCloud(obj: WhiteboardObject, worldX: number, worldY: number): boolean {
+  return hitTestOutline(obj, 'cloud', worldX, worldY, getCloudOutline);
+}
+
+/** The largest box with the cloud's proportions inside the ellipse the bumps sit on. */
+export function getCloudTextArea(obj: WhiteboardObject): Bounds {
+  const w = (obj.width ?? 0) * BASE_RADIUS * Math.SQRT1_2;
+  const h = (obj.height ?? 0) * BASE_RADIUS * Math.SQRT1_2;
+  return { x: obj.x + ((obj.width ?? 0) - w) / 2, y: obj.y + ((obj.height ?? 0) - h) / 2, width: w, height: h };
+}
@@ -0,0 +1,5 @@
+// src/whiteboard/tools/cloud/selection.ts
+
+import { BOX_WITH_TEXT } from '../_shared/selectionCaps';
+
+export const cloudSelectionCapabilities = BOX_WITH_TEXT;
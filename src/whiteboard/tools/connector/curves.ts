@@ -0,0 +1,82 @@
+// src/whiteboard/tools/connector/curves.ts
+//
+// Smooth curves for 'curved' connectors: a chain of cubic Bézier segments
+// through the path's vertices (start, waypoints, end). Like the elbow router
+// this works on plain points, so it can be tested on its own.
+
+import type { Point } from '../../../domain/types';
+
+/** One cubic Bézier segment: from `p0` to `p3` with control points `c1` and `c2`. */
+export type CubicBezier = { p0: Point; c1: Point; c2: Point; p3: Point };
+
+/** Straight samples per segment when a curve is flattened for hit-testing and bounds. */
+const SAMPLES_PER_SEGMENT = 16;
+
+function scaled(d: Point, by: number): Point {
+  return { x: d.x * by, y: d.y * by };
+}
+
+/**
+ * Catmull-Rom curve through `points` as Bézier segments. The curve leaves the
+ * first point along `startDirection` and enters the last one against
+ * `endDirection` (the outward normals of the attached edges) when given, so a
+ * curve without waypoints still bends away from the shapes it connects.
+ */
+export function getCurveThroughPoints(
+  points: readonly Point[],
+  startDirection?: Point | null,
+  endDirection?: Point | null
+): CubicBezier[] {
+  const n = points.length;
+  if (n < 2) return [];
+
+  // Tangent at each vertex; the ends follow their edge normals, scaled by the adjoining segment.
+  const tangents = points.map((p, i): Point => {
+    if (i === 0) {
+      const next = points[1];
+      const len = Math.hypot(next.x - p.x, next.y - p.y);
+      return startDirection ? scaled(startDirection, len) : { x: next.x - p.x, y: next.y - p.y };
+    }
+    if (i === n - 1) {
+      const prev = points[n - 2];
+      const len = Math.hypot(p.x - prev.x, p.y - prev.y);
+      return endDirection ? scaled(endDirection, -len) : { x: p.x - prev.x, y: p.y - prev.y };
+    }
+    return { x: (points[i + 1].x - points[i - 1].x) / 2, y: (points[i + 1].y - points[i - 1].y) / 2 };
+  });
+
+  const segments: CubicBezier[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    const p0 = points[i];
+    const p3 = points[i + 1];
+    segments.push({
+      p0,
+      c1: { x: p0.x + tangents[i].x / 3, y: p0.y + tangents[i].y / 3 },
+      c2: { x: p3.x - tangents[i + 1].x / 3, y: p3.y - tangents[i + 1].y / 3 },
+      p3,
+    });
+  }
+  return segments;
+}
+
+export function getBezierPoint(seg: CubicBezier, t: number): Point {
+  const u = 1 - t;
+  const a = u * u * u;
+  const b = 3 * u * u * t;
+  const c = 3 * u * t * t;
+  const d = t * t * t;
+  return {
+    x: a * seg.p0.x + b * seg.c1.x + c * seg.c2.x + d * seg.p3.x,
+    y: a * seg.p0.y + b * seg.c1.y + c * seg.c2.y + d * seg.p3.y,
+  };
+}
+
+/** The curve as a polyline, including both ends. */
+export function flattenCurve(segments: readonly CubicBezier[], samplesPerSegment = SAMPLES_PER_SEGMENT): Point[] {
+  if (segments.length === 0) return [];
+  const out: Point[] = [segments[0].p0];
+  for (const seg of segments) {
+    for (let i = 1; i <= samplesPerSegment; i++) out.push(getBezierPoint(seg, i / samplesPerSegment));
+  }
+  return out;
+}
@@ -1,7 +1,10 @@
 // src/whiteboard/tools/connector/draw.ts
 import type { WhiteboardObject, Viewport, ArrowType } from '../../../domain/types';
-import { worldToCanvas, resolveConnectorEndpoints } from '../../geometry';
-import { drawArrowHead } from '../_shared/arrowHeads';
+import { worldToCanvas, getConnectorPath } from '../../geometry';
+import { drawArrowHead, getArrowTailPoint } from '../_shared/arrowHeads';
+import { strokeWithStyle } from '../_shared/strokeStyle';
+import { clipOutPathLabels, drawPathLabels, getPlacedPathLabels } from '../_shared/pathLabels';
+import { getConnectorCurve } from './geometry';
 
 export function drawConnectorObject(
   ctx: CanvasRenderingContext2D,
@@ -11,37 +14,60 @@ export function drawConnectorObject(
 ): void {
   if (obj.type !== 'connector') return;
 
-  const endpoints = resolveConnectorEndpoints(objects, obj);
-  if (!endpoints) return;
+  const path = getConnectorPath(objects, obj);
+  if (!path) return;
 
   const stroke = obj.strokeColor ?? '#e5e7eb';
   const widthPx = obj.strokeWidth ?? 2;
 
-  const a = worldToCanvas(endpoints.p1.x, endpoints.p1.y, viewport);
-  const b = worldToCanvas(endpoints.p2.x, endpoints.p2.y, viewport);
+  const toCanvas = (p: { x: number; y: number }) => worldToCanvas(p.x, p.y, viewport);
+  const points = path.map(toCanvas);
+  const curve = getConnectorCurve(objects, obj);
+  const a = points[0];
+  const b = points[points.length - 1];
+  const labels = getPlacedPathLabels(obj, path);
 
   ctx.save();
+  clipOutPathLabels(ctx, labels, viewport);
   ctx.lineJoin = 'round';
   ctx.lineCap = 'round';
   ctx.strokeStyle = stroke;
   ctx.lineWidth = widthPx;
 
-  ctx.beginPath();
-  ctx.moveTo(a.x, a.y);
-  ctx.lineTo(b.x, b.y);
-  ctx.stroke();
-
   const arrowStart = (obj.arrowStart ?? 'none') as ArrowType;
   const arrowEnd = (obj.arrowEnd ?? 'none') as ArrowType;
 
-  if (arrowStart !== 'none') {
-    // Tip at A, pointing towards B
-    drawArrowHead(ctx, a.x, a.y, b.x, b.y, arrowStart, stroke, widthPx);
-  }
-  if (arrowEnd !== 'none') {
-    // Tip at B, pointing towards A
-    drawArrowHead(ctx, b.x, b.y, a.x, a.y, arrowEnd, stroke, widthPx);
-  }
+  strokeWithStyle(ctx, obj, widthPx, () => {
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y);
+    if (curve) {
+      for (const seg of curve) {
+        const c1 = toCanvas(seg.c1);
+        const c2 = toCanvas(seg.c2);
+        const p3 = toCanvas(seg.p3);
+        ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, p3.x, p3.y);
+      }
+    } else {
+      for (let i = 1; i < points.length; i++) ctx.lineTo(points[i].x, points[i].y);
+    }
+    ctx.stroke();
+
+    // Heads are always solid. They follow the first/last segment, so elbow routes get
+    // perpendicular arrows. Curves bend under the head, so it is aimed along the curve's
+    // last head length instead.
+    ctx.setLineDash([]);
+    if (arrowStart !== 'none') {
+      // Tip at A, pointing away from the next point
+      const tail = curve ? getArrowTailPoint(points, widthPx) : points[1];
+      drawArrowHead(ctx, a.x, a.y, tail.x, tail.y, arrowStart, stroke, widthPx);
+    }
+    if (arrowEnd !== 'none') {
+      // Tip at B, pointing away from the previous point
+      const tail = curve ? getArrowTailPoint(points.slice().reverse(), widthPx) : points[points.length - 2];
+      drawArrowHead(ctx, b.x, b.y, tail.x, tail.y, arrowEnd, stroke, widthPx);
+    }
+  });
 
   ctx.restore();
+  drawPathLabels(ctx, obj, labels, viewport);
 }
@@ -4,11 +4,17 @@ import type {
   WhiteboardObject,
   WhiteboardState,
   Attachment,
+  ConnectorRouting,
   Point
 } from '../../../domain/types';
 import type { Bounds } from '../../geometry/types';
+import { queryObjectsInBounds } from '../../geometry/spatialIndex';
 
-import { getPortsFor } from '../shapeRegistry';
+import { getPortsFor, getShape } from '../shapeRegistry';
+import { fromObjectLocalPoint, getRotationRad, getUnrotatedBox, toObjectLocalPoint } from '../_shared/rotation';
+import { ROUTE_MARGIN, routeOrthogonal, type RouteDirection } from './orthogonalRouting';
+import { flattenCurve, getCurveThroughPoints, type CubicBezier } from './curves';
+import { getPlacedPathLabels, hitTestPathLabels, unionWithPathLabels } from '../_shared/pathLabels';
 
 function clamp01(n: number): number {
   if (Number.isNaN(n)) return 0;
@@ -74,6 +80,9 @@ export function getPorts(
 
 /**
  * Resolve an attachment to a world coordinate point for a given object.
+ *
+ * Ports are already rotated by the shape; the continuous attachments (edgeT,
+ * perimeterAngle, fallback) are resolved on the unrotated box and then rotated.
  */
 export function resolveAttachmentPoint(
   obj: WhiteboardObject,
@@ -92,13 +101,21 @@ export function resolveAttachmentPoint(
     y: typeof obj.y === 'number' ? obj.y : 0
   };
 
-  switch (att.type) {
-    case 'port': {
-      const ports = getPorts(obj);
-      const found = ports.find((p) => p.portId === att.portId);
-      return found?.point ?? getAnchorPoint(bounds, 'center');
-    }
+  if (att.type === 'port') {
+    const ports = getPorts(obj);
+    const found = ports.find((p) => p.portId === att.portId);
+    return found?.point ?? getAnchorPoint(bounds, 'center');
+  }
 
+  return fromObjectLocalPoint(obj, resolveLocalAttachmentPoint(bounds, att, fallbackXY));
+}
+
+function resolveLocalAttachmentPoint(
+  bounds: Bounds,
+  att: Exclude<Attachment, { type: 'port' }>,
+  fallbackXY: Point
+): Point {
+  switch (att.type) {
     case 'edgeT': {
       const t = clamp01(att.t);
       const { x, y, width, height } = bounds;
@@ -166,6 +183,152 @@ export function resolveConnectorEndpoints(
   return { p1, p2 };
 }
 
+export function getConnectorRouting(obj: Pick<WhiteboardObject, 'routing'>): ConnectorRouting {
+  return obj.routing ?? 'straight';
+}
+
+/** Whether the connector's path goes through its `waypoints` (straight and elbow paths ignore them). */
+export function usesConnectorWaypoints(obj: Pick<WhiteboardObject, 'routing'>): boolean {
+  const routing = getConnectorRouting(obj);
+  return routing === 'manual' || routing === 'curved';
+}
+
+/**
+ * The points a manual or curved path passes through: start, waypoints, end.
+ * Just the two endpoints for the other routings.
+ */
+export function getConnectorVertices(
+  stateOrObjects: WhiteboardState | WhiteboardObject[],
+  connector: WhiteboardObject
+): Point[] | null {
+  const endpoints = resolveConnectorEndpoints(stateOrObjects, connector);
+  if (!endpoints) return null;
+  const waypoints = usesConnectorWaypoints(connector) ? connector.waypoints ?? [] : [];
+  return [endpoints.p1, ...waypoints, endpoints.p2];
+}
+
+/**
+ * Bézier segments of a curved connector, one per pair of consecutive vertices.
+ * Null for the other routings.
+ */
+export function getConnectorCurve(
+  stateOrObjects: WhiteboardState | WhiteboardObject[],
+  connector: WhiteboardObject
+): CubicBezier[] | null {
+  if (getConnectorRouting(connector) !== 'curved') return null;
+  const objects = Array.isArray(stateOrObjects) ? stateOrObjects : stateOrObjects.objects;
+  const vertices = getConnectorVertices(objects, connector);
+  if (!vertices) return null;
+
+  const fromObj = objects.find((o) => o.id === connector.from!.objectId)!;
+  const toObj = objects.find((o) => o.id === connector.to!.objectId)!;
+  const start = vertices[0];
+  const end = vertices[vertices.length - 1];
+  return getCurveThroughPoints(vertices, getAttachmentDirection(fromObj, start), getAttachmentDirection(toObj, end));
+}
+
+/**
+ * Outward direction of the edge an attachment sits on, snapped to the nearest
+ * axis (elbow routes leave and enter perpendicular to it). Null for points well
+ * inside the shape, such as its centre port.
+ */
+export function getAttachmentDirection(obj: WhiteboardObject, point: Point): RouteDirection | null {
+  const box = getUnrotatedBox(obj);
+  if (box.width <= 0 || box.height <= 0) return null;
+  const local = toObjectLocalPoint(obj, point);
+  const sides: Array<{ d: number; nx: number; ny: number }> = [
+    { d: Math.abs(local.y - box.y), nx: 0, ny: -1 },
+    { d: Math.abs(box.x + box.width - local.x), nx: 1, ny: 0 },
+    { d: Math.abs(box.y + box.height - local.y), nx: 0, ny: 1 },
+    { d: Math.abs(local.x - box.x), nx: -1, ny: 0 },
+  ];
+  const nearest = sides.reduce((a, b) => (b.d < a.d ? b : a));
+  if (nearest.d > Math.min(box.width, box.height) / 4) return null;
+
+  const rad = getRotationRad(obj);
+  const nx = nearest.nx * Math.cos(rad) - nearest.ny * Math.sin(rad);
+  const ny = nearest.nx * Math.sin(rad) + nearest.ny * Math.cos(rad);
+  if (Math.abs(nx) >= Math.abs(ny)) return { x: nx < 0 ? -1 : 1, y: 0 };
+  return { x: 0, y: ny < 0 ? -1 : 1 };
+}
+
+function boundsIntersect(a: Bounds, b: Bounds): boolean {
+  return a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+}
+
+/**
+ * Both end boxes plus every object near the connector's span. Candidates come
+ * from the spatial index, so busy boards only pay for what is close by.
+ */
+function getRouteObstacles(objects: WhiteboardObject[], fromObj: WhiteboardObject, toObj: WhiteboardObject): Bounds[] {
+  const fromBox = getShape(fromObj.type).getBoundingBox(fromObj);
+  const toBox = getShape(toObj.type).getBoundingBox(toObj);
+  const ends = [fromBox, toBox].filter((b): b is Bounds => !!b);
+  if (ends.length === 0) return [];
+
+  const minX = Math.min(...ends.map((b) => b.x));
+  const minY = Math.min(...ends.map((b) => b.y));
+  const maxX = Math.max(...ends.map((b) => b.x + b.width));
+  const maxY = Math.max(...ends.map((b) => b.y + b.height));
+  const pad = ROUTE_MARGIN * 4;
+  const region: Bounds = { x: minX - pad, y: minY - pad, width: maxX - minX + pad * 2, height: maxY - minY + pad * 2 };
+
+  const others: Bounds[] = [];
+  for (const o of queryObjectsInBounds(objects, region)) {
+    if (o.type === 'connector' || o.id === fromObj.id || o.id === toObj.id) continue;
+    const b = getShape(o.type).getBoundingBox(o);
+    if (b && boundsIntersect(b, region)) others.push(b);
+  }
+  return [...ends, ...others];
+}
+
+// Paths depend on every object (obstacles), so they are cached per object list.
+const pathCache = new WeakMap<WhiteboardObject[], WeakMap<WhiteboardObject, Point[] | null>>();
+
+/**
+ * The connector's path as a polyline from its start to its end point: two
+ * points when straight, elbows around other objects when orthogonal, the
+ * waypoints in between when manual and a flattened curve when curved.
+ */
+export function getConnectorPath(
+  stateOrObjects: WhiteboardState | WhiteboardObject[],
+  connector: WhiteboardObject
+): Point[] | null {
+  const objects = Array.isArray(stateOrObjects) ? stateOrObjects : stateOrObjects.objects;
+  let byConnector = pathCache.get(objects);
+  if (!byConnector) {
+    byConnector = new WeakMap();
+    pathCache.set(objects, byConnector);
+  }
+  const cached = byConnector.get(connector);
+  if (cached !== undefined) return cached;
+
+  const path = computeConnectorPath(objects, connector);
+  byConnector.set(connector, path);
+  return path;
+}
+
+function computeConnectorPath(objects: WhiteboardObject[], connector: WhiteboardObject): Point[] | null {
+  const routing = getConnectorRouting(connector);
+  if (routing === 'curved') {
+    const curve = getConnectorCurve(objects, connector);
+    return curve ? flattenCurve(curve) : null;
+  }
+  if (routing !== 'orthogonal') return getConnectorVertices(objects, connector);
+
+  const endpoints = resolveConnectorEndpoints(objects, connector);
+  if (!endpoints) return null;
+  const { p1, p2 } = endpoints;
+
+  const fromObj = objects.find((o) => o.id === connector.from!.objectId)!;
+  const toObj = objects.find((o) => o.id === connector.to!.objectId)!;
+  return routeOrthogonal(
+    { point: p1, direction: getAttachmentDirection(fromObj, p1) },
+    { point: p2, direction: getAttachmentDirection(toObj, p2) },
+    getRouteObstacles(objects, fromObj, toObj)
+  );
+}
+
 export function getConnectorBoundingBox(
   obj: WhiteboardObject,
   stateOrObjects?: WhiteboardState | WhiteboardObject[]
@@ -173,26 +336,26 @@ export function getConnectorBoundingBox(
   if (obj.type !== 'connector') return null;
   if (!stateOrObjects) return null;
 
-  const endpoints = resolveConnectorEndpoints(stateOrObjects, obj);
-  if (!endpoints) return null;
+  const path = getConnectorPath(stateOrObjects, obj);
+  if (!path) return null;
 
-  const { p1, p2 } = endpoints;
-  const minX = Math.min(p1.x, p2.x);
-  const minY = Math.min(p1.y, p2.y);
-  const maxX = Math.max(p1.x, p2.x);
-  const maxY = Math.max(p1.y, p2.y);
+  const minX = Math.min(...path.map((p) => p.x));
+  const minY = Math.min(...path.map((p) => p.y));
+  const maxX = Math.max(...path.map((p) => p.x));
+  const maxY = Math.max(...path.map((p) => p.y));
 
   // Stroke width is interpreted as canvas px, but in v1 we treat world units ~ px at zoom=1.
   // Add a few extra world units to make selection easier.
   const stroke = obj.strokeWidth ?? 2;
   const pad = stroke / 2 + 6;
 
-  return {
+  const bounds = {
     x: minX - pad,
     y: minY - pad,
     width: (maxX - minX) + pad * 2,
     height: (maxY - minY) + pad * 2
   };
+  return unionWithPathLabels(bounds, getPlacedPathLabels(obj, path));
 }
 
 /**
@@ -230,24 +393,22 @@ export function hitTestConnector(
   y: number
 ): boolean {
   if (connector.type !== 'connector') return false;
-  const endpoints = resolveConnectorEndpoints(objects, connector);
-  if (!endpoints) return false;
-
-  const { p1, p2 } = endpoints;
-  const minX = Math.min(p1.x, p2.x);
-  const minY = Math.min(p1.y, p2.y);
-  const maxX = Math.max(p1.x, p2.x);
-  const maxY = Math.max(p1.y, p2.y);
+  const path = getConnectorPath(objects, connector);
+  if (!path) return false;
 
   const stroke = connector.strokeWidth ?? 2;
   const pad = stroke / 2 + 6;
 
   // quick reject
-  if (x < minX - pad || x > maxX + pad || y < minY - pad || y > maxY + pad) {
+  const box = getConnectorBoundingBox(connector, objects);
+  if (!box || x < box.x || x > box.x + box.width || y < box.y || y > box.y + box.height) {
     return false;
   }
+  if (hitTestPathLabels(getPlacedPathLabels(connector, path), x, y) !== null) return true;
 
   const tolerance = pad;
-  const d = distancePointToSegment({ x, y }, p1, p2);
-  return d <= tolerance;
+  for (let i = 1; i < path.length; i++) {
+    if (distancePointToSegment({ x, y }, path[i - 1], path[i]) <= tolerance) return true;
+  }
+  return false;
 }
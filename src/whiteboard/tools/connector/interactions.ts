@@ -1,6 +1,7 @@
 import type {
   Attachment,
   ArrowType,
+  ConnectorRouting,
   ObjectId,
   Point,
   Viewport,
@@ -12,9 +13,13 @@ import {
   hitTest,
   isConnectable,
   resolveAttachmentPoint,
+  worldToCanvas,
 } from '../../geometry';
 import type { DraftShape } from '../../drawing';
 import { getShape, getPortsFor } from '../shapeRegistry';
+import { getRotationRad, getUnrotatedBox, toObjectLocalPoint } from '../_shared/rotation';
+import { getBezierPoint } from './curves';
+import { getConnectorCurve, getConnectorRouting, getConnectorVertices, usesConnectorWaypoints } from './geometry';
 
 function clamp01(n: number): number {
   if (Number.isNaN(n)) return 0;
@@ -92,11 +97,13 @@ export function pickAttachmentForObject(
     }
   }
 
-  const bounds = getBoundingBox(obj);
+  // Rotated shapes: pick edges/angles in the object's own (unrotated) frame.
+  const bounds = getRotationRad(obj) !== 0 ? getUnrotatedBox(obj) : getBoundingBox(obj);
   if (!bounds) return { type: 'fallback', anchor: 'center' };
 
   const c = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
-  const ref = otherPoint ?? pointer;
+  const local = toObjectLocalPoint(obj, pointer);
+  const ref = toObjectLocalPoint(obj, otherPoint ?? pointer);
 
   // Continuous attachment around ellipse perimeter
   if (obj.type === 'ellipse') {
@@ -117,9 +124,9 @@ export function pickAttachmentForObject(
 
   let t = 0.5;
   if (edge === 'top' || edge === 'bottom') {
-    t = bounds.width > 0 ? (pointer.x - bounds.x) / bounds.width : 0.5;
+    t = bounds.width > 0 ? (local.x - bounds.x) / bounds.width : 0.5;
   } else {
-    t = bounds.height > 0 ? (pointer.y - bounds.y) / bounds.height : 0.5;
+    t = bounds.height > 0 ? (local.y - bounds.y) / bounds.height : 0.5;
   }
 
   return { type: 'edgeT', edge, t: clamp01(t) };
@@ -133,6 +140,7 @@ export type ConnectorStartArgs = {
   strokeWidth: number;
   arrowStart: ArrowType;
   arrowEnd: ArrowType;
+  routing?: ConnectorRouting;
   generateObjectId: () => ObjectId;
 };
 
@@ -144,6 +152,7 @@ export function startConnectorDraft({
   strokeWidth,
   arrowStart,
   arrowEnd,
+  routing,
   generateObjectId,
 }: ConnectorStartArgs): DraftShape | null {
   const hitObj = hitTest(objects, pos.x, pos.y);
@@ -159,6 +168,7 @@ export function startConnectorDraft({
     strokeWidth,
     arrowStart,
     arrowEnd,
+    routing,
     fromObjectId: hitObj.id,
     fromAttachment,
     fromPoint,
@@ -251,8 +261,114 @@ export function finishConnectorDraft({ draft, pos, objects, viewport }: Connecto
     arrowEnd: (draft as any).arrowEnd ?? 'none',
     from: { objectId: draft.fromObjectId, attachment: draft.fromAttachment },
     to: { objectId: toObj.id, attachment: toAttachment },
-    routing: 'straight',
+    routing: draft.routing ?? 'straight',
   };
 
   return { object: connector, selectIds: [connector.id] };
 }
+
+/** Pointer radius for waypoint and midpoint handles, in canvas px. */
+const HANDLE_HIT_RADIUS = 8;
+
+/**
+ * Handles of a selected connector, in world coords: its waypoints, and the
+ * middle of each segment (dragging one inserts a waypoint there). Elbow
+ * connectors route themselves and have none.
+ */
+export function getConnectorHandles(
+  objects: WhiteboardObject[],
+  connector: WhiteboardObject
+): { waypoints: Point[]; midpoints: Point[] } | null {
+  if (connector.type !== 'connector' || getConnectorRouting(connector) === 'orthogonal') return null;
+  const vertices = getConnectorVertices(objects, connector);
+  if (!vertices) return null;
+
+  const curve = getConnectorCurve(objects, connector);
+  const midpoints = curve
+    ? curve.map((seg) => getBezierPoint(seg, 0.5))
+    : vertices.slice(1).map((b, i) => ({ x: (vertices[i].x + b.x) / 2, y: (vertices[i].y + b.y) / 2 }));
+  return { waypoints: vertices.slice(1, -1), midpoints };
+}
+
+/** A waypoint, or the midpoint of the segment after vertex `index` (the start being vertex 0). */
+export type ConnectorHandleHit = { kind: 'waypoint'; index: number } | { kind: 'midpoint'; index: number };
+
+/** Which handle of `connector` is under the pointer (canvas coords); waypoints win over midpoints. */
+export function hitTestConnectorHandle(
+  objects: WhiteboardObject[],
+  connector: WhiteboardObject,
+  viewport: Viewport,
+  canvasX: number,
+  canvasY: number
+): ConnectorHandleHit | null {
+  const handles = getConnectorHandles(objects, connector);
+  if (!handles) return null;
+
+  const pointer = { x: canvasX, y: canvasY };
+  const nearest = (points: Point[]): number => {
+    let best = -1;
+    let bestD2 = HANDLE_HIT_RADIUS * HANDLE_HIT_RADIUS;
+    points.forEach((p, i) => {
+      const d2 = dist2(worldToCanvas(p.x, p.y, viewport), pointer);
+      if (d2 <= bestD2) {
+        best = i;
+        bestD2 = d2;
+      }
+    });
+    return best;
+  };
+
+  const waypoint = nearest(handles.waypoints);
+  if (waypoint >= 0) return { kind: 'waypoint', index: waypoint };
+  const midpoint = nearest(handles.midpoints);
+  if (midpoint >= 0) return { kind: 'midpoint', index: midpoint };
+  return null;
+}
+
+function getActiveWaypoints(connector: WhiteboardObject): Point[] {
+  return usesConnectorWaypoints(connector) ? connector.waypoints ?? [] : [];
+}
+
+/**
+ * Patch inserting a waypoint at `index` (the midpoint handle of the same index).
+ * A straight connector becomes a manual one.
+ */
+export function insertConnectorWaypoint(
+  connector: WhiteboardObject,
+  index: number,
+  point: Point
+): Partial<WhiteboardObject> {
+  const waypoints = getActiveWaypoints(connector).slice();
+  waypoints.splice(index, 0, { x: point.x, y: point.y });
+  return {
+    waypoints,
+    routing: usesConnectorWaypoints(connector) ? getConnectorRouting(connector) : 'manual',
+  };
+}
+
+export function moveConnectorWaypoint(
+  connector: WhiteboardObject,
+  index: number,
+  point: Point
+): Partial<WhiteboardObject> {
+  const waypoints = getActiveWaypoints(connector).slice();
+  if (index < 0 || index >= waypoints.length) return {};
+  waypoints[index] = { x: point.x, y: point.y };
+  return { waypoints };
+}
+
+export function removeConnectorWaypoint(connector: WhiteboardObject, index: number): Partial<WhiteboardObject> {
+  const waypoints = getActiveWaypoints(connector);
+  if (index < 0 || index >= waypoints.length) return {};
+  return { waypoints: waypoints.filter((_, i) => i !== index) };
+}
+
+/** Moving a connector together with its ends (group / multi-selection) moves its waypoints too. */
+export function translateConnectorObject(
+  connector: WhiteboardObject,
+  dx: number,
+  dy: number
+): Partial<WhiteboardObject> | null {
+  if (!connector.waypoints?.length) return null;
+  return { waypoints: connector.waypoints.map((p) => ({ x: p.x + dx, y: p.y + dy })) };
+}
@@ -0,0 +1,242 @@
+// src/whiteboard/tools/connector/orthogonalRouting.ts
+//
+// Elbow routing for connectors. Works on plain points and boxes (no object
+// types), so it can be tested on its own: the path leaves each endpoint
+// perpendicular to the edge it is attached to, runs on horizontal/vertical
+// segments only and goes around the obstacle boxes it is given.
+//
+// The search runs over a sparse grid made of the lines through the endpoint
+// stubs and the obstacles' (padded) edges, preferring short paths with few bends.
+
+import type { Point } from '../../../domain/types';
+import type { Bounds } from '../../geometry/types';
+
+/** Unit vector along an axis: the direction a path leaves or enters an endpoint. */
+export type RouteDirection = { x: -1 | 0 | 1; y: -1 | 0 | 1 };
+
+export type RouteEnd = {
+  point: Point;
+  /** Outward normal of the attached edge; null when attached inside the shape (e.g. its centre). */
+  direction: RouteDirection | null;
+};
+
+/** Clearance kept between a routed path and the boxes it avoids, in world units. */
+export const ROUTE_MARGIN = 16;
+
+/** Extra cost of a bend, in world units of path length. */
+const BEND_COST = 40;
+
+const EPS = 1e-6;
+
+const DIRECTIONS: readonly RouteDirection[] = [
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+  { x: 0, y: -1 },
+];
+
+function directionIndex(d: RouteDirection): number {
+  return DIRECTIONS.findIndex((o) => o.x === d.x && o.y === d.y);
+}
+
+function inflate(b: Bounds, by: number): Bounds {
+  return { x: b.x - by, y: b.y - by, width: b.width + by * 2, height: b.height + by * 2 };
+}
+
+/** Strictly inside: points on a box's edge are free, so paths may run along padded edges. */
+function insideBox(b: Bounds, x: number, y: number): boolean {
+  return x > b.x + EPS && x < b.x + b.width - EPS && y > b.y + EPS && y < b.y + b.height - EPS;
+}
+
+/** Axis direction from `a` towards `b` (the dominant axis; rightwards when they coincide). */
+function directionTowards(a: Point, b: Point): RouteDirection {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  if (Math.abs(dx) >= Math.abs(dy)) return { x: dx < 0 ? -1 : 1, y: 0 };
+  return { x: 0, y: dy < 0 ? -1 : 1 };
+}
+
+function uniqueSorted(values: number[]): number[] {
+  const sorted = values.slice().sort((a, b) => a - b);
+  const out: number[] = [];
+  for (const v of sorted) {
+    if (out.length === 0 || v - out[out.length - 1] > EPS) out.push(v);
+  }
+  return out;
+}
+
+/** Drop repeated points and points in the middle of straight runs. */
+export function simplifyPolyline(points: readonly Point[]): Point[] {
+  const out: Point[] = [];
+  for (const p of points) {
+    const last = out[out.length - 1];
+    if (last && Math.abs(last.x - p.x) < EPS && Math.abs(last.y - p.y) < EPS) continue;
+    if (out.length >= 2) {
+      const a = out[out.length - 2];
+      const cross = (last.x - a.x) * (p.y - a.y) - (last.y - a.y) * (p.x - a.x);
+      const dot = (last.x - a.x) * (p.x - last.x) + (last.y - a.y) * (p.y - last.y);
+      if (Math.abs(cross) < EPS && dot >= 0) {
+        out[out.length - 1] = p;
+        continue;
+      }
+    }
+    out.push(p);
+  }
+  return out;
+}
+
+/** Minimal binary heap keyed by cost, for the path search. */
+class MinHeap {
+  private items: Array<{ cost: number; state: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(cost: number, state: number): void {
+    const items = this.items;
+    items.push({ cost, state });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].cost <= items[i].cost) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { cost: number; state: number } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < items.length && items[l].cost < items[m].cost) m = l;
+        if (r < items.length && items[r].cost < items[m].cost) m = r;
+        if (m === i) break;
+        [items[m], items[i]] = [items[i], items[m]];
+        i = m;
+      }
+    }
+    return top;
+  }
+}
+
+/** One elbow (or two) between the stubs, used when no clear path exists. */
+function fallbackRoute(s: Point, sDir: RouteDirection, e: Point): Point[] {
+  if (sDir.x !== 0) {
+    const mx = (s.x + e.x) / 2;
+    return [s, { x: mx, y: s.y }, { x: mx, y: e.y }, e];
+  }
+  const my = (s.y + e.y) / 2;
+  return [s, { x: s.x, y: my }, { x: e.x, y: my }, e];
+}
+
+/**
+ * Route from `start` to `end` around `obstacles` (boxes, e.g. the bounding boxes
+ * of other objects and of the two attached objects). Returns the polyline
+ * including both endpoints; a plain elbow when every path is blocked.
+ */
+export function routeOrthogonal(
+  start: RouteEnd,
+  end: RouteEnd,
+  obstacles: readonly Bounds[],
+  margin: number = ROUTE_MARGIN
+): Point[] {
+  const sDir = start.direction ?? directionTowards(start.point, end.point);
+  const eDir = end.direction ?? directionTowards(end.point, start.point);
+
+  // Stubs: the path leaves/enters each endpoint straight along its edge normal.
+  const s = { x: start.point.x + sDir.x * margin, y: start.point.y + sDir.y * margin };
+  const e = { x: end.point.x + eDir.x * margin, y: end.point.y + eDir.y * margin };
+
+  // Boxes an endpoint's stub is inside of cannot be avoided; leave them out.
+  const boxes = obstacles
+    .map((b) => inflate(b, margin))
+    .filter((b) => !insideBox(b, s.x, s.y) && !insideBox(b, e.x, e.y));
+
+  const xs = uniqueSorted([s.x, e.x, (s.x + e.x) / 2, ...boxes.flatMap((b) => [b.x, b.x + b.width])]);
+  const ys = uniqueSorted([s.y, e.y, (s.y + e.y) / 2, ...boxes.flatMap((b) => [b.y, b.y + b.height])]);
+  const nx = xs.length;
+  const node = (i: number, j: number) => j * nx + i;
+  const blocked = (x: number, y: number) => boxes.some((b) => insideBox(b, x, y));
+
+  const findIndex = (values: number[], v: number) => values.findIndex((w) => Math.abs(w - v) < EPS);
+  const startNode = node(findIndex(xs, s.x), findIndex(ys, s.y));
+  const endNode = node(findIndex(xs, e.x), findIndex(ys, e.y));
+  const endDirIndex = directionIndex({ x: -eDir.x as RouteDirection['x'], y: -eDir.y as RouteDirection['y'] });
+
+  // Search states are (grid node, direction of travel into it).
+  const stateCount = nx * ys.length * 4;
+  const best = new Float64Array(stateCount).fill(Infinity);
+  const prev = new Int32Array(stateCount).fill(-1);
+  const heap = new MinHeap();
+  const startState = startNode * 4 + directionIndex(sDir);
+  best[startState] = 0;
+  heap.push(0, startState);
+
+  let found = -1;
+  while (heap.size > 0) {
+    const { cost, state } = heap.pop()!;
+    if (cost > best[state]) continue;
+    const n = state >> 2;
+    const dir = state & 3;
+    if (n === endNode) {
+      // Arriving against the end direction would fold back over the stub.
+      const turn = dir === endDirIndex ? 0 : (dir + 2) % 4 === endDirIndex ? Infinity : BEND_COST;
+      if (turn === 0) {
+        found = state;
+        break;
+      }
+      if (turn !== Infinity) {
+        // Count the final bend by re-queueing this arrival with the target direction.
+        const target = n * 4 + endDirIndex;
+        if (cost + turn < best[target]) {
+          best[target] = cost + turn;
+          prev[target] = state;
+          heap.push(cost + turn, target);
+        }
+      }
+    }
+    const i = n % nx;
+    const j = (n - i) / nx;
+    for (let d = 0; d < 4; d++) {
+      if ((d + 2) % 4 === dir) continue; // no U-turns
+      const ni = i + DIRECTIONS[d].x;
+      const nj = j + DIRECTIONS[d].y;
+      if (ni < 0 || nj < 0 || ni >= nx || nj >= ys.length) continue;
+      const x1 = xs[i];
+      const y1 = ys[j];
+      const x2 = xs[ni];
+      const y2 = ys[nj];
+      if (blocked(x2, y2) || blocked((x1 + x2) / 2, (y1 + y2) / 2)) continue;
+      const next = node(ni, nj) * 4 + d;
+      const nextCost = cost + Math.abs(x2 - x1) + Math.abs(y2 - y1) + (d === dir ? 0 : BEND_COST);
+      if (nextCost < best[next]) {
+        best[next] = nextCost;
+        prev[next] = state;
+        heap.push(nextCost, next);
+      }
+    }
+  }
+
+  let middle: Point[];
+  if (found < 0) {
+    middle = fallbackRoute(s, sDir, e);
+  } else {
+    middle = [];
+    for (let st = found; st >= 0; st = prev[st]) {
+      const n = st >> 2;
+      const i = n % nx;
+      middle.push({ x: xs[i], y: ys[(n - i) / nx] });
+    }
+    middle.reverse();
+  }
+
+  return simplifyPolyline([start.point, ...middle, end.point]);
+}
@@ -3,5 +3,16 @@
 import type { SelectionCapabilities } from '../selection/types';
 
 export const connectorSelectionCapabilities: SelectionCapabilities = {
-  editableProps: ['strokeColor', 'strokeWidth', 'arrowStart', 'arrowEnd'] as const,
+  editableProps: [
+    'strokeColor',
+    'strokeWidth',
+    'strokeDash',
+    'strokeOpacity',
+    'arrowStart',
+    'arrowEnd',
+    'routing',
+    'textColor',
+    'fontSize',
+    'text',
+  ] as const,
 };
@@ -0,0 +1,52 @@
+// src/whiteboard/tools/cylinder/draw.ts
+import type { WhiteboardObject, Viewport } from '../../../domain/types';
+import type { DraftShape } from '../../drawing';
+import type { Bounds } from '../../geometry/types';
+import { worldToCanvas } from '../../geometry';
+import { drawOutlineDraft, drawOutlineShape, type TraceOutline } from '../_shared/outlineShape';
+import { getCylinderRimRadius, getCylinderTextArea } from './geometry';
+
+/** Canvas-space centre x, radii and rim centre ys of the cylinder in `box`. */
+function getCylinderFrame(box: Bounds, viewport: Viewport) {
+  const zoom = viewport.zoom ?? 1;
+  const ry = getCylinderRimRadius(box);
+  const top = worldToCanvas(box.x + box.width / 2, box.y + ry, viewport);
+  const bottom = worldToCanvas(box.x + box.width / 2, box.y + box.height - ry, viewport);
+  return { cx: top.x, rx: (box.width / 2) * zoom, ry: ry * zoom, topY: top.y, bottomY: bottom.y };
+}
+
+const traceCylinder: TraceOutline = (ctx, box, viewport) => {
+  const { cx, rx, ry, topY, bottomY } = getCylinderFrame(box, viewport);
+  ctx.beginPath();
+  ctx.moveTo(cx - rx, topY);
+  ctx.ellipse(cx, topY, rx, ry, 0, Math.PI, Math.PI * 2);
+  ctx.lineTo(cx + rx, bottomY);
+  ctx.ellipse(cx, bottomY, rx, ry, 0, 0, Math.PI);
+  ctx.closePath();
+};
+
+/** The near half of the top rim, which the silhouette leaves out. */
+const traceCylinderRim: TraceOutline = (ctx, box, viewport) => {
+  const { cx, rx, ry, topY } = getCylinderFrame(box, viewport);
+  ctx.beginPath();
+  ctx.moveTo(cx + rx, topY);
+  ctx.ellipse(cx, topY, rx, ry, 0, 0, Math.PI);
+};
+
+export function drawCylinderObject(
+  ctx: CanvasRenderingContext2D,
+  obj: WhiteboardObject,
+  viewport: Viewport
+): void {
+  if (obj.type !== 'cylinder') return;
+  drawOutlineShape(ctx, obj, viewport, traceCylinder, getCylinderTextArea(obj), traceCylinderRim);
+}
+
+/** Dashed draft preview while dragging out a new cylinder. */
+export function drawCylinderDraft(ctx: CanvasRenderingContext2D, draft: DraftShape, viewport: Viewport): void {
+  drawOutlineDraft(ctx, draft, viewport, (c, box, v) => {
+    traceCylinder(c, box, v);
+    c.stroke();
+    traceCylinderRim(c, box, v);
+  });
+}
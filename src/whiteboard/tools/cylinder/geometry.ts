@@ -0,0 +1,56 @@
+// src/whiteboard/tools/cylinder/geometry.ts
+import type { WhiteboardObject, Point } from '../../../domain/types';
+import type { Bounds } from '../../geometry/types';
+import { getBoxBoundingBox, getBoxPorts, type BoxPort } from '../_shared/boxGeometry';
+import { hitTestOutline } from '../_shared/outlineShape';
+
+/** Points sampled along each rim arc for hit-testing. */
+const RIM_STEPS = 16;
+
+/** Vertical radius of the top and bottom rims (their horizontal radius is half the width). */
+export function getCylinderRimRadius(box: Bounds): number {
+  return Math.min(box.height * 0.15, box.width / 4);
+}
+
+/**
+ * Silhouette of the cylinder: the far half of the top rim, the right side, the
+ * near half of the bottom rim and the left side.
+ */
+export function getCylinderOutline(box: Bounds): Point[] {
+  const rx = box.width / 2;
+  const ry = getCylinderRimRadius(box);
+  const cx = box.x + rx;
+  const top = box.y + ry;
+  const bottom = box.y + box.height - ry;
+
+  const out: Point[] = [];
+  for (let i = 0; i <= RIM_STEPS; i++) {
+    const a = Math.PI + (i / RIM_STEPS) * Math.PI;
+    out.push({ x: cx + Math.cos(a) * rx, y: top + Math.sin(a) * ry });
+  }
+  for (let i = 0; i <= RIM_STEPS; i++) {
+    const a = (i / RIM_STEPS) * Math.PI;
+    out.push({ x: cx + Math.cos(a) * rx, y: bottom + Math.sin(a) * ry });
+  }
+  return out;
+}
+
+export function getCylinderBoundingBox(obj: WhiteboardObject): Bounds | null {
+  return getBoxBoundingBox(obj, 'cylinder');
+}
+
+export function getCylinderPorts(obj: WhiteboardObject): BoxPort[] {
+  // The box's side midpoints all lie on the silhouette.
+  return getBoxPorts(obj, 'cylinder');
+}
+
+export function hitTestCylinder(obj: WhiteboardObject, worldX: number, worldY: number): boolean {
+  return hitTestOutline(obj, 'cylinder', worldX, worldY, getCylinderOutline);
+}
+
+/** The body between the front of the top rim and the start of the bottom curve. */
+export function getCylinderTextArea(obj: WhiteboardObject): Bounds {
+  const box = { x: obj.x, y: obj.y, width: obj.width ?? 0, height: obj.height ?? 0 };
+  const ry = getCylinderRimRadius(box);
+  return { x: box.x, y: box.y + ry * 2, width: box.width, height: Math.max(0, box.height - ry * 3) };
+}
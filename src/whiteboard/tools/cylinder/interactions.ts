@@ -0,0 +1,29 @@
+// src/whiteboard/tools/cylinder/interactions.ts
+import type { WhiteboardObject, ObjectId, Point } from '../../../domain/types';
+import type { DraftShape } from '../../drawing';
+
+import {
+  type BoxStartArgs,
+  startBoxDraft,
+  updateBoxDraft,
+  finishBoxDraft,
+} from '../_shared/boxDraft';
+
+/**
+ * Cylinder reuses the rectangle draft shape (kind: 'rectangle'), like diamond.
+ * The owning tool is tracked via draft.toolType by the core dispatcher.
+ */
+export function startCylinderDraft(args: BoxStartArgs): DraftShape {
+  return { ...startBoxDraft(args, 'rectangle'), toolType: 'cylinder' };
+}
+
+export function updateCylinderDraft(draft: DraftShape, pos: Point, snapGridSize?: number): DraftShape {
+  return updateBoxDraft(draft, 'rectangle', pos, snapGridSize);
+}
+
+export function finishCylinderDraft(draft: DraftShape): {
+  object?: WhiteboardObject;
+  selectIds?: ObjectId[];
+} {
+  return finishBoxDraft(draft, 'rectangle', 'cylinder');
+}
@@ -0,0 +1,5 @@
+// src/whiteboard/tools/cylinder/selection.ts
+
+import { BOX_WITH_TEXT } from '../_shared/selectionCaps';
+
+export const cylinderSelectionCapabilities = BOX_WITH_TEXT;
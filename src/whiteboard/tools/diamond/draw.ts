@@ -1,6 +1,10 @@
 // src/whiteboard/tools/diamond/draw.ts
 import type { WhiteboardObject, Viewport } from '../../../domain/types';
 import { worldToCanvas } from '../../geometry';
+import { drawRotated } from '../_shared/rotation';
+import { drawShapeText } from '../_shared/shapeText';
+import { fillWithOpacity, strokeWithStyle } from '../_shared/strokeStyle';
+import { getDiamondTextArea } from './geometry';
 
 /**
  * Diamond is a rhombus inscribed in the object's bounding box:
@@ -15,35 +19,39 @@ export function drawDiamondObject(
 ): void {
   if (obj.type !== 'diamond') return;
 
-  const stroke = obj.strokeColor ?? '#e5e7eb';
-  const widthPx = obj.strokeWidth ?? 2;
+  drawRotated(ctx, obj, viewport, () => {
+    const stroke = obj.strokeColor ?? '#e5e7eb';
+    const widthPx = obj.strokeWidth ?? 2;
 
-  const { x, y, width: w = 0, height: h = 0 } = obj;
-  if (w === 0 || h === 0) return;
+    const { x, y, width: w = 0, height: h = 0 } = obj;
+    if (w === 0 || h === 0) return;
 
-  const cx = x + w / 2;
-  const cy = y + h / 2;
+    const cx = x + w / 2;
+    const cy = y + h / 2;
 
-  const top = worldToCanvas(cx, y, viewport);
-  const right = worldToCanvas(x + w, cy, viewport);
-  const bottom = worldToCanvas(cx, y + h, viewport);
-  const left = worldToCanvas(x, cy, viewport);
+    const top = worldToCanvas(cx, y, viewport);
+    const right = worldToCanvas(x + w, cy, viewport);
+    const bottom = worldToCanvas(cx, y + h, viewport);
+    const left = worldToCanvas(x, cy, viewport);
 
-  ctx.beginPath();
-  ctx.moveTo(top.x, top.y);
-  ctx.lineTo(right.x, right.y);
-  ctx.lineTo(bottom.x, bottom.y);
-  ctx.lineTo(left.x, left.y);
-  ctx.closePath();
+    ctx.beginPath();
+    ctx.moveTo(top.x, top.y);
+    ctx.lineTo(right.x, right.y);
+    ctx.lineTo(bottom.x, bottom.y);
+    ctx.lineTo(left.x, left.y);
+    ctx.closePath();
 
-  if (obj.fillColor) {
-    ctx.fillStyle = obj.fillColor;
-    ctx.fill();
-  }
+    if (obj.fillColor) {
+      ctx.fillStyle = obj.fillColor;
+      fillWithOpacity(ctx, obj);
+    }
 
-  ctx.strokeStyle = stroke;
-  ctx.lineWidth = widthPx;
-  ctx.stroke();
+    ctx.strokeStyle = stroke;
+    ctx.lineWidth = widthPx;
+    strokeWithStyle(ctx, obj, widthPx);
+
+    drawShapeText(ctx, obj, getDiamondTextArea(obj), viewport);
+  });
 }
 
 
@@ -2,9 +2,10 @@
 import type { WhiteboardObject, Point } from '../../../domain/types';
 import type { Bounds } from '../../geometry/types';
 import { getBoxBoundingBox, getBoxPorts } from '../_shared/boxGeometry';
+import { toObjectLocalPoint } from '../_shared/rotation';
 
 /**
- * Bounding box for diamond is the same as its declared (x,y,w,h).
+ * Bounding box for diamond is its declared (x,y,w,h), grown to fit when rotated.
  */
 export function getDiamondBoundingBox(obj: WhiteboardObject): Bounds | null {
   return getBoxBoundingBox(obj, 'diamond');
@@ -18,7 +19,7 @@ export function getDiamondPorts(
 }
 
 /**
- * Hit-test inside the diamond using the L1-ellipse equation:
+ * Hit-test inside the diamond using the L1-ellipse equation (in the diamond's own frame):
  * |dx|/(w/2) + |dy|/(h/2) <= 1
  */
 export function hitTestDiamond(
@@ -39,8 +40,16 @@ export function hitTestDiamond(
   const hh = h / 2;
   if (hw === 0 || hh === 0) return false;
 
-  const dx = Math.abs(worldX - cx);
-  const dy = Math.abs(worldY - cy);
+  const p = toObjectLocalPoint(obj, { x: worldX, y: worldY });
+  const dx = Math.abs(p.x - cx);
+  const dy = Math.abs(p.y - cy);
 
   return dx / hw + dy / hh <= 1;
 }
+
+/** The largest box with the diamond's proportions that fits inside it: half of each diagonal. */
+export function getDiamondTextArea(obj: WhiteboardObject): Bounds {
+  const w = obj.width ?? 0;
+  const h = obj.height ?? 0;
+  return { x: obj.x + w / 4, y: obj.y + h / 4, width: w / 2, height: h / 2 };
+}
@@ -17,8 +17,8 @@ export function startDiamondDraft(args: BoxStartArgs): DraftShape {
   return { ...startBoxDraft(args, 'rectangle'), toolType: 'diamond' };
 }
 
-export function updateDiamondDraft(draft: DraftShape, pos: Point): DraftShape {
-  return updateBoxDraft(draft, 'rectangle', pos);
+export function updateDiamondDraft(draft: DraftShape, pos: Point, snapGridSize?: number): DraftShape {
+  return updateBoxDraft(draft, 'rectangle', pos, snapGridSize);
 }
 
 export function finishDiamondDraft(draft: DraftShape): {
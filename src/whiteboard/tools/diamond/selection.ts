@@ -1,5 +1,5 @@
 // src/whiteboard/tools/diamond/selection.ts
 
-import { BOX_WITH_FILL } from '../_shared/selectionCaps';
+import { BOX_WITH_TEXT } from '../_shared/selectionCaps';
 
-export const diamondSelectionCapabilities = BOX_WITH_FILL;
+export const diamondSelectionCapabilities = BOX_WITH_TEXT;
@@ -2,7 +2,7 @@
 
 import type { WhiteboardObject, Point } from '../../../domain/types';
 import type { Bounds } from '../../geometry/types';
-import { getBoxBoundingBox, getBoxPorts } from '../_shared/boxGeometry';
+import { getBoxBoundingBox, getBoxPorts, hitTestBox } from '../_shared/boxGeometry';
 
 export function getEllipsePorts(
   obj: WhiteboardObject
@@ -13,3 +13,14 @@ export function getEllipsePorts(
 export function getEllipseBoundingBox(obj: WhiteboardObject): Bounds | null {
   return getBoxBoundingBox(obj, 'ellipse');
 }
+
+export function hitTestEllipse(obj: WhiteboardObject, worldX: number, worldY: number): boolean {
+  return hitTestBox(obj, 'ellipse', worldX, worldY);
+}
+
+/** The largest box with the ellipse's proportions that fits inside it (1/√2 of each axis). */
+export function getEllipseTextArea(obj: WhiteboardObject): Bounds {
+  const w = (obj.width ?? 0) * Math.SQRT1_2;
+  const h = (obj.height ?? 0) * Math.SQRT1_2;
+  return { x: obj.x + ((obj.width ?? 0) - w) / 2, y: obj.y + ((obj.height ?? 0) - h) / 2, width: w, height: h };
+}
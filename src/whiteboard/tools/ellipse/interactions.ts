@@ -13,8 +13,8 @@ export function startEllipseDraft(args: BoxStartArgs): DraftShape {
   return startBoxDraft(args, 'ellipse');
 }
 
-export function updateEllipseDraft(draft: DraftShape, pos: Point): DraftShape {
-  return updateBoxDraft(draft, 'ellipse', pos);
+export function updateEllipseDraft(draft: DraftShape, pos: Point, snapGridSize?: number): DraftShape {
+  return updateBoxDraft(draft, 'ellipse', pos, snapGridSize);
 }
 
 export function finishEllipseDraft(draft: DraftShape): {
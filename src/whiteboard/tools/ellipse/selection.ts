@@ -1,5 +1,5 @@
 // src/whiteboard/tools/ellipse/selection.ts
 
-import { BOX_WITH_FILL } from '../_shared/selectionCaps';
+import { BOX_WITH_TEXT } from '../_shared/selectionCaps';
 
-export const ellipseSelectionCapabilities = BOX_WITH_FILL;
+export const ellipseSelectionCapabilities = BOX_WITH_TEXT;
@@ -0,0 +1,210 @@
+// src/whiteboard/tools/eraser/erase.ts
+
+import type { ErasedObject, ObjectId, Point, WhiteboardObject } from '../../../domain/types';
+import { MAX_SELECTION_IDS } from '../../../collab/protocol/limits';
+import { hitTestObject } from '../../geometry';
+import { queryObjectsInBounds } from '../../geometry/spatialIndex';
+import type { EraserSettings } from '../../whiteboardTypes';
+import { distanceToSegmentSq, simplifyFreehandStroke } from '../freehand/simplify';
+
+/**
+ * Eraser tool geometry.
+ *
+ * 'object' mode removes every object the eraser touches (precise per-shape hit
+ * test). 'stroke' mode only cuts freehand strokes: the parts under the eraser are
+ * removed and each remaining run becomes its own freehand object.
+ *
+ * Locked objects are never erased.
+ */
+
+export const DEFAULT_ERASER_SETTINGS: EraserSettings = {
+  mode: 'object',
+  size: 16,
+};
+
+export const MIN_ERASER_SIZE = 4;
+export const MAX_ERASER_SIZE = 64;
+
+/** Eraser radius in world units (`size` is an on-screen diameter). */
+export function getEraserRadius(settings: EraserSettings, zoom: number): number {
+  return settings.size / 2 / (zoom || 1);
+}
+
+/** Points from a (exclusive) to b (inclusive), no more than `step` apart. */
+function sampleSegment(a: Point, b: Point, step: number): Point[] {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  const count = Math.max(1, Math.ceil(length / step));
+  const out: Point[] = [];
+  for (let i = 1; i <= count; i++) {
+    const t = i / count;
+    out.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+  }
+  return out;
+}
+
+/** The eraser center plus points on its rim, for hit-testing one sample. */
+function eraserProbes(center: Point, radius: number): Point[] {
+  const probes = [center];
+  for (let i = 0; i < 8; i++) {
+    const angle = (i * Math.PI) / 4;
+    probes.push({ x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius });
+  }
+  return probes;
+}
+
+/**
+ * Unlocked objects the eraser touches moving from `from` to `to`, bottom → top.
+ */
+export function getObjectsTouchedByEraser(
+  objects: WhiteboardObject[],
+  from: Point,
+  to: Point,
+  radius: number
+): ObjectId[] {
+  const samples = [from, ...sampleSegment(from, to, Math.max(radius, 1e-3))];
+  const area = {
+    x: Math.min(from.x, to.x) - radius,
+    y: Math.min(from.y, to.y) - radius,
+    width: Math.abs(to.x - from.x) + radius * 2,
+    height: Math.abs(to.y - from.y) + radius * 2,
+  };
+
+  const touched: ObjectId[] = [];
+  for (const obj of queryObjectsInBounds(objects, area)) {
+    if (obj.locked) continue;
+    const hit = samples.some((sample) =>
+      eraserProbes(sample, radius).some((p) => hitTestObject(obj, p.x, p.y, objects))
+    );
+    if (hit) touched.push(obj.id);
+  }
+  return touched;
+}
+
+function distanceToPathSq(p: Point, path: Point[]): number {
+  if (path.length === 1) return distanceToSegmentSq(p, path[0], path[0]);
+  let min = Infinity;
+  for (let i = 1; i < path.length; i++) {
+    min = Math.min(min, distanceToSegmentSq(p, path[i - 1], path[i]));
+  }
+  return min;
+}
+
+type StrokeSample = { point: Point; pressure?: number };
+
+/** The stroke resampled densely enough that cuts land within `step` of the eraser edge. */
+function resampleStroke(obj: WhiteboardObject, step: number): StrokeSample[] {
+  const points = obj.points ?? [];
+  const pressures = obj.pressures && obj.pressures.length === points.length ? obj.pressures : undefined;
+  if (points.length === 0) return [];
+
+  const out: StrokeSample[] = [{ point: points[0], pressure: pressures?.[0] }];
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const segment = sampleSegment(a, b, step);
+    segment.forEach((point, j) => {
+      const t = (j + 1) / segment.length;
+      const pressure = pressures ? pressures[i - 1] + (pressures[i] - pressures[i - 1]) * t : undefined;
+      out.push({ point, pressure });
+    });
+  }
+  return out;
+}
+
+function toFragment(
+  obj: WhiteboardObject,
+  run: StrokeSample[],
+  zoom: number,
+  generateObjectId: () => ObjectId
+): WhiteboardObject {
+  const withPressure = run.every((s) => s.pressure !== undefined);
+  const stroke = simplifyFreehandStroke(
+    {
+      points: run.map((s) => s.point),
+      pressures: withPressure ? run.map((s) => Math.round(s.pressure! * 100) / 100) : undefined,
+    },
+    zoom
+  );
+  const xs = stroke.points.map((p) => p.x);
+  const ys = stroke.points.map((p) => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  const { pressures: _pressures, ...rest } = obj;
+  return {
+    ...rest,
+    id: generateObjectId(),
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY,
+    points: stroke.points,
+    ...(stroke.pressures ? { pressures: stroke.pressures } : {}),
+  };
+}
+
+/**
+ * Cut the parts of a freehand stroke within `radius` of the eraser path.
+ * Returns null when the eraser misses the stroke, otherwise the remaining pieces
+ * (empty when nothing is left).
+ */
+export function cutFreehandStroke(
+  obj: WhiteboardObject,
+  path: Point[],
+  radius: number,
+  zoom: number,
+  generateObjectId: () => ObjectId
+): WhiteboardObject[] | null {
+  if (obj.type !== 'freehand' || path.length === 0) return null;
+
+  const reach = radius + (obj.strokeWidth ?? 2) / 2;
+  const reachSq = reach * reach;
+  const samples = resampleStroke(obj, Math.max(radius / 2, 1e-3));
+
+  const runs: StrokeSample[][] = [];
+  let current: StrokeSample[] = [];
+  let cut = false;
+  for (const sample of samples) {
+    if (distanceToPathSq(sample.point, path) <= reachSq) {
+      cut = true;
+      if (current.length > 0) runs.push(current);
+      current = [];
+    } else {
+      current.push(sample);
+    }
+  }
+  if (current.length > 0) runs.push(current);
+  if (!cut) return null;
+
+  return runs
+    .filter((run) => run.length >= 2)
+    .slice(0, MAX_SELECTION_IDS)
+    .map((run) => toFragment(obj, run, zoom, generateObjectId));
+}
+
+/**
+ * The change set for a finished eraser gesture over `touchedIds`.
+ */
+export function getEraseResult(
+  objects: WhiteboardObject[],
+  touchedIds: ObjectId[],
+  path: Point[],
+  settings: EraserSettings,
+  zoom: number,
+  generateObjectId: () => ObjectId
+): ErasedObject[] {
+  const touched = new Set(touchedIds);
+  const erased: ErasedObject[] = [];
+
+  for (const obj of objects) {
+    if (!touched.has(obj.id) || obj.locked) continue;
+    if (settings.mode === 'object') {
+      erased.push({ objectId: obj.id, fragments: [] });
+    } else {
+      const fragments = cutFreehandStroke(obj, path, getEraserRadius(settings, zoom), zoom, generateObjectId);
+      if (fragments) erased.push({ objectId: obj.id, fragments });
+    }
+    if (erased.length === MAX_SELECTION_IDS) break;
+  }
+  return erased;
+}
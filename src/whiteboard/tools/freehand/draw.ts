@@ -1,6 +1,176 @@
 // src/whiteboard/tools/freehand/draw.ts
-import type { WhiteboardObject, Viewport } from '../../../domain/types';
+import type { WhiteboardObject, Viewport, Point } from '../../../domain/types';
+import type { DraftShape } from '../../drawing';
 import { worldToCanvas } from '../../geometry';
+import { simplifyPointsForZoom } from '../_shared/levelOfDetail';
+import { getStrokeDash, getStrokeOpacity, strokeWithStyle } from '../_shared/strokeStyle';
+
+type StrokeSample = Point & { width: number };
+
+type FreehandStyle = Pick<WhiteboardObject, 'strokeDash' | 'strokeOpacity'>;
+
+/** Points sampled along each smoothed segment when a stroke is filled as an outline. */
+const OUTLINE_STEPS_PER_SEGMENT = 4;
+
+/**
+ * Line width for a pen sample: half pressure draws the nominal width, a light touch
+ * a quarter of it and full pressure 1.75×.
+ */
+export function getPressureWidth(strokeWidth: number, pressure: number): number {
+  const p = Math.max(0, Math.min(1, pressure));
+  return strokeWidth * (0.25 + 1.5 * p);
+}
+
+function toSamples(points: Point[], pressures: number[] | undefined, strokeWidth: number): StrokeSample[] {
+  const withPressure = !!pressures && pressures.length === points.length;
+  return points.map((p, i) => ({
+    x: p.x,
+    y: p.y,
+    width: withPressure ? getPressureWidth(strokeWidth, pressures![i]) : strokeWidth,
+  }));
+}
+
+const mid = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * The smoothed stroke as a polyline with a width per point: each quadratic
+ * segment (see strokeSmoothSamples) sampled OUTLINE_STEPS_PER_SEGMENT times,
+ * its width easing from the previous sample's to its own.
+ */
+function flattenSmoothSamples(samples: StrokeSample[]): StrokeSample[] {
+  const n = samples.length;
+  const out: StrokeSample[] = [samples[0]];
+  let from: StrokeSample = samples[0];
+  for (let i = 1; i < n; i++) {
+    const last = i === n - 1;
+    const c = samples[i];
+    const to = last ? c : { ...mid(c, samples[i + 1]), width: c.width };
+    for (let s = 1; s <= OUTLINE_STEPS_PER_SEGMENT; s++) {
+      const t = s / OUTLINE_STEPS_PER_SEGMENT;
+      const u = 1 - t;
+      const x = last ? from.x + (to.x - from.x) * t : u * u * from.x + 2 * u * t * c.x + t * t * to.x;
+      const y = last ? from.y + (to.y - from.y) * t : u * u * from.y + 2 * u * t * c.y + t * t * to.y;
+      out.push({ x, y, width: from.width + (c.width - from.width) * t });
+    }
+    from = to;
+  }
+  return out;
+}
+
+/**
+ * Fill a variable-width stroke as one shape: its outline plus a round cap at
+ * every sample. Stroking segment by segment overlaps at the joins, which shows
+ * as darker beads once the stroke is translucent.
+ */
+function fillStrokeOutline(ctx: CanvasRenderingContext2D, samples: StrokeSample[]): void {
+  const pts = flattenSmoothSamples(samples);
+  const left: Point[] = [];
+  const right: Point[] = [];
+  pts.forEach((p, i) => {
+    const a = pts[Math.max(0, i - 1)];
+    const b = pts[Math.min(pts.length - 1, i + 1)];
+    const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const nx = (-(b.y - a.y) / len) * (p.width / 2);
+    const ny = ((b.x - a.x) / len) * (p.width / 2);
+    left.push({ x: p.x + nx, y: p.y + ny });
+    right.push({ x: p.x - nx, y: p.y - ny });
+  });
+
+  const outline = [...left, ...right.reverse()];
+  // Wind the caps the same way as the outline so the nonzero fill unites them.
+  let area = 0;
+  outline.forEach((p, i) => {
+    const q = outline[(i + 1) % outline.length];
+    area += p.x * q.y - q.x * p.y;
+  });
+
+  ctx.beginPath();
+  ctx.moveTo(outline[0].x, outline[0].y);
+  for (const p of outline.slice(1)) ctx.lineTo(p.x, p.y);
+  ctx.closePath();
+  for (const s of samples) {
+    ctx.moveTo(s.x + s.width / 2, s.y);
+    ctx.arc(s.x, s.y, s.width / 2, 0, Math.PI * 2, area < 0);
+  }
+  ctx.fill('nonzero');
+}
+
+/**
+ * Stroke canvas-space samples as a smooth curve: quadratic segments through the
+ * midpoints between samples, with each sample as the control point. Constant-width
+ * strokes are one path; pressure strokes draw each segment at its sample's width,
+ * carrying the dash pattern across segments, or are filled as one outline when
+ * translucent and solid.
+ */
+function strokeSmoothSamples(
+  ctx: CanvasRenderingContext2D,
+  samples: StrokeSample[],
+  color: string,
+  style: FreehandStyle
+): void {
+  ctx.strokeStyle = color;
+  ctx.lineJoin = 'round';
+  ctx.lineCap = 'round';
+
+  const n = samples.length;
+  const variable = samples.some((s) => s.width !== samples[0].width);
+
+  if (!variable) {
+    ctx.lineWidth = samples[0].width;
+    ctx.beginPath();
+    ctx.moveTo(samples[0].x, samples[0].y);
+    for (let i = 1; i < n - 1; i++) {
+      const m = mid(samples[i], samples[i + 1]);
+      ctx.quadraticCurveTo(samples[i].x, samples[i].y, m.x, m.y);
+    }
+    ctx.lineTo(samples[n - 1].x, samples[n - 1].y);
+    strokeWithStyle(ctx, style, samples[0].width);
+    return;
+  }
+
+  if (getStrokeOpacity(style) < 1 && getStrokeDash(style) === 'solid') {
+    ctx.save();
+    ctx.fillStyle = color;
+    ctx.globalAlpha *= getStrokeOpacity(style);
+    fillStrokeOutline(ctx, samples);
+    ctx.restore();
+    return;
+  }
+
+  // Dash lengths follow the nominal width so the pattern does not change with pressure.
+  const nominal = samples.reduce((sum, s) => sum + s.width, 0) / n;
+  strokeWithStyle(ctx, style, nominal, () => {
+    let from: Point = samples[0];
+    let walked = 0;
+    for (let i = 1; i < n; i++) {
+      const last = i === n - 1;
+      const to = last ? samples[i] : mid(samples[i], samples[i + 1]);
+      ctx.lineWidth = samples[i].width;
+      ctx.lineDashOffset = walked;
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      if (last) ctx.lineTo(to.x, to.y);
+      else ctx.quadraticCurveTo(samples[i].x, samples[i].y, to.x, to.y);
+      ctx.stroke();
+      walked += Math.hypot(samples[i].x - from.x, samples[i].y - from.y) + Math.hypot(to.x - samples[i].x, to.y - samples[i].y);
+      from = to;
+    }
+  });
+}
+
+function drawStroke(
+  ctx: CanvasRenderingContext2D,
+  points: Point[],
+  pressures: number[] | undefined,
+  strokeWidth: number,
+  color: string,
+  viewport: Viewport,
+  style: FreehandStyle = {}
+): void {
+  const samples = simplifyPointsForZoom(toSamples(points, pressures, strokeWidth), viewport.zoom ?? 1);
+  const onCanvas = samples.map((s) => ({ ...worldToCanvas(s.x, s.y, viewport), width: s.width }));
+  strokeSmoothSamples(ctx, onCanvas, color, style);
+}
 
 export function drawFreehandObject(
   ctx: CanvasRenderingContext2D,
@@ -10,20 +180,13 @@ export function drawFreehandObject(
   if (obj.type !== 'freehand') return;
   if (!obj.points || obj.points.length <= 1) return;
 
-  const stroke = obj.strokeColor ?? '#e5e7eb';
-  const widthPx = obj.strokeWidth ?? 2;
-
-  const toCanvas = (x: number, y: number) => worldToCanvas(x, y, viewport);
+  drawStroke(ctx, obj.points, obj.pressures, obj.strokeWidth ?? 2, obj.strokeColor ?? '#e5e7eb', viewport, obj);
+}
 
-  const pts = obj.points;
-  ctx.beginPath();
-  const first = toCanvas(pts[0].x, pts[0].y);
-  ctx.moveTo(first.x, first.y);
-  for (let i = 1; i < pts.length; i++) {
-    const p = toCanvas(pts[i].x, pts[i].y);
-    ctx.lineTo(p.x, p.y);
-  }
-  ctx.strokeStyle = stroke;
-  ctx.lineWidth = widthPx;
-  ctx.stroke();
+/**
+ * In-progress stroke, drawn the same way as the finished object.
+ */
+export function drawFreehandDraft(ctx: CanvasRenderingContext2D, draft: DraftShape, viewport: Viewport): void {
+  if (draft.kind !== 'freehand' || draft.points.length <= 1) return;
+  drawStroke(ctx, draft.points, draft.pressures, draft.strokeWidth, draft.strokeColor, viewport);
 }
@@ -2,6 +2,8 @@
 
 import type { WhiteboardObject } from '../../../domain/types';
 import type { Bounds } from '../../geometry/types';
+import { getPressureWidth } from './draw';
+import { distanceToSegmentSq } from './simplify';
 
 export function getFreehandBoundingBox(obj: WhiteboardObject): Bounds | null {
   if (obj.type !== 'freehand') return null;
@@ -34,6 +36,38 @@ export function getFreehandBoundingBox(obj: WhiteboardObject): Bounds | null {
   };
 }
 
+/**
+ * Selection tolerance around the stroke's points (same as lines): half the widest
+ * drawn width plus a few world units. The bounding box does not include it.
+ */
+export function getFreehandHitPadding(obj: WhiteboardObject): number {
+  const strokeWidth = obj.strokeWidth ?? 2;
+  const widest = obj.pressures?.length
+    ? Math.max(...obj.pressures.map((p) => getPressureWidth(strokeWidth, p)))
+    : strokeWidth;
+  return widest / 2 + 6;
+}
+
+/**
+ * Precise hit test against the drawn stroke (same tolerance as lines), so the empty
+ * space inside a loop or scribble does not count as the stroke.
+ */
+export function hitTestFreehand(obj: WhiteboardObject, x: number, y: number): boolean {
+  if (obj.type !== 'freehand') return false;
+  const points = obj.points ?? [];
+  if (points.length === 0) return false;
+
+  const pad = getFreehandHitPadding(obj);
+  const padSq = pad * pad;
+
+  const p = { x, y };
+  if (points.length === 1) return distanceToSegmentSq(p, points[0], points[0]) <= padSq;
+  for (let i = 1; i < points.length; i++) {
+    if (distanceToSegmentSq(p, points[i - 1], points[i]) <= padSq) return true;
+  }
+  return false;
+}
+
 /**
  * Translate a freehand object by dx/dy.
  * - Freehand rendering uses absolute points, so we must shift points as well as x/y.
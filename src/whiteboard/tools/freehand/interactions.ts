@@ -1,10 +1,13 @@
 import type { WhiteboardObject, ObjectId, Point } from '../../../domain/types';
 import type { DraftShape } from '../../drawing';
+import { isDistinctSample, simplifyFreehandStroke } from './simplify';
 
 export type FreehandStartArgs = {
   pos: Point;
   strokeColor: string;
   strokeWidth: number;
+  /** Pen pressure (0..1) of the first sample; only pens report a real value. */
+  pressure?: number;
   generateObjectId: () => ObjectId;
 };
 
@@ -12,6 +15,7 @@ export function startFreehandDraft({
   pos,
   strokeColor,
   strokeWidth,
+  pressure,
   generateObjectId,
 }: FreehandStartArgs): DraftShape {
   return {
@@ -20,23 +24,45 @@ export function startFreehandDraft({
     strokeColor,
     strokeWidth,
     points: [pos],
+    ...(pressure !== undefined ? { pressures: [pressure] } : {}),
   };
 }
 
-export function updateFreehandDraft(draft: DraftShape, pos: Point): DraftShape {
+/**
+ * Record a pointer sample, skipping ones that barely moved on screen (they only add
+ * jitter and payload).
+ */
+export function updateFreehandDraft(
+  draft: DraftShape,
+  pos: Point,
+  options: { zoom?: number; pressure?: number } = {}
+): DraftShape {
   if (draft.kind !== 'freehand') return draft;
-  return { ...draft, points: [...draft.points, pos] };
+  const last = draft.points[draft.points.length - 1];
+  if (last && !isDistinctSample(last, pos, options.zoom ?? 1)) return draft;
+
+  const points = [...draft.points, pos];
+  if (!draft.pressures) return { ...draft, points };
+  const pressure = options.pressure ?? draft.pressures[draft.pressures.length - 1];
+  return { ...draft, points, pressures: [...draft.pressures, pressure] };
 }
 
-export function finishFreehandDraft(draft: DraftShape): {
+/**
+ * Create the stroke object, simplified for the zoom it was drawn at.
+ */
+export function finishFreehandDraft(
+  draft: DraftShape,
+  zoom = 1
+): {
   object?: WhiteboardObject;
   selectIds?: ObjectId[];
 } {
   if (draft.kind !== 'freehand') return {};
   if (draft.points.length < 2) return {};
 
-  const xs = draft.points.map((p) => p.x);
-  const ys = draft.points.map((p) => p.y);
+  const stroke = simplifyFreehandStroke({ points: draft.points, pressures: draft.pressures }, zoom);
+  const xs = stroke.points.map((p) => p.x);
+  const ys = stroke.points.map((p) => p.y);
   const minX = Math.min(...xs);
   const minY = Math.min(...ys);
   const maxX = Math.max(...xs);
@@ -51,7 +77,8 @@ export function finishFreehandDraft(draft: DraftShape): {
     height: maxY - minY,
     strokeColor: draft.strokeColor,
     strokeWidth: draft.strokeWidth,
-    points: draft.points,
+    points: stroke.points,
+    ...(stroke.pressures ? { pressures: stroke.pressures } : {}),
   };
 
   return { object: obj, selectIds: [draft.id] };
@@ -0,0 +1,101 @@
+// src/whiteboard/tools/freehand/simplify.ts
+
+import type { Point } from '../../../domain/types';
+import { MAX_STROKE_POINTS } from '../../../collab/protocol/limits';
+
+/**
+ * Stroke clean-up for the freehand tool: drop near-duplicate pointer samples while
+ * drawing and simplify the finished stroke with Ramer–Douglas–Peucker, so strokes
+ * stay small on the wire. Tolerances are in screen pixels and converted with the
+ * zoom the stroke was drawn at.
+ */
+
+/** Pointer samples closer than this on screen to the previous one are skipped. */
+export const FREEHAND_MIN_SAMPLE_PX = 1;
+
+/** Maximum on-screen deviation of the simplified stroke from the drawn one. */
+export const FREEHAND_SIMPLIFY_TOLERANCE_PX = 0.75;
+
+export type FreehandStroke = {
+  points: Point[];
+  /** Pen pressure (0..1) per point; omitted for mouse/touch strokes. */
+  pressures?: number[];
+};
+
+/** Squared distance from `p` to segment ab. */
+export function distanceToSegmentSq(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+  const ex = p.x - (a.x + t * dx);
+  const ey = p.y - (a.y + t * dy);
+  return ex * ex + ey * ey;
+}
+
+/**
+ * Indices of the points Ramer–Douglas–Peucker keeps for `tolerance` (world units).
+ * Both ends are always kept. Iterative, so long strokes cannot overflow the stack.
+ */
+export function simplifyIndices(points: Point[], tolerance: number): number[] {
+  const n = points.length;
+  if (n <= 2) return points.map((_, i) => i);
+
+  const keep = new Uint8Array(n);
+  keep[0] = 1;
+  keep[n - 1] = 1;
+  const tolSq = tolerance * tolerance;
+  const stack: Array<[number, number]> = [[0, n - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxSq = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const d = distanceToSegmentSq(points[i], points[first], points[last]);
+      if (d > maxSq) {
+        maxSq = d;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxSq > tolSq) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  const out: number[] = [];
+  for (let i = 0; i < n; i++) if (keep[i]) out.push(i);
+  return out;
+}
+
+/**
+ * Simplify a finished stroke drawn at `zoom`. The tolerance doubles until the
+ * stroke fits within `maxPoints` (the protocol limit by default).
+ */
+export function simplifyFreehandStroke(
+  stroke: FreehandStroke,
+  zoom: number,
+  maxPoints: number = MAX_STROKE_POINTS
+): FreehandStroke {
+  let tolerance = FREEHAND_SIMPLIFY_TOLERANCE_PX / (zoom || 1);
+  let indices = simplifyIndices(stroke.points, tolerance);
+  while (indices.length > maxPoints) {
+    tolerance *= 2;
+    indices = simplifyIndices(stroke.points, tolerance);
+  }
+
+  const points = indices.map((i) => stroke.points[i]);
+  const pressures = stroke.pressures;
+  return pressures && pressures.length === stroke.points.length
+    ? { points, pressures: indices.map((i) => pressures[i]) }
+    : { points };
+}
+
+/** True when `pos` is far enough on screen from `last` to be worth recording. */
+export function isDistinctSample(last: Point, pos: Point, zoom: number): boolean {
+  const min = FREEHAND_MIN_SAMPLE_PX / (zoom || 1);
+  const dx = pos.x - last.x;
+  const dy = pos.y - last.y;
+  return dx * dx + dy * dy >= min * min;
+}
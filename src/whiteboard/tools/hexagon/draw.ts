@@ -0,0 +1,21 @@
+// src/whiteboard/tools/hexagon/draw.ts
+import type { WhiteboardObject, Viewport } from '../../../domain/types';
+import type { DraftShape } from '../../drawing';
+import { drawOutlineDraft, drawOutlineShape, tracePolygon, type TraceOutline } from '../_shared/outlineShape';
+import { getHexagonOutline, getHexagonTextArea } from './geometry';
+
+const traceHexagon: TraceOutline = (ctx, box, viewport) => tracePolygon(ctx, getHexagonOutline(box), viewport);
+
+export function drawHexagonObject(
+  ctx: CanvasRenderingContext2D,
+  obj: WhiteboardObject,
+  viewport: Viewport
+): void {
+  if (obj.type !== 'hexagon') return;
+  drawOutlineShape(ctx, obj, viewport, traceHexagon, getHexagonTextArea(obj));
+}
+
+/** Dashed draft preview while dragging out a new hexagon. */
+export function drawHexagonDraft(ctx: CanvasRenderingContext2D, draft: DraftShape, viewport: Viewport): void {
+  drawOutlineDraft(ctx, draft, viewport, traceHexagon);
+}
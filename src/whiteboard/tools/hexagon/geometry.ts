@@ -0,0 +1,53 @@
+// src/whiteboard/tools/hexagon/geometry.ts
+import type { WhiteboardObject, Point } from '../../../domain/types';
+import type { Bounds } from '../../geometry/types';
+import { getBoxBoundingBox, type BoxPort } from '../_shared/boxGeometry';
+import { getOutlinePorts, hitTestOutline } from '../_shared/outlineShape';
+
+/**
+ * How far the left and right points stick out past the flat top and bottom.
+ * A quarter of the width, but never more than a regular hexagon's, so wide
+ * hexagons keep 120° corners instead of growing long points.
+ */
+export function getHexagonInset(box: Bounds): number {
+  return Math.min(box.width / 4, box.height / (2 * Math.sqrt(3)));
+}
+
+/** Hexagon with flat top and bottom edges and points at the left and right. */
+export function getHexagonOutline(box: Bounds): Point[] {
+  const { x, y, width: w, height: h } = box;
+  const k = getHexagonInset(box);
+  return [
+    { x: x + k, y },
+    { x: x + w - k, y },
+    { x: x + w, y: y + h / 2 },
+    { x: x + w - k, y: y + h },
+    { x: x + k, y: y + h },
+    { x, y: y + h / 2 },
+  ];
+}
+
+export function getHexagonBoundingBox(obj: WhiteboardObject): Bounds | null {
+  return getBoxBoundingBox(obj, 'hexagon');
+}
+
+export function getHexagonPorts(obj: WhiteboardObject): BoxPort[] {
+  // The box's side midpoints all lie on the outline.
+  return getOutlinePorts(obj, 'hexagon', ({ x, y, width: w, height: h }) => [
+    { portId: 'top', point: { x: x + w / 2, y } },
+    { portId: 'right', point: { x: x + w, y: y + h / 2 } },
+    { portId: 'bottom', point: { x: x + w / 2, y: y + h } },
+    { portId: 'left', point: { x, y: y + h / 2 } },
+  ]);
+}
+
+export function hitTestHexagon(obj: WhiteboardObject, worldX: number, worldY: number): boolean {
+  return hitTestOutline(obj, 'hexagon', worldX, worldY, getHexagonOutline);
+}
+
+/** The box between the two pointed ends. */
+export function getHexagonTextArea(obj: WhiteboardObject): Bounds {
+  const box = { x: obj.x, y: obj.y, width: obj.width ?? 0, height: obj.height ?? 0 };
+  const k = getHexagonInset(box);
+  return { x: box.x + k, y: box.y, width: box.width - k * 2, height: box.height };
+}
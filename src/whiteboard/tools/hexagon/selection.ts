@@ -0,0 +1,5 @@
+// src/whiteboard/tools/hexagon/selection.ts
+
+import { BOX_WITH_TEXT } from '../_shared/selectionCaps';
+
+export const hexagonSelectionCapabilities = BOX_WITH_TEXT;
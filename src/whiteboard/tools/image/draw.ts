@@ -0,0 +1,65 @@
+// src/whiteboard/tools/image/draw.ts
+import type { WhiteboardObject, Viewport } from '../../../domain/types';
+import { worldToCanvas } from '../../geometry';
+import { drawRotated } from '../_shared/rotation';
+import type { ImageCache } from './imageCache';
+
+const PLACEHOLDER_FILL = '#1e293b';
+const PLACEHOLDER_STROKE = '#64748b';
+
+/** Placeholder labels are skipped when the box is smaller than this on screen. */
+const MIN_LABEL_BOX_PX = 48;
+
+function drawPlaceholder(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  label: string
+): void {
+  ctx.fillStyle = PLACEHOLDER_FILL;
+  ctx.fillRect(x, y, w, h);
+  ctx.strokeStyle = PLACEHOLDER_STROKE;
+  ctx.lineWidth = 1;
+  ctx.setLineDash([6, 4]);
+  ctx.strokeRect(x, y, w, h);
+  ctx.setLineDash([]);
+
+  if (Math.min(Math.abs(w), Math.abs(h)) < MIN_LABEL_BOX_PX) return;
+  ctx.fillStyle = PLACEHOLDER_STROKE;
+  ctx.font = '12px system-ui, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, x + w / 2, y + h / 2);
+}
+
+/**
+ * Draw an image object, or a placeholder box while its asset loads (or when it
+ * cannot be loaded, e.g. pasted from a board whose assets are not reachable).
+ */
+export function drawImageObject(
+  ctx: CanvasRenderingContext2D,
+  obj: WhiteboardObject,
+  viewport: Viewport,
+  images?: ImageCache
+): void {
+  if (obj.type !== 'image') return;
+
+  drawRotated(ctx, obj, viewport, () => {
+    const { x, y, width: w = 0, height: h = 0 } = obj;
+    const topLeft = worldToCanvas(x, y, viewport);
+    const bottomRight = worldToCanvas(x + w, y + h, viewport);
+    const drawW = bottomRight.x - topLeft.x;
+    const drawH = bottomRight.y - topLeft.y;
+
+    const image = obj.assetId && images ? images.getImage(obj.assetId) : null;
+    if (image) {
+      ctx.drawImage(image, topLeft.x, topLeft.y, drawW, drawH);
+      return;
+    }
+
+    const failed = !obj.assetId || images?.getStatus(obj.assetId) === 'error';
+    drawPlaceholder(ctx, topLeft.x, topLeft.y, drawW, drawH, failed ? 'Image unavailable' : 'Loading image…');
+  });
+}
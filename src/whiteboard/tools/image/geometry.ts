@@ -0,0 +1,19 @@
+// src/whiteboard/tools/image/geometry.ts
+
+import type { WhiteboardObject, Point } from '../../../domain/types';
+import type { Bounds } from '../../geometry/types';
+import { getBoxBoundingBox, getBoxPorts, hitTestBox } from '../_shared/boxGeometry';
+
+export function getImagePorts(
+  obj: WhiteboardObject
+): Array<{ portId: string; point: Point }> {
+  return getBoxPorts(obj, 'image');
+}
+
+export function getImageBoundingBox(obj: WhiteboardObject): Bounds | null {
+  return getBoxBoundingBox(obj, 'image');
+}
+
+export function hitTestImage(obj: WhiteboardObject, worldX: number, worldY: number): boolean {
+  return hitTestBox(obj, 'image', worldX, worldY);
+}
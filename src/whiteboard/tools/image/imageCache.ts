@@ -0,0 +1,93 @@
+// src/whiteboard/tools/image/imageCache.ts
+
+import { decodeImage, type DecodedImage } from './imageFiles';
+
+/**
+ * Decoded images by asset id, for drawing image objects.
+ *
+ * The first request for an id starts loading it through the board's asset
+ * repository; until then (and when loading fails) draw code shows a placeholder.
+ * Subscribers are notified whenever an image finishes, so the scene can repaint.
+ */
+
+export type ImageStatus = 'loading' | 'ready' | 'error';
+
+export type ImageAssetLoader = (assetId: string) => Promise<Blob | null>;
+
+export type ImageCache = {
+  /** The decoded image, or null while it loads or after it failed. Starts loading on first use. */
+  getImage: (assetId: string) => CanvasImageSource | null;
+  getStatus: (assetId: string) => ImageStatus;
+  /** Seed the cache with bytes already at hand (e.g. right after an upload). */
+  prime: (assetId: string, blob: Blob) => void;
+  subscribe: (listener: () => void) => () => void;
+  /** Release every decoded image; later requests load again. */
+  dispose: () => void;
+};
+
+type Entry = { status: ImageStatus; decoded?: DecodedImage };
+
+export function createImageCache(
+  loadAsset: ImageAssetLoader,
+  decode: (blob: Blob) => Promise<DecodedImage> = decodeImage
+): ImageCache {
+  let entries = new Map<string, Entry>();
+  const listeners = new Set<() => void>();
+
+  const notify = () => {
+    for (const listener of Array.from(listeners)) listener();
+  };
+
+  const start = (assetId: string, load: () => Promise<Blob | null>) => {
+    const entry: Entry = { status: 'loading' };
+    const owner = entries;
+    owner.set(assetId, entry);
+
+    load()
+      .then((blob) => {
+        if (!blob) throw new Error('Image asset not found.');
+        return decode(blob);
+      })
+      .then(
+        (decoded) => {
+          // Disposed (or replaced) while loading: drop the result.
+          if (entries !== owner || owner.get(assetId) !== entry) {
+            decoded.release();
+            return;
+          }
+          entry.status = 'ready';
+          entry.decoded = decoded;
+          notify();
+        },
+        () => {
+          if (entries !== owner || owner.get(assetId) !== entry) return;
+          entry.status = 'error';
+          notify();
+        }
+      );
+  };
+
+  const ensure = (assetId: string): Entry => {
+    if (!entries.has(assetId)) start(assetId, () => loadAsset(assetId));
+    return entries.get(assetId)!;
+  };
+
+  return {
+    getImage: (assetId) => ensure(assetId).decoded?.image ?? null,
+    getStatus: (assetId) => ensure(assetId).status,
+    prime: (assetId, blob) => {
+      if (entries.get(assetId)?.status === 'ready') return;
+      start(assetId, () => Promise.resolve(blob));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose: () => {
+      for (const entry of entries.values()) entry.decoded?.release();
+      entries = new Map();
+    },
+  };
+}
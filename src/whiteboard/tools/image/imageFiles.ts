@@ -0,0 +1,149 @@
+// src/whiteboard/tools/image/imageFiles.ts
+
+/**
+ * Turning user-supplied files (paste, drop, file picker) into image assets.
+ *
+ * Files above MAX_IMAGE_FILE_BYTES are rejected outright. Images whose longer
+ * side exceeds MAX_IMAGE_DIMENSION are downscaled on a canvas, and whatever is
+ * stored must fit in MAX_IMAGE_ASSET_BYTES.
+ */
+
+/** Largest file accepted for insertion, before any downscaling. */
+export const MAX_IMAGE_FILE_BYTES = 25 * 1024 * 1024;
+
+/** Largest stored asset (after downscaling / re-encoding). */
+export const MAX_IMAGE_ASSET_BYTES = 5 * 1024 * 1024;
+
+/** Longer side of a stored image, in pixels. */
+export const MAX_IMAGE_DIMENSION = 2048;
+
+/** Images inserted by one paste or drop; the rest are ignored. */
+export const MAX_IMAGES_PER_INSERT = 10;
+
+const JPEG_QUALITY = 0.9;
+
+export type ImageSize = { width: number; height: number };
+
+export type DecodedImage = ImageSize & {
+  image: CanvasImageSource;
+  /** Free the decoded pixels / object URL once the image is no longer drawn. */
+  release: () => void;
+};
+
+export type PreparedImage = ImageSize & { blob: Blob };
+
+type FileSource = {
+  files?: ArrayLike<File> | null;
+  items?: ArrayLike<{ kind: string; type: string; getAsFile: () => File | null }> | null;
+};
+
+export function isImageFile(file: Pick<File, 'type'>): boolean {
+  return file.type.startsWith('image/');
+}
+
+/** Image files carried by a paste or drop (`DataTransfer`), capped at MAX_IMAGES_PER_INSERT. */
+export function getImageFiles(data: FileSource | null | undefined): File[] {
+  if (!data) return [];
+  let files = Array.from(data.files ?? []);
+  if (files.length === 0) {
+    // Some browsers only expose pasted screenshots through `items`.
+    files = Array.from(data.items ?? [])
+      .filter((item) => item.kind === 'file')
+      .map((item) => item.getAsFile())
+      .filter((file): file is File => !!file);
+  }
+  return files.filter(isImageFile).slice(0, MAX_IMAGES_PER_INSERT);
+}
+
+/** `size` scaled down (never up) so its longer side is at most `maxDimension`. */
+export function getDownscaledSize(size: ImageSize, maxDimension: number = MAX_IMAGE_DIMENSION): ImageSize {
+  const longer = Math.max(size.width, size.height);
+  if (longer <= maxDimension) return { width: size.width, height: size.height };
+  const scale = maxDimension / longer;
+  return {
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+  };
+}
+
+function loadImageElement(blob: Blob): Promise<DecodedImage> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () =>
+      resolve({
+        image: img,
+        width: img.naturalWidth,
+        height: img.naturalHeight,
+        release: () => URL.revokeObjectURL(url),
+      });
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read image.'));
+    };
+    img.src = url;
+  });
+}
+
+/** Decode image bytes for drawing. Prefers ImageBitmap, falling back to <img> (e.g. SVG). */
+export async function decodeImage(blob: Blob): Promise<DecodedImage> {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(blob);
+      return { image: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+    } catch {
+      // Fall through to <img>.
+    }
+  }
+  return loadImageElement(blob);
+}
+
+function encodeCanvas(canvas: HTMLCanvasElement, type: string): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, JPEG_QUALITY));
+}
+
+async function encodeDownscaled(decoded: DecodedImage, size: ImageSize, sourceType: string): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not resize image.');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(decoded.image, 0, 0, size.width, size.height);
+
+  // Keep transparency when the source may have it; JPEG is the fallback when PNG is too big.
+  const types = sourceType === 'image/jpeg' ? ['image/jpeg'] : ['image/png', 'image/jpeg'];
+  let blob: Blob | null = null;
+  for (const type of types) {
+    blob = await encodeCanvas(canvas, type);
+    if (blob && blob.size <= MAX_IMAGE_ASSET_BYTES) return blob;
+  }
+  if (!blob) throw new Error('Could not resize image.');
+  return blob;
+}
+
+/**
+ * Validate, decode and (when needed) downscale a file for storage as an asset.
+ * Throws an Error with a user-facing message when the file cannot be used.
+ */
+export async function prepareImageFile(file: File): Promise<PreparedImage> {
+  if (!isImageFile(file)) throw new Error(`${file.name || 'File'} is not an image.`);
+  if (file.size > MAX_IMAGE_FILE_BYTES) {
+    throw new Error(`${file.name || 'Image'} is larger than ${MAX_IMAGE_FILE_BYTES / (1024 * 1024)} MB.`);
+  }
+
+  const decoded = await decodeImage(file);
+  try {
+    const size = getDownscaledSize(decoded);
+    const unchanged = size.width === decoded.width && size.height === decoded.height;
+    if (unchanged && file.size <= MAX_IMAGE_ASSET_BYTES) return { blob: file, ...size };
+
+    const blob = await encodeDownscaled(decoded, size, file.type);
+    if (blob.size > MAX_IMAGE_ASSET_BYTES) {
+      throw new Error(`${file.name || 'Image'} is too large to store, even after downscaling.`);
+    }
+    return { blob, ...size };
+  } finally {
+    decoded.release();
+  }
+}
@@ -0,0 +1,62 @@
+// src/whiteboard/tools/image/interactions.ts
+import type { WhiteboardObject, ObjectId, Point, Viewport } from '../../../domain/types';
+import type { ImageSize } from './imageFiles';
+
+/** Inserted images take at most this share of the visible board in each direction. */
+const MAX_VIEW_FRACTION = 0.6;
+
+/** Offset between images inserted together, in screen pixels. */
+const CASCADE_PX = 24;
+
+export type ImageCreateArgs = {
+  assetId: string;
+  /** Pixel size of the stored image. */
+  size: ImageSize;
+  /** Where to centre the image (world coords). */
+  center: Point;
+  viewport: Viewport;
+  /** Visible canvas size in CSS pixels, used to keep large images on screen. */
+  viewSize?: ImageSize;
+  /** Position among images inserted together; each one is offset a little further. */
+  index?: number;
+  generateObjectId: () => ObjectId;
+};
+
+/**
+ * Image object at its natural on-screen size for the current zoom, shrunk to fit
+ * the visible area when larger.
+ */
+export function createImageObject({
+  assetId,
+  size,
+  center,
+  viewport,
+  viewSize,
+  index = 0,
+  generateObjectId,
+}: ImageCreateArgs): WhiteboardObject {
+  const zoom = viewport.zoom || 1;
+  let width = size.width / zoom;
+  let height = size.height / zoom;
+
+  if (viewSize && viewSize.width > 0 && viewSize.height > 0) {
+    const scale = Math.min(
+      1,
+      (viewSize.width * MAX_VIEW_FRACTION) / zoom / width,
+      (viewSize.height * MAX_VIEW_FRACTION) / zoom / height
+    );
+    width *= scale;
+    height *= scale;
+  }
+
+  const offset = (index * CASCADE_PX) / zoom;
+  return {
+    id: generateObjectId(),
+    type: 'image',
+    x: center.x - width / 2 + offset,
+    y: center.y - height / 2 + offset,
+    width,
+    height,
+    assetId,
+  };
+}
@@ -0,0 +1,6 @@
+// src/whiteboard/tools/image/selection.ts
+
+import type { SelectionCapabilities } from '../selection/types';
+
+/** Images have no style props; selection only offers the shared actions (order, lock, ...). */
+export const imageSelectionCapabilities: SelectionCapabilities = { editableProps: [] };
@@ -4,6 +4,9 @@ import type { WhiteboardObject, Viewport, ArrowType } from '../../../domain/type
 import type { DraftShape } from '../../drawing';
 import { worldToCanvas } from '../../geometry';
 import { drawArrowHead } from '../_shared/arrowHeads';
+import { strokeWithStyle } from '../_shared/strokeStyle';
+import { clipOutPathLabels, drawPathLabels, getPlacedPathLabels } from '../_shared/pathLabels';
+import { getLinePath } from './geometry';
 
 export function drawLineObject(
   ctx: CanvasRenderingContext2D,
@@ -22,31 +25,38 @@ export function drawLineObject(
 
   const a = worldToCanvas(x1, y1, viewport);
   const b = worldToCanvas(x2, y2, viewport);
+  const labels = getPlacedPathLabels(obj, getLinePath(obj));
 
   ctx.save();
+  clipOutPathLabels(ctx, labels, viewport);
   ctx.lineJoin = 'round';
   ctx.lineCap = 'round';
   ctx.strokeStyle = stroke;
   ctx.lineWidth = widthPx;
 
-  ctx.beginPath();
-  ctx.moveTo(a.x, a.y);
-  ctx.lineTo(b.x, b.y);
-  ctx.stroke();
-
   const arrowStart = (obj.arrowStart ?? 'none') as ArrowType;
   const arrowEnd = (obj.arrowEnd ?? 'none') as ArrowType;
 
-  if (arrowStart !== 'none') {
-    // Tip at A, pointing towards B
-    drawArrowHead(ctx, a.x, a.y, b.x, b.y, arrowStart, stroke, widthPx);
-  }
-  if (arrowEnd !== 'none') {
-    // Tip at B, pointing towards A
-    drawArrowHead(ctx, b.x, b.y, a.x, a.y, arrowEnd, stroke, widthPx);
-  }
+  strokeWithStyle(ctx, obj, widthPx, () => {
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y);
+    ctx.lineTo(b.x, b.y);
+    ctx.stroke();
+
+    // Heads are always solid.
+    ctx.setLineDash([]);
+    if (arrowStart !== 'none') {
+      // Tip at A, pointing towards B
+      drawArrowHead(ctx, a.x, a.y, b.x, b.y, arrowStart, stroke, widthPx);
+    }
+    if (arrowEnd !== 'none') {
+      // Tip at B, pointing towards A
+      drawArrowHead(ctx, b.x, b.y, a.x, a.y, arrowEnd, stroke, widthPx);
+    }
+  });
 
   ctx.restore();
+  drawPathLabels(ctx, obj, labels, viewport);
 }
 
 export function drawLineDraft(
@@ -2,6 +2,7 @@
 
 import type { WhiteboardObject, Point } from '../../../domain/types';
 import type { Bounds } from '../../geometry/types';
+import { getPlacedPathLabels, hitTestPathLabels, unionWithPathLabels } from '../_shared/pathLabels';
 
 function rawEndpoints(obj: WhiteboardObject): { a: Point; b: Point } {
   const a: Point = { x: obj.x, y: obj.y };
@@ -9,7 +10,13 @@ function rawEndpoints(obj: WhiteboardObject): { a: Point; b: Point } {
   return { a, b };
 }
 
-/** Bounding box (world units) for a straight line (including a small padding). */
+/** The line as a two-point path, for its labels. */
+export function getLinePath(obj: WhiteboardObject): Point[] {
+  const { a, b } = rawEndpoints(obj);
+  return [a, b];
+}
+
+/** Bounding box (world units) for a straight line (including a small padding) and its labels. */
 export function getLineBoundingBox(obj: WhiteboardObject): Bounds | null {
   if (obj.type !== 'line') return null;
 
@@ -24,12 +31,13 @@ export function getLineBoundingBox(obj: WhiteboardObject): Bounds | null {
   const stroke = obj.strokeWidth ?? 2;
   const pad = stroke / 2 + 6;
 
-  return {
+  const bounds = {
     x: minX - pad,
     y: minY - pad,
     width: (maxX - minX) + pad * 2,
     height: (maxY - minY) + pad * 2,
   };
+  return unionWithPathLabels(bounds, getPlacedPathLabels(obj, [a, b]));
 }
 
 /** Distance from point P to line segment AB in world units. */
@@ -70,6 +78,11 @@ export function hitTestLine(obj: WhiteboardObject, x: number, y: number): boolea
   const stroke = obj.strokeWidth ?? 2;
   const pad = stroke / 2 + 6;
 
+  // Labels can stick out of the line's box.
+  if (obj.text || obj.labels?.length) {
+    if (hitTestPathLabels(getPlacedPathLabels(obj, [a, b]), x, y) !== null) return true;
+  }
+
   // quick reject
   if (x < minX - pad || x > maxX + pad || y < minY - pad || y > maxY + pad) {
     return false;
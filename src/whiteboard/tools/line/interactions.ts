@@ -2,6 +2,7 @@
 
 import type { WhiteboardObject, ObjectId, Point, ArrowType } from '../../../domain/types';
 import type { DraftShape } from '../../drawing';
+import { snapPointToGrid } from '../../geometry/snapping';
 
 export type LineStartArgs = {
   pos: Point;
@@ -10,10 +11,13 @@ export type LineStartArgs = {
   arrowStart: ArrowType;
   arrowEnd: ArrowType;
   generateObjectId: () => ObjectId;
+  /** Round both endpoints to this grid (snap-to-grid). */
+  snapGridSize?: number;
 };
 
 export function startLineDraft(args: LineStartArgs): DraftShape {
-  const { pos, strokeColor, strokeWidth, arrowStart, arrowEnd, generateObjectId } = args;
+  const { strokeColor, strokeWidth, arrowStart, arrowEnd, generateObjectId } = args;
+  const pos = snapPointToGrid(args.pos, args.snapGridSize);
 
   // Reuse the rectangle draft kind (startX/startY/currentX/currentY), but mark toolType as 'line'
   // so the shape registry can route updates/finish to this tool.
@@ -34,10 +38,11 @@ export function startLineDraft(args: LineStartArgs): DraftShape {
   return draft as DraftShape;
 }
 
-export function updateLineDraft(draft: DraftShape, pos: Point): DraftShape {
+export function updateLineDraft(draft: DraftShape, pos: Point, snapGridSize?: number): DraftShape {
   if ((draft as any).toolType !== 'line') return draft;
   if (draft.kind !== 'rectangle') return draft;
-  return { ...(draft as any), currentX: pos.x, currentY: pos.y } as DraftShape;
+  const p = snapPointToGrid(pos, snapGridSize);
+  return { ...(draft as any), currentX: p.x, currentY: p.y } as DraftShape;
 }
 
 export function finishLineDraft(draft: DraftShape): { object?: WhiteboardObject; selectIds?: ObjectId[] } {
@@ -3,5 +3,15 @@
 import type { SelectionCapabilities } from '../selection/types';
 
 export const lineSelectionCapabilities: SelectionCapabilities = {
-  editableProps: ['strokeColor', 'strokeWidth', 'arrowStart', 'arrowEnd'] as const,
+  editableProps: [
+    'strokeColor',
+    'strokeWidth',
+    'strokeDash',
+    'strokeOpacity',
+    'arrowStart',
+    'arrowEnd',
+    'textColor',
+    'fontSize',
+    'text',
+  ] as const,
 };
@@ -0,0 +1,21 @@
+// src/whiteboard/tools/parallelogram/draw.ts
+import type { WhiteboardObject, Viewport } from '../../../domain/types';
+import type { DraftShape } from '../../drawing';
+import { drawOutlineDraft, drawOutlineShape, tracePolygon, type TraceOutline } from '../_shared/outlineShape';
+import { getParallelogramOutline, getParallelogramTextArea } from './geometry';
+
+const traceParallelogram: TraceOutline = (ctx, box, viewport) => tracePolygon(ctx, getParallelogramOutline(box), viewport);
+
+export function drawParallelogramObject(
+  ctx: CanvasRenderingContext2D,
+  obj: WhiteboardObject,
+  viewport: Viewport
+): void {
+  if (obj.type !== 'parallelogram') return;
+  drawOutlineShape(ctx, obj, viewport, traceParallelogram, getParallelogramTextArea(obj));
+}
+
+/** Dashed draft preview while dragging out a new parallelogram. */
+export function drawParallelogramDraft(ctx: CanvasRenderingContext2D, draft: DraftShape, viewport: Viewport): void {
+  drawOutlineDraft(ctx, draft, viewport, traceParallelogram);
+}
@@ -0,0 +1,51 @@
+// src/whiteboard/tools/parallelogram/geometry.ts
+import type { WhiteboardObject, Point } from '../../../domain/types';
+import type { Bounds } from '../../geometry/types';
+import { getBoxBoundingBox, type BoxPort } from '../_shared/boxGeometry';
+import { getOutlinePorts, hitTestOutline } from '../_shared/outlineShape';
+
+/** Horizontal offset of the top edge against the bottom edge; the lean is at most 1:2. */
+export function getParallelogramSkew(box: Bounds): number {
+  return Math.min(box.width / 4, box.height / 2);
+}
+
+/** Parallelogram leaning right: the top edge is shifted right of the bottom edge. */
+export function getParallelogramOutline(box: Bounds): Point[] {
+  const { x, y, width: w, height: h } = box;
+  const s = getParallelogramSkew(box);
+  return [
+    { x: x + s, y },
+    { x: x + w, y },
+    { x: x + w - s, y: y + h },
+    { x, y: y + h },
+  ];
+}
+
+export function getParallelogramBoundingBox(obj: WhiteboardObject): Bounds | null {
+  return getBoxBoundingBox(obj, 'parallelogram');
+}
+
+/** Midpoints of the four sides. */
+export function getParallelogramPorts(obj: WhiteboardObject): BoxPort[] {
+  return getOutlinePorts(obj, 'parallelogram', (box) => {
+    const { x, y, width: w, height: h } = box;
+    const s = getParallelogramSkew(box);
+    return [
+      { portId: 'top', point: { x: x + (w + s) / 2, y } },
+      { portId: 'right', point: { x: x + w - s / 2, y: y + h / 2 } },
+      { portId: 'bottom', point: { x: x + (w - s) / 2, y: y + h } },
+      { portId: 'left', point: { x: x + s / 2, y: y + h / 2 } },
+    ];
+  });
+}
+
+export function hitTestParallelogram(obj: WhiteboardObject, worldX: number, worldY: number): boolean {
+  return hitTestOutline(obj, 'parallelogram', worldX, worldY, getParallelogramOutline);
+}
+
+/** The box between the two slanted sides. */
+export function getParallelogramTextArea(obj: WhiteboardObject): Bounds {
+  const box = { x: obj.x, y: obj.y, width: obj.width ?? 0, height: obj.height ?? 0 };
+  const s = getParallelogramSkew(box);
+  return { x: box.x + s, y: box.y, width: box.width - s * 2, height: box.height };
+}
@@ -0,0 +1,5 @@
+// src/whiteboard/tools/parallelogram/selection.ts
+
+import { BOX_WITH_TEXT } from '../_shared/selectionCaps';
+
+export const parallelogramSelectionCapabilities = BOX_WITH_TEXT;
@@ -1,6 +1,10 @@
 // src/whiteboard/tools/rectangle/draw.ts
 import type { WhiteboardObject, Viewport } from '../../../domain/types';
 import { worldToCanvas } from '../../geometry';
+import { drawRotated } from '../_shared/rotation';
+import { drawShapeText } from '../_shared/shapeText';
+import { fillWithOpacity, strokeWithStyle } from '../_shared/strokeStyle';
+import { getRectangleTextArea } from './geometry';
 
 export function drawRectangleObject(
   ctx: CanvasRenderingContext2D,
@@ -9,22 +13,26 @@ export function drawRectangleObject(
 ): void {
   if (obj.type !== 'rectangle') return;
 
-  const stroke = obj.strokeColor ?? '#e5e7eb';
-  const widthPx = obj.strokeWidth ?? 2;
+  drawRotated(ctx, obj, viewport, () => {
+    const stroke = obj.strokeColor ?? '#e5e7eb';
+    const widthPx = obj.strokeWidth ?? 2;
 
-  const toCanvas = (x: number, y: number) => worldToCanvas(x, y, viewport);
+    const toCanvas = (x: number, y: number) => worldToCanvas(x, y, viewport);
 
-  const { x, y, width: w = 0, height: h = 0 } = obj;
-  const topLeft = toCanvas(x, y);
-  const bottomRight = toCanvas(x + w, y + h);
-  const drawW = bottomRight.x - topLeft.x;
-  const drawH = bottomRight.y - topLeft.y;
+    const { x, y, width: w = 0, height: h = 0 } = obj;
+    const topLeft = toCanvas(x, y);
+    const bottomRight = toCanvas(x + w, y + h);
+    const drawW = bottomRight.x - topLeft.x;
+    const drawH = bottomRight.y - topLeft.y;
 
-  if (obj.fillColor) {
-    ctx.fillStyle = obj.fillColor;
-    ctx.fillRect(topLeft.x, topLeft.y, drawW, drawH);
-  }
-  ctx.strokeStyle = stroke;
-  ctx.lineWidth = widthPx;
-  ctx.strokeRect(topLeft.x, topLeft.y, drawW, drawH);
+    if (obj.fillColor) {
+      ctx.fillStyle = obj.fillColor;
+      fillWithOpacity(ctx, obj, () => ctx.fillRect(topLeft.x, topLeft.y, drawW, drawH));
+    }
+    ctx.strokeStyle = stroke;
+    ctx.lineWidth = widthPx;
+    strokeWithStyle(ctx, obj, widthPx, () => ctx.strokeRect(topLeft.x, topLeft.y, drawW, drawH));
+
+    drawShapeText(ctx, obj, getRectangleTextArea(obj), viewport);
+  });
 }
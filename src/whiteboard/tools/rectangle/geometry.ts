@@ -2,7 +2,7 @@
 
 import type { WhiteboardObject, Point } from '../../../domain/types';
 import type { Bounds } from '../../geometry/types';
-import { getBoxBoundingBox, getBoxPorts } from '../_shared/boxGeometry';
+import { getBoxBoundingBox, getBoxPorts, hitTestBox } from '../_shared/boxGeometry';
 
 export function getRectanglePorts(
   obj: WhiteboardObject
@@ -13,3 +13,12 @@ export function getRectanglePorts(
 export function getRectangleBoundingBox(obj: WhiteboardObject): Bounds | null {
   return getBoxBoundingBox(obj, 'rectangle');
 }
+
+export function hitTestRectangle(obj: WhiteboardObject, worldX: number, worldY: number): boolean {
+  return hitTestBox(obj, 'rectangle', worldX, worldY);
+}
+
+/** The whole rectangle holds its text. */
+export function getRectangleTextArea(obj: WhiteboardObject): Bounds {
+  return { x: obj.x, y: obj.y, width: obj.width ?? 0, height: obj.height ?? 0 };
+}
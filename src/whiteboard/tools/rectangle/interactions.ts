@@ -13,8 +13,8 @@ export function startRectangleDraft(args: BoxStartArgs): DraftShape {
   return startBoxDraft(args, 'rectangle');
 }
 
-export function updateRectangleDraft(draft: DraftShape, pos: Point): DraftShape {
-  return updateBoxDraft(draft, 'rectangle', pos);
+export function updateRectangleDraft(draft: DraftShape, pos: Point, snapGridSize?: number): DraftShape {
+  return updateBoxDraft(draft, 'rectangle', pos, snapGridSize);
 }
 
 export function finishRectangleDraft(draft: DraftShape): {
@@ -1,5 +1,5 @@
 // src/whiteboard/tools/rectangle/selection.ts
 
-import { BOX_WITH_FILL } from '../_shared/selectionCaps';
+import { BOX_WITH_TEXT } from '../_shared/selectionCaps';
 
-export const rectangleSelectionCapabilities = BOX_WITH_FILL;
+export const rectangleSelectionCapabilities = BOX_WITH_TEXT;
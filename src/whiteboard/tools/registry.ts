@@ -24,9 +24,18 @@ export const TOOL_IDS = [
   'roundedRect',
   'ellipse',
   'diamond',
+  'triangle',
+  'hexagon',
+  'parallelogram',
+  'cylinder',
+  'cloud',
+  'star',
+  'blockArrow',
   'text',
   'stickyNote',
   'connector',
+  'eraser',
+  'laser',
 ] as const;
 
 export type ToolId = (typeof TOOL_IDS)[number];
@@ -42,14 +51,22 @@ export const OBJECT_TYPES = [
   'roundedRect',
   'ellipse',
   'diamond',
+  'triangle',
+  'hexagon',
+  'parallelogram',
+  'cylinder',
+  'cloud',
+  'star',
+  'blockArrow',
   'text',
   'stickyNote',
   'connector',
+  'image',
 ] as const;
 
 export type ObjectType = (typeof OBJECT_TYPES)[number];
 
-export type ToolKind = 'select' | 'draw';
+export type ToolKind = 'select' | 'draw' | 'erase' | 'point';
 
 /**
  * Minimal metadata about a tool.
@@ -69,7 +86,7 @@ export interface ToolRegistryEntry {
 
   /**
    * If the tool creates an object on the board, this is the object type.
-   * `select` has no objectType.
+   * `select`, `eraser` and `laser` have no objectType.
    */
   objectType?: ObjectType;
 }
@@ -87,9 +104,18 @@ export const TOOL_REGISTRY: readonly ToolRegistryEntry[] = [
   { id: 'roundedRect', kind: 'draw', label: 'Rounded rect', icon: '▢', objectType: 'roundedRect' },
   { id: 'ellipse', kind: 'draw', label: 'Ellipse', icon: '⬭', objectType: 'ellipse' },
   { id: 'diamond', kind: 'draw', label: 'Diamond', icon: '◇', objectType: 'diamond' },
+  { id: 'triangle', kind: 'draw', label: 'Triangle', icon: '△', objectType: 'triangle' },
+  { id: 'hexagon', kind: 'draw', label: 'Hexagon', icon: '⬡', objectType: 'hexagon' },
+  { id: 'parallelogram', kind: 'draw', label: 'Parallelogram', icon: '▱', objectType: 'parallelogram' },
+  { id: 'cylinder', kind: 'draw', label: 'Cylinder', icon: '🛢', objectType: 'cylinder' },
+  { id: 'cloud', kind: 'draw', label: 'Cloud', icon: '☁', objectType: 'cloud' },
+  { id: 'star', kind: 'draw', label: 'Star', icon: '☆', objectType: 'star' },
+  { id: 'blockArrow', kind: 'draw', label: 'Block arrow', icon: '⇨', objectType: 'blockArrow' },
   { id: 'connector', kind: 'draw', label: 'Connector', icon: '🔗', objectType: 'connector' },
   { id: 'text', kind: 'draw', label: 'Text', icon: '🔤', objectType: 'text' },
   { id: 'stickyNote', kind: 'draw', label: 'Sticky note', icon: '🗒', objectType: 'stickyNote' },
+  { id: 'eraser', kind: 'erase', label: 'Eraser', icon: '🧽' },
+  { id: 'laser', kind: 'point', label: 'Laser pointer', icon: '🔴' },
   { id: 'select', kind: 'select', label: 'Select', icon: '🖱' },
 ] as const;
 
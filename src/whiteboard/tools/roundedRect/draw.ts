@@ -2,6 +2,10 @@
 import type { WhiteboardObject, Viewport } from '../../../domain/types';
 import { worldToCanvas } from '../../geometry';
 import type { DraftShape } from '../../drawing';
+import { drawRotated } from '../_shared/rotation';
+import { drawShapeText } from '../_shared/shapeText';
+import { fillWithOpacity, strokeWithStyle } from '../_shared/strokeStyle';
+import { getRoundedRectTextArea } from './geometry';
 
 /**
  * Draw a rounded rectangle (with optional fill).
@@ -42,33 +46,37 @@ export function drawRoundedRectObject(
 ): void {
   if (obj.type !== 'roundedRect') return;
 
-  const stroke = obj.strokeColor ?? '#e5e7eb';
-  const widthPx = obj.strokeWidth ?? 2;
+  drawRotated(ctx, obj, viewport, () => {
+    const stroke = obj.strokeColor ?? '#e5e7eb';
+    const widthPx = obj.strokeWidth ?? 2;
 
-  const toCanvas = (x: number, y: number) => worldToCanvas(x, y, viewport);
+    const toCanvas = (x: number, y: number) => worldToCanvas(x, y, viewport);
 
-  const { x, y, width: w = 0, height: h = 0 } = obj;
-  const topLeft = toCanvas(x, y);
-  const bottomRight = toCanvas(x + w, y + h);
-  const drawW = bottomRight.x - topLeft.x;
-  const drawH = bottomRight.y - topLeft.y;
+    const { x, y, width: w = 0, height: h = 0 } = obj;
+    const topLeft = toCanvas(x, y);
+    const bottomRight = toCanvas(x + w, y + h);
+    const drawW = bottomRight.x - topLeft.x;
+    const drawH = bottomRight.y - topLeft.y;
 
-  // Corner radius is stored in world units (same coordinate system as x/y/width/height)
-  // Convert to canvas pixels by applying zoom.
-  const radiusWorld = typeof obj.cornerRadius === 'number' ? obj.cornerRadius : 12;
-  const radiusPx = radiusWorld * viewport.zoom;
+    // Corner radius is stored in world units (same coordinate system as x/y/width/height)
+    // Convert to canvas pixels by applying zoom.
+    const radiusWorld = typeof obj.cornerRadius === 'number' ? obj.cornerRadius : 12;
+    const radiusPx = radiusWorld * viewport.zoom;
 
-  ctx.beginPath();
-  roundedRectPath(ctx, topLeft.x, topLeft.y, drawW, drawH, radiusPx);
+    ctx.beginPath();
+    roundedRectPath(ctx, topLeft.x, topLeft.y, drawW, drawH, radiusPx);
 
-  if (obj.fillColor) {
-    ctx.fillStyle = obj.fillColor;
-    ctx.fill();
-  }
+    if (obj.fillColor) {
+      ctx.fillStyle = obj.fillColor;
+      fillWithOpacity(ctx, obj);
+    }
 
-  ctx.strokeStyle = stroke;
-  ctx.lineWidth = widthPx;
-  ctx.stroke();
+    ctx.strokeStyle = stroke;
+    ctx.lineWidth = widthPx;
+    strokeWithStyle(ctx, obj, widthPx);
+
+    drawShapeText(ctx, obj, getRoundedRectTextArea(obj), viewport);
+  });
 }
 
 
@@ -2,7 +2,7 @@
 
 import type { WhiteboardObject, Point } from '../../../domain/types';
 import type { Bounds } from '../../geometry/types';
-import { getBoxBoundingBox, getBoxPorts } from '../_shared/boxGeometry';
+import { getBoxBoundingBox, getBoxPorts, hitTestBox } from '../_shared/boxGeometry';
 
 export function getRoundedRectPorts(
   obj: WhiteboardObject
@@ -13,3 +13,17 @@ export function getRoundedRectPorts(
 export function getRoundedRectBoundingBox(obj: WhiteboardObject): Bounds | null {
   return getBoxBoundingBox(obj, 'roundedRect');
 }
+
+export function hitTestRoundedRect(obj: WhiteboardObject, worldX: number, worldY: number): boolean {
+  return hitTestBox(obj, 'roundedRect', worldX, worldY);
+}
+
+/** The box inset so text clears the rounded corners (by the corner's inscribed square). */
+export function getRoundedRectTextArea(obj: WhiteboardObject): Bounds {
+  const w = obj.width ?? 0;
+  const h = obj.height ?? 0;
+  // Same default and clamping as the drawn corners.
+  const r = Math.max(0, Math.min(obj.cornerRadius ?? 12, Math.min(w, h) / 2));
+  const inset = r * (1 - Math.SQRT1_2);
+  return { x: obj.x + inset, y: obj.y + inset, width: w - inset * 2, height: h - inset * 2 };
+}
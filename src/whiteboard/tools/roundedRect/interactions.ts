@@ -8,6 +8,7 @@ type StartRoundedRectDraftArgs = {
   strokeColor: string;
   strokeWidth: number;
   generateObjectId: () => ObjectId;
+  snapGridSize?: number;
 };
 
 const DEFAULT_CORNER_RADIUS = 12;
@@ -18,8 +19,8 @@ export function startRoundedRectDraft(args: StartRoundedRectDraftArgs): DraftSha
   return { ...draft, toolType: 'roundedRect' };
 }
 
-export function updateRoundedRectDraft(draft: DraftShape, pos: Point): DraftShape {
-  return updateBoxDraft(draft, 'rectangle', pos);
+export function updateRoundedRectDraft(draft: DraftShape, pos: Point, snapGridSize?: number): DraftShape {
+  return updateBoxDraft(draft, 'rectangle', pos, snapGridSize);
 }
 
 export function finishRoundedRectDraft(draft: DraftShape): {
@@ -1,4 +1,4 @@
 // src/whiteboard/tools/roundedRect/selection.ts
-import { ROUNDED_BOX_WITH_FILL } from '../_shared/selectionCaps';
+import { ROUNDED_BOX_WITH_TEXT } from '../_shared/selectionCaps';
 
-export const roundedRectSelectionCapabilities = ROUNDED_BOX_WITH_FILL;
+export const roundedRectSelectionCapabilities = ROUNDED_BOX_WITH_TEXT;
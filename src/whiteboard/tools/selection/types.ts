@@ -9,12 +9,19 @@
 export type EditablePropKey =
   | 'strokeColor'
   | 'strokeWidth'
+  | 'strokeDash'
+  | 'strokeOpacity'
   | 'fillColor'
+  | 'fillOpacity'
   | 'arrowStart'
   | 'arrowEnd'
+  | 'routing'
   | 'textColor'
   | 'fontSize'
   | 'cornerRadius'
+  | 'textFit'
+  | 'textAlign'
+  | 'textVerticalAlign'
   | 'text';
 
 export type SelectionCapabilities = {
@@ -38,7 +38,29 @@ export const EDITABLE_PROP_DEFS: Record<EditablePropKey, EditablePropDefinition>
     label: 'Stroke width',
     control: { kind: 'range', min: 1, max: 12, step: 1 },
   },
+  strokeDash: {
+    key: 'strokeDash',
+    label: 'Stroke style',
+    control: {
+      kind: 'select',
+      options: [
+        { value: 'solid', label: 'Solid' },
+        { value: 'dashed', label: 'Dashed' },
+        { value: 'dotted', label: 'Dotted' },
+      ] as const,
+    },
+  },
+  strokeOpacity: {
+    key: 'strokeOpacity',
+    label: 'Stroke opacity',
+    control: { kind: 'range', min: 0, max: 1, step: 0.05 },
+  },
   fillColor: { key: 'fillColor', label: 'Fill color', control: { kind: 'color' } },
+  fillOpacity: {
+    key: 'fillOpacity',
+    label: 'Fill opacity',
+    control: { kind: 'range', min: 0, max: 1, step: 0.05 },
+  },
   arrowStart: {
     key: 'arrowStart',
     label: 'Arrow start',
@@ -65,6 +87,19 @@ export const EDITABLE_PROP_DEFS: Record<EditablePropKey, EditablePropDefinition>
       ] as const,
     },
   },
+  routing: {
+    key: 'routing',
+    label: 'Routing',
+    control: {
+      kind: 'select',
+      options: [
+        { value: 'straight', label: 'Straight' },
+        { value: 'manual', label: 'Through waypoints' },
+        { value: 'curved', label: 'Curved' },
+        { value: 'orthogonal', label: 'Elbow (around shapes)' },
+      ] as const,
+    },
+  },
   textColor: { key: 'textColor', label: 'Text color', control: { kind: 'color' } },
   fontSize: {
     key: 'fontSize',
@@ -76,6 +111,42 @@ export const EDITABLE_PROP_DEFS: Record<EditablePropKey, EditablePropDefinition>
     label: 'Corner radius',
     control: { kind: 'range', min: 0, max: 64, step: 1 },
   },
+  textFit: {
+    key: 'textFit',
+    label: 'Text fit',
+    control: {
+      kind: 'select',
+      options: [
+        { value: 'shrink', label: 'Shrink text to fit' },
+        { value: 'grow', label: 'Grow to fit text' },
+        { value: 'overflow', label: 'Fixed size' },
+      ] as const,
+    },
+  },
+  textAlign: {
+    key: 'textAlign',
+    label: 'Text align',
+    control: {
+      kind: 'select',
+      options: [
+        { value: 'left', label: 'Left' },
+        { value: 'center', label: 'Center' },
+        { value: 'right', label: 'Right' },
+      ] as const,
+    },
+  },
+  textVerticalAlign: {
+    key: 'textVerticalAlign',
+    label: 'Vertical align',
+    control: {
+      kind: 'select',
+      options: [
+        { value: 'top', label: 'Top' },
+        { value: 'middle', label: 'Middle' },
+        { value: 'bottom', label: 'Bottom' },
+      ] as const,
+    },
+  },
   text: { key: 'text', label: 'Text', control: { kind: 'textarea' } },
 };
 
@@ -1,9 +1,10 @@
 import type { WhiteboardObject, WhiteboardObjectType, Point, ObjectId } from '../../domain/types';
-import type { ShapeToolDefinition, ToolPointerContext, ObjectPort } from './shapeTypes';
+import type { ShapeToolDefinition, ToolPointerContext, ObjectPort, ResizeOptions } from './shapeTypes';
 import type { SelectionCapabilities } from './selection/types';
 import type { DraftShape } from '../drawing';
 import type { DrawingTool } from '../whiteboardTypes';
 import type { Bounds } from '../geometry/types';
+import { getUnrotatedBox } from './_shared/rotation';
 
 import {
   EMPTY_SELECTION_CAPS,
@@ -82,11 +83,48 @@ export function canResizeObject(obj: WhiteboardObject): boolean {
   return typeof def?.resize === 'function';
 }
 
+export function canRotateObject(obj: WhiteboardObject): boolean {
+  return SHAPES[obj.type as WhiteboardObjectType]?.rotatable === true;
+}
+
+/** The object's unrotated box (see ShapeDefinition.getFrame). */
+export function getObjectFrame(obj: WhiteboardObject): Bounds {
+  const def = SHAPES[obj.type as WhiteboardObjectType];
+  return def?.getFrame ? def.getFrame(obj as any) : getUnrotatedBox(obj);
+}
+
+/** True for shapes whose text is drawn as labels along their path (lines, connectors). */
+export function hasPathLabels(type: WhiteboardObjectType): boolean {
+  return typeof SHAPES[type]?.getLabelPath === 'function';
+}
+
+/** The path labels of `obj` sit on; null for other shapes or unresolved connectors. */
+export function getLabelPath(obj: WhiteboardObject, objects?: WhiteboardObject[]): Point[] | null {
+  const def = SHAPES[obj.type as WhiteboardObjectType];
+  return def?.getLabelPath ? def.getLabelPath(obj as any, { objects }) : null;
+}
+
+/** True for box shapes that hold text inside their outline (rectangles, ellipses, ...). */
+export function hasShapeText(type: WhiteboardObjectType): boolean {
+  return typeof SHAPES[type]?.getTextArea === 'function';
+}
+
+/** The text area of a box shape that holds text (see ShapeDefinition.getTextArea); null for others. */
+export function getShapeTextArea(obj: WhiteboardObject): Bounds | null {
+  const def = SHAPES[obj.type as WhiteboardObjectType];
+  return def?.getTextArea ? def.getTextArea(obj as any) : null;
+}
+
+export function keepsAspectRatio(obj: WhiteboardObject): boolean {
+  return SHAPES[obj.type as WhiteboardObjectType]?.keepsAspectRatio === true;
+}
+
 export function resizeObject(
   obj: WhiteboardObject,
-  newBounds: Bounds
+  newBounds: Bounds,
+  options?: ResizeOptions
 ): Partial<WhiteboardObject> | null {
   const def = SHAPES[obj.type as WhiteboardObjectType];
   if (!def?.resize) return null;
-  return (def.resize as any)(obj as any, newBounds) as any;
+  return (def.resize as any)(obj as any, newBounds, options) as any;
 }
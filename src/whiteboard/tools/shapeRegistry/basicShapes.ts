@@ -1,52 +1,55 @@
-import type { Point, WhiteboardObjectType, WhiteboardObject } from '../../../domain/types';
+import type { Point, WhiteboardObjectType } from '../../../domain/types';
 import type { ShapeToolDefinition, ToolCreateResult, ToolPointerContext, ObjectPort } from '../shapeTypes';
 import type { DraftShape } from '../../drawing';
 
 import { drawRectangleObject } from '../rectangle/draw';
-import { getRectangleBoundingBox, getRectanglePorts } from '../rectangle/geometry';
+import {
+  getRectangleBoundingBox,
+  getRectanglePorts,
+  getRectangleTextArea,
+  hitTestRectangle,
+} from '../rectangle/geometry';
 import { rectangleSelectionCapabilities } from '../rectangle/selection';
 import { startRectangleDraft, updateRectangleDraft, finishRectangleDraft } from '../rectangle/interactions';
 
 import { drawRoundedRectObject, drawRoundedRectDraft } from '../roundedRect/draw';
-import { getRoundedRectBoundingBox, getRoundedRectPorts } from '../roundedRect/geometry';
+import {
+  getRoundedRectBoundingBox,
+  getRoundedRectPorts,
+  getRoundedRectTextArea,
+  hitTestRoundedRect,
+} from '../roundedRect/geometry';
 import { roundedRectSelectionCapabilities } from '../roundedRect/selection';
 import { startRoundedRectDraft, updateRoundedRectDraft, finishRoundedRectDraft } from '../roundedRect/interactions';
 
 import { drawEllipseObject } from '../ellipse/draw';
-import { getEllipseBoundingBox, getEllipsePorts } from '../ellipse/geometry';
+import { getEllipseBoundingBox, getEllipsePorts, getEllipseTextArea, hitTestEllipse } from '../ellipse/geometry';
 import { ellipseSelectionCapabilities } from '../ellipse/selection';
 import { startEllipseDraft, updateEllipseDraft, finishEllipseDraft } from '../ellipse/interactions';
 
 import { drawDiamondObject, drawDiamondDraft } from '../diamond/draw';
-import { getDiamondBoundingBox, getDiamondPorts, hitTestDiamond } from '../diamond/geometry';
+import { getDiamondBoundingBox, getDiamondPorts, getDiamondTextArea, hitTestDiamond } from '../diamond/geometry';
 import { diamondSelectionCapabilities } from '../diamond/selection';
 import { startDiamondDraft, updateDiamondDraft, finishDiamondDraft } from '../diamond/interactions';
 
-import { resizeBoxObjectByBounds } from '../_shared/resizeByBounds';
-import { applyOptionalNumberProp, applyOptionalStringProp } from './common';
+import { drawImageObject } from '../image/draw';
+import { getImageBoundingBox, getImagePorts, hitTestImage } from '../image/geometry';
+import { imageSelectionCapabilities } from '../image/selection';
 
-function createBoxDraftFinishResult(
-  finish: (draft: DraftShape) => { object?: WhiteboardObject; selectIds?: string[] },
-  draft: DraftShape,
-  ctx: ToolPointerContext,
-  options?: { fillColor?: boolean; cornerRadius?: boolean }
-): ToolCreateResult | null {
-  const { object, selectIds } = finish(draft);
-  if (!object || !selectIds) return null;
-  let next = object;
-  if (options?.fillColor) next = applyOptionalStringProp(next, 'fillColor', ctx.toolProps?.fillColor);
-  if (options?.cornerRadius) next = applyOptionalNumberProp(next, 'cornerRadius', ctx.toolProps?.cornerRadius);
-  return { object: next, selectIds };
-}
+import { resizeBoxObjectByBounds } from '../_shared/resizeByBounds';
+import { createBoxDraftFinishResult } from './common';
 
 export function createBasicShapeDefinitions(): Partial<Record<WhiteboardObjectType, ShapeToolDefinition>> {
   return {
     rectangle: {
       type: 'rectangle',
+      rotatable: true,
       draw: (ctx, obj, viewport) => drawRectangleObject(ctx, obj, viewport),
       getBoundingBox: (obj) => getRectangleBoundingBox(obj),
-      resize: (obj, newBounds) => resizeBoxObjectByBounds(obj, newBounds),
+      hitTest: (obj, worldX, worldY) => hitTestRectangle(obj, worldX, worldY),
+      resize: (obj, newBounds, options) => resizeBoxObjectByBounds(obj, newBounds, options),
       getPorts: (obj): ObjectPort[] => getRectanglePorts(obj),
+      getTextArea: (obj) => getRectangleTextArea(obj),
       selectionCaps: rectangleSelectionCapabilities,
       draft: {
         startDraft: (ctx: ToolPointerContext, pos: Point) =>
@@ -55,8 +58,10 @@ export function createBasicShapeDefinitions(): Partial<Record<WhiteboardObjectTy
             strokeColor: ctx.strokeColor,
             strokeWidth: ctx.strokeWidth,
             generateObjectId: ctx.generateObjectId,
+            snapGridSize: ctx.snapGridSize,
           }),
-        updateDraft: (draft: DraftShape, _ctx: ToolPointerContext, pos: Point) => updateRectangleDraft(draft, pos),
+        updateDraft: (draft: DraftShape, ctx: ToolPointerContext, pos: Point) =>
+          updateRectangleDraft(draft, pos, ctx.snapGridSize),
         finishDraft: (draft: DraftShape, ctx: ToolPointerContext): ToolCreateResult | null =>
           createBoxDraftFinishResult(finishRectangleDraft, draft, ctx, { fillColor: true }),
       },
@@ -64,11 +69,14 @@ export function createBasicShapeDefinitions(): Partial<Record<WhiteboardObjectTy
 
     roundedRect: {
       type: 'roundedRect',
+      rotatable: true,
       draw: (ctx, obj, viewport) => drawRoundedRectObject(ctx, obj, viewport),
       drawDraft: (ctx, draft, viewport) => drawRoundedRectDraft(ctx, draft, viewport),
       getBoundingBox: (obj) => getRoundedRectBoundingBox(obj),
-      resize: (obj, newBounds) => resizeBoxObjectByBounds(obj, newBounds),
+      hitTest: (obj, worldX, worldY) => hitTestRoundedRect(obj, worldX, worldY),
+      resize: (obj, newBounds, options) => resizeBoxObjectByBounds(obj, newBounds, options),
       getPorts: (obj): ObjectPort[] => getRoundedRectPorts(obj).map((p) => ({ portId: p.portId, point: p.point })),
+      getTextArea: (obj) => getRoundedRectTextArea(obj),
       selectionCaps: roundedRectSelectionCapabilities,
       draft: {
         startDraft: (ctx: ToolPointerContext, pos: Point) =>
@@ -77,8 +85,10 @@ export function createBasicShapeDefinitions(): Partial<Record<WhiteboardObjectTy
             strokeColor: ctx.strokeColor,
             strokeWidth: ctx.strokeWidth,
             generateObjectId: ctx.generateObjectId,
+            snapGridSize: ctx.snapGridSize,
           }),
-        updateDraft: (draft: DraftShape, _ctx: ToolPointerContext, pos: Point) => updateRoundedRectDraft(draft, pos),
+        updateDraft: (draft: DraftShape, ctx: ToolPointerContext, pos: Point) =>
+          updateRoundedRectDraft(draft, pos, ctx.snapGridSize),
         finishDraft: (draft: DraftShape, ctx: ToolPointerContext): ToolCreateResult | null =>
           createBoxDraftFinishResult(finishRoundedRectDraft, draft, ctx, { fillColor: true, cornerRadius: true }),
       },
@@ -86,10 +96,13 @@ export function createBasicShapeDefinitions(): Partial<Record<WhiteboardObjectTy
 
     ellipse: {
       type: 'ellipse',
+      rotatable: true,
       draw: (ctx, obj, viewport) => drawEllipseObject(ctx, obj, viewport),
       getBoundingBox: (obj) => getEllipseBoundingBox(obj),
-      resize: (obj, newBounds) => resizeBoxObjectByBounds(obj, newBounds),
+      hitTest: (obj, worldX, worldY) => hitTestEllipse(obj, worldX, worldY),
+      resize: (obj, newBounds, options) => resizeBoxObjectByBounds(obj, newBounds, options),
       getPorts: (obj): ObjectPort[] => getEllipsePorts(obj),
+      getTextArea: (obj) => getEllipseTextArea(obj),
       selectionCaps: ellipseSelectionCapabilities,
       draft: {
         startDraft: (ctx: ToolPointerContext, pos: Point) =>
@@ -98,8 +111,10 @@ export function createBasicShapeDefinitions(): Partial<Record<WhiteboardObjectTy
             strokeColor: ctx.strokeColor,
             strokeWidth: ctx.strokeWidth,
             generateObjectId: ctx.generateObjectId,
+            snapGridSize: ctx.snapGridSize,
           }),
-        updateDraft: (draft: DraftShape, _ctx: ToolPointerContext, pos: Point) => updateEllipseDraft(draft, pos),
+        updateDraft: (draft: DraftShape, ctx: ToolPointerContext, pos: Point) =>
+          updateEllipseDraft(draft, pos, ctx.snapGridSize),
         finishDraft: (draft: DraftShape, ctx: ToolPointerContext): ToolCreateResult | null =>
           createBoxDraftFinishResult(finishEllipseDraft, draft, ctx, { fillColor: true }),
       },
@@ -107,13 +122,15 @@ export function createBasicShapeDefinitions(): Partial<Record<WhiteboardObjectTy
 
     diamond: {
       type: 'diamond',
+      rotatable: true,
       connectorAttachmentPolicy: 'portsOnly',
       draw: (ctx, obj, viewport) => drawDiamondObject(ctx, obj, viewport),
       drawDraft: (ctx, draft, viewport) => drawDiamondDraft(ctx, draft, viewport),
       getBoundingBox: (obj) => getDiamondBoundingBox(obj),
-      resize: (obj, newBounds) => resizeBoxObjectByBounds(obj, newBounds),
+      resize: (obj, newBounds, options) => resizeBoxObjectByBounds(obj, newBounds, options),
       hitTest: (obj, worldX, worldY) => hitTestDiamond(obj, worldX, worldY),
       getPorts: (obj): ObjectPort[] => getDiamondPorts(obj),
+      getTextArea: (obj) => getDiamondTextArea(obj),
       selectionCaps: diamondSelectionCapabilities,
       draft: {
         startDraft: (ctx: ToolPointerContext, pos: Point) =>
@@ -122,11 +139,26 @@ export function createBasicShapeDefinitions(): Partial<Record<WhiteboardObjectTy
             strokeColor: ctx.strokeColor,
             strokeWidth: ctx.strokeWidth,
             generateObjectId: ctx.generateObjectId,
+            snapGridSize: ctx.snapGridSize,
           }),
-        updateDraft: (draft: DraftShape, _ctx: ToolPointerContext, pos: Point) => updateDiamondDraft(draft, pos),
+        updateDraft: (draft: DraftShape, ctx: ToolPointerContext, pos: Point) =>
+          updateDiamondDraft(draft, pos, ctx.snapGridSize),
         finishDraft: (draft: DraftShape, ctx: ToolPointerContext): ToolCreateResult | null =>
           createBoxDraftFinishResult(finishDiamondDraft, draft, ctx, { fillColor: true }),
       },
     },
+
+    // Images are inserted by paste / drop / file picker, never drawn with a tool.
+    image: {
+      type: 'image',
+      rotatable: true,
+      keepsAspectRatio: true,
+      draw: (ctx, obj, viewport, env) => drawImageObject(ctx, obj, viewport, env.images),
+      getBoundingBox: (obj) => getImageBoundingBox(obj),
+      hitTest: (obj, worldX, worldY) => hitTestImage(obj, worldX, worldY),
+      resize: (obj, newBounds, options) => resizeBoxObjectByBounds(obj, newBounds, options),
+      getPorts: (obj): ObjectPort[] => getImagePorts(obj),
+      selectionCaps: imageSelectionCapabilities,
+    },
   };
 }
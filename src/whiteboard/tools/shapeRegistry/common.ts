@@ -1,5 +1,7 @@
 import type { WhiteboardObject } from '../../../domain/types';
+import type { DraftShape } from '../../drawing';
 import type { SelectionCapabilities } from '../selection/types';
+import type { ToolCreateResult, ToolPointerContext } from '../shapeTypes';
 
 export const EMPTY_SELECTION_CAPS: SelectionCapabilities = { editableProps: [] };
 
@@ -18,3 +20,33 @@ export function applyOptionalNumberProp<T extends WhiteboardObject>(
 ): T {
   return typeof value === 'number' ? ({ ...object, [key]: value } as T) : object;
 }
+
+/** Apply the tool's dash style and opacities, when set, to an object it created. */
+export function applyStrokeStyleProps<T extends WhiteboardObject>(
+  object: T,
+  toolProps: Partial<WhiteboardObject> | undefined
+): T {
+  let next = applyOptionalStringProp(object, 'strokeDash', toolProps?.strokeDash);
+  next = applyOptionalNumberProp(next, 'strokeOpacity', toolProps?.strokeOpacity);
+  return applyOptionalNumberProp(next, 'fillOpacity', toolProps?.fillOpacity);
+}
+
+/** Finish a box draft and apply the tool's fill, corner radius and text style. */
+export function createBoxDraftFinishResult(
+  finish: (draft: DraftShape) => { object?: WhiteboardObject; selectIds?: string[] },
+  draft: DraftShape,
+  ctx: ToolPointerContext,
+  options?: { fillColor?: boolean; cornerRadius?: boolean }
+): ToolCreateResult | null {
+  const { object, selectIds } = finish(draft);
+  if (!object || !selectIds) return null;
+  let next = object;
+  if (options?.fillColor) next = applyOptionalStringProp(next, 'fillColor', ctx.toolProps?.fillColor);
+  if (options?.cornerRadius) next = applyOptionalNumberProp(next, 'cornerRadius', ctx.toolProps?.cornerRadius);
+  // Text style for the text added later; the shapes start empty.
+  next = applyOptionalStringProp(next, 'textColor', ctx.toolProps?.textColor);
+  next = applyOptionalNumberProp(next, 'fontSize', ctx.toolProps?.fontSize);
+  next = applyOptionalStringProp(next, 'textAlign', ctx.toolProps?.textAlign);
+  next = applyOptionalStringProp(next, 'textVerticalAlign', ctx.toolProps?.textVerticalAlign);
+  return { object: next, selectIds };
+}
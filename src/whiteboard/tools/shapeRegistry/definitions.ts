@@ -1,6 +1,7 @@
 import type { WhiteboardObjectType } from '../../../domain/types';
 import type { ShapeToolDefinition } from '../shapeTypes';
 import { createBasicShapeDefinitions } from './basicShapes';
+import { createDiagramShapeDefinitions } from './diagramShapes';
 import { createLinearShapeDefinitions } from './linearShapes';
 import { createTextualShapeDefinitions } from './textualShapes';
 
@@ -8,6 +9,7 @@ export function createShapeDefinitions(): Record<WhiteboardObjectType, ShapeTool
   return {
     ...createLinearShapeDefinitions(),
     ...createBasicShapeDefinitions(),
+    ...createDiagramShapeDefinitions(),
     ...createTextualShapeDefinitions(),
   } as Record<WhiteboardObjectType, ShapeToolDefinition>;
 }
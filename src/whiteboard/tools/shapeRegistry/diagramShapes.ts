@@ -0,0 +1,281 @@
+import type { Point, WhiteboardObjectType } from '../../../domain/types';
+import type { ShapeToolDefinition, ToolCreateResult, ToolPointerContext, ObjectPort } from '../shapeTypes';
+import type { DraftShape } from '../../drawing';
+
+import { drawTriangleObject, drawTriangleDraft } from '../triangle/draw';
+import {
+  getTriangleBoundingBox,
+  getTrianglePorts,
+  getTriangleTextArea,
+  hitTestTriangle,
+} from '../triangle/geometry';
+import { triangleSelectionCapabilities } from '../triangle/selection';
+import { startTriangleDraft, updateTriangleDraft, finishTriangleDraft } from '../triangle/interactions';
+
+import { drawHexagonObject, drawHexagonDraft } from '../hexagon/draw';
+import {
+  getHexagonBoundingBox,
+  getHexagonPorts,
+  getHexagonTextArea,
+  hitTestHexagon,
+} from '../hexagon/geometry';
+import { hexagonSelectionCapabilities } from '../hexagon/selection';
+import { startHexagonDraft, updateHexagonDraft, finishHexagonDraft } from '../hexagon/interactions';
+
+import { drawParallelogramObject, drawParallelogramDraft } from '../parallelogram/draw';
+import {
+  getParallelogramBoundingBox,
+  getParallelogramPorts,
+  getParallelogramTextArea,
+  hitTestParallelogram,
+} from '../parallelogram/geometry';
+import { parallelogramSelectionCapabilities } from '../parallelogram/selection';
+import { startParallelogramDraft, updateParallelogramDraft, finishParallelogramDraft } from '../parallelogram/interactions';
+
+import { drawCylinderObject, drawCylinderDraft } from '../cylinder/draw';
+import {
+  getCylinderBoundingBox,
+  getCylinderPorts,
+  getCylinderTextArea,
+  hitTestCylinder,
+} from '../cylinder/geometry';
+import { cylinderSelectionCapabilities } from '../cylinder/selection';
+import { startCylinderDraft, updateCylinderDraft, finishCylinderDraft } from '../cylinder/interactions';
+
+import { drawCloudObject, drawCloudDraft } from '../cloud/draw';
+import {
+  getCloudBoundingBox,
+  getCloudPorts,
+  getCloudTextArea,
+  hitTestCloud,
+} from '../cloud/geometry';
+import { cloudSelectionCapabilities } from '../cloud/selection';
+import { startCloudDraft, updateCloudDraft, finishCloudDraft } from '../cloud/interactions';
+
+import { drawStarObject, drawStarDraft } from '../star/draw';
+import {
+  getStarBoundingBox,
+  getStarPorts,
+  getStarTextArea,
+  hitTestStar,
+} from '../star/geometry';
+import { starSelectionCapabilities } from '../star/selection';
+import { startStarDraft, updateStarDraft, finishStarDraft } from '../star/interactions';
+
+import { drawBlockArrowObject, drawBlockArrowDraft } from '../blockArrow/draw';
+import {
+  getBlockArrowBoundingBox,
+  getBlockArrowPorts,
+  getBlockArrowTextArea,
+  hitTestBlockArrow,
+} from '../blockArrow/geometry';
+import { blockArrowSelectionCapabilities } from '../blockArrow/selection';
+import { startBlockArrowDraft, updateBlockArrowDraft, finishBlockArrowDraft } from '../blockArrow/interactions';
+
+import { resizeBoxObjectByBounds } from '../_shared/resizeByBounds';
+import { createBoxDraftFinishResult } from './common';
+
+/**
+ * Diagram shapes beyond the basic boxes. All are drawn inside their x/y/w/h box
+ * from an outline, hit-test against that outline and only attach connectors to
+ * their ports, like diamond.
+ */
+export function createDiagramShapeDefinitions(): Partial<Record<WhiteboardObjectType, ShapeToolDefinition>> {
+  return {
+    triangle: {
+      type: 'triangle',
+      rotatable: true,
+      connectorAttachmentPolicy: 'portsOnly',
+      draw: (ctx, obj, viewport) => drawTriangleObject(ctx, obj, viewport),
+      drawDraft: (ctx, draft, viewport) => drawTriangleDraft(ctx, draft, viewport),
+      getBoundingBox: (obj) => getTriangleBoundingBox(obj),
+      resize: (obj, newBounds, options) => resizeBoxObjectByBounds(obj, newBounds, options),
+      hitTest: (obj, worldX, worldY) => hitTestTriangle(obj, worldX, worldY),
+      getPorts: (obj): ObjectPort[] => getTrianglePorts(obj),
+      getTextArea: (obj) => getTriangleTextArea(obj),
+      selectionCaps: triangleSelectionCapabilities,
+      draft: {
+        startDraft: (ctx: ToolPointerContext, pos: Point) =>
+          startTriangleDraft({
+            pos,
+            strokeColor: ctx.strokeColor,
+            strokeWidth: ctx.strokeWidth,
+            generateObjectId: ctx.generateObjectId,
+            snapGridSize: ctx.snapGridSize,
+          }),
+        updateDraft: (draft: DraftShape, ctx: ToolPointerContext, pos: Point) =>
+          updateTriangleDraft(draft, pos, ctx.snapGridSize),
+        finishDraft: (draft: DraftShape, ctx: ToolPointerContext): ToolCreateResult | null =>
+          createBoxDraftFinishResult(finishTriangleDraft, draft, ctx, { fillColor: true }),
+      },
+    },
+
+    hexagon: {
+      type: 'hexagon',
+      rotatable: true,
+      connectorAttachmentPolicy: 'portsOnly',
+      draw: (ctx, obj, viewport) => drawHexagonObject(ctx, obj, viewport),
+      drawDraft: (ctx, draft, viewport) => drawHexagonDraft(ctx, draft, viewport),
+      getBoundingBox: (obj) => getHexagonBoundingBox(obj),
+      resize: (obj, newBounds, options) => resizeBoxObjectByBounds(obj, newBounds, options),
+      hitTest: (obj, worldX, worldY) => hitTestHexagon(obj, worldX, worldY),
+      getPorts: (obj): ObjectPort[] => getHexagonPorts(obj),
+      getTextArea: (obj) => getHexagonTextArea(obj),
+      selectionCaps: hexagonSelectionCapabilities,
+      draft: {
+        startDraft: (ctx: ToolPointerContext, pos: Point) =>
+          startHexagonDraft({
+            pos,
+            strokeColor: ctx.strokeColor,
+            strokeWidth: ctx.strokeWidth,
+            generateObjectId: ctx.generateObjectId,
+            snapGridSize: ctx.snapGridSize,
+          }),
+        updateDraft: (draft: DraftShape, ctx: ToolPointerContext, pos: Point) =>
+          updateHexagonDraft(draft, pos, ctx.snapGridSize),
+        finishDraft: (draft: DraftShape, ctx: ToolPointerContext): ToolCreateResult | null =>
+          createBoxDraftFinishResult(finishHexagonDraft, draft, ctx, { fillColor: true }),
+      },
+    },
+
+    parallelogram: {
+      type: 'parallelogram',
+      rotatable: true,
+      connectorAttachmentPolicy: 'portsOnly',
+      draw: (ctx, obj, viewport) => drawParallelogramObject(ctx, obj, viewport),
+      drawDraft: (ctx, draft, viewport) => drawParallelogramDraft(ctx, draft, viewport),
+      getBoundingBox: (obj) => getParallelogramBoundingBox(obj),
+      resize: (obj, newBounds, options) => resizeBoxObjectByBounds(obj, newBounds, options),
+      hitTest: (obj, worldX, worldY) => hitTestParallelogram(obj, worldX, worldY),
+      getPorts: (obj): ObjectPort[] => getParallelogramPorts(obj),
+      getTextArea: (obj) => getParallelogramTextArea(obj),
+      selectionCaps: parallelogramSelectionCapabilities,
+      draft: {
+        startDraft: (ctx: ToolPointerContext, pos: Point) =>
+          startParallelogramDraft({
+            pos,
+            strokeColor: ctx.strokeColor,
+            strokeWidth: ctx.strokeWidth,
+            generateObjectId: ctx.generateObjectId,
+            snapGridSize: ctx.snapGridSize,
+          }),
+        updateDraft: (draft: DraftShape, ctx: ToolPointerContext, pos: Point) =>
+          updateParallelogramDraft(draft, pos, ctx.snapGridSize),
+        finishDraft: (draft: DraftShape, ctx: ToolPointerContext): ToolCreateResult | null =>
+          createBoxDraftFinishResult(finishParallelogramDraft, draft, ctx, { fillColor: true }),
+      },
+    },
+
+    cylinder: {
+      type: 'cylinder',
+      rotatable: true,
+      connectorAttachmentPolicy: 'portsOnly',
+      draw: (ctx, obj, viewport) => drawCylinderObject(ctx, obj, viewport),
+      drawDraft: (ctx, draft, viewport) => drawCylinderDraft(ctx, draft, viewport),
+      getBoundingBox: (obj) => getCylinderBoundingBox(obj),
+      resize: (obj, newBounds, options) => resizeBoxObjectByBounds(obj, newBounds, options),
+      hitTest: (obj, worldX, worldY) => hitTestCylinder(obj, worldX, worldY),
+      getPorts: (obj): ObjectPort[] => getCylinderPorts(obj),
+      getTextArea: (obj) => getCylinderTextArea(obj),
+      selectionCaps: cylinderSelectionCapabilities,
+      draft: {
+        startDraft: (ctx: ToolPointerContext, pos: Point) =>
+          startCylinderDraft({
+            pos,
+            strokeColor: ctx.strokeColor,
+            strokeWidth: ctx.strokeWidth,
+            generateObjectId: ctx.generateObjectId,
+            snapGridSize: ctx.snapGridSize,
+          }),
+        updateDraft: (draft: DraftShape, ctx: ToolPointerContext, pos: Point) =>
+          updateCylinderDraft(draft, pos, ctx.snapGridSize),
+        finishDraft: (draft: DraftShape, ctx: ToolPointerContext): ToolCreateResult | null =>
+          createBoxDraftFinishResult(finishCylinderDraft, draft, ctx, { fillColor: true }),
+      },
+    },
+
+    cloud: {
+      type: 'cloud',
+      rotatable: true,
+      connectorAttachmentPolicy: 'portsOnly',
+      draw: (ctx, obj, viewport) => drawCloudObject(ctx, obj, viewport),
+      drawDraft: (ctx, draft, viewport) => drawCloudDraft(ctx, draft, viewport),
+      getBoundingBox: (obj) => getCloudBoundingBox(obj),
+      resize: (obj, newBounds, options) => resizeBoxObjectByBounds(obj, newBounds, options),
+      hitTest: (obj, worldX, worldY) => hitTestCloud(obj, worldX, worldY),
+      getPorts: (obj): ObjectPort[] => getCloudPorts(obj),
+      getTextArea: (obj) => getCloudTextArea(obj),
+      selectionCaps: cloudSelectionCapabilities,
+      draft: {
+        startDraft: (ctx: ToolPointerContext, pos: Point) =>
+          startCloudDraft({
+            pos,
+            strokeColor: ctx.strokeColor,
+            strokeWidth: ctx.strokeWidth,
+            generateObjectId: ctx.generateObjectId,
+            snapGridSize: ctx.snapGridSize,
+          }),
+        updateDraft: (draft: DraftShape, ctx: ToolPointerContext, pos: Point) =>
+          updateCloudDraft(draft, pos, ctx.snapGridSize),
+        finishDraft: (draft: DraftShape, ctx: ToolPointerContext): ToolCreateResult | null =>
+          createBoxDraftFinishResult(finishCloudDraft, draft, ctx, { fillColor: true }),
+      },
+    },
+
+    star: {
+      type: 'star',
+      rotatable: true,
+      connectorAttachmentPolicy: 'portsOnly',
+      draw: (ctx, obj, viewport) => drawStarObject(ctx, obj, viewport),
+      drawDraft: (ctx, draft, viewport) => drawStarDraft(ctx, draft, viewport),
+      getBoundingBox: (obj) => getStarBoundingBox(obj),
+      resize: (obj, newBounds, options) => resizeBoxObjectByBounds(obj, newBounds, options),
+      hitTest: (obj, worldX, worldY) => hitTestStar(obj, worldX, worldY),
+      getPorts: (obj): ObjectPort[] => getStarPorts(obj),
+      getTextArea: (obj) => getStarTextArea(obj),
+      selectionCaps: starSelectionCapabilities,
+      draft: {
+        startDraft: (ctx: ToolPointerContext, pos: Point) =>
+          startStarDraft({
+            pos,
+            strokeColor: ctx.strokeColor,
+            strokeWidth: ctx.strokeWidth,
+            generateObjectId: ctx.generateObjectId,
+            snapGridSize: ctx.snapGridSize,
+          }),
+        updateDraft: (draft: DraftShape, ctx: ToolPointerContext, pos: Point) =>
+          updateStarDraft(draft, pos, ctx.snapGridSize),
+        finishDraft: (draft: DraftShape, ctx: ToolPointerContext): ToolCreateResult | null =>
+          createBoxDraftFinishResult(finishStarDraft, draft, ctx, { fillColor: true }),
+      },
+    },
+
+    blockArrow: {
+      type: 'blockArrow',
+      rotatable: true,
+      connectorAttachmentPolicy: 'portsOnly',
+      draw: (ctx, obj, viewport) => drawBlockArrowObject(ctx, obj, viewport),
+      drawDraft: (ctx, draft, viewport) => drawBlockArrowDraft(ctx, draft, viewport),
+      getBoundingBox: (obj) => getBlockArrowBoundingBox(obj),
+      resize: (obj, newBounds, options) => resizeBoxObjectByBounds(obj, newBounds, options),
+      hitTest: (obj, worldX, worldY) => hitTestBlockArrow(obj, worldX, worldY),
+      getPorts: (obj): ObjectPort[] => getBlockArrowPorts(obj),
+      getTextArea: (obj) => getBlockArrowTextArea(obj),
+      selectionCaps: blockArrowSelectionCapabilities,
+      draft: {
+        startDraft: (ctx: ToolPointerContext, pos: Point) =>
+          startBlockArrowDraft({
+            pos,
+            strokeColor: ctx.strokeColor,
+            strokeWidth: ctx.strokeWidth,
+            generateObjectId: ctx.generateObjectId,
+            snapGridSize: ctx.snapGridSize,
+          }),
+        updateDraft: (draft: DraftShape, ctx: ToolPointerContext, pos: Point) =>
+          updateBlockArrowDraft(draft, pos, ctx.snapGridSize),
+        finishDraft: (draft: DraftShape, ctx: ToolPointerContext): ToolCreateResult | null =>
+          createBoxDraftFinishResult(finishBlockArrowDraft, draft, ctx, { fillColor: true }),
+      },
+    },
+  };
+}
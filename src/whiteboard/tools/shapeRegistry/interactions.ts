@@ -2,6 +2,7 @@ import type { WhiteboardObject, WhiteboardObjectType, Point, ObjectId } from '..
 import type { ToolPointerContext, ShapeToolDefinition } from '../shapeTypes';
 import type { DraftShape } from '../../drawing';
 import type { DrawingTool } from '../../whiteboardTypes';
+import { applyStrokeStyleProps } from './common';
 
 export type ToolPointerDownResult =
   | { kind: 'noop' }
@@ -27,7 +28,9 @@ export function toolPointerDown(
 
   if (def.pointerDownCreate) {
     const res = def.pointerDownCreate(ctx, pos);
-    return res ? { kind: 'create', object: res.object, selectIds: res.selectIds } : { kind: 'noop' };
+    return res
+      ? { kind: 'create', object: applyStrokeStyleProps(res.object, ctx.toolProps), selectIds: res.selectIds }
+      : { kind: 'noop' };
   }
 
   const start = def.draft?.startDraft;
@@ -71,5 +74,7 @@ export function toolPointerUp(
   if (!finish) return { kind: 'noop' };
 
   const res = finish(draft, ctx, pos);
-  return res ? { kind: 'create', object: res.object, selectIds: res.selectIds } : { kind: 'noop' };
+  return res
+    ? { kind: 'create', object: applyStrokeStyleProps(res.object, ctx.toolProps), selectIds: res.selectIds }
+    : { kind: 'noop' };
 }
@@ -2,27 +2,41 @@ import type { Point, WhiteboardObjectType } from '../../../domain/types';
 import type { ShapeToolDefinition, ToolCreateResult, ToolPointerContext, ObjectPort } from '../shapeTypes';
 import type { DraftShape } from '../../drawing';
 
-import { drawFreehandObject } from '../freehand/draw';
-import { getFreehandBoundingBox, translateFreehandObject, resizeFreehandObject } from '../freehand/geometry';
+import { drawFreehandDraft, drawFreehandObject } from '../freehand/draw';
+import {
+  getFreehandBoundingBox,
+  getFreehandHitPadding,
+  hitTestFreehand,
+  translateFreehandObject,
+  resizeFreehandObject,
+} from '../freehand/geometry';
 import { freehandSelectionCapabilities } from '../freehand/selection';
 import { startFreehandDraft, updateFreehandDraft, finishFreehandDraft } from '../freehand/interactions';
 
 import { drawLineObject, drawLineDraft } from '../line/draw';
-import { getLineBoundingBox, hitTestLine, translateLineObject } from '../line/geometry';
+import { getLineBoundingBox, getLinePath, hitTestLine, translateLineObject } from '../line/geometry';
 import { lineSelectionCapabilities } from '../line/selection';
 import { startLineDraft, updateLineDraft, finishLineDraft } from '../line/interactions';
 
 import { drawConnectorObject } from '../connector/draw';
-import { getConnectorBoundingBox, hitTestConnector } from '../connector/geometry';
+import { getConnectorBoundingBox, getConnectorPath, hitTestConnector } from '../connector/geometry';
 import { connectorSelectionCapabilities } from '../connector/selection';
-import { startConnectorDraft, updateConnectorDraft, finishConnectorDraft } from '../connector/interactions';
+import {
+  startConnectorDraft,
+  updateConnectorDraft,
+  finishConnectorDraft,
+  translateConnectorObject,
+} from '../connector/interactions';
 
 export function createLinearShapeDefinitions(): Partial<Record<WhiteboardObjectType, ShapeToolDefinition>> {
   return {
     freehand: {
       type: 'freehand',
       draw: (ctx, obj, viewport) => drawFreehandObject(ctx, obj, viewport),
+      drawDraft: (ctx, draft, viewport) => drawFreehandDraft(ctx, draft, viewport),
       getBoundingBox: (obj) => getFreehandBoundingBox(obj),
+      hitTest: (obj, worldX, worldY) => hitTestFreehand(obj, worldX, worldY),
+      getHitTestPadding: (obj) => getFreehandHitPadding(obj),
       translate: (obj, dx, dy) => translateFreehandObject(obj, dx, dy),
       resize: (obj, newBounds) => resizeFreehandObject(obj, newBounds),
       selectionCaps: freehandSelectionCapabilities,
@@ -32,11 +46,13 @@ export function createLinearShapeDefinitions(): Partial<Record<WhiteboardObjectT
             pos,
             strokeColor: ctx.strokeColor,
             strokeWidth: ctx.strokeWidth,
+            pressure: ctx.pressure,
             generateObjectId: ctx.generateObjectId,
           }),
-        updateDraft: (draft: DraftShape, _ctx: ToolPointerContext, pos: Point) => updateFreehandDraft(draft, pos),
-        finishDraft: (draft: DraftShape): ToolCreateResult | null => {
-          const { object, selectIds } = finishFreehandDraft(draft);
+        updateDraft: (draft: DraftShape, ctx: ToolPointerContext, pos: Point) =>
+          updateFreehandDraft(draft, pos, { zoom: ctx.viewport.zoom, pressure: ctx.pressure }),
+        finishDraft: (draft: DraftShape, ctx: ToolPointerContext): ToolCreateResult | null => {
+          const { object, selectIds } = finishFreehandDraft(draft, ctx.viewport.zoom);
           return object && selectIds ? { object, selectIds } : null;
         },
       },
@@ -49,6 +65,7 @@ export function createLinearShapeDefinitions(): Partial<Record<WhiteboardObjectT
       getBoundingBox: (obj) => getLineBoundingBox(obj),
       hitTest: (obj, worldX, worldY) => hitTestLine(obj, worldX, worldY),
       translate: (obj, dx, dy) => translateLineObject(obj, dx, dy),
+      getLabelPath: (obj) => getLinePath(obj),
       selectionCaps: lineSelectionCapabilities,
       draft: {
         startDraft: (ctx: ToolPointerContext, pos: Point) =>
@@ -56,11 +73,13 @@ export function createLinearShapeDefinitions(): Partial<Record<WhiteboardObjectT
             pos,
             strokeColor: ctx.strokeColor,
             strokeWidth: ctx.strokeWidth,
-            arrowStart: (((ctx.toolProps as any)?.arrowStart ?? 'none') as any),
-            arrowEnd: (((ctx.toolProps as any)?.arrowEnd ?? 'none') as any),
+            arrowStart: ctx.toolProps?.arrowStart ?? 'none',
+            arrowEnd: ctx.toolProps?.arrowEnd ?? 'none',
             generateObjectId: ctx.generateObjectId,
+            snapGridSize: ctx.snapGridSize,
           }),
-        updateDraft: (draft: DraftShape, _ctx: ToolPointerContext, pos: Point) => updateLineDraft(draft, pos),
+        updateDraft: (draft: DraftShape, ctx: ToolPointerContext, pos: Point) =>
+          updateLineDraft(draft, pos, ctx.snapGridSize),
         finishDraft: (draft: DraftShape): ToolCreateResult | null => {
           const { object, selectIds } = finishLineDraft(draft);
           return object && selectIds ? { object, selectIds } : null;
@@ -70,7 +89,8 @@ export function createLinearShapeDefinitions(): Partial<Record<WhiteboardObjectT
 
     connector: {
       type: 'connector',
-      translate: () => null,
+      translate: (obj, dx, dy) => translateConnectorObject(obj, dx, dy),
+      boundsDependOnObjects: true,
       draw: (ctx, obj, viewport, env) => {
         const objects = env.objects ?? [];
         drawConnectorObject(ctx, obj, objects, viewport);
@@ -83,6 +103,7 @@ export function createLinearShapeDefinitions(): Partial<Record<WhiteboardObjectT
         const objects = env?.objects ?? [];
         return hitTestConnector(objects, obj, worldX, worldY);
       },
+      getLabelPath: (obj, env) => getConnectorPath(env?.objects ?? [], obj),
       selectionCaps: connectorSelectionCapabilities,
       draft: {
         startDraft: (ctx: ToolPointerContext, pos: Point) =>
@@ -92,8 +113,9 @@ export function createLinearShapeDefinitions(): Partial<Record<WhiteboardObjectT
             viewport: ctx.viewport,
             strokeColor: ctx.strokeColor,
             strokeWidth: ctx.strokeWidth,
-            arrowStart: (((ctx.toolProps as any)?.arrowStart ?? 'none') as any),
-            arrowEnd: (((ctx.toolProps as any)?.arrowEnd ?? 'none') as any),
+            arrowStart: ctx.toolProps?.arrowStart ?? 'none',
+            arrowEnd: ctx.toolProps?.arrowEnd ?? 'none',
+            routing: ctx.toolProps?.routing,
             generateObjectId: ctx.generateObjectId,
           }),
         updateDraft: (draft: DraftShape, ctx: ToolPointerContext, pos: Point) =>
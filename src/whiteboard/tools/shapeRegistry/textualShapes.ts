@@ -2,12 +2,12 @@ import type { Point, WhiteboardObjectType } from '../../../domain/types';
 import type { ShapeToolDefinition, ToolPointerContext, ObjectPort } from '../shapeTypes';
 
 import { drawTextObject } from '../text/draw';
-import { getTextBoundingBox, getTextPorts } from '../text/geometry';
+import { getTextBoundingBox, getTextFrame, getTextPorts, hitTestText } from '../text/geometry';
 import { textSelectionCapabilities } from '../text/selection';
 import { createTextObject } from '../text/interactions';
 
 import { drawStickyNoteObject } from '../stickyNote/draw';
-import { getStickyNoteBoundingBox, getStickyNotePorts } from '../stickyNote/geometry';
+import { getStickyNoteBoundingBox, getStickyNoteFrame, getStickyNotePorts, hitTestStickyNote } from '../stickyNote/geometry';
 import { stickyNoteSelectionCapabilities } from '../stickyNote/selection';
 import { createStickyNoteObject } from '../stickyNote/interactions';
 
@@ -17,11 +17,14 @@ export function createTextualShapeDefinitions(): Partial<Record<WhiteboardObject
   return {
     text: {
       type: 'text',
+      rotatable: true,
       draw: (ctx, obj, viewport, env) => {
         drawTextObject(ctx, obj, viewport, env.fallbackStrokeColor ?? '#000000');
       },
       getBoundingBox: (obj) => getTextBoundingBox(obj),
-      resize: (obj, newBounds) => resizeBoxObjectByBounds(obj, newBounds),
+      getFrame: (obj) => getTextFrame(obj),
+      hitTest: (obj, worldX, worldY) => hitTestText(obj, worldX, worldY),
+      resize: (obj, newBounds, options) => resizeBoxObjectByBounds(obj, newBounds, options),
       getPorts: (obj): ObjectPort[] => getTextPorts(obj),
       selectionCaps: textSelectionCapabilities,
       pointerDownCreate: (ctx: ToolPointerContext, pos: Point) => {
@@ -31,8 +34,10 @@ export function createTextualShapeDefinitions(): Partial<Record<WhiteboardObject
           strokeWidth: ctx.strokeWidth,
           textColor: (ctx.toolProps?.textColor as any) ?? undefined,
           fontSize: (ctx.toolProps?.fontSize as any) ?? undefined,
+          textFit: ctx.toolProps?.textFit,
           text: (ctx.toolProps?.text as any) ?? undefined,
           generateObjectId: ctx.generateObjectId,
+          snapGridSize: ctx.snapGridSize,
         });
         return object && selectIds ? { object, selectIds } : null;
       },
@@ -40,9 +45,12 @@ export function createTextualShapeDefinitions(): Partial<Record<WhiteboardObject
 
     stickyNote: {
       type: 'stickyNote',
+      rotatable: true,
       draw: (ctx, obj, viewport, env) => drawStickyNoteObject(ctx, obj, viewport, env.fallbackStrokeColor ?? '#000000'),
       getBoundingBox: (obj) => getStickyNoteBoundingBox(obj),
-      resize: (obj, newBounds) => resizeBoxObjectByBounds(obj, newBounds),
+      getFrame: (obj) => getStickyNoteFrame(obj),
+      hitTest: (obj, worldX, worldY) => hitTestStickyNote(obj, worldX, worldY),
+      resize: (obj, newBounds, options) => resizeBoxObjectByBounds(obj, newBounds, options),
       getPorts: (obj): ObjectPort[] => getStickyNotePorts(obj),
       selectionCaps: stickyNoteSelectionCapabilities,
       pointerDownCreate: (ctx: ToolPointerContext, pos: Point) => {
@@ -53,8 +61,10 @@ export function createTextualShapeDefinitions(): Partial<Record<WhiteboardObject
           fillColor: (ctx.toolProps?.fillColor as any) ?? undefined,
           textColor: (ctx.toolProps?.textColor as any) ?? undefined,
           fontSize: (ctx.toolProps?.fontSize as any) ?? undefined,
+          textFit: ctx.toolProps?.textFit,
           text: (ctx.toolProps?.text as any) ?? undefined,
           generateObjectId: ctx.generateObjectId,
+          snapGridSize: ctx.snapGridSize,
         });
         return object && selectIds ? { object, selectIds } : null;
       },
@@ -21,8 +21,9 @@ import type {
   ObjectId,
 } from '../../domain/types';
 
-import type { Bounds } from '../geometry/types';
+import type { Bounds, ResizeHandleId } from '../geometry/types';
 import type { DraftShape } from '../drawing';
+import type { ImageCache } from './image/imageCache';
 
 export type ObjectPort = { portId: string; point: Point };
 import type { SelectionCapabilities } from './selection/types';
@@ -35,6 +36,8 @@ import type { SelectionCapabilities } from './selection/types';
 export type ShapeDrawEnv = {
   objects?: WhiteboardObject[];
   fallbackStrokeColor?: string;
+  /** Decoded image assets for image objects (placeholders are drawn without it). */
+  images?: ImageCache;
 };
 
 /**
@@ -105,6 +108,16 @@ export interface ShapeDefinition<TObj extends WhiteboardObject = WhiteboardObjec
 
 export type ConnectorAttachmentPolicy = 'free' | 'portsOnly';
 
+/**
+ * Extra options for ShapeDefinition.resize().
+ */
+export type ResizeOptions = {
+  /** When set, box-based shapes round their edges to this world-space grid. */
+  snapGridSize?: number;
+  /** The handle being dragged; only the edges it moves are snapped. Without it every edge is. */
+  handle?: ResizeHandleId;
+};
+
 export interface ShapeDefinition<TObj extends WhiteboardObject = WhiteboardObject> {
   // ...existing
 
@@ -123,7 +136,7 @@ export interface ShapeDefinition<TObj extends WhiteboardObject = WhiteboardObjec
    * Core is responsible for computing newBounds (e.g., via resize handles); shapes own
    * how that maps onto their internal representation.
    */
-  resize?: (obj: TObj, newBounds: Bounds) => Partial<TObj> | null;
+  resize?: (obj: TObj, newBounds: Bounds, options?: ResizeOptions) => Partial<TObj> | null;
 
   /**
    * Controls how connector endpoints may attach while dragging/creating.
@@ -131,6 +144,50 @@ export interface ShapeDefinition<TObj extends WhiteboardObject = WhiteboardObjec
    * - 'portsOnly' => always snap to nearest port (type:'port')
    */
   connectorAttachmentPolicy?: ConnectorAttachmentPolicy;
+
+  /**
+   * True when getBoundingBox() depends on other objects (e.g. connectors follow
+   * their endpoints). The spatial index cannot cache such bounds, so these
+   * objects are always treated as candidates and resolved on demand.
+   */
+  boundsDependOnObjects?: boolean;
+
+  /**
+   * How far hitTest() reaches past getBoundingBox(), in world units (e.g. a
+   * freehand stroke's selection tolerance). The spatial index grows the bounds
+   * it caches by this much so point and area queries still return the object.
+   */
+  getHitTestPadding?: (obj: WhiteboardObject) => number;
+
+  /**
+   * True when the shape honours `obj.rotation` in draw/hitTest/getPorts/getBoundingBox
+   * (and should show the rotate handle when selected).
+   */
+  rotatable?: boolean;
+
+  /**
+   * The unrotated box rotation and selection handles work on, when it is not simply
+   * the object's x/y/width/height (e.g. text that grows to fit its lines).
+   */
+  getFrame?: (obj: TObj) => Bounds;
+
+  /**
+   * True when handle resizes keep the aspect ratio by default (Shift frees it),
+   * the reverse of other shapes. Used by images.
+   */
+  keepsAspectRatio?: boolean;
+
+  /**
+   * The polyline a line-like shape's text labels sit on (see _shared/pathLabels).
+   * Shapes with it show `text` along the path instead of in a box.
+   */
+  getLabelPath?: (obj: TObj, env?: ShapeGeometryEnv) => Point[] | null;
+
+  /**
+   * The unrotated world box a box shape's `text` is laid out in (see
+   * _shared/shapeText), inside the outline for ellipses and diamonds.
+   */
+  getTextArea?: (obj: TObj) => Bounds;
 }
 
 /**
@@ -142,9 +199,13 @@ export type ToolPointerContext = {
   viewport: Viewport;
   strokeColor: string;
   strokeWidth: number;
-  /** Extra per-tool settings (e.g. roundedRect.cornerRadius, text.fontSize). */
+  /** Extra per-tool settings (e.g. roundedRect.cornerRadius, text.fontSize, line/connector arrowStart/arrowEnd). */
   toolProps?: Partial<WhiteboardObject>;
   generateObjectId: () => ObjectId;
+  /** Board grid size when snap-to-grid is on; drafts round their points to it. */
+  snapGridSize?: number;
+  /** Pen pressure (0..1) of the current pointer sample; undefined for mouse/touch. */
+  pressure?: number;
 };
 
 /**
@@ -0,0 +1,21 @@
+// src/whiteboard/tools/star/draw.ts
+import type { WhiteboardObject, Viewport } from '../../../domain/types';
+import type { DraftShape } from '../../drawing';
+import { drawOutlineDraft, drawOutlineShape, tracePolygon, type TraceOutline } from '../_shared/outlineShape';
+import { getStarOutline, getStarTextArea } from './geometry';
+
+const traceStar: TraceOutline = (ctx, box, viewport) => tracePolygon(ctx, getStarOutline(box), viewport);
+
+export function drawStarObject(
+  ctx: CanvasRenderingContext2D,
+  obj: WhiteboardObject,
+  viewport: Viewport
+): void {
+  if (obj.type !== 'star') return;
+  drawOutlineShape(ctx, obj, viewport, traceStar, getStarTextArea(obj));
+}
+
+/** Dashed draft preview while dragging out a new star. */
+export function drawStarDraft(ctx: CanvasRenderingContext2D, draft: DraftShape, viewport: Viewport): void {
+  drawOutlineDraft(ctx, draft, viewport, traceStar);
+}
@@ -0,0 +1,68 @@
+// src/whiteboard/tools/star/geometry.ts
+import type { WhiteboardObject, Point } from '../../../domain/types';
+import type { Bounds } from '../../geometry/types';
+import { getBoxBoundingBox, type BoxPort } from '../_shared/boxGeometry';
+import { getOutlinePorts, hitTestOutline } from '../_shared/outlineShape';
+
+const STAR_POINTS = 5;
+
+/** Inner radius against the outer one; a little fuller than a pentagram's 0.38. */
+const STAR_INNER_RATIO = 0.5;
+
+/**
+ * Vertices of the star around (0,0) with outer radius 1, starting at the top
+ * point and alternating outer and inner vertices clockwise.
+ */
+const UNIT_STAR: Point[] = Array.from({ length: STAR_POINTS * 2 }, (_, i) => {
+  const r = i % 2 === 0 ? 1 : STAR_INNER_RATIO;
+  const angle = -Math.PI / 2 + (i * Math.PI) / STAR_POINTS;
+  return { x: r * Math.cos(angle), y: r * Math.sin(angle) };
+});
+
+const UNIT_BOUNDS = {
+  minX: Math.min(...UNIT_STAR.map((p) => p.x)),
+  maxX: Math.max(...UNIT_STAR.map((p) => p.x)),
+  minY: Math.min(...UNIT_STAR.map((p) => p.y)),
+  maxY: Math.max(...UNIT_STAR.map((p) => p.y)),
+};
+
+/** Map a point of the unit star into `box`, stretching the star to fill it. */
+function fromUnit(p: Point, box: Bounds): Point {
+  const { minX, maxX, minY, maxY } = UNIT_BOUNDS;
+  return {
+    x: box.x + ((p.x - minX) / (maxX - minX)) * box.width,
+    y: box.y + ((p.y - minY) / (maxY - minY)) * box.height,
+  };
+}
+
+/** Five-pointed star with one point straight up, stretched to the box. */
+export function getStarOutline(box: Bounds): Point[] {
+  return UNIT_STAR.map((p) => fromUnit(p, box));
+}
+
+export function getStarBoundingBox(obj: WhiteboardObject): Bounds | null {
+  return getBoxBoundingBox(obj, 'star');
+}
+
+/** The top, left and right points, and the inner corner between the two lower points. */
+export function getStarPorts(obj: WhiteboardObject): BoxPort[] {
+  return getOutlinePorts(obj, 'star', (box) => [
+    { portId: 'top', point: fromUnit(UNIT_STAR[0], box) },
+    { portId: 'right', point: fromUnit(UNIT_STAR[2], box) },
+    { portId: 'bottom', point: fromUnit(UNIT_STAR[STAR_POINTS], box) },
+    { portId: 'left', point: fromUnit(UNIT_STAR[STAR_POINTS * 2 - 2], box) },
+  ]);
+}
+
+export function hitTestStar(obj: WhiteboardObject, worldX: number, worldY: number): boolean {
+  return hitTestOutline(obj, 'star', worldX, worldY, getStarOutline);
+}
+
+/** A box around the star's centre that reaches the inner pentagon's edges. */
+export function getStarTextArea(obj: WhiteboardObject): Bounds {
+  const box = { x: obj.x, y: obj.y, width: obj.width ?? 0, height: obj.height ?? 0 };
+  const r = STAR_INNER_RATIO * Math.cos(Math.PI / STAR_POINTS);
+  const topLeft = fromUnit({ x: -r, y: -r }, box);
+  const bottomRight = fromUnit({ x: r, y: r }, box);
+  return { x: topLeft.x, y: topLeft.y, width: bottomRight.x - topLeft.x, height: bottomRight.y - topLeft.y };
+}
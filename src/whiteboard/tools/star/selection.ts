@@ -0,0 +1,5 @@
+// src/whiteboard/tools/star/selection.ts
+
+import { BOX_WITH_TEXT } from '../_shared/selectionCaps';
+
+export const starSelectionCapabilities = BOX_WITH_TEXT;
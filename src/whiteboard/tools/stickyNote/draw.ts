@@ -1,6 +1,11 @@
 // src/whiteboard/tools/stickyNote/draw.ts
 import type { WhiteboardObject, Viewport } from '../../../domain/types';
 import { worldToCanvas } from '../../geometry';
+import { drawRotated } from '../_shared/rotation';
+import { drawTextLayout } from '../_shared/textLayout';
+import { fillWithOpacity, strokeWithStyle } from '../_shared/strokeStyle';
+import { drawOverflowIndicator } from '../_shared/textFit';
+import { STICKY_NOTE_PADDING, getStickyNoteBlock, withStickyNoteBlockSize } from './geometry';
 
 export function drawStickyNoteObject(
   ctx: CanvasRenderingContext2D,
@@ -10,34 +15,34 @@ export function drawStickyNoteObject(
 ): void {
   if (obj.type !== 'stickyNote') return;
 
-  const toCanvas = (x: number, y: number) => worldToCanvas(x, y, viewport);
+  const block = getStickyNoteBlock(obj);
 
-  const { x, y, width: w = 160, height: h = 100 } = obj;
-  const topLeft = toCanvas(x, y);
-  const bottomRight = toCanvas(x + w, y + h);
-  const drawW = bottomRight.x - topLeft.x;
-  const drawH = bottomRight.y - topLeft.y;
+  drawRotated(ctx, withStickyNoteBlockSize(obj), viewport, () => {
+    const toCanvas = (x: number, y: number) => worldToCanvas(x, y, viewport);
 
-  const fill = obj.fillColor ?? '#facc15';
-  const border = obj.strokeColor ?? '#f59e0b';
+    const { x, y, width: w, height: h } = block.box;
+    const topLeft = toCanvas(x, y);
+    const bottomRight = toCanvas(x + w, y + h);
+    const drawW = bottomRight.x - topLeft.x;
+    const drawH = bottomRight.y - topLeft.y;
 
-  ctx.fillStyle = fill;
-  ctx.strokeStyle = border;
-  ctx.lineWidth = obj.strokeWidth ?? 1.5;
-  ctx.beginPath();
-  ctx.rect(topLeft.x, topLeft.y, drawW, drawH);
-  ctx.fill();
-  ctx.stroke();
+    const fill = obj.fillColor ?? '#facc15';
+    const border = obj.strokeColor ?? '#f59e0b';
 
-  if (obj.text) {
-    const fontSize = obj.fontSize ?? 16;
-    ctx.font = `${fontSize}px system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif`;
-    ctx.textBaseline = 'top';
-    ctx.textAlign = 'left';
-    const textColor = obj.textColor ?? fallbackStrokeColor ?? '#e5e7eb';
-    ctx.fillStyle = textColor;
-    const padding = 8;
-    const textPos = toCanvas(x + padding, y + padding);
-    ctx.fillText(obj.text, textPos.x, textPos.y, drawW - padding * 2);
-  }
+    ctx.fillStyle = fill;
+    ctx.strokeStyle = border;
+    ctx.lineWidth = obj.strokeWidth ?? 1.5;
+    ctx.beginPath();
+    ctx.rect(topLeft.x, topLeft.y, drawW, drawH);
+    fillWithOpacity(ctx, obj);
+    strokeWithStyle(ctx, obj, ctx.lineWidth);
+
+    if (obj.text) {
+      const zoom = viewport.zoom ?? 1;
+      const textColor = obj.textColor ?? fallbackStrokeColor ?? '#e5e7eb';
+      const textPos = toCanvas(x + STICKY_NOTE_PADDING, y + STICKY_NOTE_PADDING);
+      drawTextLayout(ctx, block.layout, textPos.x, textPos.y, block.fontSize, zoom, textColor);
+      if (block.overflowing) drawOverflowIndicator(ctx, topLeft.x, topLeft.y, drawW, drawH, border, zoom);
+    }
+  });
 }
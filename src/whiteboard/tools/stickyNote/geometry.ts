@@ -1,15 +1,72 @@
 // src/whiteboard/tools/stickyNote/geometry.ts
 
+import { getTextParagraphs } from '../../../domain/richText';
 import type { WhiteboardObject, Point } from '../../../domain/types';
 import type { Bounds } from '../../geometry/types';
-import { getBoxBoundingBox, getBoxPorts } from '../_shared/boxGeometry';
+import { getBoxBoundingBox, getBoxPorts, hitTestBox } from '../_shared/boxGeometry';
+import { fitText, getTextFit, type FittedText } from '../_shared/textFit';
+
+export const DEFAULT_STICKY_NOTE_FONT_SIZE = 16;
+
+/** Gap between the note's edge and its text, in world units. */
+export const STICKY_NOTE_PADDING = 8;
+
+export type StickyNoteBlock = FittedText & {
+  /** The note's unrotated box, taller than x/y/width/height when it grows to fit. */
+  box: Bounds;
+};
+
+const blockCache = new WeakMap<WhiteboardObject, StickyNoteBlock>();
+
+/**
+ * The note's text wrapped inside its padding and fitted with the note's
+ * `textFit`: shrunk, clipped with an ellipsis, or with the note grown to fit.
+ */
+export function getStickyNoteBlock(obj: WhiteboardObject): StickyNoteBlock {
+  const cached = blockCache.get(obj);
+  if (cached) return cached;
+  // Same fallback size the note is drawn with.
+  const { width = 160, height = 100 } = obj;
+  const fit = getTextFit(obj);
+  const fitted = fitText(getTextParagraphs(obj), obj.fontSize ?? DEFAULT_STICKY_NOTE_FONT_SIZE, fit, {
+    maxWidth: Math.max(1, width - STICKY_NOTE_PADDING * 2),
+    maxHeight: height - STICKY_NOTE_PADDING * 2,
+  });
+  const block: StickyNoteBlock = {
+    ...fitted,
+    box: {
+      x: obj.x,
+      y: obj.y,
+      width,
+      height: fit === 'grow' ? Math.max(height, fitted.layout.height + STICKY_NOTE_PADDING * 2) : height,
+    },
+  };
+  blockCache.set(obj, block);
+  return block;
+}
+
+/** The note with its width/height replaced by the (possibly grown) box. */
+export function withStickyNoteBlockSize(obj: WhiteboardObject): WhiteboardObject {
+  const { box } = getStickyNoteBlock(obj);
+  return box.width === obj.width && box.height === obj.height
+    ? obj
+    : { ...obj, width: box.width, height: box.height };
+}
+
+export function getStickyNoteFrame(obj: WhiteboardObject): Bounds {
+  return getStickyNoteBlock(obj).box;
+}
 
 export function getStickyNotePorts(
   obj: WhiteboardObject
 ): Array<{ portId: string; point: Point }> {
-  return getBoxPorts(obj, 'stickyNote');
+  return getBoxPorts(withStickyNoteBlockSize(obj), 'stickyNote');
 }
 
 export function getStickyNoteBoundingBox(obj: WhiteboardObject): Bounds | null {
-  return getBoxBoundingBox(obj, 'stickyNote');
+  return getBoxBoundingBox(withStickyNoteBlockSize(obj), 'stickyNote');
+}
+
+export function hitTestStickyNote(obj: WhiteboardObject, worldX: number, worldY: number): boolean {
+  return hitTestBox(withStickyNoteBlockSize(obj), 'stickyNote', worldX, worldY);
 }
@@ -1,4 +1,5 @@
-import type { WhiteboardObject, ObjectId, Point } from '../../../domain/types';
+import type { WhiteboardObject, ObjectId, Point, TextFit } from '../../../domain/types';
+import { snapPointToGrid } from '../../geometry/snapping';
 
 export type StickyNoteStartArgs = {
   pos: Point;
@@ -7,24 +8,30 @@ export type StickyNoteStartArgs = {
   fillColor?: string;
   textColor?: string;
   fontSize?: number;
+  textFit?: TextFit;
   text?: string;
   generateObjectId: () => ObjectId;
+  /** Round the insertion point to this grid (snap-to-grid). */
+  snapGridSize?: number;
 };
 
 export function createStickyNoteObject({
-  pos,
+  pos: rawPos,
   strokeColor,
   strokeWidth,
   fillColor,
   textColor,
   fontSize,
+  textFit,
   text,
   generateObjectId,
+  snapGridSize,
 }: StickyNoteStartArgs): {
   object: WhiteboardObject;
   selectIds: ObjectId[];
 } {
   const id = generateObjectId();
+  const pos = snapPointToGrid(rawPos, snapGridSize);
   const obj: WhiteboardObject = {
     id,
     type: 'stickyNote',
@@ -38,6 +45,7 @@ export function createStickyNoteObject({
     fontSize: fontSize ?? 16,
     textColor: textColor ?? strokeColor,
     text: text ?? 'Sticky note',
+    ...(textFit ? { textFit } : {}),
   };
 
   return { object: obj, selectIds: [id] };
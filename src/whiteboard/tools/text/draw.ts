@@ -1,6 +1,10 @@
 // src/whiteboard/tools/text/draw.ts
 import type { WhiteboardObject, Viewport } from '../../../domain/types';
 import { worldToCanvas } from '../../geometry';
+import { drawRotated } from '../_shared/rotation';
+import { drawTextLayout } from '../_shared/textLayout';
+import { drawOverflowIndicator } from '../_shared/textFit';
+import { getTextBlock, withTextBlockSize } from './geometry';
 
 export function drawTextObject(
   ctx: CanvasRenderingContext2D,
@@ -11,14 +15,13 @@ export function drawTextObject(
   if (obj.type !== 'text') return;
   if (!obj.text) return;
 
-  const toCanvas = (x: number, y: number) => worldToCanvas(x, y, viewport);
-
-  const fontSize = obj.fontSize ?? 18;
-  const pos = toCanvas(obj.x, obj.y);
-  ctx.font = `${fontSize}px system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif`;
-  ctx.textBaseline = 'top';
-  ctx.textAlign = 'left';
-  const textColor = obj.textColor ?? fallbackStrokeColor ?? '#e5e7eb';
-  ctx.fillStyle = textColor;
-  ctx.fillText(obj.text, pos.x, pos.y);
+  // Rotate around the measured block, the same box hit-testing and handles use.
+  drawRotated(ctx, withTextBlockSize(obj), viewport, () => {
+    const { layout, fontSize, overflowing, box } = getTextBlock(obj);
+    const zoom = viewport.zoom ?? 1;
+    const pos = worldToCanvas(obj.x, obj.y, viewport);
+    const textColor = obj.textColor ?? fallbackStrokeColor ?? '#e5e7eb';
+    drawTextLayout(ctx, layout, pos.x, pos.y, fontSize, zoom, textColor);
+    if (overflowing) drawOverflowIndicator(ctx, pos.x, pos.y, box.width * zoom, box.height * zoom, textColor, zoom);
+  });
 }
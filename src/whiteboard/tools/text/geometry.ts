@@ -1,19 +1,74 @@
 // src/whiteboard/tools/text/geometry.ts
 
+import { getTextParagraphs } from '../../../domain/richText';
 import type { WhiteboardObject, Point } from '../../../domain/types';
 import type { Bounds } from '../../geometry/types';
-import { getBoxBoundingBox, getBoxPorts } from '../_shared/boxGeometry';
+import { getBoxBoundingBox, getBoxPorts, hitTestBox } from '../_shared/boxGeometry';
+import { fitText, getTextFit, type FittedText } from '../_shared/textFit';
+
+export const DEFAULT_TEXT_FONT_SIZE = 18;
+
+export type TextBlock = FittedText & {
+  /** The unrotated box the text occupies (rotation is applied around its centre). */
+  box: Bounds;
+};
+
+// Objects are immutable, so a layout stays valid for as long as its object does.
+const blockCache = new WeakMap<WhiteboardObject, TextBlock>();
+
+/**
+ * Lay out a text object. Text wraps to `width` when it has one (otherwise each
+ * line is as wide as it measures). With the 'grow' fit the box grows downwards
+ * to fit every line and `height` only acts as a minimum; the other fits keep
+ * `height` and shrink or clip the text instead.
+ */
+export function getTextBlock(obj: WhiteboardObject): TextBlock {
+  const cached = blockCache.get(obj);
+  if (cached) return cached;
+
+  const wrapWidth = obj.width !== undefined && obj.width > 0 ? obj.width : undefined;
+  const height = obj.height ?? 0;
+  // Without a height there is nothing to fit into: the box follows the text.
+  const fit = height > 0 ? getTextFit(obj) : 'grow';
+  const fitted = fitText(getTextParagraphs(obj), obj.fontSize ?? DEFAULT_TEXT_FONT_SIZE, fit, {
+    maxWidth: wrapWidth,
+    maxHeight: height,
+  });
+  const block: TextBlock = {
+    ...fitted,
+    box: {
+      x: obj.x,
+      y: obj.y,
+      width: wrapWidth ?? fitted.layout.width,
+      height: fit === 'grow' ? Math.max(height, fitted.layout.height) : height,
+    },
+  };
+  blockCache.set(obj, block);
+  return block;
+}
+
+/** The object with its width/height replaced by the measured text block. */
+export function withTextBlockSize(obj: WhiteboardObject): WhiteboardObject {
+  const { box } = getTextBlock(obj);
+  return box.width === obj.width && box.height === obj.height
+    ? obj
+    : { ...obj, width: box.width, height: box.height };
+}
+
+export function getTextFrame(obj: WhiteboardObject): Bounds {
+  return getTextBlock(obj).box;
+}
 
 export function getTextPorts(
   obj: WhiteboardObject
 ): Array<{ portId: string; point: Point }> {
-  // In v1 the model may or may not set width/height for text.
-  // getBoxPorts preserves existing behavior (defaults to single 'center' port when w/h are missing).
-  return getBoxPorts(obj, 'text');
+  return getBoxPorts(withTextBlockSize(obj), 'text');
 }
 
 export function getTextBoundingBox(obj: WhiteboardObject): Bounds | null {
-  // In v1 the model may or may not set width/height for text. We keep the
-  // existing behavior (defaults to 0) to avoid changing selection/hit-testing.
-  return getBoxBoundingBox(obj, 'text');
+  return getBoxBoundingBox(withTextBlockSize(obj), 'text');
+}
+
+export function hitTestText(obj: WhiteboardObject, worldX: number, worldY: number): boolean {
+  return hitTestBox(withTextBlockSize(obj), 'text', worldX, worldY);
 }
@@ -1,4 +1,5 @@
-import type { WhiteboardObject, ObjectId, Point } from '../../../domain/types';
+import type { WhiteboardObject, ObjectId, Point, TextFit } from '../../../domain/types';
+import { snapPointToGrid } from '../../geometry/snapping';
 
 export type TextStartArgs = {
   pos: Point;
@@ -6,15 +7,29 @@ export type TextStartArgs = {
   strokeWidth: number;
   textColor?: string;
   fontSize?: number;
+  textFit?: TextFit;
   text?: string;
   generateObjectId: () => ObjectId;
+  /** Round the insertion point to this grid (snap-to-grid). */
+  snapGridSize?: number;
 };
 
-export function createTextObject({ pos, strokeColor, strokeWidth, textColor, fontSize, text, generateObjectId }: TextStartArgs): {
+export function createTextObject({
+  pos: rawPos,
+  strokeColor,
+  strokeWidth,
+  textColor,
+  fontSize,
+  textFit,
+  text,
+  generateObjectId,
+  snapGridSize,
+}: TextStartArgs): {
   object: WhiteboardObject;
   selectIds: ObjectId[];
 } {
   const id = generateObjectId();
+  const pos = snapPointToGrid(rawPos, snapGridSize);
   const obj: WhiteboardObject = {
     id,
     type: 'text',
@@ -27,6 +42,7 @@ export function createTextObject({ pos, strokeColor, strokeWidth, textColor, fon
     strokeWidth,
     fontSize: fontSize ?? 18,
     text: text ?? 'Text',
+    ...(textFit ? { textFit } : {}),
   };
 
   return { object: obj, selectIds: [id] };
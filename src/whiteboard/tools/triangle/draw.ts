@@ -0,0 +1,21 @@
+// src/whiteboard/tools/triangle/draw.ts
+import type { WhiteboardObject, Viewport } from '../../../domain/types';
+import type { DraftShape } from '../../drawing';
+import { drawOutlineDraft, drawOutlineShape, tracePolygon, type TraceOutline } from '../_shared/outlineShape';
+import { getTriangleOutline, getTriangleTextArea } from './geometry';
+
+const traceTriangle: TraceOutline = (ctx, box, viewport) => tracePolygon(ctx, getTriangleOutline(box), viewport);
+
+export function drawTriangleObject(
+  ctx: CanvasRenderingContext2D,
+  obj: WhiteboardObject,
+  viewport: Viewport
+): void {
+  if (obj.type !== 'triangle') return;
+  drawOutlineShape(ctx, obj, viewport, traceTriangle, getTriangleTextArea(obj));
+}
+
+/** Dashed draft preview while dragging out a new triangle. */
+export function drawTriangleDraft(ctx: CanvasRenderingContext2D, draft: DraftShape, viewport: Viewport): void {
+  drawOutlineDraft(ctx, draft, viewport, traceTriangle);
+}
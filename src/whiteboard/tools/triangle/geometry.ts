@@ -0,0 +1,40 @@
+// src/whiteboard/tools/triangle/geometry.ts
+import type { WhiteboardObject, Point } from '../../../domain/types';
+import type { Bounds } from '../../geometry/types';
+import { getBoxBoundingBox, type BoxPort } from '../_shared/boxGeometry';
+import { getOutlinePorts, hitTestOutline } from '../_shared/outlineShape';
+
+/** Isosceles triangle: apex at the top centre of the box, base along its bottom edge. */
+export function getTriangleOutline(box: Bounds): Point[] {
+  const { x, y, width: w, height: h } = box;
+  return [
+    { x: x + w / 2, y },
+    { x: x + w, y: y + h },
+    { x, y: y + h },
+  ];
+}
+
+export function getTriangleBoundingBox(obj: WhiteboardObject): Bounds | null {
+  return getBoxBoundingBox(obj, 'triangle');
+}
+
+/** Apex, base midpoint and the midpoints of both slanted sides. */
+export function getTrianglePorts(obj: WhiteboardObject): BoxPort[] {
+  return getOutlinePorts(obj, 'triangle', ({ x, y, width: w, height: h }) => [
+    { portId: 'top', point: { x: x + w / 2, y } },
+    { portId: 'right', point: { x: x + (w * 3) / 4, y: y + h / 2 } },
+    { portId: 'bottom', point: { x: x + w / 2, y: y + h } },
+    { portId: 'left', point: { x: x + w / 4, y: y + h / 2 } },
+  ]);
+}
+
+export function hitTestTriangle(obj: WhiteboardObject, worldX: number, worldY: number): boolean {
+  return hitTestOutline(obj, 'triangle', worldX, worldY, getTriangleOutline);
+}
+
+/** The largest box that fits inside: the lower half, between the midpoints of the sides. */
+export function getTriangleTextArea(obj: WhiteboardObject): Bounds {
+  const w = obj.width ?? 0;
+  const h = obj.height ?? 0;
+  return { x: obj.x + w / 4, y: obj.y + h / 2, width: w / 2, height: h / 2 };
+}
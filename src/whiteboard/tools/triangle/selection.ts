@@ -0,0 +1,5 @@
+// src/whiteboard/tools/triangle/selection.ts
+
+import { BOX_WITH_TEXT } from '../_shared/selectionCaps';
+
+export const triangleSelectionCapabilities = BOX_WITH_TEXT;
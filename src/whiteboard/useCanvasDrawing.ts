@@ -1,55 +1,251 @@
 // src/whiteboard/useCanvasDrawing.ts
-import { useEffect } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import type React from 'react';
-import type { WhiteboardObject, Viewport, ObjectId } from '../domain/types';
-import type { DraftShape } from './drawing';
-import { drawObjectsWithSelection, drawDraftShape } from './drawing';
+import type { WhiteboardObject, Viewport, ObjectId, BoardBackground } from '../domain/types';
+import type { DraftShape, EraserPreview } from './drawing';
+import {
+  drawSceneObjects,
+  drawSelectionOverlays,
+  drawDraftShape,
+  drawAlignmentGuides,
+  drawLockBadges,
+  drawMarquee,
+  drawEraserPreview,
+} from './drawing';
+import type { AlignmentGuides } from './geometry/alignment';
+import type { Bounds } from './geometry/types';
+import type { MarqueeMode } from './whiteboardTypes';
+import { drawBoardBackground } from './boardBackground';
+import type { ImageCache } from './tools/image/imageCache';
 
 type CanvasDrawingParams = {
-  canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  /** Bottom layer: committed objects, repainted only when objects/zoom/size change. */
+  sceneCanvasRef: React.RefObject<HTMLCanvasElement | null>;
+  /** Top layer: selection outlines/handles and the in-progress draft. */
+  overlayCanvasRef: React.RefObject<HTMLCanvasElement | null>;
   width: number;
   height: number;
   objects: WhiteboardObject[];
   selectedObjectIds: ObjectId[];
   viewport: Viewport;
   draft: DraftShape | null;
+  /** Smart guides of the drag in progress (overlay only). */
+  guides?: AlignmentGuides | null;
+  /** Marquee selection rectangle in progress (overlay only). */
+  marquee?: { bounds: Bounds; mode: MarqueeMode } | null;
+  /** Eraser trail and the objects it will remove (overlay only). */
+  eraser?: EraserPreview | null;
   strokeColor: string;
+  background: BoardBackground;
+  gridSize: number;
+  /** Image assets; the scene repaints whenever one finishes loading. */
+  images?: ImageCache;
 };
 
+const SCENE_BACKGROUND = '#020617';
+
+/** Idle time after the last pan step before the scene is fully repainted. */
+export const PAN_REPAINT_DELAY_MS = 120;
+
+/** Full repaints still waiting for a pan to settle, by scene canvas. */
+const pendingRepaints = new WeakMap<HTMLCanvasElement, () => void>();
+
+/**
+ * Run a pending pan repaint now, so the scene canvas shows the current viewport
+ * rather than the translated bitmap. Call before reading its pixels (e.g. export).
+ */
+export function flushSceneCanvas(canvas: HTMLCanvasElement): void {
+  pendingRepaints.get(canvas)?.();
+}
+
+/**
+ * Snapshot of the last full scene render. While only the viewport offset changes
+ * (panning), the bitmap is translated instead of re-drawing every object.
+ */
+type SceneCache = {
+  bitmap: HTMLCanvasElement;
+  objects: WhiteboardObject[];
+  viewport: Viewport;
+  width: number;
+  height: number;
+  strokeColor: string;
+  background: BoardBackground;
+  gridSize: number;
+  dpr: number;
+  images?: ImageCache;
+  /** Bumped each time an image finishes loading. */
+  imageVersion: number;
+};
+
+function prepareLayer(
+  canvas: HTMLCanvasElement,
+  width: number,
+  height: number,
+  dpr: number
+): CanvasRenderingContext2D | null {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  if (canvas.width !== width * dpr) canvas.width = width * dpr;
+  if (canvas.height !== height * dpr) canvas.height = height * dpr;
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.scale(dpr, dpr);
+  ctx.clearRect(0, 0, width, height);
+  return ctx;
+}
+
+function canTranslateCache(
+  cache: SceneCache,
+  next: Omit<SceneCache, 'bitmap'>
+): boolean {
+  return (
+    cache.objects === next.objects &&
+    cache.viewport.zoom === next.viewport.zoom &&
+    cache.width === next.width &&
+    cache.height === next.height &&
+    cache.strokeColor === next.strokeColor &&
+    cache.background === next.background &&
+    cache.gridSize === next.gridSize &&
+    cache.dpr === next.dpr &&
+    cache.images === next.images &&
+    cache.imageVersion === next.imageVersion
+  );
+}
+
+function renderScene(
+  canvas: HTMLCanvasElement,
+  previous: SceneCache | null,
+  next: Omit<SceneCache, 'bitmap'>
+): SceneCache | null {
+  const { objects, viewport, width, height, strokeColor, background, gridSize, dpr, images } = next;
+  const ctx = prepareLayer(canvas, width, height, dpr);
+  if (!ctx) return null;
+
+  ctx.fillStyle = SCENE_BACKGROUND;
+  ctx.fillRect(0, 0, width, height);
+  drawBoardBackground(ctx, viewport, width, height, background, gridSize);
+  drawSceneObjects(ctx, objects, viewport, strokeColor, { width, height }, images);
+
+  const bitmap = previous?.bitmap ?? document.createElement('canvas');
+  bitmap.width = canvas.width;
+  bitmap.height = canvas.height;
+  const bitmapCtx = bitmap.getContext('2d');
+  if (!bitmapCtx) return null;
+  bitmapCtx.drawImage(canvas, 0, 0);
+
+  return { ...next, bitmap };
+}
+
+function blitTranslatedScene(
+  canvas: HTMLCanvasElement,
+  cache: SceneCache,
+  viewport: Viewport
+): boolean {
+  const ctx = prepareLayer(canvas, cache.width, cache.height, cache.dpr);
+  if (!ctx) return false;
+
+  const zoom = viewport.zoom ?? 1;
+  const dx = ((viewport.offsetX ?? 0) - (cache.viewport.offsetX ?? 0)) * zoom;
+  const dy = ((viewport.offsetY ?? 0) - (cache.viewport.offsetY ?? 0)) * zoom;
+
+  ctx.fillStyle = SCENE_BACKGROUND;
+  ctx.fillRect(0, 0, cache.width, cache.height);
+  ctx.drawImage(cache.bitmap, dx, dy, cache.width, cache.height);
+  return true;
+}
+
 export function useCanvasDrawing({
-  canvasRef,
+  sceneCanvasRef,
+  overlayCanvasRef,
   width,
   height,
   objects,
   selectedObjectIds,
   viewport,
   draft,
-  strokeColor
+  guides,
+  marquee,
+  eraser,
+  strokeColor,
+  background,
+  gridSize,
+  images
 }: CanvasDrawingParams) {
+  const sceneCacheRef = useRef<SceneCache | null>(null);
+  const [imageVersion, setImageVersion] = useState(0);
+
+  useEffect(() => {
+    if (!images) return undefined;
+    return images.subscribe(() => setImageVersion((v) => v + 1));
+  }, [images]);
+
+  // Scene layer: objects only. Pure pans reuse the cached bitmap until things settle.
   useEffect(() => {
-    const canvas = canvasRef.current;
+    const canvas = sceneCanvasRef.current;
+    if (!canvas) return;
+
+    const next: Omit<SceneCache, 'bitmap'> = {
+      objects,
+      viewport,
+      width,
+      height,
+      strokeColor,
+      background,
+      gridSize,
+      dpr: window.devicePixelRatio || 1,
+      images,
+      imageVersion,
+    };
+    const repaint = () => {
+      sceneCacheRef.current = renderScene(canvas, sceneCacheRef.current, next);
+    };
+
+    const cache = sceneCacheRef.current;
+    if (cache && canTranslateCache(cache, next) && blitTranslatedScene(canvas, cache, viewport)) {
+      const flush = () => {
+        window.clearTimeout(timer);
+        pendingRepaints.delete(canvas);
+        repaint();
+      };
+      const timer = window.setTimeout(flush, PAN_REPAINT_DELAY_MS);
+      pendingRepaints.set(canvas, flush);
+      return () => {
+        window.clearTimeout(timer);
+        pendingRepaints.delete(canvas);
+      };
+    }
+
+    repaint();
+    return undefined;
+  }, [sceneCanvasRef, width, height, objects, viewport, strokeColor, background, gridSize, images, imageVersion]);
+
+  // Overlay layer: cheap to redraw on every selection/draft/viewport change.
+  useEffect(() => {
+    const canvas = overlayCanvasRef.current;
     if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
 
     const dpr = window.devicePixelRatio || 1;
-    canvas.width = width * dpr;
-    canvas.height = height * dpr;
+    const ctx = prepareLayer(canvas, width, height, dpr);
+    if (!ctx) return;
 
-    ctx.setTransform(1, 0, 0, 1, 0, 0);
-    ctx.scale(dpr, dpr);
+    drawLockBadges(ctx, objects, viewport, { width, height });
+    drawSelectionOverlays(ctx, objects, selectedObjectIds, viewport);
 
-    // Clear and background
-    ctx.clearRect(0, 0, width, height);
-    ctx.fillStyle = '#020617';
-    ctx.fillRect(0, 0, width, height);
+    if (guides) {
+      drawAlignmentGuides(ctx, guides, viewport);
+    }
+
+    if (marquee) {
+      drawMarquee(ctx, marquee.bounds, viewport, marquee.mode);
+    }
 
-    // Draw all objects + selection overlays
-    drawObjectsWithSelection(ctx, objects, selectedObjectIds, viewport, strokeColor);
+    if (eraser) {
+      drawEraserPreview(ctx, eraser, objects, viewport);
+    }
 
-    // Draw draft shape on top
     if (draft) {
       drawDraftShape(ctx, draft, viewport);
     }
-  }, [canvasRef, width, height, objects, selectedObjectIds, viewport, draft, strokeColor]);
-}
\ No newline at end of file
+  }, [overlayCanvasRef, width, height, objects, selectedObjectIds, viewport, draft, guides, marquee, eraser]);
+}
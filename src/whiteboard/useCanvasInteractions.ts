@@ -1,14 +1,27 @@
 // src/whiteboard/useCanvasInteractions.ts
 import { useState } from 'react';
 import type React from 'react';
-import type { WhiteboardObject, Viewport, ObjectId } from '../domain/types';
-import type { DraftShape } from './drawing';
-import type { DrawingTool } from './whiteboardTypes';
+import type { WhiteboardObject, Viewport, ObjectId, GroupId, ObjectUpdate, ErasedObject, Point } from '../domain/types';
+import type { DraftShape, EraserPreview } from './drawing';
+import type { DrawingTool, EraserSettings, MarqueeSettings } from './whiteboardTypes';
 import type { DragState } from './interactions/drag/types';
+import type { AlignmentGuides } from './geometry/alignment';
+import type { Bounds } from './geometry/types';
+import type { PathLabelEditTarget } from './textEditing';
+import { getMarqueeBounds } from './geometry/marquee';
+import { DEFAULT_ERASER_SETTINGS, getEraserRadius } from './tools/eraser/erase';
 import {
   createCanvasPointerHelpers,
+  finishEraseInteraction,
+  finishLaserInteraction,
   finishSelectInteraction,
   finishToolInteraction,
+  getPenPressure,
+  handleErasePointerDown,
+  handleErasePointerMove,
+  handleLaserPointerDown,
+  handleLaserPointerMove,
+  handleSelectDoubleClick,
   handleSelectPointerDown,
   handleSelectPointerMove,
   handleToolPointerDown,
@@ -27,20 +40,39 @@ export type CanvasInteractionsParams = {
   onCreateObject: (object: WhiteboardObject) => void;
   onSelectionChange: (selectedIds: ObjectId[]) => void;
   onUpdateObject: (objectId: ObjectId, patch: Partial<WhiteboardObject>) => void;
+  /** Several updates as one undo step (multi-object move/resize). */
+  onUpdateObjects?: (updates: ObjectUpdate[]) => void;
+  /** Everything one eraser gesture removed, as one undo step. */
+  onEraseObjects?: (erased: ErasedObject[]) => void;
+  onLaserPoint?: (pos: Point) => void;
+  onLaserEnd?: () => void;
   /** Live interaction patch (drag/resize) that should NOT create an undo step. */
   onTransientObjectPatch: (objectId: ObjectId, patch: Partial<WhiteboardObject>) => void;
   onViewportChange: (patch: Partial<Viewport>) => void;
   onCursorWorldMove?: (pos: { x: number; y: number }) => void;
   canvasWidth: number;
   canvasHeight: number;
+  /** Grid size to snap created/moved/resized objects to; undefined when snapping is off. */
+  snapGridSize?: number;
+  marqueeSettings?: MarqueeSettings;
+  eraserSettings?: EraserSettings;
+  /** Double-click on editable text opens the in-place editor for it (or for a label of a line/connector). */
+  onEditText?: (objectId: ObjectId, label?: PathLabelEditTarget) => void;
 };
 
 export type CanvasInteractionsResult = {
   draft: DraftShape | null;
+  /** Smart alignment guides for the drag in progress, if any. */
+  guides: AlignmentGuides | null;
+  /** World rectangle of the marquee selection in progress, if any. */
+  marquee: { bounds: Bounds; mode: MarqueeSettings['mode'] } | null;
+  /** Eraser gesture in progress: its trail and the objects it will erase or cut. */
+  eraser: EraserPreview | null;
   handlePointerDown: (evt: React.PointerEvent<HTMLCanvasElement>) => void;
   handlePointerMove: (evt: React.PointerEvent<HTMLCanvasElement>) => void;
   handlePointerUp: (evt: React.PointerEvent<HTMLCanvasElement>) => void;
   handlePointerLeave: (evt: React.PointerEvent<HTMLCanvasElement>) => void;
+  handleDoubleClick: (evt: React.MouseEvent<HTMLCanvasElement>) => void;
 };
 
 export function useCanvasInteractions({
@@ -54,14 +86,23 @@ export function useCanvasInteractions({
   onCreateObject,
   onSelectionChange,
   onUpdateObject,
+  onUpdateObjects,
+  onEraseObjects,
+  onLaserPoint,
+  onLaserEnd,
   onTransientObjectPatch,
   onViewportChange,
   onCursorWorldMove,
   canvasWidth,
   canvasHeight,
+  snapGridSize,
+  marqueeSettings,
+  eraserSettings,
+  onEditText,
 }: CanvasInteractionsParams): CanvasInteractionsResult {
   const [draft, setDraft] = useState<DraftShape | null>(null);
   const [drag, setDrag] = useState<DragState | null>(null);
+  const [enteredGroupId, setEnteredGroupId] = useState<GroupId | null>(null);
 
   const generateObjectId = () =>
     ('o_' +
@@ -79,6 +120,10 @@ export function useCanvasInteractions({
     onCreateObject,
     onSelectionChange,
     onUpdateObject,
+    onUpdateObjects,
+    onEraseObjects,
+    onLaserPoint,
+    onLaserEnd,
     onTransientObjectPatch,
     onViewportChange,
     onCursorWorldMove,
@@ -89,11 +134,17 @@ export function useCanvasInteractions({
       strokeWidth,
       toolProps,
       generateObjectId,
+      snapGridSize,
     },
     draft,
     drag,
     setDraft,
     setDrag,
+    enteredGroupId,
+    setEnteredGroupId,
+    marqueeSettings,
+    eraserSettings,
+    onEditText,
   };
 
   const handlePointerDown = (evt: React.PointerEvent<HTMLCanvasElement>) => {
@@ -102,7 +153,13 @@ export function useCanvasInteractions({
     const pos = pointer.getCanvasPos(evt);
     onCursorWorldMove?.(pos);
 
-    if (handleToolPointerDown(deps, pos)) {
+    // Eraser and laser are not drawing tools: they must be handled before the generic tool path.
+    if (handleErasePointerDown(deps, pos) || handleLaserPointerDown(deps, pos)) {
+      pointer.setPointerCaptureSafe(evt);
+      return;
+    }
+
+    if (handleToolPointerDown(deps, pos, getPenPressure(evt))) {
       if (activeTool !== 'select' && deps.draft !== draft) {
         // no-op: state setter already enqueued
       }
@@ -111,7 +168,10 @@ export function useCanvasInteractions({
     }
 
     const { canvasX, canvasY } = pointer.getCanvasXY(evt);
-    if (handleSelectPointerDown(deps, pos, canvasX, canvasY)) {
+    // Shift+click adds to / removes from the selection (Shift+drag adds a marquee);
+    // Alt swaps pan and marquee for a drag on empty canvas.
+    const options = { additive: evt.shiftKey, swapEmptyDrag: evt.altKey };
+    if (handleSelectPointerDown(deps, pos, canvasX, canvasY, options)) {
       pointer.setPointerCaptureSafe(evt);
     }
   };
@@ -120,18 +180,24 @@ export function useCanvasInteractions({
     const pos = pointer.getCanvasPos(evt);
     onCursorWorldMove?.(pos);
 
-    if (handleToolPointerMove(deps, pos)) return;
+    if (handleErasePointerMove(deps, pos) || handleLaserPointerMove(deps, pos)) return;
+    if (handleToolPointerMove(deps, pos, getPenPressure(evt))) return;
 
     if (!drag || activeTool !== 'select') return;
     const { canvasX, canvasY } = pointer.getCanvasXY(evt);
-    handleSelectPointerMove(deps, pos, canvasX, canvasY);
+    // Holding Ctrl/Cmd moves and resizes freely (no grid or alignment snapping);
+    // Shift snaps rotation to fixed steps.
+    handleSelectPointerMove(deps, pos, canvasX, canvasY, {
+      disableSnapping: !!(evt.ctrlKey || evt.metaKey),
+      constrain: evt.shiftKey,
+    });
   };
 
   const handlePointerUp = (evt: React.PointerEvent<HTMLCanvasElement>) => {
     const pos = pointer.getCanvasPos(evt);
     onCursorWorldMove?.(pos);
 
-    if (finishToolInteraction(deps, pos)) {
+    if (finishEraseInteraction(deps) || finishLaserInteraction(deps) || finishToolInteraction(deps, pos)) {
       pointer.releasePointerCaptureSafe(evt);
       return;
     }
@@ -145,7 +211,7 @@ export function useCanvasInteractions({
     const pos = pointer.getCanvasPos(evt);
     onCursorWorldMove?.(pos);
 
-    if (leaveToolInteraction(deps, pos)) {
+    if (finishEraseInteraction(deps) || finishLaserInteraction(deps) || leaveToolInteraction(deps, pos)) {
       pointer.releasePointerCaptureSafe(evt);
       return;
     }
@@ -155,11 +221,39 @@ export function useCanvasInteractions({
     }
   };
 
+  const handleDoubleClick = (evt: React.MouseEvent<HTMLCanvasElement>) => {
+    const pos = pointer.getCanvasPos(evt as React.PointerEvent<HTMLCanvasElement>);
+    handleSelectDoubleClick(deps, pos);
+  };
+
+  const guides = drag && (drag.kind === 'move' || drag.kind === 'resize') ? drag.guides ?? null : null;
+  const marquee =
+    drag?.kind === 'marquee'
+      ? {
+          bounds: getMarqueeBounds({ x: drag.startX, y: drag.startY }, { x: drag.currentX, y: drag.currentY }),
+          mode: drag.mode,
+        }
+      : null;
+
+  const eraser =
+    drag?.kind === 'erase'
+      ? {
+          path: drag.path,
+          touchedIds: drag.touchedIds,
+          mode: drag.mode,
+          radius: getEraserRadius(eraserSettings ?? DEFAULT_ERASER_SETTINGS, viewport.zoom),
+        }
+      : null;
+
   return {
     draft,
+    guides,
+    marquee,
+    eraser,
     handlePointerDown,
     handlePointerMove,
     handlePointerUp,
     handlePointerLeave,
+    handleDoubleClick,
   };
 }
@@ -1,10 +1,30 @@
 // src/whiteboard/whiteboardTypes.ts
-import type { WhiteboardObject, Viewport, ObjectId } from '../domain/types';
+import type { WhiteboardObject, Viewport, ObjectId, BoardSettings, ObjectUpdate, ErasedObject, Point } from '../domain/types';
 
 import type { ToolId } from './tools/registry';
+import type { ImageCache } from './tools/image/imageCache';
 
 export type DrawingTool = ToolId;
 
+/** 'contain': objects fully inside the marquee; 'touch': any object it overlaps. */
+export type MarqueeMode = 'contain' | 'touch';
+
+/** Select-tool behaviour for drags that start on empty canvas (a per-user preference). */
+export type MarqueeSettings = {
+  /** Pan the board or draw a selection marquee. Holding Alt swaps it for one drag. */
+  emptyDrag: 'pan' | 'select';
+  mode: MarqueeMode;
+};
+
+/** 'object': delete whatever the eraser touches; 'stroke': cut freehand strokes only. */
+export type EraserMode = 'object' | 'stroke';
+
+export type EraserSettings = {
+  mode: EraserMode;
+  /** Eraser diameter in screen pixels. */
+  size: number;
+};
+
 export interface WhiteboardCanvasProps {
   width: number;
   height: number;
@@ -16,13 +36,32 @@ export interface WhiteboardCanvasProps {
   strokeWidth: number;
   /** Extra per-tool settings (e.g. roundedRect.cornerRadius, text.fontSize). */
   toolProps?: Partial<WhiteboardObject>;
+  /** Background pattern and snap-to-grid settings of the board (defaults when omitted). */
+  boardSettings?: BoardSettings;
+  /** Empty-canvas drag behaviour of the Select tool (defaults when omitted). */
+  marqueeSettings?: MarqueeSettings;
+  eraserSettings?: EraserSettings;
   onCreateObject: (object: WhiteboardObject) => void;
   onSelectionChange: (selectedIds: ObjectId[]) => void;
   onUpdateObject: (objectId: ObjectId, patch: Partial<WhiteboardObject>) => void;
+  /** Several updates as one undo step; falls back to onUpdateObject per object when omitted. */
+  onUpdateObjects?: (updates: ObjectUpdate[]) => void;
+  /** One eraser gesture, applied as one undo step. */
+  onEraseObjects?: (erased: ErasedObject[]) => void;
+  /** Laser pointer position (world coords); never creates objects. */
+  onLaserPoint?: (pos: Point) => void;
+  /** The laser stroke ended (pointer released or left the canvas). */
+  onLaserEnd?: () => void;
   /** Live interaction patch (drag/resize) that should NOT create an undo step. */
   onTransientObjectPatch: (objectId: ObjectId, patch: Partial<WhiteboardObject>) => void;
   onViewportChange: (patch: Partial<Viewport>) => void;
   /** Optional: track cursor position in world coordinates (for presence). */
   onCursorWorldMove?: (pos: { x: number; y: number }) => void;
   onCanvasReady?: (canvas: HTMLCanvasElement | null) => void;
+  /** Decoded image assets for drawing image objects. */
+  images?: ImageCache;
+  /** Image files dropped onto the canvas, with the drop position (world coords). */
+  onDropFiles?: (files: File[], pos: Point) => void;
+  /** Double-click edits text and sticky notes in place (off for read-only viewers). */
+  canEditText?: boolean;
 }
\ No newline at end of file